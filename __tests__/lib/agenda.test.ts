@@ -0,0 +1,128 @@
+import {
+  agendaExportData,
+  formatAgendaDay,
+  formatSessionTime,
+  formatSessionTimes,
+  groupSessionsByDay,
+  validateSession,
+  type AgendaSession,
+} from "@/lib/agenda";
+
+const session = (id: string, overrides: Partial<AgendaSession> = {}): AgendaSession => ({
+  id,
+  title: `Session ${id}`,
+  description: null,
+  session_date: "2026-10-24",
+  start_time: "09:00:00",
+  end_time: null,
+  location: null,
+  host: null,
+  ...overrides,
+});
+
+describe("groupSessionsByDay", () => {
+  it("groups sessions by day in running order", () => {
+    const days = groupSessionsByDay([
+      session("c", { session_date: "2026-10-25", start_time: "08:00:00" }),
+      session("b", { start_time: "13:00:00" }),
+      session("a", { start_time: "07:30:00" }),
+    ]);
+
+    expect(days.map((day) => day.date)).toEqual(["2026-10-24", "2026-10-25"]);
+    expect(days[0].sessions.map((s) => s.id)).toEqual(["a", "b"]);
+    expect(days[1].sessions.map((s) => s.id)).toEqual(["c"]);
+  });
+
+  it("returns no days for an empty agenda", () => {
+    expect(groupSessionsByDay([])).toEqual([]);
+  });
+});
+
+describe("formatSessionTime", () => {
+  it("formats 24-hour times as 12-hour times", () => {
+    expect(formatSessionTime("14:30:00")).toBe("2:30 PM");
+    expect(formatSessionTime("09:05")).toBe("9:05 AM");
+  });
+
+  it("handles midnight and noon", () => {
+    expect(formatSessionTime("00:00:00")).toBe("12:00 AM");
+    expect(formatSessionTime("12:00:00")).toBe("12:00 PM");
+  });
+});
+
+describe("formatSessionTimes", () => {
+  it("shows the span when the session has an end", () => {
+    expect(formatSessionTimes({ start_time: "09:00:00", end_time: "10:30:00" })).toBe("9:00 AM – 10:30 AM");
+  });
+
+  it("shows just the start otherwise", () => {
+    expect(formatSessionTimes({ start_time: "18:00:00", end_time: null })).toBe("6:00 PM");
+  });
+});
+
+describe("formatAgendaDay", () => {
+  it("names the weekday and date", () => {
+    expect(formatAgendaDay("2026-10-24")).toBe("Saturday, October 24");
+  });
+});
+
+describe("validateSession", () => {
+  const event = { start_date: "2026-10-24", end_date: "2026-10-26" };
+
+  it("accepts a complete session within the event", () => {
+    expect(validateSession(session("a", { end_time: "10:00" }), event)).toBeNull();
+  });
+
+  it("requires a title, day and start time", () => {
+    expect(validateSession(session("a", { title: "  " }))).toBe("Enter a title for the session.");
+    expect(validateSession(session("a", { session_date: "" }))).toBe("Choose the day of the session.");
+    expect(validateSession(session("a", { start_time: "" }))).toBe("Enter a start time.");
+  });
+
+  it("rejects sessions that end before they start", () => {
+    expect(validateSession(session("a", { start_time: "10:00", end_time: "09:30" }))).toBe(
+      "The session must end after it starts."
+    );
+    expect(validateSession(session("a", { start_time: "10:00", end_time: "10:00" }))).toBe(
+      "The session must end after it starts."
+    );
+  });
+
+  it("rejects sessions outside the event's dates", () => {
+    expect(validateSession(session("a", { session_date: "2026-10-23" }), event)).toBe(
+      "The session must fall within the event's dates."
+    );
+    expect(validateSession(session("a", { session_date: "2026-10-27" }), event)).toBe(
+      "The session must fall within the event's dates."
+    );
+  });
+});
+
+describe("agendaExportData", () => {
+  it("lists sessions in running order with readable days and times", () => {
+    const { columns, data } = agendaExportData([
+      session("b", { title: "Trail Ride", start_time: "13:00:00", end_time: "15:00:00", location: "Corral" }),
+      session("a", { title: "Breakfast", start_time: "07:30:00", host: "Kitchen Staff" }),
+    ]);
+
+    expect(columns.map((c) => c.key)).toEqual(["day", "time", "title", "location", "host", "description"]);
+    expect(data).toEqual([
+      {
+        day: "Saturday, October 24",
+        time: "7:30 AM",
+        title: "Breakfast",
+        location: null,
+        host: "Kitchen Staff",
+        description: null,
+      },
+      {
+        day: "Saturday, October 24",
+        time: "1:00 PM – 3:00 PM",
+        title: "Trail Ride",
+        location: "Corral",
+        host: null,
+        description: null,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,90 @@
+import { buildAuditSearchFilter, formatAuditValue, getAuditActionLabel, getAuditChanges } from "@/lib/audit";
+
+describe("getAuditChanges", () => {
+  it("lists every field of an inserted row as added", () => {
+    expect(
+      getAuditChanges({
+        action: "insert",
+        old_values: null,
+        new_values: { name: "Spring Tour", id: "e1" },
+        changed_fields: null,
+      })
+    ).toEqual([
+      { field: "id", before: undefined, after: "e1" },
+      { field: "name", before: undefined, after: "Spring Tour" },
+    ]);
+  });
+
+  it("lists every field of a deleted row as removed", () => {
+    expect(
+      getAuditChanges({
+        action: "delete",
+        old_values: { id: "v1", first_name: "Ada" },
+        new_values: null,
+        changed_fields: null,
+      })
+    ).toEqual([
+      { field: "first_name", before: "Ada", after: undefined },
+      { field: "id", before: "v1", after: undefined },
+    ]);
+  });
+
+  it("uses the recorded changed fields for updates and skips updated_at", () => {
+    expect(
+      getAuditChanges({
+        action: "update",
+        old_values: { id: "v1", email: "old@example.com", updated_at: "2026-01-01" },
+        new_values: { id: "v1", email: "new@example.com", updated_at: "2026-01-02" },
+        changed_fields: ["updated_at", "email"],
+      })
+    ).toEqual([{ field: "email", before: "old@example.com", after: "new@example.com" }]);
+  });
+
+  it("derives changed fields when they were not recorded", () => {
+    expect(
+      getAuditChanges({
+        action: "update",
+        old_values: { id: "v1", phone: null, tags: ["a"] },
+        new_values: { id: "v1", phone: "555", tags: ["a"] },
+        changed_fields: null,
+      })
+    ).toEqual([{ field: "phone", before: null, after: "555" }]);
+  });
+});
+
+describe("formatAuditValue", () => {
+  it("formats missing, null, object and scalar values", () => {
+    expect(formatAuditValue(undefined)).toBe("");
+    expect(formatAuditValue(null)).toBe("—");
+    expect(formatAuditValue({ a: 1 })).toBe('{"a":1}');
+    expect(formatAuditValue(true)).toBe("true");
+  });
+});
+
+describe("buildAuditSearchFilter", () => {
+  it("returns null for an empty term", () => {
+    expect(buildAuditSearchFilter("")).toBeNull();
+  });
+
+  it("matches the label, row id and actor email with quotes escaped", () => {
+    expect(buildAuditSearchFilter('a"b')).toBe(
+      'row_label.ilike."*a\\"b*",row_id.ilike."*a\\"b*",actor_email.ilike."*a\\"b*"'
+    );
+  });
+});
+
+describe("getAuditActionLabel", () => {
+  it("names soft deletes and restores", () => {
+    expect(
+      getAuditActionLabel({ action: "update", new_values: { deleted_at: "2026-10-19T10:00:00Z" }, changed_fields: ["deleted_at", "deleted_by"] })
+    ).toBe("Moved to Trash");
+    expect(
+      getAuditActionLabel({ action: "update", new_values: { deleted_at: null }, changed_fields: ["deleted_at", "deleted_by"] })
+    ).toBe("Restored");
+  });
+
+  it("falls back to the action label", () => {
+    expect(getAuditActionLabel({ action: "update", new_values: { name: "x" }, changed_fields: ["name"] })).toBe("Updated");
+    expect(getAuditActionLabel({ action: "delete", new_values: null, changed_fields: null })).toBe("Deleted");
+  });
+});
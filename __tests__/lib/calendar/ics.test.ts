@@ -0,0 +1,133 @@
+import {
+  buildCalendar,
+  escapeText,
+  eventEntry,
+  foldLine,
+  sessionEntry,
+  zonedTimeToUtc,
+  type CalendarEvent,
+} from "@/lib/calendar/ics";
+import type { AgendaSession } from "@/lib/agenda";
+
+const event: CalendarEvent = {
+  id: "e1",
+  name: "Fall Retreat",
+  description: "Three days at the ranch",
+  location: "West Creek Ranch, MT",
+  start_date: "2026-10-24",
+  end_date: "2026-10-26",
+};
+
+const session: AgendaSession = {
+  id: "s1",
+  title: "Trail Ride",
+  description: "Meet at the corral",
+  session_date: "2026-10-24",
+  start_time: "09:00:00",
+  end_time: "11:30:00",
+  location: "Corral",
+  host: "Sam",
+};
+
+const now = new Date("2026-10-01T12:00:00Z");
+
+describe("escapeText", () => {
+  it("escapes backslashes, separators and newlines", () => {
+    expect(escapeText("a\\b; c, d\ne")).toBe("a\\\\b\\; c\\, d\\ne");
+  });
+});
+
+describe("foldLine", () => {
+  it("leaves short lines alone", () => {
+    expect(foldLine("SUMMARY:Trail Ride")).toBe("SUMMARY:Trail Ride");
+  });
+
+  it("folds long lines at 75 octets", () => {
+    const folded = foldLine("DESCRIPTION:" + "x".repeat(200));
+    const lines = folded.split("\r\n");
+    expect(lines.length).toBe(3);
+    lines.forEach((line) => expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75));
+    expect(lines.slice(1).every((line) => line.startsWith(" "))).toBe(true);
+    expect(folded.replace(/\r\n /g, "")).toBe("DESCRIPTION:" + "x".repeat(200));
+  });
+
+  it("never splits a multi-byte character", () => {
+    const folded = foldLine("SUMMARY:" + "é".repeat(60));
+    expect(folded.replace(/\r\n /g, "")).toBe("SUMMARY:" + "é".repeat(60));
+    folded.split("\r\n").forEach((line) => expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75));
+  });
+});
+
+describe("zonedTimeToUtc", () => {
+  it("converts ranch time to UTC in daylight and standard time", () => {
+    expect(zonedTimeToUtc("2026-07-01", "09:00:00", "America/Denver").toISOString()).toBe("2026-07-01T15:00:00.000Z");
+    expect(zonedTimeToUtc("2026-12-01", "09:00", "America/Denver").toISOString()).toBe("2026-12-01T16:00:00.000Z");
+  });
+
+  it("uses the offset in force on the day of a daylight saving change", () => {
+    // Clocks go back at 2:00 AM on November 1, 2026
+    expect(zonedTimeToUtc("2026-11-01", "09:00", "America/Denver").toISOString()).toBe("2026-11-01T16:00:00.000Z");
+  });
+});
+
+describe("eventEntry", () => {
+  it("spans the event's dates as an all-day entry", () => {
+    expect(eventEntry(event)).toMatchObject({
+      uid: "event-e1@westcreekranch",
+      summary: "Fall Retreat",
+      start: { date: "2026-10-24" },
+      end: { date: "2026-10-27" },
+      location: "West Creek Ranch, MT",
+    });
+  });
+
+  it("treats an event without an end date as a single day", () => {
+    expect(eventEntry({ ...event, end_date: null })?.end).toEqual({ date: "2026-10-25" });
+  });
+
+  it("skips events without dates", () => {
+    expect(eventEntry({ ...event, start_date: null })).toBeNull();
+  });
+});
+
+describe("sessionEntry", () => {
+  it("places the session at its ranch time", () => {
+    const entry = sessionEntry(session, event);
+    expect(entry.start).toEqual({ dateTime: new Date("2026-10-24T15:00:00Z") });
+    expect(entry.end).toEqual({ dateTime: new Date("2026-10-24T17:30:00Z") });
+    expect(entry.description).toBe("Meet at the corral\n\nHost: Sam\n\nPart of Fall Retreat");
+  });
+
+  it("has no end when the session has no set end", () => {
+    expect(sessionEntry({ ...session, end_time: null }, event).end).toBeUndefined();
+  });
+});
+
+describe("buildCalendar", () => {
+  it("builds a calendar with CRLF line endings", () => {
+    const ics = buildCalendar({
+      name: "Fall Retreat",
+      entries: [eventEntry(event)!, sessionEntry(session, event)],
+      now,
+    });
+
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n")).toBe(true);
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(ics).toContain("DTSTART;VALUE=DATE:20261024\r\nDTEND;VALUE=DATE:20261027\r\n");
+    expect(ics).toContain("DTSTART:20261024T150000Z\r\nDTEND:20261024T173000Z\r\n");
+    expect(ics).toContain("DTSTAMP:20261001T120000Z");
+    expect(ics).toContain("LOCATION:West Creek Ranch\\, MT");
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+    expect(ics).not.toContain("REFRESH-INTERVAL");
+  });
+
+  it("marks cancelled visits", () => {
+    const ics = buildCalendar({ name: "Visits", entries: [eventEntry(event, { cancelled: true })!], now });
+    expect(ics).toContain("STATUS:CANCELLED");
+  });
+
+  it("asks subscribers to refresh", () => {
+    const ics = buildCalendar({ name: "Visits", entries: [], now, subscription: true });
+    expect(ics).toContain("REFRESH-INTERVAL;VALUE=DURATION:PT1H");
+  });
+});
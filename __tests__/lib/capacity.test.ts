@@ -0,0 +1,41 @@
+import { formatCapacity, summarizeCapacity, summarizeCapacityCounts } from "@/lib/capacity";
+
+describe("summarizeCapacity", () => {
+  const statuses = ["invited", "accepted", "confirmed", "declined", "waitlisted", "waitlisted", "cancelled"];
+
+  it("counts only invited, accepted and confirmed visitors against capacity", () => {
+    expect(summarizeCapacity(5, statuses)).toEqual({
+      capacity: 5,
+      taken: 3,
+      remaining: 2,
+      waitlisted: 2,
+      isFull: false,
+    });
+  });
+
+  it("reports a full event", () => {
+    expect(summarizeCapacity(3, statuses)).toMatchObject({ remaining: 0, isFull: true });
+  });
+
+  it("never reports negative places when an event is over capacity", () => {
+    expect(summarizeCapacity(2, statuses)).toMatchObject({ taken: 3, remaining: 0, isFull: true });
+  });
+
+  it("treats a missing capacity as unlimited", () => {
+    expect(summarizeCapacity(null, statuses)).toMatchObject({ remaining: null, isFull: false });
+  });
+});
+
+describe("summarizeCapacityCounts", () => {
+  it("matches the summary built from statuses", () => {
+    expect(summarizeCapacityCounts(5, 3, 2)).toEqual(summarizeCapacity(5, ["invited", "accepted", "confirmed", "waitlisted", "waitlisted"]));
+    expect(summarizeCapacityCounts(2, 3, 0)).toMatchObject({ remaining: 0, isFull: true });
+  });
+});
+
+describe("formatCapacity", () => {
+  it("shows places taken out of capacity", () => {
+    expect(formatCapacity(summarizeCapacity(20, ["invited", "confirmed"]))).toBe("2 / 20");
+    expect(formatCapacity(summarizeCapacity(null, ["invited"]))).toBe("1");
+  });
+});
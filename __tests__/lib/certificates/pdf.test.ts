@@ -0,0 +1,67 @@
+import {
+  formatCertificateTimestamp,
+  renderCertificates,
+  type CertificateData,
+} from "@/lib/certificates/pdf";
+import { sha256Hex } from "@/lib/certificates/hash";
+
+// 1x1 transparent PNG
+const SIGNATURE_PNG = Uint8Array.from(
+  atob("iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=="),
+  (char) => char.charCodeAt(0)
+);
+
+const certificate = (overrides: Partial<CertificateData> = {}): CertificateData => ({
+  confirmationId: "confirmation-1",
+  documentName: "Safety Waiver",
+  versionNumber: 2,
+  visitorName: "Ada Lovelace",
+  eventName: "Fall Retreat",
+  eventDate: "2026-10-21",
+  signedAt: "2026-10-20T14:05:09.123Z",
+  fileSha256: "ab".repeat(32),
+  signerName: null,
+  signatureMethod: null,
+  consentText: null,
+  signatureImage: null,
+  ...overrides,
+});
+
+const pageCount = (bytes: Uint8Array) =>
+  (new TextDecoder("latin1").decode(bytes).match(/\/Type \/Page\b(?!s)/g) || []).length;
+
+describe("sha256Hex", () => {
+  it("hex encodes the digest", async () => {
+    expect(await sha256Hex(new TextEncoder().encode("abc"))).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+    );
+  });
+});
+
+describe("formatCertificateTimestamp", () => {
+  it("prints UTC to the second", () => {
+    expect(formatCertificateTimestamp("2026-10-20T14:05:09.123Z")).toBe("2026-10-20 14:05:09 UTC");
+  });
+});
+
+describe("renderCertificates", () => {
+  it("renders a PDF with a page per certificate", () => {
+    const bytes = renderCertificates([
+      certificate(),
+      certificate({
+        confirmationId: "confirmation-2",
+        signerName: "Ada Lovelace",
+        signatureMethod: "drawn",
+        consentText: "I agree.",
+        signatureImage: SIGNATURE_PNG,
+      }),
+    ]);
+
+    expect(String.fromCharCode(...bytes.slice(0, 5))).toBe("%PDF-");
+    expect(pageCount(bytes)).toBe(2);
+  });
+
+  it("renders a certificate whose file hash is unavailable", () => {
+    expect(pageCount(renderCertificates([certificate({ fileSha256: null, eventDate: null })]))).toBe(1);
+  });
+});
@@ -0,0 +1,75 @@
+import { canCheckIn, findExactMatches, getAttendanceStatus, summarizeAttendance, type AttendanceRecord } from "@/lib/check-in";
+
+const record = (overrides: Partial<AttendanceRecord>): AttendanceRecord => ({
+  rsvp_status: "confirmed",
+  arrived_at: null,
+  departed_at: null,
+  ...overrides,
+});
+
+describe("getAttendanceStatus", () => {
+  it("treats visitors without an arrival as expected", () => {
+    expect(getAttendanceStatus(record({}))).toBe("expected");
+  });
+
+  it("marks arrived visitors as on site until they depart", () => {
+    expect(getAttendanceStatus(record({ arrived_at: "2026-10-19T15:00:00Z" }))).toBe("on_site");
+    expect(
+      getAttendanceStatus(record({ arrived_at: "2026-10-19T15:00:00Z", departed_at: "2026-10-21T10:00:00Z" }))
+    ).toBe("departed");
+  });
+
+  it("ignores a departure without an arrival", () => {
+    expect(getAttendanceStatus(record({ departed_at: "2026-10-21T10:00:00Z" }))).toBe("expected");
+  });
+});
+
+describe("summarizeAttendance", () => {
+  it("counts assigned, confirmed and attendance", () => {
+    const summary = summarizeAttendance([
+      record({ rsvp_status: "invited" }),
+      record({}),
+      record({ arrived_at: "2026-10-19T15:00:00Z" }),
+      record({ rsvp_status: "invited", arrived_at: "2026-10-19T16:00:00Z" }),
+      record({ arrived_at: "2026-10-19T15:00:00Z", departed_at: "2026-10-21T10:00:00Z" }),
+    ]);
+
+    expect(summary).toEqual({ assigned: 5, confirmed: 3, arrived: 3, departed: 1, onSite: 2 });
+  });
+
+  it("returns zeros for an empty event", () => {
+    expect(summarizeAttendance([])).toEqual({ assigned: 0, confirmed: 0, arrived: 0, departed: 0, onSite: 0 });
+  });
+});
+
+describe("canCheckIn", () => {
+  it("lets visitors holding a place check in", () => {
+    ["invited", "accepted", "confirmed"].forEach((rsvp_status) => expect(canCheckIn(record({ rsvp_status }))).toBe(true));
+  });
+
+  it("turns away declined, cancelled and waitlisted visitors", () => {
+    ["declined", "cancelled", "waitlisted", null].forEach((rsvp_status) =>
+      expect(canCheckIn(record({ rsvp_status }))).toBe(false)
+    );
+  });
+});
+
+describe("findExactMatches", () => {
+  const rows = [
+    { visitor_id: "V-1", visitor: { first_name: "Ada", last_name: "Lovelace", email: "ada@example.com" } },
+    { visitor_id: "V-2", visitor: { first_name: "Adam", last_name: "Smith", email: null } },
+    { visitor_id: "V-3", visitor: null },
+  ];
+
+  it("matches the visitor id, email or full name", () => {
+    expect(findExactMatches(rows, "v-3")).toEqual([rows[2]]);
+    expect(findExactMatches(rows, " ADA@example.com ")).toEqual([rows[0]]);
+    expect(findExactMatches(rows, "adam smith")).toEqual([rows[1]]);
+  });
+
+  it("ignores partial matches", () => {
+    expect(findExactMatches(rows, "ada")).toEqual([]);
+    expect(findExactMatches(rows, "V-")).toEqual([]);
+    expect(findExactMatches(rows, " ")).toEqual([]);
+  });
+});
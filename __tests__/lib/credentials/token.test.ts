@@ -0,0 +1,100 @@
+import {
+  decodeCredential,
+  findOutdatedDocuments,
+  importSigningKey,
+  importVerifyKey,
+  signCredential,
+  toPublicJwk,
+  verifyCredential,
+  type CredentialPayload,
+} from "@/lib/credentials/token";
+
+const payload: CredentialPayload = {
+  v: 1,
+  visitorId: "visitor-1",
+  visitorName: "Ada Lovelace",
+  eventId: "event-1",
+  documents: { "doc-safety": "safety-v2", "doc-medical": "medical-v1" },
+  issuedAt: "2026-10-19T15:00:00.000Z",
+};
+
+const generateJwk = async () => {
+  const pair = await crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, true, ["sign", "verify"]);
+  return crypto.subtle.exportKey("jwk", pair.privateKey);
+};
+
+describe("credential tokens", () => {
+  let token: string;
+  let verifyKey: CryptoKey;
+
+  beforeAll(async () => {
+    const jwk = await generateJwk();
+    token = await signCredential(payload, await importSigningKey(jwk));
+    verifyKey = await importVerifyKey(jwk);
+  });
+
+  it("round-trips the payload", () => {
+    expect(decodeCredential(token)).toEqual(payload);
+  });
+
+  it("accepts a credential covering every current document", async () => {
+    const result = await verifyCredential(token, verifyKey, "event-1", payload.documents, ["visitor-1"]);
+    expect(result).toEqual({ valid: true, payload });
+  });
+
+  it("rejects a credential once a required document has a newer version", async () => {
+    const result = await verifyCredential(token, verifyKey, "event-1", {
+      "doc-safety": "safety-v3",
+      "doc-medical": "medical-v1",
+    }, ["visitor-1"]);
+    expect(result.valid).toBe(false);
+    expect(result.valid ? "" : result.reason).toMatch(/1 required document has not been confirmed/);
+  });
+
+  it("rejects a credential once the visitor is no longer admitted", async () => {
+    const result = await verifyCredential(token, verifyKey, "event-1", payload.documents, ["visitor-2"]);
+    expect(result).toEqual({ valid: false, reason: "Credential has been revoked", payload });
+  });
+
+  it("rejects a credential for another event", async () => {
+    const result = await verifyCredential(token, verifyKey, "event-2", payload.documents, ["visitor-1"]);
+    expect(result).toMatchObject({ valid: false, reason: "Credential is for a different event" });
+  });
+
+  it("rejects a tampered payload", async () => {
+    const [, signature] = token.split(".");
+    const forged = Buffer.from(JSON.stringify({ ...payload, visitorId: "visitor-2" })).toString("base64url");
+    const result = await verifyCredential(`${forged}.${signature}`, verifyKey, "event-1", payload.documents, ["visitor-1"]);
+    expect(result).toEqual({ valid: false, reason: "Signature is invalid" });
+  });
+
+  it("rejects credentials signed with a different key", async () => {
+    const otherKey = await importVerifyKey(await generateJwk());
+    const result = await verifyCredential(token, otherKey, "event-1", payload.documents, ["visitor-1"]);
+    expect(result).toEqual({ valid: false, reason: "Signature is invalid" });
+  });
+
+  it("rejects input that is not a credential", async () => {
+    const result = await verifyCredential("ada@example.com", verifyKey, "event-1", payload.documents, ["visitor-1"]);
+    expect(result).toEqual({ valid: false, reason: "Not a visitor credential" });
+  });
+});
+
+describe("findOutdatedDocuments", () => {
+  it("lists required documents missing or at an older version", () => {
+    expect(
+      findOutdatedDocuments(payload, { "doc-safety": "safety-v2", "doc-medical": "medical-v2", "doc-food": "food-v1" })
+    ).toEqual(["doc-medical", "doc-food"]);
+  });
+
+  it("ignores confirmed documents that are no longer required", () => {
+    expect(findOutdatedDocuments(payload, { "doc-safety": "safety-v2" })).toEqual([]);
+  });
+});
+
+describe("toPublicJwk", () => {
+  it("drops the private key", async () => {
+    const jwk = await generateJwk();
+    expect(toPublicJwk(jwk)).toEqual({ kty: "EC", crv: "P-256", x: jwk.x, y: jwk.y });
+  });
+});
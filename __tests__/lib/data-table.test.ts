@@ -0,0 +1,63 @@
+import { getPageCount, getPageRange, toSearchQuery, toggleSort } from "@/lib/data-table";
+
+describe("getPageRange", () => {
+  it("returns inclusive row offsets", () => {
+    expect(getPageRange(1, 25)).toEqual([0, 24]);
+    expect(getPageRange(3, 50)).toEqual([100, 149]);
+  });
+
+  it("treats pages below 1 as the first page", () => {
+    expect(getPageRange(0, 25)).toEqual([0, 24]);
+  });
+});
+
+describe("getPageCount", () => {
+  it("rounds up and always has at least one page", () => {
+    expect(getPageCount(51, 25)).toBe(3);
+    expect(getPageCount(50, 25)).toBe(2);
+    expect(getPageCount(0, 25)).toBe(1);
+  });
+});
+
+describe("toggleSort", () => {
+  const sort = [
+    { column: "last_name", ascending: true },
+    { column: "first_name", ascending: true },
+  ];
+
+  it("makes a clicked column the only sort", () => {
+    expect(toggleSort(sort, "email")).toEqual([{ column: "email", ascending: true }]);
+  });
+
+  it("flips a column that is already sorted", () => {
+    expect(toggleSort(sort, "last_name")).toEqual([{ column: "last_name", ascending: false }]);
+  });
+
+  it("appends or flips a column when adding", () => {
+    expect(toggleSort(sort, "email", true)).toEqual([...sort, { column: "email", ascending: true }]);
+    expect(toggleSort(sort, "first_name", true)).toEqual([
+      { column: "last_name", ascending: true },
+      { column: "first_name", ascending: false },
+    ]);
+  });
+});
+
+describe("toSearchQuery", () => {
+  it("requires every word as a prefix", () => {
+    expect(toSearchQuery("Ann Lee")).toBe("ann:* & lee:*");
+  });
+
+  it("splits on punctuation like the search vectors do", () => {
+    expect(toSearchQuery("ann@example.com")).toBe("ann:* & example:* & com:*");
+    expect(toSearchQuery("O'Neil")).toBe("o:* & neil:*");
+  });
+
+  it("keeps accented letters", () => {
+    expect(toSearchQuery("José")).toBe("josé:*");
+  });
+
+  it("returns null when there is nothing to search", () => {
+    expect(toSearchQuery("  ")).toBeNull();
+    expect(toSearchQuery("&|!")).toBeNull();
+  });
+});
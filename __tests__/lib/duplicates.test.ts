@@ -0,0 +1,73 @@
+import { findDuplicateVisitors, nameSimilarity, type DedupeVisitor } from "@/lib/duplicates";
+
+const visitor = (id: string, first_name: string, last_name: string, email: string | null = null, phone: string | null = null): DedupeVisitor => ({
+  id,
+  first_name,
+  last_name,
+  email,
+  phone,
+});
+
+describe("nameSimilarity", () => {
+  it("ignores case, spaces and punctuation", () => {
+    expect(nameSimilarity("Mary-Ann O'Neil", "maryann oneil")).toBe(1);
+  });
+
+  it("falls with each edit", () => {
+    expect(nameSimilarity("Smith", "Smyth")).toBeCloseTo(0.8);
+    expect(nameSimilarity("Smith", "Jones")).toBeLessThan(0.5);
+  });
+});
+
+describe("findDuplicateVisitors", () => {
+  it("matches emails regardless of case, dots and +tags", () => {
+    const pairs = findDuplicateVisitors([
+      visitor("1", "Ann", "Lee", "Ann.Lee@example.com"),
+      visitor("2", "Annabel", "Leigh", "annlee+events@example.com"),
+      visitor("3", "Ann", "Lee", "ANN.LEE@example.com"),
+    ]);
+    const reasons = Object.fromEntries(pairs.map((p) => [`${p.a.id}-${p.b.id}`, p.reasons]));
+    expect(reasons["1-3"]).toEqual(["same_email", "same_name"]);
+    expect(reasons["1-2"]).toEqual(["similar_email"]);
+  });
+
+  it("matches phone numbers by their digits", () => {
+    const [pair] = findDuplicateVisitors([
+      visitor("1", "Bo", "Ray", null, "555-123-4567"),
+      visitor("2", "Robert", "Ray", null, "+1 (555) 123 4567"),
+    ]);
+    expect(pair.reasons).toEqual(["same_phone"]);
+  });
+
+  it("matches similar names and shortened first names", () => {
+    const pairs = findDuplicateVisitors([
+      visitor("1", "Jon", "Smith"),
+      visitor("2", "Jonathan", "Smith"),
+      visitor("3", "John", "Smith"),
+    ]);
+    expect(pairs.map((p) => [p.a.id, p.b.id, p.reasons])).toEqual(
+      expect.arrayContaining([
+        ["1", "2", ["similar_name"]],
+        ["1", "3", ["similar_name"]],
+      ])
+    );
+  });
+
+  it("doesn't pair visitors who only share a first or last name", () => {
+    expect(findDuplicateVisitors([
+      visitor("1", "Mary", "Smith", "mary@example.com"),
+      visitor("2", "Peter", "Smith", "peter@example.com"),
+      visitor("3", "Mary", "Jones"),
+    ])).toEqual([]);
+  });
+
+  it("lists the strongest matches first", () => {
+    const pairs = findDuplicateVisitors([
+      visitor("1", "Cy", "Ng", "cy@example.com", "555-000-1111"),
+      visitor("2", "Cy", "Ng", "cy@example.com", "555-000-1111"),
+      visitor("3", "Cyd", "Ng"),
+    ]);
+    expect(pairs[0].reasons).toEqual(["same_email", "same_phone", "same_name"]);
+    expect(pairs[0].score).toBeGreaterThan(pairs[pairs.length - 1].score);
+  });
+});
@@ -0,0 +1,284 @@
+import {
+  cleanAnswers,
+  createField,
+  fileAnswerName,
+  formatAnswer,
+  formResponsesExportData,
+  formUploadPath,
+  isFieldVisible,
+  isOwnUpload,
+  normalizeFields,
+  parseFormAnswers,
+  parseFormFields,
+  validateAnswer,
+  validateAnswers,
+  validateFile,
+  validateFormDefinition,
+  visibleFields,
+  type FormField,
+} from "@/lib/forms";
+
+const field = (overrides: Partial<FormField> & Pick<FormField, "id" | "type">): FormField => ({
+  label: `Question ${overrides.id}`,
+  required: false,
+  ...overrides,
+});
+
+const flying = field({ id: "flying", type: "yes_no", required: true });
+const airport = field({
+  id: "airport",
+  type: "choice",
+  options: ["BZN", "MSO"],
+  required: true,
+  showIf: { fieldId: "flying", value: "yes" },
+});
+const flight = field({ id: "flight", type: "text", showIf: { fieldId: "airport", value: "BZN" } });
+const fields = [flying, airport, flight];
+
+describe("createField", () => {
+  it("starts choice fields with no options", () => {
+    expect(createField("choice")).toMatchObject({ type: "choice", label: "", required: false, options: [] });
+    expect(createField("text").options).toBeUndefined();
+    expect(createField("text").id).not.toBe(createField("text").id);
+  });
+});
+
+describe("parsing stored JSON", () => {
+  it("skips fields that aren't well formed", () => {
+    expect(parseFormFields([flying, { id: "x", type: "slider", label: "?" }, null, "text"])).toEqual([flying]);
+    expect(parseFormFields({})).toEqual([]);
+  });
+
+  it("keeps only answers of known shapes", () => {
+    expect(parseFormAnswers({ a: "x", b: ["y"], c: true, d: null, e: 3, f: [1] })).toEqual({
+      a: "x",
+      b: ["y"],
+      c: true,
+      d: null,
+    });
+    expect(parseFormAnswers([])).toEqual({});
+  });
+});
+
+describe("conditional visibility", () => {
+  it("shows a field when the earlier answer matches", () => {
+    expect(isFieldVisible(airport, fields, { flying: true })).toBe(true);
+    expect(isFieldVisible(airport, fields, { flying: false })).toBe(false);
+    expect(isFieldVisible(airport, fields, {})).toBe(false);
+  });
+
+  it("hides fields that depend on a hidden field", () => {
+    expect(visibleFields(fields, { flying: true, airport: "BZN" }).map((f) => f.id)).toEqual([
+      "flying",
+      "airport",
+      "flight",
+    ]);
+    // The airport answer stays behind after changing to not flying
+    expect(visibleFields(fields, { flying: false, airport: "BZN" }).map((f) => f.id)).toEqual(["flying"]);
+  });
+
+  it("matches multiple choice and text answers", () => {
+    const interests = field({ id: "interests", type: "choice", multiple: true, options: ["Fishing", "Riding"] });
+    const gear = field({ id: "gear", type: "text", showIf: { fieldId: "interests", value: "Fishing" } });
+    expect(isFieldVisible(gear, [interests, gear], { interests: ["Riding", "Fishing"] })).toBe(true);
+
+    const shirt = field({ id: "shirt", type: "text" });
+    const size = field({ id: "size", type: "text", showIf: { fieldId: "shirt", value: "Yes please" } });
+    expect(isFieldVisible(size, [shirt, size], { shirt: "  yes PLEASE " })).toBe(true);
+  });
+});
+
+describe("validateAnswer", () => {
+  it("requires answers to required fields", () => {
+    expect(validateAnswer(flying, undefined)).toBe("This question is required.");
+    expect(validateAnswer(flying, false)).toBeNull();
+    expect(validateAnswer(flight, "")).toBeNull();
+  });
+
+  it("checks text length", () => {
+    const text = field({ id: "t", type: "text", minLength: 3, maxLength: 5 });
+    expect(validateAnswer(text, "ab")).toBe("Enter at least 3 characters.");
+    expect(validateAnswer(text, "abcdef")).toBe("Enter no more than 5 characters.");
+    expect(validateAnswer(text, " abc ")).toBeNull();
+  });
+
+  it("checks choices against the options", () => {
+    expect(validateAnswer(airport, "GTF")).toBe("Choose from the options listed.");
+    expect(validateAnswer(airport, ["BZN", "MSO"])).toBe("Choose one option.");
+    expect(validateAnswer({ ...airport, multiple: true }, ["BZN", "MSO"])).toBeNull();
+  });
+
+  it("checks dates against the allowed range", () => {
+    const date = field({ id: "d", type: "date", minDate: "2026-11-01", maxDate: "2026-11-05" });
+    expect(validateAnswer(date, "soon")).toBe("Enter a date.");
+    expect(validateAnswer(date, "2026-10-31")).toBe("Enter a date on or after 2026-11-01.");
+    expect(validateAnswer(date, "2026-11-06")).toBe("Enter a date on or before 2026-11-05.");
+    expect(validateAnswer(date, "2026-11-03")).toBeNull();
+  });
+
+  it("rejects answers of the wrong shape", () => {
+    expect(validateAnswer(flying, "yes")).toBe("Answer yes or no.");
+    expect(validateAnswer(field({ id: "f", type: "file" }), true)).toBe("Upload a file.");
+  });
+});
+
+describe("validateAnswers", () => {
+  it("validates only the fields that are shown", () => {
+    expect(validateAnswers(fields, { flying: false })).toEqual({});
+    expect(validateAnswers(fields, { flying: true })).toEqual({ airport: "This question is required." });
+  });
+});
+
+describe("cleanAnswers", () => {
+  it("drops answers to hidden fields and trims text", () => {
+    expect(cleanAnswers(fields, { flying: true, airport: "BZN", flight: " DL 1234 " })).toEqual({
+      flying: true,
+      airport: "BZN",
+      flight: "DL 1234",
+    });
+    expect(cleanAnswers(fields, { flying: false, airport: "BZN", flight: "DL 1234" })).toEqual({ flying: false });
+  });
+});
+
+describe("validateFile", () => {
+  const upload = field({ id: "passport", type: "file", accept: [".pdf", ".jpg"], maxSizeMb: 1 });
+
+  it("checks the extension and size", () => {
+    expect(validateFile(upload, { name: "scan.PDF", size: 1000 })).toBeNull();
+    expect(validateFile(upload, { name: "scan.png", size: 1000 })).toBe("Upload a .pdf, .jpg file.");
+    expect(validateFile(upload, { name: "scan.pdf", size: 2 * 1024 * 1024 })).toBe("The file must be 1 MB or smaller.");
+  });
+
+  it("accepts any type up to the default size", () => {
+    const any = field({ id: "any", type: "file" });
+    expect(validateFile(any, { name: "notes.txt", size: 5 * 1024 * 1024 })).toBeNull();
+    expect(validateFile(any, { name: "video.mov", size: 20 * 1024 * 1024 })).toBe("The file must be 10 MB or smaller.");
+  });
+});
+
+describe("isOwnUpload", () => {
+  it("accepts the visitor's uploads for the form", () => {
+    expect(isOwnUpload(formUploadPath("visitor-1", "form-1", "scan.pdf", 1), "visitor-1", "form-1")).toBe(true);
+  });
+
+  it("rejects other visitors' and other forms' uploads", () => {
+    expect(isOwnUpload("visitor-2/form-1/1-scan.pdf", "visitor-1", "form-1")).toBe(false);
+    expect(isOwnUpload("visitor-1/form-2/1-scan.pdf", "visitor-1", "form-1")).toBe(false);
+    expect(isOwnUpload("visitor-1/form-1/../../visitor-2/form-1/1-scan.pdf", "visitor-1", "form-1")).toBe(false);
+  });
+});
+
+describe("normalizeFields", () => {
+  it("trims text and drops blank options", () => {
+    const [normalized] = normalizeFields([
+      field({ id: "c", type: "choice", label: " Size ", helpText: " ", options: [" S", "", "M ", "  "] }),
+    ]);
+    expect(normalized).toEqual({ id: "c", type: "choice", label: "Size", required: false, options: ["S", "M"] });
+  });
+
+  it("drops settings that don't apply to the type", () => {
+    const [normalized] = normalizeFields([
+      field({ id: "t", type: "text", options: ["S"], multiple: true, maxLength: 20, minDate: "2026-01-01" }),
+    ]);
+    expect(normalized).toEqual({ id: "t", type: "text", label: "Question t", required: false, maxLength: 20 });
+  });
+
+  it("tidies allowed file extensions", () => {
+    const [normalized] = normalizeFields([field({ id: "f", type: "file", accept: ["PDF", " .jpg", ""] })]);
+    expect(normalized.accept).toEqual([".pdf", ".jpg"]);
+  });
+});
+
+describe("validateFormDefinition", () => {
+  it("accepts a valid form", () => {
+    expect(validateFormDefinition("Travel", fields)).toBeNull();
+  });
+
+  it("requires a name, questions and labels", () => {
+    expect(validateFormDefinition(" ", fields)).toBe("Enter a name for the form.");
+    expect(validateFormDefinition("Travel", [])).toBe("Add at least one question.");
+    expect(validateFormDefinition("Travel", [{ ...flying, label: "" }])).toBe("Question 1 needs a label.");
+  });
+
+  it("requires distinct options for choices", () => {
+    expect(validateFormDefinition("Travel", [{ ...airport, options: [], showIf: undefined }])).toBe(
+      "Question 1 needs options to choose from."
+    );
+    expect(validateFormDefinition("Travel", [{ ...airport, options: ["BZN", "BZN"], showIf: undefined }])).toBe(
+      "Question 1 lists an option twice."
+    );
+  });
+
+  it("checks ranges", () => {
+    expect(validateFormDefinition("T", [field({ id: "t", type: "text", minLength: 9, maxLength: 3 })])).toBe(
+      "Question 1 has a minimum length above its maximum."
+    );
+    expect(
+      validateFormDefinition("T", [field({ id: "d", type: "date", minDate: "2026-12-01", maxDate: "2026-11-01" })])
+    ).toBe("Question 1 has an earliest date after its latest.");
+  });
+
+  it("only allows conditions on earlier questions", () => {
+    expect(validateFormDefinition("Travel", [airport, flying])).toBe(
+      "Question 1 depends on a question that doesn't come before it."
+    );
+    expect(validateFormDefinition("Travel", [flying, { ...airport, showIf: { fieldId: "airport", value: "BZN" } }])).toBe(
+      "Question 2 depends on a question that doesn't come before it."
+    );
+  });
+
+  it("checks the condition's answer", () => {
+    expect(validateFormDefinition("Travel", [flying, airport, { ...flight, showIf: { fieldId: "airport", value: "GTF" } }])).toBe(
+      "Question 3 depends on an option that question doesn't have."
+    );
+    expect(validateFormDefinition("Travel", [flying, { ...airport, showIf: { fieldId: "flying", value: "" } }])).toBe(
+      "Question 2 needs an answer to depend on."
+    );
+    const upload = field({ id: "f", type: "file" });
+    expect(validateFormDefinition("Travel", [upload, { ...flight, showIf: { fieldId: "f", value: "x" } }])).toBe(
+      "Question 2 can't depend on a file upload question."
+    );
+  });
+});
+
+describe("formatAnswer", () => {
+  it("formats each type of answer", () => {
+    expect(formatAnswer(flying, true)).toBe("Yes");
+    expect(formatAnswer(flying, false)).toBe("No");
+    expect(formatAnswer({ ...airport, multiple: true }, ["BZN", "MSO"])).toBe("BZN, MSO");
+    expect(formatAnswer(field({ id: "f", type: "file" }), "v1/form/1760000000000-passport.pdf")).toBe("passport.pdf");
+    expect(formatAnswer(flight, undefined)).toBe("");
+  });
+
+  it("strips the upload timestamp from file names", () => {
+    expect(fileAnswerName("v1/form/1760000000000-my-1-file.pdf")).toBe("my-1-file.pdf");
+  });
+
+  it("stores uploads under the visitor and form", () => {
+    const path = formUploadPath("v1", "form", "My Passport (1).pdf", 1760000000000);
+    expect(path).toBe("v1/form/1760000000000-My_Passport_1_.pdf");
+    expect(fileAnswerName(path)).toBe("My_Passport_1_.pdf");
+  });
+});
+
+describe("formResponsesExportData", () => {
+  it("exports a column per question after the visitor details", () => {
+    const { columns, data } = formResponsesExportData(fields, [
+      {
+        visitorName: "Sam Smith",
+        email: "sam@example.com",
+        submittedAt: "2026-10-19T16:00:00Z",
+        answers: { flying: true, airport: "BZN" },
+      },
+    ]);
+    expect(columns.map((c) => c.label)).toEqual(["Visitor", "Email", "Submitted", "Question flying", "Question airport", "Question flight"]);
+    expect(data[0]).toEqual({
+      visitor: "Sam Smith",
+      email: "sam@example.com",
+      submitted_at: "2026-10-19T16:00:00Z",
+      field_flying: "Yes",
+      field_airport: "BZN",
+      field_flight: "",
+    });
+  });
+});
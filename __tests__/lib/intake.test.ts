@@ -0,0 +1,121 @@
+import {
+  EMPTY_MEDICAL_ANSWERS,
+  describeAllergies,
+  describeEmergencyContact,
+  describeFoodAllergies,
+  dietaryAnswersFromForm,
+  dietaryFormValues,
+  medicalFormValues,
+  medicalSummaryExportData,
+  toggleOption,
+  validateMedicalAnswers,
+  type MedicalAnswers,
+  type MedicalSummaryRow,
+} from "@/lib/intake";
+
+const answers = (overrides: Partial<MedicalAnswers> = {}): MedicalAnswers => ({
+  ...EMPTY_MEDICAL_ANSWERS,
+  emergency_contact_name: "Jane Doe",
+  emergency_contact_phone: "406-555-0100",
+  ...overrides,
+});
+
+describe("toggleOption", () => {
+  it("adds and removes options", () => {
+    expect(toggleOption(["vegan"], "kosher")).toEqual(["vegan", "kosher"]);
+    expect(toggleOption(["vegan", "kosher"], "vegan")).toEqual(["kosher"]);
+  });
+});
+
+describe("validateMedicalAnswers", () => {
+  it("accepts answers with an emergency contact", () => {
+    expect(validateMedicalAnswers(answers())).toBeNull();
+  });
+
+  it("requires an emergency contact and phone number", () => {
+    expect(validateMedicalAnswers(answers({ emergency_contact_name: " " }))).toBe("Enter an emergency contact.");
+    expect(validateMedicalAnswers(answers({ emergency_contact_phone: "" }))).toBe(
+      "Enter a phone number for your emergency contact."
+    );
+  });
+
+  it("rejects phone numbers that are too short", () => {
+    expect(validateMedicalAnswers(answers({ emergency_contact_phone: "555-01" }))).toBe(
+      "Enter a full phone number for your emergency contact."
+    );
+  });
+});
+
+describe("form values", () => {
+  it("trims free text and stores blanks as null", () => {
+    expect(medicalFormValues(answers({ medications: "  Insulin ", conditions: "  " }))).toMatchObject({
+      medications: "Insulin",
+      conditions: null,
+      emergency_contact_name: "Jane Doe",
+    });
+    expect(dietaryFormValues({ restrictions: ["vegan"], allergens: [], allergy_notes: " ", notes: "" })).toEqual({
+      restrictions: ["vegan"],
+      allergens: [],
+      allergy_notes: null,
+      notes: null,
+    });
+  });
+
+  it("drops options no longer offered when loading a saved form", () => {
+    expect(
+      dietaryAnswersFromForm({ restrictions: ["vegan", "paleo"], allergens: ["sesame", "celery"], allergy_notes: null, notes: null })
+    ).toEqual({ restrictions: ["vegan"], allergens: ["sesame"], allergy_notes: "", notes: "" });
+  });
+});
+
+describe("describeFoodAllergies", () => {
+  it("lists allergens with any notes", () => {
+    expect(describeFoodAllergies({ allergens: ["peanuts", "tree_nuts"], allergy_notes: "severe" })).toBe(
+      "Peanuts, Tree Nuts (severe)"
+    );
+    expect(describeFoodAllergies({ allergens: [], allergy_notes: "Kiwi" })).toBe("Kiwi");
+    expect(describeFoodAllergies({ allergens: [], allergy_notes: null })).toBe("");
+  });
+});
+
+describe("medical summary", () => {
+  const completed: MedicalSummaryRow = {
+    visitorId: "v1",
+    visitorName: "Sam Smith",
+    medical: medicalFormValues(
+      answers({ allergies: "Penicillin", carries_epinephrine: true, emergency_contact_relationship: "Spouse" })
+    ),
+    foodAllergies: "Peanuts",
+  };
+  const missing: MedicalSummaryRow = { visitorId: "v2", visitorName: "Alex Lee", medical: null, foodAllergies: "" };
+
+  it("describes the emergency contact", () => {
+    expect(describeEmergencyContact(completed.medical!)).toBe("Jane Doe (Spouse) 406-555-0100");
+  });
+
+  it("combines food and other allergies", () => {
+    expect(describeAllergies(completed)).toBe("Food: Peanuts; Penicillin; Carries epinephrine");
+    expect(describeAllergies(missing)).toBe("");
+  });
+
+  it("exports a row per visitor, flagging missing forms", () => {
+    const { columns, data } = medicalSummaryExportData([completed, missing]);
+    expect(columns.map((c) => c.key)).toEqual([
+      "visitor",
+      "emergency_contact",
+      "allergies",
+      "medications",
+      "conditions",
+      "mobility_needs",
+    ]);
+    expect(data[0]).toMatchObject({ visitor: "Sam Smith", emergency_contact: "Jane Doe (Spouse) 406-555-0100" });
+    expect(data[1]).toEqual({
+      visitor: "Alex Lee",
+      emergency_contact: "Form not completed",
+      allergies: "",
+      medications: null,
+      conditions: null,
+      mobility_needs: null,
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { composeNotification, sendPendingNotifications } from "@/lib/notifications";
+import type { MailMessage } from "@/lib/mail";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+const context = {
+  visitor: { first_name: "Ada", email: "ada@example.com" },
+  event: { name: "Fall Retreat", start_date: "2026-11-02", end_date: "2026-11-05" },
+};
+
+describe("composeNotification", () => {
+  it("tells a promoted visitor their place has opened up", () => {
+    const message = composeNotification("waitlist_promoted", context);
+    expect(message.subject).toBe("A place has opened up: Fall Retreat");
+    expect(message.text).toContain("Hello Ada,");
+    expect(message.text).toContain("Fall Retreat (November 2, 2026 to November 5, 2026)");
+  });
+});
+
+describe("sendPendingNotifications", () => {
+  it("sends pending notifications and records the outcome", async () => {
+    const updates: Record<string, unknown>[] = [];
+    const pending = [
+      { id: "n1", kind: "waitlist_promoted", ...context },
+      { id: "n2", kind: "waitlist_promoted", ...context, visitor: { first_name: "Grace", email: null } },
+    ];
+    const supabase = {
+      from: () => ({
+        select: () => ({
+          eq: () => ({ order: () => ({ limit: async () => ({ data: pending, error: null }) }) }),
+        }),
+        update: (values: Record<string, unknown>) => ({
+          eq: async (_column: string, id: string) => {
+            updates.push({ id, ...values });
+            return { error: null };
+          },
+        }),
+      }),
+    } as unknown as SupabaseClient;
+    const sent: MailMessage[] = [];
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const result = await sendPendingNotifications(supabase, { send: async (message) => { sent.push(message); } });
+
+    expect(result).toEqual({ sent: 1, failed: 1 });
+    expect(sent.map((m) => m.to)).toEqual(["ada@example.com"]);
+    expect(updates).toEqual([
+      expect.objectContaining({ id: "n1", status: "sent", error: null }),
+      expect.objectContaining({ id: "n2", status: "failed", error: "Visitor has no email address" }),
+    ]);
+  });
+});
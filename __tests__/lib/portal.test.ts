@@ -0,0 +1,43 @@
+import { formatDocumentStatus, getDocumentStatus } from "@/lib/portal";
+
+const required = { "doc-1": "v2", "doc-2": "v5" };
+
+describe("getDocumentStatus", () => {
+  it("counts confirmations at the current version", () => {
+    expect(getDocumentStatus(required, [
+      { document_id: "doc-1", document_version_id: "v2" },
+      { document_id: "doc-2", document_version_id: "v5" },
+    ])).toEqual({ required: 2, confirmed: 2, outdated: 0 });
+  });
+
+  it("counts confirmations of replaced versions as outdated", () => {
+    expect(getDocumentStatus(required, [
+      { document_id: "doc-1", document_version_id: "v1" },
+    ])).toEqual({ required: 2, confirmed: 0, outdated: 1 });
+  });
+
+  it("counts a document confirmed at several versions once", () => {
+    const confirmations = [
+      { document_id: "doc-1", document_version_id: "v1" },
+      { document_id: "doc-1", document_version_id: "v2" },
+      { document_id: "doc-2", document_version_id: "v5" },
+    ];
+    expect(getDocumentStatus(required, confirmations)).toEqual({ required: 2, confirmed: 2, outdated: 0 });
+    expect(getDocumentStatus(required, [...confirmations].reverse())).toEqual({ required: 2, confirmed: 2, outdated: 0 });
+  });
+
+  it("ignores confirmations of documents that aren't required", () => {
+    expect(getDocumentStatus({}, [
+      { document_id: "doc-9", document_version_id: "v1" },
+    ])).toEqual({ required: 0, confirmed: 0, outdated: 0 });
+  });
+});
+
+describe("formatDocumentStatus", () => {
+  it("describes progress through the required documents", () => {
+    expect(formatDocumentStatus({ required: 0, confirmed: 0, outdated: 0 })).toBe("None required");
+    expect(formatDocumentStatus({ required: 2, confirmed: 2, outdated: 0 })).toBe("Complete");
+    expect(formatDocumentStatus({ required: 3, confirmed: 1, outdated: 0 })).toBe("1 of 3 confirmed");
+    expect(formatDocumentStatus({ required: 3, confirmed: 1, outdated: 1 })).toBe("1 of 3 confirmed (1 outdated)");
+  });
+});
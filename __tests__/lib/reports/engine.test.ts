@@ -0,0 +1,122 @@
+import {
+  buildSearchFilter,
+  dayAfter,
+  parseReportOptions,
+  parseSort,
+  runReport,
+  MAX_PAGE_SIZE,
+} from "@/lib/reports/engine";
+import { MAX_ROWS_PER_REQUEST } from "@/lib/data-table";
+import type { ReportClient, ReportDefinition } from "@/lib/reports/types";
+import { visitorsByEvent } from "@/lib/reports/definitions/visitors-by-event";
+
+describe("parseSort", () => {
+  it("parses multiple columns with directions", () => {
+    expect(parseSort("event_date:desc,visitor_name:asc", visitorsByEvent.columns)).toEqual([
+      { key: "event_date", ascending: false },
+      { key: "visitor_name", ascending: true },
+    ]);
+  });
+
+  it("drops unknown columns", () => {
+    expect(parseSort("visitor_id:asc,email", visitorsByEvent.columns)).toEqual([
+      { key: "email", ascending: true },
+    ]);
+  });
+
+  it("returns an empty list when no sort is given", () => {
+    expect(parseSort(null, visitorsByEvent.columns)).toEqual([]);
+  });
+});
+
+describe("parseReportOptions", () => {
+  it("falls back to defaults", () => {
+    const options = parseReportOptions(new URLSearchParams(), visitorsByEvent);
+    expect(options.page).toBe(1);
+    expect(options.sort).toEqual(visitorsByEvent.defaultSort);
+    expect(options.all).toBe(false);
+  });
+
+  it("caps the page size", () => {
+    const options = parseReportOptions(new URLSearchParams({ pageSize: "100000" }), visitorsByEvent);
+    expect(options.pageSize).toBe(MAX_PAGE_SIZE);
+  });
+
+  it("ignores malformed dates", () => {
+    const options = parseReportOptions(
+      new URLSearchParams({ startDate: "2026-01-01", endDate: "tomorrow" }),
+      visitorsByEvent
+    );
+    expect(options.params.startDate).toBe("2026-01-01");
+    expect(options.params.endDate).toBeUndefined();
+  });
+});
+
+describe("buildSearchFilter", () => {
+  it("matches the term against every searchable column", () => {
+    const filter = buildSearchFilter(visitorsByEvent.columns, "smith");
+    expect(filter).toContain('visitor_name.ilike."*smith*"');
+    expect(filter).toContain('email.ilike."*smith*"');
+    expect(filter).not.toContain("event_date");
+  });
+
+  it("quotes characters that would break the filter", () => {
+    expect(buildSearchFilter([{ key: "name", label: "Name", searchable: true }], 'a,"b"')).toBe(
+      'name.ilike."*a,\\"b\\"*"'
+    );
+  });
+
+  it("returns an empty filter for an empty term", () => {
+    expect(buildSearchFilter(visitorsByEvent.columns, "")).toBeNull();
+  });
+});
+
+describe("dayAfter", () => {
+  it("moves to the next day across month and year ends", () => {
+    expect(dayAfter("2026-10-19")).toBe("2026-10-20");
+    expect(dayAfter("2026-02-28")).toBe("2026-03-01");
+    expect(dayAfter("2026-12-31")).toBe("2027-01-01");
+  });
+});
+
+describe("runReport", () => {
+  // Serves `total` rows, never more than the server's max-rows at a time
+  const fakeClient = (total: number, ranges: [number, number][]) => {
+    const builder = {
+      order: () => builder,
+      or: () => builder,
+      range: (from: number, to: number) => {
+        ranges.push([from, to]);
+        const end = Math.min(to + 1, total, from + MAX_ROWS_PER_REQUEST);
+        const data = Array.from({ length: Math.max(end - from, 0) }, (_, i) => ({ n: from + i }));
+        return { overrideTypes: async () => ({ data, count: total, error: null }) };
+      },
+    };
+    return { from: () => ({ select: () => builder }) } as unknown as ReportClient;
+  };
+
+  const definition = { ...visitorsByEvent, query: (query) => query } satisfies ReportDefinition;
+  const options = { params: {}, search: "", sort: [], page: 1, pageSize: 50, all: true };
+
+  it("pages an export through every row in max-rows chunks", async () => {
+    const ranges: [number, number][] = [];
+    const result = await runReport(fakeClient(2500, ranges), definition, options);
+
+    expect(result.total).toBe(2500);
+    expect(result.data).toHaveLength(2500);
+    expect(result.data[2499]).toEqual({ n: 2499 });
+    expect(ranges).toEqual([
+      [0, 999],
+      [1000, 1999],
+      [2000, 2999],
+    ]);
+  });
+
+  it("fetches a single page when not exporting", async () => {
+    const ranges: [number, number][] = [];
+    const result = await runReport(fakeClient(2500, ranges), definition, { ...options, page: 3, all: false });
+
+    expect(result.data).toHaveLength(50);
+    expect(ranges).toEqual([[100, 149]]);
+  });
+});
@@ -0,0 +1,136 @@
+import ExcelJS from "exceljs";
+import { describeFilters, exportFilename, exportReport, headerLines, type ExportContext } from "@/lib/reports/export";
+import { buildReportWorkbook } from "@/lib/reports/export/xlsx";
+
+const result = {
+  columns: [
+    { key: "visitor_name", label: "Visitor Name" },
+    { key: "event_date", label: "Event Date", type: "date" as const },
+    { key: "status", label: "Status" },
+  ],
+  data: [
+    { visitor_name: "Ada Lovelace", event_date: "2026-10-21", status: "confirmed" },
+    { visitor_name: "Turing, Alan", event_date: "2026-10-21", status: null },
+  ],
+};
+
+const context: ExportContext = {
+  reportName: "Visitors by Event",
+  filters: [{ label: "Organization", value: "Acme" }],
+  generatedAt: new Date(2026, 9, 19, 14, 30),
+};
+
+describe("headerLines", () => {
+  it("includes the report name, run timestamp and filters", () => {
+    const [title, generated, filters] = headerLines(context);
+    expect(title).toBe("Visitors by Event");
+    expect(generated).toMatch(/^Generated: Oct 19, 2026/);
+    expect(filters).toBe("Filters: Organization: Acme");
+  });
+
+  it("says when no filters are applied", () => {
+    expect(headerLines({ ...context, filters: [] })[2]).toBe("Filters: None");
+  });
+});
+
+describe("describeFilters", () => {
+  it("uses names where available", () => {
+    expect(
+      describeFilters(
+        { startDate: "2026-01-01", organizationId: "org-1", eventId: "event-1" },
+        "smith",
+        { organizations: { "org-1": "Acme" } }
+      )
+    ).toEqual([
+      { label: "Dates", value: "from 2026-01-01" },
+      { label: "Organization", value: "Acme" },
+      { label: "Event", value: "event-1" },
+      { label: "Search", value: '"smith"' },
+    ]);
+  });
+});
+
+describe("exportFilename", () => {
+  it("uses the report name, MMDDYYYY date and format extension", () => {
+    expect(exportFilename("Document Confirmations", "pdf", new Date(2026, 9, 19))).toBe(
+      "Document_Confirmations_10192026.pdf"
+    );
+  });
+});
+
+describe("exportReport", () => {
+  it("renders CSV with a commented header and quoted values", async () => {
+    const file = await exportReport("csv", result, context);
+    const lines = (file.content as string).trim().split("\r\n");
+
+    expect(file.mimeType).toBe("text/csv");
+    expect(lines[0]).toBe("# Visitors by Event");
+    expect(lines[2]).toBe("# Filters: Organization: Acme");
+    expect(lines[3]).toBe("Visitor Name,Event Date,Status");
+    expect(lines[5]).toBe('"Turing, Alan",2026-10-21,');
+  });
+
+  it("keeps spreadsheets from running values as formulas", async () => {
+    const file = await exportReport(
+      "csv",
+      {
+        columns: [
+          { key: "name", label: "Name" },
+          { key: "count", label: "Count", type: "number" as const },
+        ],
+        data: [
+          { name: '=HYPERLINK("http://example.com")', count: -2 },
+          { name: "+1 555 0100", count: 0 },
+          { name: "-x", count: 1 },
+          { name: "@SUM(A1)", count: 1 },
+        ],
+      },
+      context
+    );
+    const lines = (file.content as string).trim().split("\r\n");
+
+    expect(lines.slice(4)).toEqual([
+      `"'=HYPERLINK(""http://example.com"")",-2`,
+      "'+1 555 0100,0",
+      "'-x,1",
+      "'@SUM(A1),1",
+    ]);
+  });
+
+  it("renders JSON with metadata and one object per row", async () => {
+    const file = await exportReport("json", result, context);
+    const parsed = JSON.parse(file.content as string);
+
+    expect(parsed.report).toBe("Visitors by Event");
+    expect(parsed.generatedAt).toBe(context.generatedAt.toISOString());
+    expect(parsed.filters).toEqual(context.filters);
+    expect(parsed.rows[1]).toEqual({ visitor_name: "Turing, Alan", event_date: "2026-10-21", status: null });
+  });
+
+  it("renders a PDF document", async () => {
+    const file = await exportReport("pdf", result, context);
+    const bytes = file.content as Uint8Array;
+
+    expect(file.filename).toBe("Visitors_by_Event_10192026.pdf");
+    expect(String.fromCharCode(...bytes.slice(0, 5))).toBe("%PDF-");
+  });
+
+  it("renders an Excel workbook that can be read back", async () => {
+    const file = await exportReport("xlsx", result, context);
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load((file.content as Uint8Array<ArrayBuffer>).buffer);
+
+    expect(workbook.getWorksheet("Visitors by Event")?.getCell("A1").value).toBe("Visitors by Event");
+  });
+});
+
+describe("buildReportWorkbook", () => {
+  it("writes the header block, then the table", () => {
+    const worksheet = buildReportWorkbook(result, context).getWorksheet("Visitors by Event");
+
+    expect(worksheet?.getCell("A3").value).toBe("Filters: Organization: Acme");
+    expect(worksheet?.getRow(5).values).toEqual([undefined, "Visitor Name", "Event Date", "Status"]);
+    expect(worksheet?.getRow(6).getCell(1).value).toBe("Ada Lovelace");
+    expect(worksheet?.getRow(7).getCell(3).value).toBe("");
+  });
+});
@@ -0,0 +1,79 @@
+import { addDays, getDueDeliveries, startOfWeek, type ReportSubscription } from "@/lib/reports/scheduler";
+
+const subscription = (overrides: Partial<ReportSubscription>): ReportSubscription => ({
+  id: "sub-1",
+  profile_id: "admin-1",
+  report_id: "visitors-by-event",
+  schedule: "weekly",
+  days_before: 3,
+  params: {},
+  email: "coordinator@example.com",
+  is_active: true,
+  ...overrides,
+});
+
+const events = [
+  { id: "event-1", name: "Spring Retreat", start_date: "2026-10-21" },
+  { id: "event-2", name: "Fall Retreat", start_date: "2026-11-30" },
+];
+
+// 2026-10-19 is a Monday
+const MONDAY = "2026-10-19";
+const TUESDAY = "2026-10-20";
+
+describe("addDays", () => {
+  it("adds days across month boundaries", () => {
+    expect(addDays("2026-10-30", 3)).toBe("2026-11-02");
+  });
+});
+
+describe("startOfWeek", () => {
+  it("finds the Monday of the week", () => {
+    expect(startOfWeek(MONDAY)).toBe(MONDAY);
+    expect(startOfWeek(TUESDAY)).toBe(MONDAY);
+    expect(startOfWeek("2026-10-25")).toBe(MONDAY);
+    expect(startOfWeek("2026-11-01")).toBe("2026-10-26");
+  });
+});
+
+describe("getDueDeliveries", () => {
+  it("sends weekly subscriptions once a week", () => {
+    expect(getDueDeliveries([subscription({})], events, new Set(), MONDAY)).toEqual([
+      expect.objectContaining({ key: `weekly:${MONDAY}`, event: null }),
+    ]);
+    const sent = new Set([`sub-1:weekly:${MONDAY}`]);
+    expect(getDueDeliveries([subscription({})], events, sent, TUESDAY)).toEqual([]);
+  });
+
+  it("catches up a weekly report whose Monday run was missed", () => {
+    expect(getDueDeliveries([subscription({})], events, new Set(), TUESDAY)).toEqual([
+      expect.objectContaining({ key: `weekly:${MONDAY}` }),
+    ]);
+  });
+
+  it("sends before-event subscriptions for events inside the window", () => {
+    const due = getDueDeliveries([subscription({ schedule: "before_event" })], events, new Set(), TUESDAY);
+    expect(due).toHaveLength(1);
+    expect(due[0].event?.id).toBe("event-1");
+    expect(due[0].key).toBe("event:event-1");
+  });
+
+  it("skips deliveries that were already sent", () => {
+    const sent = new Set(["sub-1:event:event-1"]);
+    expect(getDueDeliveries([subscription({ schedule: "before_event" })], events, sent, TUESDAY)).toEqual([]);
+  });
+
+  it("limits before-event deliveries to the subscribed event", () => {
+    const due = getDueDeliveries(
+      [subscription({ schedule: "before_event", days_before: 60, params: { eventId: "event-2" } })],
+      events,
+      new Set(),
+      TUESDAY
+    );
+    expect(due.map((d) => d.event?.id)).toEqual(["event-2"]);
+  });
+
+  it("ignores paused subscriptions", () => {
+    expect(getDueDeliveries([subscription({ is_active: false })], events, new Set(), MONDAY)).toEqual([]);
+  });
+});
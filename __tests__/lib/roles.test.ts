@@ -0,0 +1,71 @@
+import { canAccess, getAreaForPath, getHomePath, isStaffRole, STAFF_ROLES } from "@/lib/roles";
+
+describe("isStaffRole", () => {
+  it("accepts every staff role and rejects anything else", () => {
+    STAFF_ROLES.forEach((role) => expect(isStaffRole(role)).toBe(true));
+    expect(isStaffRole("visitor")).toBe(false);
+    expect(isStaffRole(null)).toBe(false);
+  });
+});
+
+describe("canAccess", () => {
+  it("gives admins every area", () => {
+    expect(canAccess("admin", "organizations", "write")).toBe(true);
+    expect(canAccess("admin", "audit")).toBe(true);
+  });
+
+  it("limits coordinators to events and visitors", () => {
+    expect(canAccess("coordinator", "events", "write")).toBe(true);
+    expect(canAccess("coordinator", "visitors", "write")).toBe(true);
+    expect(canAccess("coordinator", "documents")).toBe(false);
+    expect(canAccess("coordinator", "dashboard")).toBe(false);
+  });
+
+  it("limits document managers to documents and document types", () => {
+    expect(canAccess("document_manager", "documents", "write")).toBe(true);
+    expect(canAccess("document_manager", "document_types", "write")).toBe(true);
+    expect(canAccess("document_manager", "events")).toBe(false);
+  });
+
+  it("lets viewers read but not change the dashboard and reports", () => {
+    expect(canAccess("viewer", "dashboard")).toBe(true);
+    expect(canAccess("viewer", "reports")).toBe(true);
+    expect(canAccess("viewer", "dashboard", "write")).toBe(false);
+    expect(canAccess("viewer", "visitors")).toBe(false);
+  });
+
+  it("limits liaisons to visitors", () => {
+    expect(canAccess("liaison", "visitors", "write")).toBe(true);
+    expect(canAccess("liaison", "events")).toBe(false);
+    expect(canAccess("liaison", "audit")).toBe(false);
+  });
+
+  it("denies a missing role", () => {
+    expect(canAccess(null, "dashboard")).toBe(false);
+  });
+});
+
+describe("getAreaForPath", () => {
+  it("matches the longest area path", () => {
+    expect(getAreaForPath("/admin/dashboard")).toBe("dashboard");
+    expect(getAreaForPath("/admin/dashboard/reports")).toBe("reports");
+    expect(getAreaForPath("/admin/events/abc/check-in")).toBe("events");
+    expect(getAreaForPath("/admin/document-types")).toBe("document_types");
+    expect(getAreaForPath("/admin/forms/abc/responses")).toBe("forms");
+  });
+
+  it("does not match on a shared prefix", () => {
+    expect(getAreaForPath("/admin/documents-archive")).toBeNull();
+    expect(getAreaForPath("/admin")).toBeNull();
+  });
+});
+
+describe("getHomePath", () => {
+  it("sends each role to its first area", () => {
+    expect(getHomePath("admin")).toBe("/admin/dashboard");
+    expect(getHomePath("viewer")).toBe("/admin/dashboard");
+    expect(getHomePath("coordinator")).toBe("/admin/events");
+    expect(getHomePath("document_manager")).toBe("/admin/documents");
+    expect(getHomePath("liaison")).toBe("/admin/visitors");
+  });
+});
@@ -0,0 +1,130 @@
+import ExcelJS from "exceljs";
+import {
+  buildRosterTemplate,
+  formatRosterEventLabel,
+  parseRoster,
+  ROSTER_HEADERS,
+  RosterFormatError,
+  stageRosterRows,
+  type RosterRow,
+} from "@/lib/roster";
+
+const organizations = [{ id: "org-1", name: "Acme Corp" }];
+const event = { id: "event-1", name: "Spring Hunt", start_date: "2026-04-10T12:00:00Z" };
+
+async function rosterBuffer(rows: string[][], headers = ROSTER_HEADERS, sheetName = "Visitors") {
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet(sheetName);
+  worksheet.addRow(headers);
+  rows.forEach((row) => worksheet.addRow(row));
+  return (await workbook.xlsx.writeBuffer()) as ArrayBuffer;
+}
+
+describe("formatRosterEventLabel", () => {
+  it("adds the start date to the event name", () => {
+    expect(formatRosterEventLabel(event)).toBe("Spring Hunt (Apr 10, 2026)");
+    expect(formatRosterEventLabel({ ...event, start_date: null })).toBe("Spring Hunt ()");
+  });
+});
+
+describe("parseRoster", () => {
+  it("reads a blank template back with no rows", async () => {
+    const buffer = (await buildRosterTemplate(organizations, [event])) as ArrayBuffer;
+    const result = await parseRoster(buffer, organizations, [event]);
+    expect(result).toEqual({ total: 0, rows: [], errors: [] });
+  });
+
+  it("matches organizations and events by name, ignoring case", async () => {
+    const buffer = await rosterBuffer([
+      ["Ann", "Lee", "ann@example.com", "555-123-4567", "acme corp", "spring hunt (apr 10, 2026)"],
+    ]);
+    const result = await parseRoster(buffer, organizations, [event]);
+    expect(result.errors).toEqual([]);
+    expect(result.rows).toEqual([
+      {
+        row: 2,
+        firstName: "Ann",
+        lastName: "Lee",
+        email: "ann@example.com",
+        phone: "555-123-4567",
+        companyId: "org-1",
+        eventId: "event-1",
+      },
+    ]);
+  });
+
+  it("reports each invalid row and skips empty ones", async () => {
+    const label = formatRosterEventLabel(event);
+    const buffer = await rosterBuffer([
+      ["Ann", "", "ann@example.com", "", "Acme Corp", label],
+      ["", "", "", "", "", ""],
+      ["Bo", "Ray", "bo@example.com", "", "Other Org", label],
+      ["Cy", "Ng", "cy@example.com", "", "Acme Corp", "Fall Hunt (Oct 1, 2026)"],
+      ["Di", "Oz", "di@example.com", "5551234567", "Acme Corp", label],
+    ]);
+    const result = await parseRoster(buffer, organizations, [event]);
+    expect(result.total).toBe(4);
+    expect(result.rows).toEqual([]);
+    expect(result.errors.map((e) => [e.row, e.reason])).toEqual([
+      [2, "Missing required fields: Last Name"],
+      [4, 'Organization "Other Org" not found'],
+      [5, 'Event "Fall Hunt (Oct 1, 2026)" not found'],
+      [6, 'Invalid phone format "5551234567". Expected: 000-000-0000'],
+    ]);
+    expect(result.errors[0].lastName).toBe("(empty)");
+  });
+
+  it("rejects files that aren't rosters", async () => {
+    await expect(parseRoster(await rosterBuffer([], ROSTER_HEADERS, "Sheet1"), organizations, [event]))
+      .rejects.toThrow(RosterFormatError);
+    await expect(parseRoster(await rosterBuffer([], ["Name", "Email"]), organizations, [event]))
+      .rejects.toThrow(/Column headers do not match/);
+    await expect(parseRoster(new ArrayBuffer(8), organizations, [event]))
+      .rejects.toThrow(/valid Excel/);
+  });
+});
+
+describe("stageRosterRows", () => {
+  const row = (n: number, firstName: string, lastName: string, email: string): RosterRow => ({
+    row: n,
+    firstName,
+    lastName,
+    email,
+    phone: "",
+    companyId: "org-1",
+    eventId: "event-1",
+  });
+  const existing = [
+    { id: "v-1", first_name: "Ann", last_name: "Lee", email: "ann@example.com", phone: null, company_id: "org-1" },
+    { id: "v-2", first_name: "Bo", last_name: "Ray", email: null, phone: null, company_id: "org-1" },
+  ];
+
+  it("updates email matches, ignoring case", () => {
+    const [staged] = stageRosterRows([row(2, "Annie", "Lee", "ANN@example.com")], existing);
+    expect(staged.match?.id).toBe("v-1");
+    expect(staged.matchedBy).toBe("email");
+    expect(staged.action).toBe("update");
+  });
+
+  it("skips name-only matches until reviewed", () => {
+    const [staged] = stageRosterRows([row(2, "bo", "RAY", "bo@example.com")], existing);
+    expect(staged.match?.id).toBe("v-2");
+    expect(staged.matchedBy).toBe("name");
+    expect(staged.action).toBe("skip");
+  });
+
+  it("creates unmatched rows", () => {
+    const [staged] = stageRosterRows([row(2, "Cy", "Ng", "cy@example.com")], existing);
+    expect(staged.match).toBeNull();
+    expect(staged.action).toBe("create");
+  });
+
+  it("points repeated emails at the first row using them", () => {
+    const staged = stageRosterRows([
+      row(2, "Cy", "Ng", "cy@example.com"),
+      row(3, "Cy", "Ng", "Cy@Example.com"),
+      row(4, "Di", "Oz", ""),
+    ], existing);
+    expect(staged.map((r) => r.duplicateOfRow)).toEqual([null, 2, null]);
+  });
+});
@@ -0,0 +1,64 @@
+import {
+  RSVP_REASONS,
+  RSVP_STATUSES,
+  RSVP_TRANSITIONS,
+  allowedTransitions,
+  canTransition,
+  getReasonLabel,
+  isRsvpStatus,
+} from "@/lib/rsvp";
+
+describe("canTransition", () => {
+  it("lets visitors accept and decline an invitation", () => {
+    expect(canTransition("invited", "accepted", "visitor")).toBe(true);
+    expect(canTransition("invited", "declined", "visitor")).toBe(true);
+    expect(canTransition("declined", "accepted", "visitor")).toBe(true);
+  });
+
+  it("keeps waitlisting and cancelling for admins", () => {
+    expect(canTransition("invited", "waitlisted", "visitor")).toBe(false);
+    expect(canTransition("confirmed", "cancelled", "visitor")).toBe(false);
+    expect(canTransition("invited", "waitlisted", "admin")).toBe(true);
+    expect(canTransition("confirmed", "cancelled", "admin")).toBe(true);
+  });
+
+  it("lets document confirmation confirm invited and accepted visitors only", () => {
+    expect(canTransition("invited", "confirmed", "system")).toBe(true);
+    expect(canTransition("accepted", "confirmed", "system")).toBe(true);
+    expect(canTransition("declined", "confirmed", "system")).toBe(false);
+    expect(canTransition("waitlisted", "confirmed", "system")).toBe(false);
+  });
+
+  it("allows admins any defined transition but no undefined ones", () => {
+    expect(canTransition("invited", "accepted", "admin")).toBe(true);
+    expect(canTransition("cancelled", "confirmed", "admin")).toBe(false);
+    expect(canTransition("invited", "invited", "admin")).toBe(false);
+  });
+});
+
+describe("allowedTransitions", () => {
+  it("lists the visitor's options", () => {
+    expect(allowedTransitions("invited", "visitor")).toEqual(["accepted", "declined"]);
+    expect(allowedTransitions("cancelled", "visitor")).toEqual([]);
+  });
+
+  it("lists the admin's options", () => {
+    expect(allowedTransitions("waitlisted", "admin")).toEqual(["declined", "invited", "cancelled"]);
+  });
+});
+
+describe("RSVP definitions", () => {
+  it("only references known statuses", () => {
+    RSVP_TRANSITIONS.forEach((t) => {
+      expect(RSVP_STATUSES).toContain(t.from);
+      expect(RSVP_STATUSES).toContain(t.to);
+    });
+    Object.keys(RSVP_REASONS).forEach((status) => expect(isRsvpStatus(status)).toBe(true));
+  });
+
+  it("labels reason codes", () => {
+    expect(getReasonLabel("declined", "travel")).toBe("Unable to travel");
+    expect(getReasonLabel("declined", "legacy_code")).toBe("legacy_code");
+    expect(getReasonLabel("declined", null)).toBeNull();
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  MAX_SIGNATURE_BYTES,
+  decodeSignatureImage,
+  getClientIp,
+  isSignatureMethod,
+  signatureConsentText,
+  signatureImagePath,
+} from "@/lib/signatures";
+
+const PNG_HEADER = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const pngDataUrl = (length: number) => {
+  const bytes = new Uint8Array(length);
+  bytes.set(PNG_HEADER);
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return `data:image/png;base64,${btoa(binary)}`;
+};
+
+describe("isSignatureMethod", () => {
+  it("accepts typed and drawn signatures only", () => {
+    expect(isSignatureMethod("typed")).toBe(true);
+    expect(isSignatureMethod("drawn")).toBe(true);
+    expect(isSignatureMethod("stamped")).toBe(false);
+    expect(isSignatureMethod("toString")).toBe(false);
+    expect(isSignatureMethod(undefined)).toBe(false);
+  });
+});
+
+describe("signatureConsentText", () => {
+  it("names the document and version being signed", () => {
+    const text = signatureConsentText("Safety Waiver", 3);
+    expect(text).toContain('"Safety Waiver" (version 3)');
+    expect(text).toContain("electronic signature");
+  });
+});
+
+describe("decodeSignatureImage", () => {
+  it("decodes a PNG data URL", () => {
+    const bytes = decodeSignatureImage(pngDataUrl(16));
+    expect(bytes).toHaveLength(16);
+    expect(Array.from(bytes!.slice(0, 8))).toEqual(PNG_HEADER);
+  });
+
+  it("rejects other images and malformed data", () => {
+    expect(decodeSignatureImage("data:image/jpeg;base64,/9j/4AAQ")).toBeNull();
+    expect(decodeSignatureImage(`data:image/png;base64,${btoa("not a png")}`)).toBeNull();
+    expect(decodeSignatureImage("data:image/png;base64,***")).toBeNull();
+    expect(decodeSignatureImage(null)).toBeNull();
+  });
+
+  it("rejects images over the size limit", () => {
+    expect(decodeSignatureImage(pngDataUrl(MAX_SIGNATURE_BYTES))).not.toBeNull();
+    expect(decodeSignatureImage(pngDataUrl(MAX_SIGNATURE_BYTES + 3))).toBeNull();
+  });
+});
+
+describe("signatureImagePath", () => {
+  it("files signatures by visitor and document version", () => {
+    expect(signatureImagePath("visitor-1", "version-2", new Date("2026-10-20T12:00:00Z"))).toBe(
+      "visitor-1/version-2/1792497600000.png"
+    );
+  });
+});
+
+describe("getClientIp", () => {
+  it("takes the first forwarded address", () => {
+    expect(getClientIp(new Headers({ "x-forwarded-for": "203.0.113.7, 10.0.0.1" }))).toBe("203.0.113.7");
+    expect(getClientIp(new Headers({ "x-real-ip": "2001:db8::1" }))).toBe("2001:db8::1");
+  });
+
+  it("returns null when there is no usable address", () => {
+    expect(getClientIp(new Headers())).toBeNull();
+    expect(getClientIp(new Headers({ "x-forwarded-for": "unknown" }))).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
+import { daysUntilPurge, getPurgeCutoff, TRASH_RETENTION_DAYS } from "@/lib/trash";
+
+// Trashing and restoring happen in database functions, so these check the
+// latest migration that defines each one
+const MIGRATIONS = path.resolve(__dirname, "../../supabase/migrations");
+
+const latestDefinition = (name: string) => {
+  const header = `function public.${name}(`;
+  const sql = readdirSync(MIGRATIONS)
+    .sort()
+    .reverse()
+    .map((file) => readFileSync(path.join(MIGRATIONS, file), "utf8"))
+    .find((text) => text.includes(header));
+  if (!sql) throw new Error(`No migration defines ${name}`);
+  return sql.slice(sql.indexOf(header)).split("\n$$;")[0];
+};
+
+// Tables whose rows move into trashed_rows with a visitor, in the order
+// they're put back
+const VISITOR_ROWS = ["event_visitors", "dietary_forms", "medical_forms", "form_responses", "visitor_confirmations"];
+
+const dependents = (owner: string) => {
+  const branch = latestDefinition("trash_dependents").match(new RegExp(`when '${owner}' then array\\[([^\\]]*)\\]`))?.[1] ?? "";
+  return branch.split(",").map((table) => table.trim().replace(/'/g, ""));
+};
+
+describe("getPurgeCutoff", () => {
+  it("goes back the retention period from now", () => {
+    const now = new Date("2026-10-31T12:00:00Z");
+    expect(getPurgeCutoff(now).toISOString()).toBe("2026-10-01T12:00:00.000Z");
+    expect(getPurgeCutoff(now, 7).toISOString()).toBe("2026-10-24T12:00:00.000Z");
+  });
+});
+
+describe("daysUntilPurge", () => {
+  const now = new Date("2026-10-19T12:00:00Z");
+
+  it("counts whole days left, rounding up", () => {
+    expect(daysUntilPurge("2026-10-19T12:00:00Z", now)).toBe(TRASH_RETENTION_DAYS);
+    expect(daysUntilPurge("2026-10-18T18:00:00Z", now)).toBe(TRASH_RETENTION_DAYS);
+    expect(daysUntilPurge("2026-10-10T12:00:00Z", now, 10)).toBe(1);
+  });
+
+  it("never goes below zero once a record is overdue", () => {
+    expect(daysUntilPurge("2026-08-01T00:00:00Z", now)).toBe(0);
+  });
+});
+
+describe("trashing and restoring a visitor", () => {
+  it("puts assignments back first so the rows that need them can follow", () => {
+    expect(dependents("visitors")).toEqual(VISITOR_ROWS);
+  });
+
+  it("moves the same rows with an event, along with its document links", () => {
+    expect(dependents("events")).toEqual([...VISITOR_ROWS, "document_events"]);
+  });
+
+  it("trashes in reverse, restores in order and merges over the same tables", () => {
+    expect(latestDefinition("trash_records")).toMatch(/trash_dependents\(p_table\)[\s\S]*for i in reverse/);
+    expect(latestDefinition("restore_records")).toContain("foreach dependent in array public.trash_dependents(p_table)");
+    expect(latestDefinition("merge_visitors")).toMatch(/trash_dependents\('visitors'\)[\s\S]*for i in reverse/);
+  });
+
+  it("allows each of those tables in the trash", () => {
+    const sql = readdirSync(MIGRATIONS)
+      .sort()
+      .reverse()
+      .map((file) => readFileSync(path.join(MIGRATIONS, file), "utf8"))
+      .find((text) => text.includes("table_name in ("));
+    const allowed = sql?.match(/table_name in \(([^)]*)\)/)?.[1] ?? "";
+    VISITOR_ROWS.forEach((table) => expect(allowed).toContain(`'${table}'`));
+  });
+});
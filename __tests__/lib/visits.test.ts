@@ -0,0 +1,50 @@
+import { countOutstanding, selectVisit, type UpcomingVisit } from "@/lib/visits";
+
+const visit = (eventId: string, overrides: Partial<UpcomingVisit> = {}): UpcomingVisit => ({
+  eventId,
+  name: `Event ${eventId}`,
+  startDate: "2026-11-01",
+  endDate: "2026-11-03",
+  rsvpStatus: "invited",
+  outstanding: 0,
+  ...overrides,
+});
+
+describe("countOutstanding", () => {
+  it("counts required documents not yet confirmed", () => {
+    expect(countOutstanding("accepted", { event_id: "e1", required_docs: 3, confirmed_docs: 1 })).toBe(2);
+    expect(countOutstanding("confirmed", { event_id: "e1", required_docs: 2, confirmed_docs: 2 })).toBe(0);
+  });
+
+  it("asks nothing of declined or cancelled visitors", () => {
+    expect(countOutstanding("declined", { event_id: "e1", required_docs: 3, confirmed_docs: 0 })).toBe(0);
+    expect(countOutstanding("cancelled", { event_id: "e1", required_docs: 3, confirmed_docs: 0 })).toBe(0);
+  });
+
+  it("treats an event without required documents as complete", () => {
+    expect(countOutstanding("invited", undefined)).toBe(0);
+  });
+
+  it("adds required forms not yet answered", () => {
+    expect(countOutstanding("accepted", { event_id: "e1", required_docs: 2, confirmed_docs: 1 }, 2)).toBe(3);
+    expect(countOutstanding("invited", undefined, 1)).toBe(1);
+    expect(countOutstanding("declined", undefined, 1)).toBe(0);
+  });
+});
+
+describe("selectVisit", () => {
+  const visits = [visit("e1"), visit("e2")];
+
+  it("picks the requested visit", () => {
+    expect(selectVisit(visits, "e2")?.eventId).toBe("e2");
+  });
+
+  it("falls back to the soonest visit", () => {
+    expect(selectVisit(visits, undefined)?.eventId).toBe("e1");
+    expect(selectVisit(visits, "someone-elses-event")?.eventId).toBe("e1");
+  });
+
+  it("returns null without visits", () => {
+    expect(selectVisit([], "e1")).toBeNull();
+  });
+});
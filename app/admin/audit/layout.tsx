@@ -0,0 +1,10 @@
+import { requireAreaAccess } from "@/lib/auth"
+
+export default async function AuditLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  await requireAreaAccess("audit")
+  return children
+}
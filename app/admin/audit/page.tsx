@@ -0,0 +1,333 @@
+"use client"
+
+import { Fragment, useEffect, useState, useCallback } from "react"
+import { createClient } from "@/lib/supabase/client"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Search, X, ChevronLeft, ChevronRight, ChevronDown } from "lucide-react"
+import {
+  AUDITED_TABLES,
+  AUDIT_ACTION_LABELS,
+  buildAuditSearchFilter,
+  formatAuditValue,
+  getAuditActionLabel,
+  getAuditChanges,
+  type AuditAction,
+  type AuditEntry,
+} from "@/lib/audit"
+
+const PAGE_SIZE = 50
+
+const actionClassNames: Record<AuditAction, string> = {
+  insert: "bg-green-100 text-green-800",
+  update: "bg-blue-100 text-blue-800",
+  delete: "bg-red-100 text-red-800",
+}
+
+const selectClassName = "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+
+export default function AuditLogPage() {
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [expandedId, setExpandedId] = useState<number | null>(null)
+
+  // Filters
+  const [searchInput, setSearchInput] = useState("")
+  const [search, setSearch] = useState("")
+  const [tableFilter, setTableFilter] = useState("")
+  const [actionFilter, setActionFilter] = useState("")
+  const [startDate, setStartDate] = useState("")
+  const [endDate, setEndDate] = useState("")
+  const [page, setPage] = useState(1)
+
+  const supabase = createClient()
+
+  const fetchEntries = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+
+    let query = supabase
+      .from("audit_log")
+      .select("*", { count: "exact" })
+
+    if (tableFilter) query = query.eq("table_name", tableFilter)
+    if (actionFilter) query = query.eq("action", actionFilter)
+    if (startDate) query = query.gte("occurred_at", `${startDate}T00:00:00`)
+    if (endDate) query = query.lte("occurred_at", `${endDate}T23:59:59.999`)
+
+    const searchFilter = buildAuditSearchFilter(search)
+    if (searchFilter) query = query.or(searchFilter)
+
+    const from = (page - 1) * PAGE_SIZE
+    const { data, count, error: fetchError } = await query
+      .order("occurred_at", { ascending: false })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (fetchError) {
+      setError(fetchError.message)
+    } else {
+      setEntries((data || []) as AuditEntry[])
+      setTotal(count || 0)
+    }
+    setLoading(false)
+  }, [supabase, tableFilter, actionFilter, startDate, endDate, search, page])
+
+  useEffect(() => {
+    void fetchEntries() // eslint-disable-line react-hooks/set-state-in-effect
+  }, [fetchEntries])
+
+  // Debounce search input so each keystroke doesn't hit the server
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchInput.trim())
+      setPage(1)
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [searchInput])
+
+  const clearFilters = () => {
+    setSearchInput("")
+    setTableFilter("")
+    setActionFilter("")
+    setStartDate("")
+    setEndDate("")
+    setPage(1)
+  }
+
+  const formatTimestamp = (timestamp: string) =>
+    new Date(timestamp).toLocaleString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+      second: "2-digit",
+    })
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE))
+  const hasFilters = searchInput || tableFilter || actionFilter || startDate || endDate
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold">Audit Log</h1>
+        <p className="text-sm text-muted-foreground">Every change made to visitors, events, organizations and documents.</p>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5 mb-4 items-end">
+        <div className="space-y-2 lg:col-span-2">
+          <Label htmlFor="audit-search">Search</Label>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              id="audit-search"
+              placeholder="Name, record id or user email..."
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              className="pl-9 pr-9"
+            />
+            {searchInput && (
+              <button
+                onClick={() => setSearchInput("")}
+                className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="audit-table">Record Type</Label>
+          <select
+            id="audit-table"
+            className={selectClassName}
+            value={tableFilter}
+            onChange={(e) => {
+              setTableFilter(e.target.value)
+              setPage(1)
+            }}
+          >
+            <option value="">All</option>
+            {Object.entries(AUDITED_TABLES).map(([table, label]) => (
+              <option key={table} value={table}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="audit-action">Action</Label>
+          <select
+            id="audit-action"
+            className={selectClassName}
+            value={actionFilter}
+            onChange={(e) => {
+              setActionFilter(e.target.value)
+              setPage(1)
+            }}
+          >
+            <option value="">All</option>
+            {Object.entries(AUDIT_ACTION_LABELS).map(([action, label]) => (
+              <option key={action} value={action}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="audit-start">From</Label>
+            <Input
+              id="audit-start"
+              type="date"
+              value={startDate}
+              onChange={(e) => {
+                setStartDate(e.target.value)
+                setPage(1)
+              }}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-end">To</Label>
+            <Input
+              id="audit-end"
+              type="date"
+              value={endDate}
+              onChange={(e) => {
+                setEndDate(e.target.value)
+                setPage(1)
+              }}
+            />
+          </div>
+        </div>
+      </div>
+
+      {hasFilters && (
+        <Button variant="ghost" size="sm" className="mb-4" onClick={clearFilters}>
+          <X className="mr-2 h-4 w-4" />
+          Clear filters
+        </Button>
+      )}
+
+      {error && (
+        <div className="rounded-md p-3 text-sm mb-4 bg-destructive/10 text-destructive">
+          {error}
+        </div>
+      )}
+
+      {loading && entries.length === 0 ? (
+        <p className="text-muted-foreground">Loading audit log...</p>
+      ) : entries.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          {hasFilters ? "No changes match your filters." : "No changes have been recorded yet."}
+        </div>
+      ) : (
+        <>
+          <div className="overflow-x-auto rounded-lg border">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b bg-muted/50">
+                  <th className="w-8 px-4 py-3" />
+                  <th className="px-4 py-3 text-left font-medium">When</th>
+                  <th className="px-4 py-3 text-left font-medium">User</th>
+                  <th className="px-4 py-3 text-left font-medium">Action</th>
+                  <th className="px-4 py-3 text-left font-medium">Record Type</th>
+                  <th className="px-4 py-3 text-left font-medium">Record</th>
+                  <th className="px-4 py-3 text-left font-medium">Changed</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => {
+                  const expanded = expandedId === entry.id
+                  const changes = getAuditChanges(entry)
+                  return (
+                    <Fragment key={entry.id}>
+                      <tr
+                        className="border-b last:border-0 hover:bg-muted/30 cursor-pointer"
+                        onClick={() => setExpandedId(expanded ? null : entry.id)}
+                      >
+                        <td className="px-4 py-3">
+                          {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap">{formatTimestamp(entry.occurred_at)}</td>
+                        <td className="px-4 py-3">{entry.actor_email || (entry.actor_id ? entry.actor_id : "System")}</td>
+                        <td className="px-4 py-3">
+                          <span className={`text-xs px-2 py-1 rounded ${actionClassNames[entry.action]}`}>
+                            {getAuditActionLabel(entry)}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3">{AUDITED_TABLES[entry.table_name] || entry.table_name}</td>
+                        <td className="px-4 py-3">
+                          {entry.row_label || "—"}
+                          <p className="text-xs text-muted-foreground font-mono">{entry.row_id}</p>
+                        </td>
+                        <td className="px-4 py-3 text-muted-foreground">
+                          {entry.action === "update" ? changes.map((c) => c.field).join(", ") : "—"}
+                        </td>
+                      </tr>
+                      {expanded && (
+                        <tr className="border-b bg-muted/20">
+                          <td />
+                          <td colSpan={6} className="px-4 py-3">
+                            <table className="w-full text-xs">
+                              <thead>
+                                <tr className="text-muted-foreground">
+                                  <th className="py-1 pr-4 text-left font-medium">Field</th>
+                                  <th className="py-1 pr-4 text-left font-medium">Before</th>
+                                  <th className="py-1 text-left font-medium">After</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {changes.map((change) => (
+                                  <tr key={change.field} className="align-top">
+                                    <td className="py-1 pr-4 font-mono">{change.field}</td>
+                                    <td className="py-1 pr-4 break-all">{formatAuditValue(change.before)}</td>
+                                    <td className="py-1 break-all">{formatAuditValue(change.after)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Pagination */}
+          <div className="flex items-center justify-between mt-4 text-sm text-muted-foreground">
+            <span>
+              {total} {total === 1 ? "change" : "changes"} • Page {page} of {totalPages}
+            </span>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((p) => p - 1)}
+                disabled={loading || page <= 1}
+              >
+                <ChevronLeft className="h-4 w-4" />
+                Previous
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((p) => p + 1)}
+                disabled={loading || page >= totalPages}
+              >
+                Next
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
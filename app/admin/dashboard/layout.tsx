@@ -0,0 +1,10 @@
+import { requireAreaAccess } from "@/lib/auth"
+
+export default async function DashboardLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  await requireAreaAccess("dashboard")
+  return children
+}
@@ -2,10 +2,12 @@
 
 import { useEffect, useState, useCallback, useMemo } from "react"
 import { createClient } from "@/lib/supabase/client"
+import { useStaffRole } from "@/components/admin/role-provider"
+import { listIncompleteDocumentStatus } from "@/lib/db"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
-import { CalendarDays, Building2, Users, Search, X, Mail, Loader2 } from "lucide-react"
+import { CalendarDays, Building2, Users, UserCheck, Search, X, Mail, Loader2 } from "lucide-react"
 
 type TimeFilter = "6months" | "month" | "quarter" | "year"
 
@@ -13,6 +15,7 @@ interface EventMetrics {
   totalEvents: number
   totalOrganizations: number
   totalConfirmedVisitors: number
+  totalAttendedVisitors: number
 }
 
 interface UpcomingEvent {
@@ -22,6 +25,8 @@ interface UpcomingEvent {
   organization_name: string
   assigned_count: number
   confirmed_count: number
+  declined_count: number
+  waitlisted_count: number
 }
 
 interface ConfirmationRow {
@@ -38,7 +43,7 @@ interface ConfirmationRow {
 }
 
 export default function DashboardPage() {
-  const [metrics, setMetrics] = useState<EventMetrics>({ totalEvents: 0, totalOrganizations: 0, totalConfirmedVisitors: 0 })
+  const [metrics, setMetrics] = useState<EventMetrics>({ totalEvents: 0, totalOrganizations: 0, totalConfirmedVisitors: 0, totalAttendedVisitors: 0 })
   const [timeFilter, setTimeFilter] = useState<TimeFilter>("6months")
   const [upcomingEvents, setUpcomingEvents] = useState<UpcomingEvent[]>([])
   const [confirmations, setConfirmations] = useState<ConfirmationRow[]>([])
@@ -51,6 +56,9 @@ export default function DashboardPage() {
   const [emailMessage, setEmailMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
 
   const supabase = createClient()
+  // Viewers see the dashboard but can't email visitors
+  const { can } = useStaffRole()
+  const canSendEmails = can("dashboard", "write")
 
   const getDateRange = useCallback((filter: TimeFilter) => {
     const now = new Date()
@@ -82,17 +90,18 @@ export default function DashboardPage() {
     // Get past events (end_date < current date and within time range)
     const { data: pastEvents } = await supabase
       .from("events")
-      .select("id, company_id")
+      .select("id, sponsor_company_id")
+      .is("deleted_at", null)
       .lt("end_date", end)
       .gte("end_date", start)
 
     if (!pastEvents || pastEvents.length === 0) {
-      setMetrics({ totalEvents: 0, totalOrganizations: 0, totalConfirmedVisitors: 0 })
+      setMetrics({ totalEvents: 0, totalOrganizations: 0, totalConfirmedVisitors: 0, totalAttendedVisitors: 0 })
       return
     }
 
     const eventIds = pastEvents.map(e => e.id)
-    const uniqueOrgIds = new Set(pastEvents.map(e => e.company_id).filter(Boolean))
+    const uniqueOrgIds = new Set(pastEvents.map(e => e.sponsor_company_id).filter(Boolean))
 
     // Get confirmed visitors for these events
     const { data: confirmedVisitors } = await supabase
@@ -101,10 +110,18 @@ export default function DashboardPage() {
       .in("event_id", eventIds)
       .eq("rsvp_status", "confirmed")
 
+    // Get visitors who actually checked in at these events
+    const { data: attendedVisitors } = await supabase
+      .from("event_visitors")
+      .select("id")
+      .in("event_id", eventIds)
+      .not("arrived_at", "is", null)
+
     setMetrics({
       totalEvents: pastEvents.length,
       totalOrganizations: uniqueOrgIds.size,
       totalConfirmedVisitors: confirmedVisitors?.length || 0,
+      totalAttendedVisitors: attendedVisitors?.length || 0,
     })
   }, [supabase, getDateRange])
 
@@ -117,7 +134,8 @@ export default function DashboardPage() {
     // Get upcoming events
     const { data: events } = await supabase
       .from("events")
-      .select("id, name, start_date, company:companies(name)")
+      .select("id, name, start_date, sponsor:companies(name)")
+      .is("deleted_at", null)
       .gte("start_date", today)
       .lte("start_date", futureDate)
       .order("start_date", { ascending: true })
@@ -135,24 +153,35 @@ export default function DashboardPage() {
       .select("event_id, rsvp_status")
       .in("event_id", eventIds)
 
-    const countMap: Record<string, { assigned: number; confirmed: number }> = {}
+    // Declined, waitlisted and cancelled visitors are counted apart from
+    // those expected to attend
+    const countMap: Record<string, { assigned: number; confirmed: number; declined: number; waitlisted: number }> = {}
     eventVisitors?.forEach(ev => {
       if (!countMap[ev.event_id]) {
-        countMap[ev.event_id] = { assigned: 0, confirmed: 0 }
+        countMap[ev.event_id] = { assigned: 0, confirmed: 0, declined: 0, waitlisted: 0 }
       }
-      countMap[ev.event_id].assigned++
-      if (ev.rsvp_status === "confirmed") {
-        countMap[ev.event_id].confirmed++
+      if (ev.rsvp_status === "declined") {
+        countMap[ev.event_id].declined++
+      } else if (ev.rsvp_status === "waitlisted") {
+        countMap[ev.event_id].waitlisted++
+      } else if (ev.rsvp_status !== "cancelled") {
+        countMap[ev.event_id].assigned++
+        if (ev.rsvp_status === "confirmed") {
+          countMap[ev.event_id].confirmed++
+        }
       }
     })
 
     const upcomingList: UpcomingEvent[] = events.map(e => ({
       id: e.id,
       name: e.name,
-      start_date: e.start_date,
-      organization_name: (e.company as unknown as { name: string } | null)?.name || "—",
+      // Only dated events fall inside the window queried above
+      start_date: e.start_date as string,
+      organization_name: e.sponsor?.name || "—",
       assigned_count: countMap[e.id]?.assigned || 0,
       confirmed_count: countMap[e.id]?.confirmed || 0,
+      declined_count: countMap[e.id]?.declined || 0,
+      waitlisted_count: countMap[e.id]?.waitlisted || 0,
     }))
 
     setUpcomingEvents(upcomingList)
@@ -164,7 +193,8 @@ export default function DashboardPage() {
     // Get next 3 upcoming events
     const { data: events } = await supabase
       .from("events")
-      .select("id, name, start_date, company:companies(name)")
+      .select("id")
+      .is("deleted_at", null)
       .gte("start_date", today)
       .order("start_date", { ascending: true })
       .limit(3)
@@ -174,140 +204,21 @@ export default function DashboardPage() {
       return
     }
 
-    const eventIds = events.map(e => e.id)
-
-    // Get all visitors assigned to these events
-    const { data: eventVisitors } = await supabase
-      .from("event_visitors")
-      .select("event_id, visitor_id, visitors(id, first_name, last_name, company:companies(name))")
-      .in("event_id", eventIds)
-
-    if (!eventVisitors || eventVisitors.length === 0) {
-      setConfirmations([])
-      return
-    }
-
-    // Get document types that require confirmation
-    const { data: requiredTypes } = await supabase
-      .from("document_types")
-      .select("id")
-      .eq("requires_confirmation", true)
-
-    const requiredTypeIds = requiredTypes?.map(t => t.id) || []
-
-    // Get documents assigned to these events that require confirmation
-    const { data: eventDocs } = await supabase
-      .from("document_events")
-      .select("event_id, document_id, documents(id, document_type_id)")
-      .in("event_id", eventIds)
-
-    // Build map of required docs per event
-    const requiredDocsPerEvent: Record<string, string[]> = {}
-    eventDocs?.forEach(ed => {
-      const doc = ed.documents as unknown as { id: string; document_type_id: string } | null
-      if (doc && requiredTypeIds.includes(doc.document_type_id)) {
-        if (!requiredDocsPerEvent[ed.event_id]) {
-          requiredDocsPerEvent[ed.event_id] = []
-        }
-        requiredDocsPerEvent[ed.event_id].push(doc.id)
-      }
-    })
-
-    // Get current versions of all required documents
-    const allDocIds = Object.values(requiredDocsPerEvent).flat()
-    const { data: currentVersions } = await supabase
-      .from("document_versions")
-      .select("id, document_id")
-      .in("document_id", allDocIds)
-      .eq("is_current", true)
-
-    const currentVersionMap: Record<string, string> = {}
-    currentVersions?.forEach(v => {
-      currentVersionMap[v.document_id] = v.id
-    })
-
-    // Get all visitor confirmations for these events
-    const visitorIds = eventVisitors.map(ev => (ev.visitors as unknown as { id: string })?.id).filter(Boolean)
-    const { data: confirmationsData } = await supabase
-      .from("visitor_confirmations")
-      .select("visitor_id, event_id, document_id, document_version_id")
-      .in("event_id", eventIds)
-      .in("visitor_id", visitorIds)
-
-    // Build confirmation map
-    const confirmationMap: Record<string, Record<string, { confirmed: boolean; versionId: string }>> = {}
-    confirmationsData?.forEach(c => {
-      const key = `${c.visitor_id}-${c.event_id}`
-      if (!confirmationMap[key]) {
-        confirmationMap[key] = {}
-      }
-      confirmationMap[key][c.document_id] = {
-        confirmed: true,
-        versionId: c.document_version_id,
-      }
-    })
-
-    // Build the rows
-    const rows: ConfirmationRow[] = []
-    const eventMap = new Map(events.map(e => [e.id, e]))
-
-    eventVisitors.forEach(ev => {
-      const event = eventMap.get(ev.event_id)
-      if (!event) return
-
-      const visitor = ev.visitors as unknown as { id: string; first_name: string; last_name: string; company: { name: string } | null } | null
-      if (!visitor) return
-
-      const requiredDocs = requiredDocsPerEvent[ev.event_id] || []
-      if (requiredDocs.length === 0) return // No required docs for this event
-
-      const key = `${visitor.id}-${ev.event_id}`
-      const visitorConfirmations = confirmationMap[key] || {}
-
-      let confirmedCount = 0
-      let hasOutdated = false
-
-      requiredDocs.forEach(docId => {
-        const conf = visitorConfirmations[docId]
-        if (conf?.confirmed) {
-          confirmedCount++
-          // Check if it's the current version
-          if (conf.versionId !== currentVersionMap[docId]) {
-            hasOutdated = true
-          }
-        }
-      })
-
-      // Only show visitors who haven't confirmed all documents
-      if (confirmedCount < requiredDocs.length || hasOutdated) {
-        rows.push({
-          event_id: ev.event_id,
-          event_start_date: event.start_date,
-          event_name: event.name,
-          organization_name: (event.company as unknown as { name: string } | null)?.name || (visitor.company as unknown as { name: string } | null)?.name || "—",
-          visitor_id: visitor.id,
-          first_name: visitor.first_name,
-          last_name: visitor.last_name,
-          required_docs: requiredDocs.length,
-          confirmed_docs: confirmedCount,
-          has_outdated: hasOutdated,
-        })
-      }
-    })
-
-    // Sort by event start date, organization, first name, last name
-    rows.sort((a, b) => {
-      if (a.event_start_date !== b.event_start_date) {
-        return a.event_start_date.localeCompare(b.event_start_date)
-      }
-      if (a.organization_name !== b.organization_name) {
-        return a.organization_name.localeCompare(b.organization_name)
-      }
-      if (a.first_name !== b.first_name) {
-        return a.first_name.localeCompare(b.first_name)
-      }
-      return a.last_name.localeCompare(b.last_name)
-    })
+    const { rows: statuses } = await listIncompleteDocumentStatus(supabase, events.map(e => e.id))
+
+    const rows: ConfirmationRow[] = statuses.map(row => ({
+      event_id: row.event_id,
+      // As above, these events were picked by their start date
+      event_start_date: row.event_start_date as string,
+      event_name: row.event_name,
+      organization_name: row.organization_name || "—",
+      visitor_id: row.visitor_id,
+      first_name: row.first_name,
+      last_name: row.last_name,
+      required_docs: row.required_docs,
+      confirmed_docs: row.confirmed_docs + row.outdated_docs,
+      has_outdated: row.outdated_docs > 0,
+    }))
 
     setConfirmations(rows)
   }, [supabase])
@@ -494,7 +405,7 @@ export default function DashboardPage() {
             <p className="text-sm text-muted-foreground">{getFilterLabel(timeFilter)}</p>
           </CardHeader>
           <CardContent>
-            <div className="grid grid-cols-3 gap-4 pt-4">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 pt-4">
               <div className="text-center">
                 <div className="flex justify-center mb-2">
                   <CalendarDays className="h-6 w-6 text-primary" />
@@ -516,6 +427,13 @@ export default function DashboardPage() {
                 <p className="text-3xl font-bold">{metrics.totalConfirmedVisitors}</p>
                 <p className="text-sm text-muted-foreground">Confirmed Visitors</p>
               </div>
+              <div className="text-center">
+                <div className="flex justify-center mb-2">
+                  <UserCheck className="h-6 w-6 text-primary" />
+                </div>
+                <p className="text-3xl font-bold">{metrics.totalAttendedVisitors}</p>
+                <p className="text-sm text-muted-foreground">Attended</p>
+              </div>
             </div>
           </CardContent>
         </Card>
@@ -542,6 +460,14 @@ export default function DashboardPage() {
                     <div className="text-right ml-4">
                       <p className="font-medium">{event.confirmed_count} <span className="text-muted-foreground font-normal">(of {event.assigned_count})</span></p>
                       <p className="text-xs text-muted-foreground">confirmed</p>
+                      {(event.declined_count > 0 || event.waitlisted_count > 0) && (
+                        <p className="text-xs text-muted-foreground">
+                          {[
+                            event.declined_count > 0 && `${event.declined_count} declined`,
+                            event.waitlisted_count > 0 && `${event.waitlisted_count} waitlisted`,
+                          ].filter(Boolean).join(" • ")}
+                        </p>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -559,7 +485,7 @@ export default function DashboardPage() {
               <CardTitle className="text-lg">Pending Confirmations</CardTitle>
               <p className="text-sm text-muted-foreground">Visitors who haven&apos;t confirmed all required documents (next 3 events)</p>
             </div>
-            {selectedRows.size > 0 && (
+            {canSendEmails && selectedRows.size > 0 && (
               <Button onClick={handleSendEmails} disabled={sendingEmails}>
                 {sendingEmails ? (
                   <>
@@ -0,0 +1,10 @@
+import { requireAreaAccess } from "@/lib/auth"
+
+export default async function ReportsLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  await requireAreaAccess("reports")
+  return children
+}
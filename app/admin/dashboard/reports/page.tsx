@@ -1,201 +1,355 @@
 "use client"
 
-import { useState, useMemo } from "react"
+import { useState, useEffect, useCallback } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
-import { Search, X, Download, Play, FileSpreadsheet, Loader2 } from "lucide-react"
-import ExcelJS from "exceljs"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Search, X, Download, Play, FileSpreadsheet, Loader2, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, CalendarClock, Trash2, ChevronDown } from "lucide-react"
+import { createClient } from "@/lib/supabase/client"
+import type { CompanyOption, Event as EventRow } from "@/lib/db"
+import { describeFilters, exportReport, EXPORT_FORMATS, type ExportFormat } from "@/lib/reports/export"
+import type { ReportColumn, ReportParams, ReportResult, ReportSort, ReportSummary } from "@/lib/reports/types"
+import { parseSubscription, type ReportSchedule, type ReportSubscription } from "@/lib/reports/scheduler"
 
-interface ReportDefinition {
-  id: string
-  name: string
-  description: string
+type Company = CompanyOption
+
+type Event = Pick<EventRow, "id" | "name" | "start_date">
+
+type Subscription = Omit<ReportSubscription, "profile_id">
+
+const emptySubscriptionForm = {
+  schedule: "weekly" as ReportSchedule,
+  days_before: "3",
+  email: "",
+  use_filters: false,
 }
 
-interface ReportColumn {
-  key: string
-  label: string
+const emptyParams: ReportParams = {
+  startDate: "",
+  endDate: "",
+  organizationId: "",
+  eventId: "",
 }
 
-interface ReportResult {
-  columns: ReportColumn[]
-  data: Record<string, unknown>[]
+const PAGE_SIZE = 50
+
+const formatDate = (dateStr: string) => {
+  return new Date(dateStr + "T00:00:00").toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  })
+}
+
+const formatCell = (column: ReportColumn, value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—"
+  switch (column.type) {
+    case "date":
+      return formatDate(String(value))
+    case "datetime":
+      return new Date(String(value)).toLocaleString("en-US", {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+        hour: "numeric",
+        minute: "2-digit",
+      })
+    default:
+      return String(value)
+  }
 }
 
-const availableReports: ReportDefinition[] = [
-  {
-    id: "visitors-by-event",
-    name: "Visitors by Event",
-    description: "List all visitors assigned to each event with their confirmation status",
-  },
-  {
-    id: "events-by-organization",
-    name: "Events by Organization",
-    description: "List all events grouped by organization with visitor counts",
-  },
-  {
-    id: "document-confirmations",
-    name: "Document Confirmations",
-    description: "List all document confirmations by visitor and event",
-  },
-]
+const buildQueryString = (params: ReportParams, search: string, sort: ReportSort[], extra: Record<string, string>) => {
+  const query = new URLSearchParams(extra)
+  Object.entries(params).forEach(([key, value]) => {
+    if (value) query.set(key, value)
+  })
+  if (search) query.set("search", search)
+  if (sort.length > 0) {
+    query.set("sort", sort.map((s) => `${s.key}:${s.ascending ? "asc" : "desc"}`).join(","))
+  }
+  return query.toString()
+}
 
 export default function ReportsPage() {
-  const [selectedReport, setSelectedReport] = useState<ReportDefinition | null>(null)
+  const [reports, setReports] = useState<ReportSummary[]>([])
+  const [companies, setCompanies] = useState<Company[]>([])
+  const [events, setEvents] = useState<Event[]>([])
+  const [selectedReport, setSelectedReport] = useState<ReportSummary | null>(null)
   const [reportResult, setReportResult] = useState<ReportResult | null>(null)
   const [loading, setLoading] = useState(false)
+  const [exporting, setExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const [params, setParams] = useState<ReportParams>(emptyParams)
+  const [searchInput, setSearchInput] = useState("")
   const [search, setSearch] = useState("")
-  const [columnFilters, setColumnFilters] = useState<Record<string, string>>({})
+  const [sort, setSort] = useState<ReportSort[]>([])
+  const [page, setPage] = useState(1)
 
-  const handleRunReport = async (report: ReportDefinition) => {
-    setSelectedReport(report)
+  // Subscription state
+  const [subscriptions, setSubscriptions] = useState<Subscription[]>([])
+  const [subscribeDialogOpen, setSubscribeDialogOpen] = useState(false)
+  const [subscribingReport, setSubscribingReport] = useState<ReportSummary | null>(null)
+  const [subscriptionForm, setSubscriptionForm] = useState(emptySubscriptionForm)
+  const [savingSubscription, setSavingSubscription] = useState(false)
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+
+  const supabase = createClient()
+
+  const fetchReports = useCallback(async () => {
+    const response = await fetch("/api/reports")
+    if (response.ok) {
+      const { reports } = await response.json()
+      setReports(reports)
+    }
+  }, [])
+
+  const fetchCompanies = useCallback(async () => {
+    const { data } = await supabase
+      .from("companies")
+      .select("id, name")
+      .is("deleted_at", null)
+      .order("name")
+
+    if (data) setCompanies(data)
+  }, [supabase])
+
+  const fetchEvents = useCallback(async () => {
+    const { data } = await supabase
+      .from("events")
+      .select("id, name, start_date")
+      .is("deleted_at", null)
+      .order("start_date", { ascending: false })
+
+    if (data) setEvents(data)
+  }, [supabase])
+
+  const fetchSubscriptions = useCallback(async () => {
+    const { data } = await supabase
+      .from("report_subscriptions")
+      .select("id, report_id, schedule, days_before, params, email, is_active")
+      .order("created_at")
+
+    if (data) setSubscriptions(data.map(parseSubscription).filter((s) => s !== null))
+  }, [supabase])
+
+  useEffect(() => {
+    void fetchReports() // eslint-disable-line react-hooks/set-state-in-effect
+    void fetchCompanies()
+    void fetchEvents()
+    void fetchSubscriptions()
+  }, [fetchReports, fetchCompanies, fetchEvents, fetchSubscriptions])
+
+  // Debounce search input so each keystroke doesn't hit the server
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchInput.trim())
+      setPage(1)
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [searchInput])
+
+  const fetchReport = useCallback(async (report: ReportSummary) => {
     setLoading(true)
-    setSearch("")
-    setColumnFilters({})
-    setReportResult(null)
+    setError(null)
+
+    try {
+      const query = buildQueryString(params, search, sort, {
+        page: String(page),
+        pageSize: String(PAGE_SIZE),
+      })
+      const response = await fetch(`/api/reports/${report.id}?${query}`)
+      const body = await response.json()
 
-    // Placeholder report data - this will be replaced with actual Supabase queries
-    await new Promise(resolve => setTimeout(resolve, 500))
-
-    let result: ReportResult
-
-    switch (report.id) {
-      case "visitors-by-event":
-        result = {
-          columns: [
-            { key: "event_name", label: "Event Name" },
-            { key: "event_date", label: "Event Date" },
-            { key: "organization", label: "Organization" },
-            { key: "visitor_name", label: "Visitor Name" },
-            { key: "email", label: "Email" },
-            { key: "status", label: "Status" },
-          ],
-          data: [],
-        }
-        break
-      case "events-by-organization":
-        result = {
-          columns: [
-            { key: "organization", label: "Organization" },
-            { key: "event_name", label: "Event Name" },
-            { key: "start_date", label: "Start Date" },
-            { key: "end_date", label: "End Date" },
-            { key: "assigned_visitors", label: "Assigned Visitors" },
-            { key: "confirmed_visitors", label: "Confirmed Visitors" },
-          ],
-          data: [],
-        }
-        break
-      case "document-confirmations":
-        result = {
-          columns: [
-            { key: "visitor_name", label: "Visitor Name" },
-            { key: "event_name", label: "Event Name" },
-            { key: "document_name", label: "Document Name" },
-            { key: "confirmed_at", label: "Confirmed At" },
-            { key: "version", label: "Version" },
-          ],
-          data: [],
-        }
-        break
-      default:
-        result = { columns: [], data: [] }
+      if (!response.ok) {
+        setError(body.error || "An error occurred while running the report.")
+      } else {
+        setReportResult(body)
+      }
+    } catch (err) {
+      console.error("Error running report:", err)
+      setError("An error occurred while running the report.")
     }
 
-    setReportResult(result)
     setLoading(false)
+  }, [params, search, sort, page])
+
+  useEffect(() => {
+    if (selectedReport) {
+      void fetchReport(selectedReport) // eslint-disable-line react-hooks/set-state-in-effect
+    }
+  }, [selectedReport, fetchReport])
+
+  const handleRunReport = (report: ReportSummary) => {
+    setReportResult(null)
+    setParams(emptyParams)
+    setSearchInput("")
+    setSearch("")
+    setSort(report.defaultSort)
+    setPage(1)
+    setSelectedReport(report)
   }
 
-  // Get unique values for each column for filtering
-  const filterOptions = useMemo(() => {
-    if (!reportResult) return {}
+  const updateParam = (key: keyof ReportParams, value: string) => {
+    setParams((prev) => ({ ...prev, [key]: value }))
+    setPage(1)
+  }
 
-    const options: Record<string, string[]> = {}
-    reportResult.columns.forEach(col => {
-      const values = [...new Set(reportResult.data.map(row => String(row[col.key] ?? "")))]
-      options[col.key] = values.filter(v => v !== "").sort()
-    })
-    return options
-  }, [reportResult])
-
-  // Apply search and filters to data
-  const filteredData = useMemo(() => {
-    if (!reportResult) return []
-
-    return reportResult.data.filter(row => {
-      // Apply column filters
-      for (const [key, value] of Object.entries(columnFilters)) {
-        if (value && String(row[key] ?? "") !== value) {
-          return false
-        }
-      }
+  const toggleSort = (column: ReportColumn) => {
+    if (!column.sortable) return
 
-      // Apply search
-      if (search) {
-        const term = search.toLowerCase()
-        const matches = Object.values(row).some(val =>
-          String(val ?? "").toLowerCase().includes(term)
-        )
-        if (!matches) return false
+    setSort((prev) => {
+      const current = prev[0]
+      if (current?.key === column.key) {
+        return [{ key: column.key, ascending: !current.ascending }]
       }
-
-      return true
+      return [{ key: column.key, ascending: true }]
     })
-  }, [reportResult, search, columnFilters])
+    setPage(1)
+  }
 
-  const handleDownloadExcel = async () => {
+  const handleDownload = async (format: ExportFormat) => {
     if (!reportResult || !selectedReport) return
 
-    const workbook = new ExcelJS.Workbook()
-    const worksheet = workbook.addWorksheet(selectedReport.name)
+    setExporting(true)
+    setError(null)
+
+    try {
+      const query = buildQueryString(params, search, sort, { all: "true" })
+      const response = await fetch(`/api/reports/${selectedReport.id}?${query}`)
+      const fullResult: ReportResult & { error?: string } = await response.json()
+
+      if (!response.ok) {
+        setError(fullResult.error || "Failed to export the report.")
+        setExporting(false)
+        return
+      }
+
+      const file = await exportReport(format, fullResult, {
+        reportName: selectedReport.name,
+        filters: describeFilters(params, search, {
+          organizations: Object.fromEntries(companies.map((c) => [c.id, c.name])),
+          events: Object.fromEntries(events.map((e) => [e.id, e.name])),
+        }),
+        generatedAt: new Date(),
+      })
 
-    // Add headers
-    const headerRow = worksheet.addRow(reportResult.columns.map(col => col.label))
-    headerRow.font = { bold: true }
-    headerRow.fill = {
-      type: "pattern",
-      pattern: "solid",
-      fgColor: { argb: "FFE0E0E0" },
+      // Download
+      const blob = new Blob([file.content], { type: file.mimeType })
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement("a")
+      a.href = url
+      a.download = file.filename
+      a.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      console.error("Error exporting report:", err)
+      setError("An error occurred while exporting the report.")
     }
 
-    // Add data
-    filteredData.forEach(row => {
-      worksheet.addRow(reportResult.columns.map(col => row[col.key] ?? ""))
-    })
+    setExporting(false)
+  }
+
+  const openSubscribe = async (report: ReportSummary) => {
+    const { data: { user } } = await supabase.auth.getUser()
+
+    setSubscribingReport(report)
+    setSubscriptionForm({ ...emptySubscriptionForm, email: user?.email || "" })
+    setMessage(null)
+    setSubscribeDialogOpen(true)
+  }
+
+  const handleSaveSubscription = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!subscribingReport) return
 
-    // Auto-fit columns
-    worksheet.columns.forEach(column => {
-      let maxLength = 10
-      column.eachCell?.({ includeEmpty: true }, (cell) => {
-        const cellLength = cell.value ? String(cell.value).length : 0
-        maxLength = Math.max(maxLength, cellLength)
+    setSavingSubscription(true)
+    setMessage(null)
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      setMessage({ type: "error", text: "You must be signed in to schedule reports." })
+      setSavingSubscription(false)
+      return
+    }
+
+    // Optionally carry over the filters currently applied to this report
+    const activeParams = subscriptionForm.use_filters
+      ? Object.fromEntries(Object.entries(params).filter(([, value]) => value))
+      : {}
+
+    const { error } = await supabase
+      .from("report_subscriptions")
+      .insert({
+        profile_id: user.id,
+        report_id: subscribingReport.id,
+        schedule: subscriptionForm.schedule,
+        days_before: Number(subscriptionForm.days_before) || 0,
+        params: activeParams,
+        email: subscriptionForm.email,
       })
-      column.width = Math.min(maxLength + 2, 50)
-    })
 
-    // Generate filename with date
-    const date = new Date()
-    const dateStr = `${String(date.getMonth() + 1).padStart(2, "0")}${String(date.getDate()).padStart(2, "0")}${date.getFullYear()}`
-    const filename = `${selectedReport.name.replace(/\s+/g, "_")}_${dateStr}.xlsx`
-
-    // Download
-    const buffer = await workbook.xlsx.writeBuffer()
-    const blob = new Blob([buffer], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement("a")
-    a.href = url
-    a.download = filename
-    a.click()
-    URL.revokeObjectURL(url)
+    if (error) {
+      setMessage({ type: "error", text: error.message })
+    } else {
+      setSubscribeDialogOpen(false)
+      fetchSubscriptions()
+    }
+
+    setSavingSubscription(false)
+  }
+
+  const toggleSubscription = async (subscription: Subscription) => {
+    await supabase
+      .from("report_subscriptions")
+      .update({ is_active: !subscription.is_active })
+      .eq("id", subscription.id)
+
+    fetchSubscriptions()
+  }
+
+  const deleteSubscription = async (subscription: Subscription) => {
+    await supabase
+      .from("report_subscriptions")
+      .delete()
+      .eq("id", subscription.id)
+
+    fetchSubscriptions()
+  }
+
+  const describeSchedule = (subscription: Subscription) => {
+    if (subscription.schedule === "weekly") return "Every Monday"
+    return subscription.days_before === 0
+      ? "On the day of each event"
+      : `${subscription.days_before} day${subscription.days_before !== 1 ? "s" : ""} before each event`
   }
 
   const clearFilters = () => {
+    setParams(emptyParams)
+    setSearchInput("")
     setSearch("")
-    setColumnFilters({})
+    setPage(1)
   }
 
-  const hasActiveFilters = search || Object.values(columnFilters).some(v => v)
+  const hasActiveFilters = search || Object.values(params).some(v => v)
+  const totalPages = reportResult ? Math.max(1, Math.ceil(reportResult.total / reportResult.pageSize)) : 1
+  const selectClassName = "h-10 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
 
   return (
     <div>
@@ -209,7 +363,7 @@ export default function ReportsPage() {
         </CardHeader>
         <CardContent>
           <div className="space-y-3">
-            {availableReports.map((report) => (
+            {reports.map((report) => (
               <div
                 key={report.id}
                 className={`flex items-center justify-between p-4 rounded-lg border ${
@@ -223,30 +377,95 @@ export default function ReportsPage() {
                     <p className="text-sm text-muted-foreground">{report.description}</p>
                   </div>
                 </div>
-                <Button
-                  onClick={() => handleRunReport(report)}
-                  disabled={loading}
-                  variant={selectedReport?.id === report.id ? "default" : "outline"}
-                  size="sm"
-                >
-                  {loading && selectedReport?.id === report.id ? (
-                    <>
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Running...
-                    </>
-                  ) : (
-                    <>
-                      <Play className="mr-2 h-4 w-4" />
-                      Run
-                    </>
-                  )}
-                </Button>
+                <div className="flex items-center gap-2">
+                  <Button
+                    onClick={() => openSubscribe(report)}
+                    variant="ghost"
+                    size="sm"
+                    title="Email this report on a schedule"
+                  >
+                    <CalendarClock className="mr-2 h-4 w-4" />
+                    Schedule
+                  </Button>
+                  <Button
+                    onClick={() => handleRunReport(report)}
+                    disabled={loading}
+                    variant={selectedReport?.id === report.id ? "default" : "outline"}
+                    size="sm"
+                  >
+                    {loading && selectedReport?.id === report.id ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Running...
+                      </>
+                    ) : (
+                      <>
+                        <Play className="mr-2 h-4 w-4" />
+                        Run
+                      </>
+                    )}
+                  </Button>
+                </div>
               </div>
             ))}
           </div>
         </CardContent>
       </Card>
 
+      {/* Scheduled Reports */}
+      {subscriptions.length > 0 && (
+        <Card className="mb-6">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">Scheduled Reports</CardTitle>
+            <p className="text-sm text-muted-foreground">Reports emailed to you as Excel attachments</p>
+          </CardHeader>
+          <CardContent>
+            <div className="divide-y">
+              {subscriptions.map((subscription) => (
+                <div key={subscription.id} className="flex items-center justify-between py-3">
+                  <div className="min-w-0">
+                    <p className="font-medium">
+                      {reports.find((r) => r.id === subscription.report_id)?.name || subscription.report_id}
+                    </p>
+                    <p className="text-sm text-muted-foreground truncate">
+                      {describeSchedule(subscription)} • {subscription.email}
+                      {Object.keys(subscription.params || {}).length > 0 && " • filtered"}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => toggleSubscription(subscription)}
+                      className={`text-xs px-2 py-1 rounded ${
+                        subscription.is_active
+                          ? "bg-green-100 text-green-800"
+                          : "bg-gray-100 text-gray-600"
+                      }`}
+                    >
+                      {subscription.is_active ? "Active" : "Paused"}
+                    </button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => deleteSubscription(subscription)}
+                      title="Delete Schedule"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {error && (
+        <div className="rounded-md p-3 text-sm mb-6 bg-destructive/10 text-destructive">
+          Failed to run report: {error}
+        </div>
+      )}
+
       {/* Report Results */}
       {selectedReport && reportResult && (
         <Card>
@@ -255,8 +474,8 @@ export default function ReportsPage() {
               <div>
                 <CardTitle className="text-lg">{selectedReport.name}</CardTitle>
                 <p className="text-sm text-muted-foreground">
-                  {filteredData.length} {filteredData.length === 1 ? "record" : "records"}
-                  {hasActiveFilters && ` (filtered from ${reportResult.data.length})`}
+                  {reportResult.total} {reportResult.total === 1 ? "record" : "records"}
+                  {hasActiveFilters && " (filtered)"}
                 </p>
               </div>
               <div className="flex items-center gap-2">
@@ -266,88 +485,275 @@ export default function ReportsPage() {
                     Clear Filters
                   </Button>
                 )}
-                <Button onClick={handleDownloadExcel} disabled={filteredData.length === 0}>
-                  <Download className="mr-2 h-4 w-4" />
-                  Download Excel
-                </Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button disabled={reportResult.total === 0 || exporting}>
+                      {exporting ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <Download className="mr-2 h-4 w-4" />
+                      )}
+                      Download
+                      <ChevronDown className="ml-2 h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+                      <DropdownMenuItem
+                        key={format}
+                        onSelect={() => handleDownload(format)}
+                        className="cursor-pointer"
+                      >
+                        {EXPORT_FORMATS[format].label} (.{EXPORT_FORMATS[format].extension})
+                      </DropdownMenuItem>
+                    ))}
+                    {selectedReport.id === "document-confirmations" && params.eventId && (
+                      <DropdownMenuItem asChild className="cursor-pointer">
+                        <a href={`/api/events/${params.eventId}/certificates`} download>
+                          Acknowledgement certificates (.pdf)
+                        </a>
+                      </DropdownMenuItem>
+                    )}
+                  </DropdownMenuContent>
+                </DropdownMenu>
               </div>
             </div>
           </CardHeader>
           <CardContent>
-            {/* Search and Filters */}
+            {/* Search and Parameters */}
             <div className="flex flex-wrap gap-4 mb-4">
               <div className="relative max-w-sm">
                 <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                 <Input
                   placeholder="Search all columns..."
-                  value={search}
-                  onChange={(e) => setSearch(e.target.value)}
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
                   className="pl-9 pr-9"
                 />
-                {search && (
+                {searchInput && (
                   <button
-                    onClick={() => setSearch("")}
+                    onClick={() => setSearchInput("")}
                     className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
                   >
                     <X className="h-4 w-4" />
                   </button>
                 )}
               </div>
-              {reportResult.columns.slice(0, 3).map((col) => (
-                filterOptions[col.key]?.length > 0 && (
-                  <select
-                    key={col.key}
-                    className="h-10 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
-                    value={columnFilters[col.key] || ""}
-                    onChange={(e) => setColumnFilters(prev => ({ ...prev, [col.key]: e.target.value }))}
-                  >
-                    <option value="">All {col.label}</option>
-                    {filterOptions[col.key].map((value) => (
-                      <option key={value} value={value}>
-                        {value}
-                      </option>
-                    ))}
-                  </select>
-                )
-              ))}
+              {selectedReport.parameters.includes("dateRange") && (
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="date"
+                    aria-label="Start date"
+                    value={params.startDate}
+                    onChange={(e) => updateParam("startDate", e.target.value)}
+                    className="w-auto"
+                  />
+                  <span className="text-sm text-muted-foreground">to</span>
+                  <Input
+                    type="date"
+                    aria-label="End date"
+                    value={params.endDate}
+                    onChange={(e) => updateParam("endDate", e.target.value)}
+                    className="w-auto"
+                  />
+                </div>
+              )}
+              {selectedReport.parameters.includes("organization") && (
+                <select
+                  className={selectClassName}
+                  value={params.organizationId}
+                  onChange={(e) => updateParam("organizationId", e.target.value)}
+                >
+                  <option value="">All Organizations</option>
+                  {companies.map((company) => (
+                    <option key={company.id} value={company.id}>
+                      {company.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {selectedReport.parameters.includes("event") && (
+                <select
+                  className={selectClassName}
+                  value={params.eventId}
+                  onChange={(e) => updateParam("eventId", e.target.value)}
+                >
+                  <option value="">All Events</option>
+                  {events.map((event) => (
+                    <option key={event.id} value={event.id}>
+                      {event.name}{event.start_date ? ` (${formatDate(event.start_date)})` : ""}
+                    </option>
+                  ))}
+                </select>
+              )}
             </div>
 
             {/* Results Table */}
-            {filteredData.length === 0 ? (
+            {reportResult.data.length === 0 ? (
               <div className="text-center py-8 text-muted-foreground">
-                {reportResult.data.length === 0
-                  ? "No data available for this report."
-                  : "No results match your filters."}
+                {hasActiveFilters
+                  ? "No results match your filters."
+                  : "No data available for this report."}
               </div>
             ) : (
-              <div className="overflow-x-auto rounded-lg border">
-                <table className="w-full text-sm">
-                  <thead>
-                    <tr className="border-b bg-muted/50">
-                      {reportResult.columns.map((col) => (
-                        <th key={col.key} className="px-4 py-3 text-left font-medium">
-                          {col.label}
-                        </th>
-                      ))}
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {filteredData.map((row, idx) => (
-                      <tr key={idx} className="border-b last:border-0 hover:bg-muted/30">
-                        {reportResult.columns.map((col) => (
-                          <td key={col.key} className="px-4 py-3">
-                            {String(row[col.key] ?? "—")}
-                          </td>
-                        ))}
+              <>
+                <div className="overflow-x-auto rounded-lg border">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b bg-muted/50">
+                        {reportResult.columns.map((col) => {
+                          const activeSort = sort.find((s) => s.key === col.key)
+                          return (
+                            <th key={col.key} className="px-4 py-3 text-left font-medium">
+                              {col.sortable ? (
+                                <button
+                                  onClick={() => toggleSort(col)}
+                                  className="inline-flex items-center gap-1 hover:text-foreground"
+                                >
+                                  {col.label}
+                                  {activeSort && (activeSort.ascending ? (
+                                    <ArrowUp className="h-3 w-3" />
+                                  ) : (
+                                    <ArrowDown className="h-3 w-3" />
+                                  ))}
+                                </button>
+                              ) : (
+                                col.label
+                              )}
+                            </th>
+                          )
+                        })}
                       </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
+                    </thead>
+                    <tbody>
+                      {reportResult.data.map((row, idx) => (
+                        <tr key={idx} className="border-b last:border-0 hover:bg-muted/30">
+                          {reportResult.columns.map((col) => (
+                            <td key={col.key} className="px-4 py-3">
+                              {formatCell(col, row[col.key])}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {/* Pagination */}
+                <div className="flex items-center justify-between mt-4 text-sm text-muted-foreground">
+                  <span>
+                    Page {reportResult.page} of {totalPages}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPage((p) => p - 1)}
+                      disabled={loading || page <= 1}
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                      Previous
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPage((p) => p + 1)}
+                      disabled={loading || page >= totalPages}
+                    >
+                      Next
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </>
             )}
           </CardContent>
         </Card>
       )}
+
+      {/* Schedule Report Dialog */}
+      <Dialog open={subscribeDialogOpen} onOpenChange={setSubscribeDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Schedule {subscribingReport?.name}</DialogTitle>
+            <DialogDescription>
+              The report will be emailed to you as an Excel attachment.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSaveSubscription}>
+            <div className="space-y-4 py-4">
+              {message && (
+                <div
+                  className={`rounded-md p-3 text-sm ${
+                    message.type === "success"
+                      ? "bg-green-100 text-green-800"
+                      : "bg-destructive/10 text-destructive"
+                  }`}
+                >
+                  {message.text}
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="schedule">Frequency</Label>
+                <select
+                  id="schedule"
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                  value={subscriptionForm.schedule}
+                  onChange={(e) => setSubscriptionForm({ ...subscriptionForm, schedule: e.target.value as ReportSchedule })}
+                >
+                  <option value="weekly">Every Monday</option>
+                  <option value="before_event">Before each event</option>
+                </select>
+              </div>
+              {subscriptionForm.schedule === "before_event" && (
+                <div className="space-y-2">
+                  <Label htmlFor="days_before">Days before the event</Label>
+                  <Input
+                    id="days_before"
+                    type="number"
+                    min={0}
+                    max={60}
+                    value={subscriptionForm.days_before}
+                    onChange={(e) => setSubscriptionForm({ ...subscriptionForm, days_before: e.target.value })}
+                    required
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="subscription_email">
+                  Email <span className="text-destructive">*</span>
+                </Label>
+                <Input
+                  id="subscription_email"
+                  type="email"
+                  value={subscriptionForm.email}
+                  onChange={(e) => setSubscriptionForm({ ...subscriptionForm, email: e.target.value })}
+                  required
+                />
+              </div>
+              {selectedReport?.id === subscribingReport?.id && hasActiveFilters && (
+                <label className="flex items-start gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={subscriptionForm.use_filters}
+                    onChange={(e) => setSubscriptionForm({ ...subscriptionForm, use_filters: e.target.checked })}
+                    className="mt-1 h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                  />
+                  <span className="text-sm">Apply the current date, organization and event filters</span>
+                </label>
+              )}
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setSubscribeDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={savingSubscription}>
+                {savingSubscription ? "Saving..." : "Save Schedule"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
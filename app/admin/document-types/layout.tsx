@@ -0,0 +1,10 @@
+import { requireAreaAccess } from "@/lib/auth"
+
+export default async function DocumentTypesLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  await requireAreaAccess("document_types")
+  return children
+}
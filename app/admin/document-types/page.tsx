@@ -2,6 +2,7 @@
 
 import { useEffect, useState, useCallback } from "react"
 import { createClient } from "@/lib/supabase/client"
+import { listDocumentTypes, type DocumentType } from "@/lib/db"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
@@ -16,17 +17,11 @@ import {
 } from "@/components/ui/dialog"
 import { Plus, Pencil, Search, X } from "lucide-react"
 
-interface DocumentType {
-  id: string
-  name: string
-  description: string | null
-  requires_confirmation: boolean
-}
-
 const emptyForm = {
   name: "",
   description: "",
   requires_confirmation: true,
+  requires_signature: false,
 }
 
 export default function ManageDocumentTypesPage() {
@@ -42,12 +37,8 @@ export default function ManageDocumentTypesPage() {
   const supabase = createClient()
 
   const fetchDocumentTypes = useCallback(async () => {
-    const { data } = await supabase
-      .from("document_types")
-      .select("*")
-      .order("name")
-
-    if (data) setDocumentTypes(data)
+    const { rows } = await listDocumentTypes(supabase)
+    setDocumentTypes(rows)
     setLoading(false)
   }, [supabase])
 
@@ -76,6 +67,7 @@ export default function ManageDocumentTypesPage() {
       name: docType.name,
       description: docType.description || "",
       requires_confirmation: docType.requires_confirmation ?? true,
+      requires_signature: docType.requires_signature,
     })
     setMessage(null)
     setDialogOpen(true)
@@ -90,6 +82,8 @@ export default function ManageDocumentTypesPage() {
       name: form.name,
       description: form.description || null,
       requires_confirmation: form.requires_confirmation,
+      // Only a confirmed document can be signed
+      requires_signature: form.requires_confirmation && form.requires_signature,
     }
 
     if (editing) {
@@ -162,6 +156,7 @@ export default function ManageDocumentTypesPage() {
                 <th className="px-4 py-3 text-left font-medium">Name</th>
                 <th className="px-4 py-3 text-left font-medium">Description</th>
                 <th className="px-4 py-3 text-center font-medium">Confirmation Required</th>
+                <th className="px-4 py-3 text-center font-medium">Signature Required</th>
                 <th className="px-4 py-3 text-right font-medium">Actions</th>
               </tr>
             </thead>
@@ -171,6 +166,7 @@ export default function ManageDocumentTypesPage() {
                   <td className="px-4 py-3 font-medium">{docType.name}</td>
                   <td className="px-4 py-3">{docType.description || "—"}</td>
                   <td className="px-4 py-3 text-center">{docType.requires_confirmation ? "Yes" : "No"}</td>
+                  <td className="px-4 py-3 text-center">{docType.requires_signature ? "Yes" : "No"}</td>
                   <td className="px-4 py-3 text-right">
                     <Button
                       variant="ghost"
@@ -252,6 +248,24 @@ export default function ManageDocumentTypesPage() {
                 </select>
               </div>
 
+              {form.requires_confirmation && (
+                <div className="space-y-2">
+                  <Label htmlFor="requires_signature">Signature Required</Label>
+                  <select
+                    id="requires_signature"
+                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                    value={form.requires_signature ? "yes" : "no"}
+                    onChange={(e) => setForm({ ...form, requires_signature: e.target.value === "yes" })}
+                  >
+                    <option value="no">No</option>
+                    <option value="yes">Yes</option>
+                  </select>
+                  <p className="text-xs text-muted-foreground">
+                    Visitors type or draw a signature, kept with the IP address and browser it came from.
+                  </p>
+                </div>
+              )}
+
               <p className="text-xs text-muted-foreground">
                 <span className="text-destructive">*</span> Required field
               </p>
@@ -0,0 +1,10 @@
+import { requireAreaAccess } from "@/lib/auth"
+
+export default async function DocumentsLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  await requireAreaAccess("documents")
+  return children
+}
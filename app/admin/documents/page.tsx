@@ -14,42 +14,20 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog"
 import { Plus, Pencil, Search, X, Upload, FileText, History, Check } from "lucide-react"
-
-interface DocumentVersion {
-  id: string
-  document_id: string
-  version_number: number
-  file_path: string
-  file_name: string
-  file_size: number | null
-  mime_type: string | null
-  is_current: boolean
-  notes: string | null
-  created_at: string
-}
-
-interface Document {
-  id: string
-  name: string
-  description: string | null
-  document_type_id: string | null
-  document_type?: { name: string } | null
-  is_active: boolean
-  created_at: string
-  current_version?: DocumentVersion | null
-  versions?: DocumentVersion[]
-  assigned_events?: { event_id: string; event: { name: string } }[]
-}
-
-interface Event {
-  id: string
-  name: string
-}
-
-interface DocumentType {
-  id: string
-  name: string
-}
+import { DataTable, useTableQuery, type DataTableColumn } from "@/components/admin/data-table"
+import {
+  listDocumentTypes,
+  listDocumentVersions,
+  listDocuments,
+  listEventOptions,
+  type DocumentListRow,
+  type DocumentType,
+  type DocumentVersion,
+  type EventOption,
+} from "@/lib/db"
+import { fileSha256 } from "@/lib/certificates/hash"
+
+type Document = DocumentListRow
 
 const emptyDocumentForm = {
   name: "",
@@ -63,10 +41,11 @@ const emptyVersionForm = {
 
 export default function DocumentsPage() {
   const [documents, setDocuments] = useState<Document[]>([])
-  const [events, setEvents] = useState<Event[]>([])
+  const [total, setTotal] = useState(0)
+  const [events, setEvents] = useState<EventOption[]>([])
   const [documentTypes, setDocumentTypes] = useState<DocumentType[]>([])
   const [loading, setLoading] = useState(true)
-  const [search, setSearch] = useState("")
+  const { query, setQuery, searchInput, setSearchInput } = useTableQuery([{ column: "name", ascending: true }])
 
   // Document dialog state
   const [documentDialogOpen, setDocumentDialogOpen] = useState(false)
@@ -95,53 +74,26 @@ export default function DocumentsPage() {
   const supabase = createClient()
 
   const fetchDocuments = useCallback(async () => {
-    const { data } = await supabase
-      .from("documents")
-      .select(`
-        *,
-        document_type:document_types(name),
-        assigned_events:document_events(
-          event_id,
-          event:events(name)
-        )
-      `)
-      .order("name")
+    setLoading(true)
+    const { rows, total, error } = await listDocuments(supabase, query)
 
-    if (data) {
-      // Fetch current version for each document
-      const docsWithVersions = await Promise.all(
-        data.map(async (doc) => {
-          const { data: versionData } = await supabase
-            .from("document_versions")
-            .select("*")
-            .eq("document_id", doc.id)
-            .eq("is_current", true)
-            .single()
-
-          return { ...doc, current_version: versionData }
-        })
-      )
-      setDocuments(docsWithVersions)
+    if (error) {
+      setMessage({ type: "error", text: error.message })
+    } else {
+      setDocuments(rows)
+      setTotal(total)
     }
     setLoading(false)
-  }, [supabase])
+  }, [supabase, query])
 
   const fetchEvents = useCallback(async () => {
-    const { data } = await supabase
-      .from("events")
-      .select("id, name")
-      .order("name")
-
-    if (data) setEvents(data)
+    const { rows } = await listEventOptions(supabase)
+    setEvents(rows)
   }, [supabase])
 
   const fetchDocumentTypes = useCallback(async () => {
-    const { data } = await supabase
-      .from("document_types")
-      .select("id, name")
-      .order("name")
-
-    if (data) setDocumentTypes(data)
+    const { rows } = await listDocumentTypes(supabase)
+    setDocumentTypes(rows)
   }, [supabase])
 
   useEffect(() => {
@@ -150,15 +102,6 @@ export default function DocumentsPage() {
     fetchDocumentTypes()
   }, [fetchDocuments, fetchEvents, fetchDocumentTypes])
 
-  const filteredDocuments = documents.filter((doc) => {
-    const term = search.toLowerCase()
-    return (
-      doc.name.toLowerCase().includes(term) ||
-      (doc.description?.toLowerCase().includes(term) ?? false) ||
-      (doc.document_type?.name?.toLowerCase().includes(term) ?? false)
-    )
-  })
-
   // Document CRUD
   const openCreateDocument = () => {
     setEditingDocument(null)
@@ -240,6 +183,7 @@ export default function DocumentsPage() {
             file_name: selectedFile.name,
             file_size: selectedFile.size,
             mime_type: selectedFile.type,
+            file_sha256: await fileSha256(selectedFile),
             is_current: true,
             created_by: userData.user?.id,
           })
@@ -279,9 +223,11 @@ export default function DocumentsPage() {
       const { data: userData } = await supabase.auth.getUser()
 
       // Get next version number
-      const { data: nextVersion } = await supabase
+      const { data: nextVersion, error: nextVersionError } = await supabase
         .rpc("get_next_version_number", { doc_id: uploadingToDocument.id })
 
+      if (nextVersionError) throw nextVersionError
+
       // Upload the file
       const fileExt = selectedFile.name.split(".").pop()
       const uniqueName = `${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`
@@ -309,6 +255,7 @@ export default function DocumentsPage() {
           file_name: selectedFile.name,
           file_size: selectedFile.size,
           mime_type: selectedFile.type,
+          file_sha256: await fileSha256(selectedFile),
           is_current: true,
           notes: versionForm.notes || null,
           created_by: userData.user?.id,
@@ -331,13 +278,8 @@ export default function DocumentsPage() {
   const openVersionHistory = async (doc: Document) => {
     setViewingDocument(doc)
 
-    const { data } = await supabase
-      .from("document_versions")
-      .select("*")
-      .eq("document_id", doc.id)
-      .order("version_number", { ascending: false })
-
-    if (data) setVersions(data)
+    const { rows } = await listDocumentVersions(supabase, doc.id)
+    setVersions(rows)
     setHistoryDialogOpen(true)
   }
 
@@ -348,13 +290,8 @@ export default function DocumentsPage() {
       await supabase.rpc("set_current_version", { version_id: version.id })
 
       // Refresh versions list
-      const { data } = await supabase
-        .from("document_versions")
-        .select("*")
-        .eq("document_id", version.document_id)
-        .order("version_number", { ascending: false })
-
-      if (data) setVersions(data)
+      const { rows } = await listDocumentVersions(supabase, version.document_id)
+      setVersions(rows)
       fetchDocuments()
     } catch (error: unknown) {
       console.error("Error setting current version:", error)
@@ -443,6 +380,117 @@ export default function DocumentsPage() {
     })
   }
 
+  const columns: DataTableColumn<Document>[] = [
+    { key: "name", header: "Name", sortColumn: "name", className: "font-medium", render: (doc) => doc.name },
+    { key: "type", header: "Type", sortColumn: "document_type_name", render: (doc) => doc.document_type_name || "—" },
+    {
+      key: "version",
+      header: "Current Version",
+      sortColumn: "current_version_number",
+      render: (doc) =>
+        doc.current_version_id ? (
+          <span className="inline-flex items-center px-2 py-1 rounded bg-blue-100 text-blue-800 text-xs font-medium">
+            v{doc.current_version_number}
+          </span>
+        ) : (
+          "—"
+        ),
+    },
+    {
+      key: "file",
+      header: "File",
+      render: (doc) =>
+        doc.current_version_id ? (
+          <div className="flex items-center gap-2">
+            <FileText className="h-4 w-4 text-muted-foreground" />
+            <span className="truncate max-w-[120px]" title={doc.current_file_name || undefined}>
+              {doc.current_file_name}
+            </span>
+            <span className="text-muted-foreground text-xs">
+              ({formatFileSize(doc.current_file_size)})
+            </span>
+          </div>
+        ) : (
+          "—"
+        ),
+    },
+    {
+      key: "events",
+      header: "Assigned Events",
+      sortColumn: "event_count",
+      render: (doc) =>
+        doc.event_count > 0 ? (
+          <span className="text-xs bg-muted px-2 py-1 rounded">
+            {doc.event_count} event{doc.event_count !== 1 ? 's' : ''}
+          </span>
+        ) : (
+          <span className="text-muted-foreground">None</span>
+        ),
+    },
+    {
+      key: "status",
+      header: "Status",
+      sortColumn: "is_active",
+      render: (doc) => (
+        <button
+          onClick={() => toggleActive(doc)}
+          className={`text-xs px-2 py-1 rounded ${
+            doc.is_active
+              ? "bg-green-100 text-green-800"
+              : "bg-gray-100 text-gray-600"
+          }`}
+        >
+          {doc.is_active ? "Active" : "Inactive"}
+        </button>
+      ),
+    },
+    {
+      key: "actions",
+      header: "Actions",
+      align: "right",
+      render: (doc) => (
+        <div className="flex items-center justify-end gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => openVersionHistory(doc)}
+            title="Version history"
+          >
+            <History className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => openUploadVersion(doc)}
+            title="Upload new version"
+          >
+            <Upload className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => openAssign(doc)}
+            title="Assign to events"
+          >
+            <FileText className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => openEditDocument(doc)}
+            title="Edit document"
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+        </div>
+      ),
+    },
+  ]
+
   return (
     <div>
       <div className="flex items-center justify-between mb-6">
@@ -457,13 +505,13 @@ export default function DocumentsPage() {
         <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
         <Input
           placeholder="Search documents..."
-          value={search}
-          onChange={(e) => setSearch(e.target.value)}
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
           className="pl-9 pr-9"
         />
-        {search && (
+        {searchInput && (
           <button
-            onClick={() => setSearch("")}
+            onClick={() => setSearchInput("")}
             className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
           >
             <X className="h-4 w-4" />
@@ -471,122 +519,16 @@ export default function DocumentsPage() {
         )}
       </div>
 
-      {loading ? (
-        <p className="text-muted-foreground">Loading documents...</p>
-      ) : filteredDocuments.length === 0 ? (
-        <div className="text-center py-12 text-muted-foreground">
-          {search ? "No documents match your search." : "No documents yet. Create your first document."}
-        </div>
-      ) : (
-        <div className="overflow-x-auto rounded-lg border">
-          <table className="w-full text-sm">
-            <thead>
-              <tr className="border-b bg-muted/50">
-                <th className="px-4 py-3 text-left font-medium">Name</th>
-                <th className="px-4 py-3 text-left font-medium">Type</th>
-                <th className="px-4 py-3 text-left font-medium">Current Version</th>
-                <th className="px-4 py-3 text-left font-medium">File</th>
-                <th className="px-4 py-3 text-left font-medium">Assigned Events</th>
-                <th className="px-4 py-3 text-left font-medium">Status</th>
-                <th className="px-4 py-3 text-right font-medium">Actions</th>
-              </tr>
-            </thead>
-            <tbody>
-              {filteredDocuments.map((doc) => (
-                <tr key={doc.id} className="border-b last:border-0 hover:bg-muted/30">
-                  <td className="px-4 py-3 font-medium">{doc.name}</td>
-                  <td className="px-4 py-3">{doc.document_type?.name || "—"}</td>
-                  <td className="px-4 py-3">
-                    {doc.current_version ? (
-                      <span className="inline-flex items-center px-2 py-1 rounded bg-blue-100 text-blue-800 text-xs font-medium">
-                        v{doc.current_version.version_number}
-                      </span>
-                    ) : (
-                      "—"
-                    )}
-                  </td>
-                  <td className="px-4 py-3">
-                    {doc.current_version ? (
-                      <div className="flex items-center gap-2">
-                        <FileText className="h-4 w-4 text-muted-foreground" />
-                        <span className="truncate max-w-[120px]" title={doc.current_version.file_name}>
-                          {doc.current_version.file_name}
-                        </span>
-                        <span className="text-muted-foreground text-xs">
-                          ({formatFileSize(doc.current_version.file_size)})
-                        </span>
-                      </div>
-                    ) : (
-                      "—"
-                    )}
-                  </td>
-                  <td className="px-4 py-3">
-                    {doc.assigned_events && doc.assigned_events.length > 0 ? (
-                      <span className="text-xs bg-muted px-2 py-1 rounded">
-                        {doc.assigned_events.length} event{doc.assigned_events.length !== 1 ? 's' : ''}
-                      </span>
-                    ) : (
-                      <span className="text-muted-foreground">None</span>
-                    )}
-                  </td>
-                  <td className="px-4 py-3">
-                    <button
-                      onClick={() => toggleActive(doc)}
-                      className={`text-xs px-2 py-1 rounded ${
-                        doc.is_active
-                          ? "bg-green-100 text-green-800"
-                          : "bg-gray-100 text-gray-600"
-                      }`}
-                    >
-                      {doc.is_active ? "Active" : "Inactive"}
-                    </button>
-                  </td>
-                  <td className="px-4 py-3 text-right">
-                    <div className="flex items-center justify-end gap-1">
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-8 w-8"
-                        onClick={() => openVersionHistory(doc)}
-                        title="Version history"
-                      >
-                        <History className="h-4 w-4" />
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-8 w-8"
-                        onClick={() => openUploadVersion(doc)}
-                        title="Upload new version"
-                      >
-                        <Upload className="h-4 w-4" />
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-8 w-8"
-                        onClick={() => openAssign(doc)}
-                        title="Assign to events"
-                      >
-                        <FileText className="h-4 w-4" />
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-8 w-8"
-                        onClick={() => openEditDocument(doc)}
-                        title="Edit document"
-                      >
-                        <Pencil className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  </td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
-      )}
+      <DataTable
+        columns={columns}
+        rows={documents}
+        total={total}
+        loading={loading}
+        query={query}
+        onQueryChange={setQuery}
+        noun={["document", "documents"]}
+        emptyMessage={query.search ? "No documents match your search." : "No documents yet. Create your first document."}
+      />
 
       {/* Create/Edit Document Dialog */}
       <Dialog open={documentDialogOpen} onOpenChange={setDocumentDialogOpen}>
@@ -0,0 +1,466 @@
+"use client"
+
+import { useEffect, useState, useCallback, useMemo } from "react"
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { createClient } from "@/lib/supabase/client"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { ArrowLeft, Plus, Pencil, Trash2, Download, ChevronDown, Loader2 } from "lucide-react"
+import { listEventSessions, type Event as EventRow, type EventSession } from "@/lib/db"
+import {
+  agendaExportData,
+  formatAgendaDay,
+  formatSessionTimes,
+  groupSessionsByDay,
+  validateSession,
+} from "@/lib/agenda"
+import { exportReport, EXPORT_FORMATS, type ExportFormat } from "@/lib/reports/export"
+
+type Event = Pick<EventRow, "id" | "name" | "start_date" | "end_date">
+
+const AGENDA_EXPORT_FORMATS: ExportFormat[] = ["pdf", "xlsx"]
+
+const emptyForm = {
+  title: "",
+  description: "",
+  session_date: "",
+  start_time: "",
+  end_time: "",
+  location: "",
+  host: "",
+}
+
+// Postgres returns times with seconds; time inputs work in hours and minutes
+const toInputTime = (time: string | null) => (time ? time.slice(0, 5) : "")
+
+export default function EventAgendaPage() {
+  const { id: eventId } = useParams<{ id: string }>()
+  const [event, setEvent] = useState<Event | null>(null)
+  const [sessions, setSessions] = useState<EventSession[]>([])
+  const [loading, setLoading] = useState(true)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editing, setEditing] = useState<EventSession | null>(null)
+  const [form, setForm] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+  const [deleting, setDeleting] = useState<EventSession | null>(null)
+  const [exporting, setExporting] = useState(false)
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+
+  const supabase = createClient()
+
+  const fetchEvent = useCallback(async () => {
+    const { data } = await supabase
+      .from("events")
+      .select("id, name, start_date, end_date")
+      .eq("id", eventId)
+      .single()
+
+    if (data) setEvent(data)
+  }, [supabase, eventId])
+
+  const fetchSessions = useCallback(async () => {
+    const { rows } = await listEventSessions(supabase, eventId)
+    setSessions(rows)
+    setLoading(false)
+  }, [supabase, eventId])
+
+  useEffect(() => {
+    void fetchEvent() // eslint-disable-line react-hooks/set-state-in-effect
+    void fetchSessions()
+  }, [fetchEvent, fetchSessions])
+
+  const days = useMemo(() => groupSessionsByDay(sessions), [sessions])
+
+  const openCreate = () => {
+    setEditing(null)
+    // Most sessions follow on the same day as the one before
+    setForm({ ...emptyForm, session_date: sessions[sessions.length - 1]?.session_date || event?.start_date || "" })
+    setMessage(null)
+    setDialogOpen(true)
+  }
+
+  const openEdit = (session: EventSession) => {
+    setEditing(session)
+    setForm({
+      title: session.title,
+      description: session.description || "",
+      session_date: session.session_date,
+      start_time: toInputTime(session.start_time),
+      end_time: toInputTime(session.end_time),
+      location: session.location || "",
+      host: session.host || "",
+    })
+    setMessage(null)
+    setDialogOpen(true)
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const invalid = validateSession({ ...form, end_time: form.end_time || null }, event ?? undefined)
+    if (invalid) {
+      setMessage({ type: "error", text: invalid })
+      return
+    }
+
+    setSaving(true)
+    setMessage(null)
+
+    const payload = {
+      title: form.title.trim(),
+      description: form.description.trim() || null,
+      session_date: form.session_date,
+      start_time: form.start_time,
+      end_time: form.end_time || null,
+      location: form.location.trim() || null,
+      host: form.host.trim() || null,
+    }
+
+    const { error } = editing
+      ? await supabase
+        .from("event_sessions")
+        .update({ ...payload, updated_at: new Date().toISOString() })
+        .eq("id", editing.id)
+      : await supabase.from("event_sessions").insert({ ...payload, event_id: eventId })
+
+    if (error) {
+      setMessage({ type: "error", text: error.message })
+    } else {
+      setMessage({ type: "success", text: editing ? "Session updated successfully" : "Session added successfully" })
+      setDialogOpen(false)
+      fetchSessions()
+    }
+
+    setSaving(false)
+  }
+
+  const handleDelete = async () => {
+    if (!deleting) return
+
+    setSaving(true)
+    const { error } = await supabase.from("event_sessions").delete().eq("id", deleting.id)
+
+    if (error) {
+      setMessage({ type: "error", text: error.message })
+    } else {
+      setMessage({ type: "success", text: `"${deleting.title}" removed from the agenda` })
+      fetchSessions()
+    }
+
+    setSaving(false)
+    setDeleting(null)
+  }
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!event) return
+
+    setExporting(true)
+    try {
+      const file = await exportReport(format, agendaExportData(sessions), {
+        reportName: `${event.name} Agenda`,
+        filters: [],
+        generatedAt: new Date(),
+      })
+
+      const blob = new Blob([file.content], { type: file.mimeType })
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement("a")
+      a.href = url
+      a.download = file.filename
+      a.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      console.error("Error exporting agenda:", err)
+      setMessage({ type: "error", text: "An error occurred while exporting the agenda." })
+    }
+    setExporting(false)
+  }
+
+  const formatDate = (dateStr: string | null) => {
+    if (!dateStr) return ""
+    return new Date(dateStr + "T00:00:00").toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    })
+  }
+
+  if (loading) {
+    return (
+      <div>
+        <h1 className="text-2xl font-bold mb-6">Agenda</h1>
+        <p className="text-muted-foreground">Loading agenda...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <Link href="/admin/events" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-2">
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          Back to Events
+        </Link>
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold">Agenda: {event?.name}</h1>
+          <div className="flex items-center gap-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" disabled={sessions.length === 0 || exporting}>
+                  {exporting ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Download className="mr-2 h-4 w-4" />
+                  )}
+                  Export
+                  <ChevronDown className="ml-2 h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {AGENDA_EXPORT_FORMATS.map((format) => (
+                  <DropdownMenuItem key={format} onSelect={() => handleExport(format)} className="cursor-pointer">
+                    {EXPORT_FORMATS[format].label} (.{EXPORT_FORMATS[format].extension})
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button onClick={openCreate}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Session
+            </Button>
+          </div>
+        </div>
+        {event && (
+          <p className="text-sm text-muted-foreground">
+            {formatDate(event.start_date)} - {formatDate(event.end_date)}
+          </p>
+        )}
+      </div>
+
+      {message && !dialogOpen && (
+        <div
+          className={`rounded-md p-3 text-sm mb-4 ${
+            message.type === "success"
+              ? "bg-green-100 text-green-800"
+              : "bg-destructive/10 text-destructive"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {days.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          No sessions yet. Add the first session to build this event&apos;s agenda.
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {days.map((day) => (
+            <section key={day.date}>
+              <h2 className="text-lg font-semibold mb-2">{formatAgendaDay(day.date)}</h2>
+              <div className="overflow-x-auto rounded-lg border">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b bg-muted/50">
+                      <th className="px-4 py-3 text-left font-medium w-44">Time</th>
+                      <th className="px-4 py-3 text-left font-medium">Session</th>
+                      <th className="px-4 py-3 text-left font-medium">Location</th>
+                      <th className="px-4 py-3 text-left font-medium">Host</th>
+                      <th className="px-4 py-3 text-right font-medium">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {day.sessions.map((session) => (
+                      <tr key={session.id} className="border-b last:border-0 hover:bg-muted/30">
+                        <td className="px-4 py-3 whitespace-nowrap">{formatSessionTimes(session)}</td>
+                        <td className="px-4 py-3">
+                          <p className="font-medium">{session.title}</p>
+                          {session.description && (
+                            <p className="text-xs text-muted-foreground">{session.description}</p>
+                          )}
+                        </td>
+                        <td className="px-4 py-3">{session.location || "—"}</td>
+                        <td className="px-4 py-3">{session.host || "—"}</td>
+                        <td className="px-4 py-3 text-right space-x-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => openEdit(session)}
+                            title="Edit Session"
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => setDeleting(session)}
+                            title="Delete Session"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          ))}
+        </div>
+      )}
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Session" : "Add Session"}</DialogTitle>
+            <DialogDescription>
+              Times are local to the ranch.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSave}>
+            <div className="space-y-4 py-4">
+              {message && (
+                <div
+                  className={`rounded-md p-3 text-sm ${
+                    message.type === "success"
+                      ? "bg-green-100 text-green-800"
+                      : "bg-destructive/10 text-destructive"
+                  }`}
+                >
+                  {message.text}
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="title">
+                  Title <span className="text-destructive">*</span>
+                </Label>
+                <Input
+                  id="title"
+                  value={form.title}
+                  onChange={(e) => setForm({ ...form, title: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="session_date">
+                    Day <span className="text-destructive">*</span>
+                  </Label>
+                  <Input
+                    id="session_date"
+                    type="date"
+                    min={event?.start_date || undefined}
+                    max={event?.end_date || undefined}
+                    value={form.session_date}
+                    onChange={(e) => setForm({ ...form, session_date: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="start_time">
+                    Starts <span className="text-destructive">*</span>
+                  </Label>
+                  <Input
+                    id="start_time"
+                    type="time"
+                    value={form.start_time}
+                    onChange={(e) => setForm({ ...form, start_time: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="end_time">Ends</Label>
+                  <Input
+                    id="end_time"
+                    type="time"
+                    value={form.end_time}
+                    onChange={(e) => setForm({ ...form, end_time: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="location">Location</Label>
+                  <Input
+                    id="location"
+                    value={form.location}
+                    onChange={(e) => setForm({ ...form, location: e.target.value })}
+                    placeholder="e.g. Main Lodge"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="host">Host</Label>
+                  <Input
+                    id="host"
+                    value={form.host}
+                    onChange={(e) => setForm({ ...form, host: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="description">Description</Label>
+                <Textarea
+                  id="description"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  rows={3}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                <span className="text-destructive">*</span> Required field
+              </p>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Saving..." : editing ? "Update Session" : "Add Session"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Delete Session</DialogTitle>
+            <DialogDescription>
+              Remove <strong>{deleting?.title}</strong> from the agenda? Visitors will no longer see it in their itinerary.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setDeleting(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={saving}>
+              {saving ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,425 @@
+"use client"
+
+import { useEffect, useState, useCallback, useMemo, useRef } from "react"
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { createClient } from "@/lib/supabase/client"
+import { listCheckInRows, type CheckInRow, type Event as EventRow } from "@/lib/db"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ArrowLeft, Search, X, LogIn, LogOut, Undo2, Users, UserCheck, UserMinus, ScanLine, QrCode } from "lucide-react"
+import { canCheckIn, findExactMatches, getAttendanceStatus, summarizeAttendance, type AttendanceStatus } from "@/lib/check-in"
+import { RSVP_STATUS_LABELS, isRsvpStatus } from "@/lib/rsvp"
+
+type Event = Pick<EventRow, "id" | "name" | "start_date" | "end_date" | "location">
+
+type StatusFilter = "all" | AttendanceStatus
+
+const statusLabels: Record<AttendanceStatus, string> = {
+  expected: "Expected",
+  on_site: "On Site",
+  departed: "Departed",
+}
+
+const statusClassNames: Record<AttendanceStatus, string> = {
+  expected: "bg-gray-100 text-gray-600",
+  on_site: "bg-green-100 text-green-800",
+  departed: "bg-blue-100 text-blue-800",
+}
+
+export default function EventCheckInPage() {
+  const { id: eventId } = useParams<{ id: string }>()
+  const [event, setEvent] = useState<Event | null>(null)
+  const [rows, setRows] = useState<CheckInRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [search, setSearch] = useState("")
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all")
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+  const searchInputRef = useRef<HTMLInputElement>(null)
+
+  const supabase = createClient()
+
+  const fetchEvent = useCallback(async () => {
+    const { data } = await supabase
+      .from("events")
+      .select("id, name, start_date, end_date, location")
+      .eq("id", eventId)
+      .single()
+
+    if (data) setEvent(data)
+  }, [supabase, eventId])
+
+  const fetchRows = useCallback(async () => {
+    const { rows, error } = await listCheckInRows(supabase, eventId)
+
+    if (error) {
+      console.error("Error fetching check-in list:", error)
+    } else {
+      setRows(rows)
+    }
+    setLoading(false)
+  }, [supabase, eventId])
+
+  useEffect(() => {
+    void fetchEvent() // eslint-disable-line react-hooks/set-state-in-effect
+    void fetchRows()
+  }, [fetchEvent, fetchRows])
+
+  // Keep the headcount live across every device doing check-in
+  useEffect(() => {
+    const channel = supabase
+      .channel(`check-in-${eventId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "event_visitors", filter: `event_id=eq.${eventId}` },
+        () => {
+          void fetchRows()
+        }
+      )
+      .subscribe()
+
+    return () => {
+      void supabase.removeChannel(channel)
+    }
+  }, [supabase, eventId, fetchRows])
+
+  const summary = useMemo(() => summarizeAttendance(rows), [rows])
+
+  const filteredRows = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    return rows.filter((row) => {
+      if (statusFilter !== "all" && getAttendanceStatus(row) !== statusFilter) {
+        return false
+      }
+      if (!term) return true
+      const fullName = `${row.visitor?.first_name} ${row.visitor?.last_name}`.toLowerCase()
+      return (
+        fullName.includes(term) ||
+        row.visitor_id.toLowerCase() === term ||
+        (row.visitor?.email?.toLowerCase().includes(term) ?? false) ||
+        (row.visitor?.company?.name?.toLowerCase().includes(term) ?? false)
+      )
+    })
+  }, [rows, search, statusFilter])
+
+  const visitorName = (row: CheckInRow) =>
+    row.visitor ? `${row.visitor.first_name} ${row.visitor.last_name}` : "Visitor"
+
+  const notCheckInMessage = (row: CheckInRow) => {
+    const status = isRsvpStatus(row.rsvp_status) ? RSVP_STATUS_LABELS[row.rsvp_status].toLowerCase() : "not attending"
+    return `${visitorName(row)} is ${status}. Change their RSVP on the events page to check them in.`
+  }
+
+  const updateAttendance = async (row: CheckInRow, action: "arrive" | "depart" | "undo") => {
+    if (action === "arrive" && !canCheckIn(row)) {
+      setMessage({ type: "error", text: notCheckInMessage(row) })
+      return
+    }
+
+    setUpdatingId(row.id)
+    setMessage(null)
+
+    const now = new Date().toISOString()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    let payload: Record<string, string | null>
+    switch (action) {
+      case "arrive":
+        // Re-admitting keeps the time they first arrived
+        payload = row.arrived_at
+          ? { departed_at: null }
+          : { arrived_at: now, departed_at: null, checked_in_by: user?.id ?? null }
+        break
+      case "depart":
+        payload = { departed_at: now }
+        break
+      case "undo":
+        // Step back one stage: departed -> on site -> expected
+        payload = row.departed_at
+          ? { departed_at: null }
+          : { arrived_at: null, checked_in_by: null }
+        break
+    }
+
+    const { error } = await supabase
+      .from("event_visitors")
+      .update(payload)
+      .eq("id", row.id)
+
+    if (error) {
+      setMessage({ type: "error", text: error.message })
+    } else {
+      const verb = action === "arrive" ? "checked in" : action === "depart" ? "checked out" : "updated"
+      setMessage({ type: "success", text: `${visitorName(row)} ${verb}` })
+      fetchRows()
+    }
+
+    setUpdatingId(null)
+  }
+
+  // Barcode scanners type the code and press Enter. Check in the visitor
+  // when the search exactly identifies one person who hasn't arrived yet
+  // and still holds their place; partial matches have to be checked in
+  // from the list.
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== "Enter") return
+    e.preventDefault()
+
+    if (!search.trim()) return
+
+    const matches = findExactMatches(rows, search)
+
+    if (matches.length !== 1) {
+      let text = "No visitor matches that search."
+      if (matches.length > 1) text = `${matches.length} visitors match. Select one below.`
+      else if (filteredRows.length > 0) text = "Select the visitor below to check them in."
+      setMessage({ type: "error", text })
+      return
+    }
+
+    const [match] = matches
+    if (!canCheckIn(match)) {
+      setMessage({ type: "error", text: notCheckInMessage(match) })
+    } else if (getAttendanceStatus(match) === "on_site") {
+      setMessage({ type: "error", text: `${visitorName(match)} is already checked in.` })
+    } else {
+      void updateAttendance(match, "arrive")
+    }
+    setSearch("")
+    searchInputRef.current?.focus()
+  }
+
+  const formatDate = (dateStr: string | null) => {
+    if (!dateStr) return ""
+    return new Date(dateStr + "T00:00:00").toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    })
+  }
+
+  const formatTime = (timestamp: string | null) => {
+    if (!timestamp) return "—"
+    return new Date(timestamp).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    })
+  }
+
+  if (loading) {
+    return (
+      <div>
+        <h1 className="text-2xl font-bold mb-6">Check-in</h1>
+        <p className="text-muted-foreground">Loading visitors...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <Link href="/admin/events" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-2">
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          Back to Events
+        </Link>
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold">Check-in: {event?.name}</h1>
+          <Button variant="outline" asChild>
+            <Link href={`/admin/events/${eventId}/gate`}>
+              <QrCode className="mr-2 h-4 w-4" />
+              Gate Scanner
+            </Link>
+          </Button>
+        </div>
+        {event && (
+          <p className="text-sm text-muted-foreground">
+            {formatDate(event.start_date)} - {formatDate(event.end_date)}
+            {event.location ? ` • ${event.location}` : ""}
+          </p>
+        )}
+      </div>
+
+      {/* Headcount */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+              <UserCheck className="h-4 w-4" /> On Site
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">{summary.onSite}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+              <LogIn className="h-4 w-4" /> Arrived
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">{summary.arrived}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+              <UserMinus className="h-4 w-4" /> Departed
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">{summary.departed}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+              <Users className="h-4 w-4" /> Confirmed
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">
+              {summary.confirmed} <span className="text-base font-normal text-muted-foreground">(of {summary.assigned})</span>
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {message && (
+        <div
+          className={`rounded-md p-3 text-sm mb-4 ${
+            message.type === "success"
+              ? "bg-green-100 text-green-800"
+              : "bg-destructive/10 text-destructive"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <div className="relative flex-1 max-w-md">
+          <ScanLine className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            ref={searchInputRef}
+            placeholder="Search or scan a visitor, then press Enter..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            onKeyDown={handleSearchKeyDown}
+            className="pl-9 pr-9"
+            autoFocus
+          />
+          {search && (
+            <button
+              onClick={() => setSearch("")}
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+        <select
+          className="h-10 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+        >
+          <option value="all">All Visitors</option>
+          <option value="expected">Expected</option>
+          <option value="on_site">On Site</option>
+          <option value="departed">Departed</option>
+        </select>
+      </div>
+
+      {filteredRows.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          {rows.length === 0 ? (
+            "No visitors are assigned to this event."
+          ) : (
+            <span className="inline-flex items-center gap-2">
+              <Search className="h-4 w-4" /> No visitors match your search.
+            </span>
+          )}
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b bg-muted/50">
+                <th className="px-4 py-3 text-left font-medium">Name</th>
+                <th className="px-4 py-3 text-left font-medium">Organization</th>
+                <th className="px-4 py-3 text-left font-medium">RSVP</th>
+                <th className="px-4 py-3 text-left font-medium">Status</th>
+                <th className="px-4 py-3 text-left font-medium">Arrived</th>
+                <th className="px-4 py-3 text-left font-medium">Departed</th>
+                <th className="px-4 py-3 text-right font-medium">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filteredRows.map((row) => {
+                const status = getAttendanceStatus(row)
+                return (
+                  <tr key={row.id} className="border-b last:border-0 hover:bg-muted/30">
+                    <td className="px-4 py-3 font-medium">
+                      {visitorName(row)}
+                      {row.visitor?.email && (
+                        <p className="text-xs font-normal text-muted-foreground">{row.visitor.email}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">{row.visitor?.company?.name || "—"}</td>
+                    <td className="px-4 py-3">{isRsvpStatus(row.rsvp_status) ? RSVP_STATUS_LABELS[row.rsvp_status] : "—"}</td>
+                    <td className="px-4 py-3">
+                      <span className={`text-xs px-2 py-1 rounded ${statusClassNames[status]}`}>
+                        {statusLabels[status]}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">{formatTime(row.arrived_at)}</td>
+                    <td className="px-4 py-3">{formatTime(row.departed_at)}</td>
+                    <td className="px-4 py-3 text-right space-x-1">
+                      {status === "on_site" ? (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => updateAttendance(row, "depart")}
+                          disabled={updatingId === row.id}
+                        >
+                          <LogOut className="mr-2 h-4 w-4" />
+                          Depart
+                        </Button>
+                      ) : (
+                        <Button
+                          size="sm"
+                          onClick={() => updateAttendance(row, "arrive")}
+                          disabled={updatingId === row.id || !canCheckIn(row)}
+                          title={canCheckIn(row) ? undefined : notCheckInMessage(row)}
+                        >
+                          <LogIn className="mr-2 h-4 w-4" />
+                          {status === "departed" ? "Re-admit" : "Arrive"}
+                        </Button>
+                      )}
+                      {status !== "expected" && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => updateAttendance(row, "undo")}
+                          disabled={updatingId === row.id}
+                          title="Undo"
+                        >
+                          <Undo2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,233 @@
+"use client"
+
+import { useEffect, useState, useCallback, useRef } from "react"
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { createClient } from "@/lib/supabase/client"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ArrowLeft, ScanLine, CheckCircle2, XCircle, LogIn, RefreshCw, WifiOff } from "lucide-react"
+import { importVerifyKey, verifyCredential, type DocumentManifest, type VerificationResult } from "@/lib/credentials/token"
+
+interface CredentialManifest {
+  eventId: string
+  publicKey: JsonWebKey
+  documents: DocumentManifest
+  /** Visitor ids; missing from manifests cached by older versions */
+  admitted?: string[]
+  generatedAt: string
+}
+
+interface ScanResult {
+  id: number
+  scannedAt: Date
+  result: VerificationResult
+  checkedIn: boolean
+}
+
+const manifestStorageKey = (eventId: string) => `credential-manifest:${eventId}`
+
+export default function EventGatePage() {
+  const { id: eventId } = useParams<{ id: string }>()
+  const [eventName, setEventName] = useState("")
+  const [manifest, setManifest] = useState<CredentialManifest | null>(null)
+  const [verifyKey, setVerifyKey] = useState<CryptoKey | null>(null)
+  const [offline, setOffline] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [scanInput, setScanInput] = useState("")
+  const [scans, setScans] = useState<ScanResult[]>([])
+  const [checkingIn, setCheckingIn] = useState<number | null>(null)
+  const scanInputRef = useRef<HTMLInputElement>(null)
+  const nextScanId = useRef(1)
+
+  const supabase = createClient()
+
+  // Load the manifest while online and keep a copy so the gate keeps
+  // working if the connection drops.
+  const fetchManifest = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+
+    let loaded: CredentialManifest | null = null
+    let fromCache = false
+    try {
+      const response = await fetch(`/api/events/${eventId}/credential-manifest`)
+      const body = await response.json()
+      if (!response.ok) throw new Error(body.error || "Failed to load credential manifest")
+      loaded = body
+      localStorage.setItem(manifestStorageKey(eventId), JSON.stringify(body))
+    } catch (err) {
+      const cached = localStorage.getItem(manifestStorageKey(eventId))
+      if (cached) {
+        loaded = JSON.parse(cached)
+        fromCache = true
+      } else {
+        setError(err instanceof Error ? err.message : "Failed to load credential manifest")
+      }
+    }
+
+    if (loaded) {
+      setManifest(loaded)
+      setVerifyKey(await importVerifyKey(loaded.publicKey))
+    }
+    setOffline(fromCache)
+    setLoading(false)
+  }, [eventId])
+
+  const fetchEvent = useCallback(async () => {
+    const { data } = await supabase
+      .from("events")
+      .select("name")
+      .eq("id", eventId)
+      .single()
+
+    if (data) setEventName(data.name)
+  }, [supabase, eventId])
+
+  useEffect(() => {
+    void fetchManifest()
+    void fetchEvent()
+  }, [fetchManifest, fetchEvent])
+
+  const handleScan = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!manifest || !verifyKey || !scanInput.trim()) return
+
+    const result = await verifyCredential(scanInput, verifyKey, eventId, manifest.documents, manifest.admitted ?? null)
+    setScans((prev) => [
+      { id: nextScanId.current++, scannedAt: new Date(), result, checkedIn: false },
+      ...prev.slice(0, 19),
+    ])
+    setScanInput("")
+    scanInputRef.current?.focus()
+  }
+
+  const handleCheckIn = async (scan: ScanResult) => {
+    if (!scan.result.valid) return
+
+    setCheckingIn(scan.id)
+    const { data: { user } } = await supabase.auth.getUser()
+    const { error: updateError } = await supabase
+      .from("event_visitors")
+      .update({ arrived_at: new Date().toISOString(), departed_at: null, checked_in_by: user?.id ?? null })
+      .eq("event_id", eventId)
+      .eq("visitor_id", scan.result.payload.visitorId)
+
+    if (updateError) {
+      setError(`Could not check in: ${updateError.message}`)
+    } else {
+      setScans((prev) => prev.map((s) => (s.id === scan.id ? { ...s, checkedIn: true } : s)))
+    }
+    setCheckingIn(null)
+  }
+
+  const [latest, ...history] = scans
+
+  return (
+    <div>
+      <div className="mb-6">
+        <Link href={`/admin/events/${eventId}/check-in`} className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-2">
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          Back to Check-in
+        </Link>
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold">Gate: {eventName}</h1>
+          <Button variant="outline" onClick={fetchManifest} disabled={loading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+        {manifest && (
+          <p className="text-sm text-muted-foreground flex items-center gap-2">
+            {offline && <WifiOff className="h-4 w-4" />}
+            {offline ? "Offline. Using" : "Using"} document versions from{" "}
+            {new Date(manifest.generatedAt).toLocaleString("en-US")}
+          </p>
+        )}
+      </div>
+
+      {error && (
+        <div className="rounded-md p-3 text-sm mb-4 bg-destructive/10 text-destructive">
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleScan} className="relative max-w-xl mb-6">
+        <ScanLine className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          ref={scanInputRef}
+          placeholder={manifest ? "Scan a gate pass..." : "Loading..."}
+          value={scanInput}
+          onChange={(e) => setScanInput(e.target.value)}
+          className="pl-9"
+          disabled={!manifest}
+          autoFocus
+        />
+      </form>
+
+      {latest && (
+        <Card className={`mb-6 ${latest.result.valid ? "border-green-500" : "border-destructive"}`}>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-xl">
+              {latest.result.valid ? (
+                <CheckCircle2 className="h-6 w-6 text-green-600" />
+              ) : (
+                <XCircle className="h-6 w-6 text-destructive" />
+              )}
+              {latest.result.valid ? "Admit" : "Rejected"}
+              {latest.result.payload?.visitorName && `: ${latest.result.payload.visitorName}`}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="flex items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              {latest.result.valid
+                ? `Pass issued ${new Date(latest.result.payload.issuedAt).toLocaleString("en-US")}`
+                : latest.result.reason}
+            </p>
+            {latest.result.valid && (
+              latest.checkedIn ? (
+                <span className="text-sm text-green-700">Checked in</span>
+              ) : (
+                <Button onClick={() => handleCheckIn(latest)} disabled={offline || checkingIn === latest.id}>
+                  <LogIn className="mr-2 h-4 w-4" />
+                  Mark Arrived
+                </Button>
+              )
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {history.length > 0 && (
+        <div className="overflow-x-auto rounded-lg border">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b bg-muted/50">
+                <th className="px-4 py-3 text-left font-medium">Time</th>
+                <th className="px-4 py-3 text-left font-medium">Visitor</th>
+                <th className="px-4 py-3 text-left font-medium">Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {history.map((scan) => (
+                <tr key={scan.id} className="border-b last:border-0">
+                  <td className="px-4 py-3">{scan.scannedAt.toLocaleTimeString("en-US")}</td>
+                  <td className="px-4 py-3">{scan.result.payload?.visitorName || "—"}</td>
+                  <td className="px-4 py-3">
+                    {scan.result.valid ? (
+                      <span className="text-green-700">Admitted{scan.checkedIn ? ", checked in" : ""}</span>
+                    ) : (
+                      <span className="text-destructive">{scan.result.reason}</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
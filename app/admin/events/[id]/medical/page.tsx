@@ -0,0 +1,205 @@
+"use client"
+
+import { useEffect, useState, useCallback, useMemo } from "react"
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { createClient } from "@/lib/supabase/client"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ArrowLeft, Download, Loader2, Search, X, AlertTriangle } from "lucide-react"
+import { listMedicalSummary, type Event as EventRow } from "@/lib/db"
+import {
+  describeAllergies,
+  describeEmergencyContact,
+  medicalSummaryExportData,
+  type MedicalSummaryRow,
+} from "@/lib/intake"
+import { exportReport } from "@/lib/reports/export"
+
+type Event = Pick<EventRow, "id" | "name" | "start_date" | "end_date">
+
+// Medical details of everyone holding a place at the event, for
+// coordinators running it. Readable only by administrators and
+// coordinators (see the intake_forms migration).
+export default function EventMedicalSummaryPage() {
+  const { id: eventId } = useParams<{ id: string }>()
+  const [event, setEvent] = useState<Event | null>(null)
+  const [rows, setRows] = useState<MedicalSummaryRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [search, setSearch] = useState("")
+  const [exporting, setExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const supabase = createClient()
+
+  const fetchEvent = useCallback(async () => {
+    const { data } = await supabase
+      .from("events")
+      .select("id, name, start_date, end_date")
+      .eq("id", eventId)
+      .single()
+
+    if (data) setEvent(data)
+  }, [supabase, eventId])
+
+  const fetchRows = useCallback(async () => {
+    const { rows, error } = await listMedicalSummary(supabase, eventId)
+    if (error) {
+      console.error("Error fetching medical summary:", error)
+      setError("An error occurred while loading the medical summary.")
+    }
+    setRows(rows)
+    setLoading(false)
+  }, [supabase, eventId])
+
+  useEffect(() => {
+    void fetchEvent() // eslint-disable-line react-hooks/set-state-in-effect
+    void fetchRows()
+  }, [fetchEvent, fetchRows])
+
+  const filteredRows = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    if (!term) return rows
+    return rows.filter((row) => row.visitorName.toLowerCase().includes(term))
+  }, [rows, search])
+
+  const outstanding = rows.filter((row) => !row.medical).length
+
+  const handleExport = async () => {
+    if (!event) return
+
+    setExporting(true)
+    try {
+      const file = await exportReport("pdf", medicalSummaryExportData(rows), {
+        reportName: `${event.name} Medical Summary`,
+        filters: [],
+        generatedAt: new Date(),
+      })
+
+      const blob = new Blob([file.content], { type: file.mimeType })
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement("a")
+      a.href = url
+      a.download = file.filename
+      a.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      console.error("Error exporting medical summary:", err)
+      setError("An error occurred while exporting the medical summary.")
+    }
+    setExporting(false)
+  }
+
+  if (loading) {
+    return (
+      <div>
+        <h1 className="text-2xl font-bold mb-6">Medical Summary</h1>
+        <p className="text-muted-foreground">Loading medical summary...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <Link href="/admin/events" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-2">
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          Back to Events
+        </Link>
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold">Medical Summary: {event?.name}</h1>
+          <Button variant="outline" onClick={handleExport} disabled={rows.length === 0 || exporting}>
+            {exporting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="mr-2 h-4 w-4" />
+            )}
+            Export PDF
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Confidential. Share only with staff who need it to keep visitors safe.
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-md p-3 text-sm mb-4 bg-destructive/10 text-destructive">{error}</div>
+      )}
+
+      {outstanding > 0 && (
+        <div className="rounded-md p-3 text-sm mb-4 bg-yellow-100 text-yellow-800">
+          {outstanding} of {rows.length} visitors haven&apos;t completed the medical form.
+        </div>
+      )}
+
+      <div className="relative mb-4 max-w-sm">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          placeholder="Search visitors..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="pl-9 pr-9"
+        />
+        {search && (
+          <button
+            type="button"
+            onClick={() => setSearch("")}
+            className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+          >
+            <X className="h-4 w-4" />
+            <span className="sr-only">Clear search</span>
+          </button>
+        )}
+      </div>
+
+      {filteredRows.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          {search ? "No visitors match your search." : "No visitors are holding a place at this event."}
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b bg-muted/50">
+                <th className="px-4 py-3 text-left font-medium">Visitor</th>
+                <th className="px-4 py-3 text-left font-medium">Emergency Contact</th>
+                <th className="px-4 py-3 text-left font-medium">Allergies</th>
+                <th className="px-4 py-3 text-left font-medium">Medications</th>
+                <th className="px-4 py-3 text-left font-medium">Conditions</th>
+                <th className="px-4 py-3 text-left font-medium">Mobility Needs</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filteredRows.map((row) => (
+                <tr key={row.visitorId} className="border-b last:border-0 align-top hover:bg-muted/30">
+                  <td className="px-4 py-3 font-medium whitespace-nowrap">
+                    {row.visitorName}
+                    {row.medical?.carries_epinephrine && (
+                      <span className="ml-2 inline-flex items-center rounded-full bg-red-100 px-2 py-0.5 text-xs font-medium text-red-800">
+                        <AlertTriangle className="mr-1 h-3 w-3" />
+                        Epinephrine
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    {row.medical ? (
+                      describeEmergencyContact(row.medical)
+                    ) : (
+                      <span className="inline-flex items-center rounded-full bg-yellow-100 px-2 py-0.5 text-xs font-medium text-yellow-800">
+                        Form not completed
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">{describeAllergies(row) || "—"}</td>
+                  <td className="px-4 py-3 whitespace-pre-line">{row.medical?.medications || "—"}</td>
+                  <td className="px-4 py-3 whitespace-pre-line">{row.medical?.conditions || "—"}</td>
+                  <td className="px-4 py-3 whitespace-pre-line">{row.medical?.mobility_needs || "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,10 @@
+import { requireAreaAccess } from "@/lib/auth"
+
+export default async function EventsLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  await requireAreaAccess("events")
+  return children
+}
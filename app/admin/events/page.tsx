@@ -1,6 +1,7 @@
 "use client"
 
 import { useEffect, useState, useCallback } from "react"
+import Link from "next/link"
 import { createClient } from "@/lib/supabase/client"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -13,35 +14,48 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog"
-import { Plus, Pencil, Search, X, Users } from "lucide-react"
-
-interface Event {
-  id: string
-  name: string
-  description: string | null
-  start_date: string | null
-  end_date: string | null
-  location: string | null
-  sponsor_company_id: string | null
-  sponsor_company?: { name: string } | null
-  visitor_count?: number
-}
-
-interface Company {
-  id: string
-  name: string
-}
-
-interface Visitor {
-  id: string
-  first_name: string
-  last_name: string
-  email: string | null
-  company?: { name: string } | null
-}
-
-interface EventVisitor {
-  visitor_id: string
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { RsvpReasonDialog } from "@/components/rsvp-reason-dialog"
+import { Plus, Pencil, Search, X, Users, ClipboardCheck, CalendarDays, HeartPulse, ChevronDown, Trash2, Loader2 } from "lucide-react"
+import {
+  RSVP_ACTION_LABELS,
+  RSVP_REASONS,
+  RSVP_STATUS_CLASS_NAMES,
+  RSVP_STATUS_LABELS,
+  allowedTransitions,
+  getReasonLabel,
+  isRsvpStatus,
+  transitionRsvp,
+  type RsvpChange,
+  type RsvpStatus,
+} from "@/lib/rsvp"
+import { formatCapacity, summarizeCapacityCounts, type CapacitySummary } from "@/lib/capacity"
+import { TRASH_RETENTION_DAYS, moveToTrash } from "@/lib/trash"
+import { DataTable, useTableQuery, type DataTableColumn } from "@/components/admin/data-table"
+import {
+  listCompanyOptions,
+  listEventAssignments,
+  listEvents,
+  listVisitorOptions,
+  setEventVisitors,
+  type CompanyOption,
+  type EventListRow,
+  type VisitorOption,
+} from "@/lib/db"
+
+type Event = EventListRow & { capacity_summary: CapacitySummary }
+
+type Visitor = VisitorOption
+
+interface Assignment {
+  status: RsvpStatus
+  reason: string | null
+  waitlistPosition: number | null
 }
 
 const emptyForm = {
@@ -51,13 +65,15 @@ const emptyForm = {
   end_date: "",
   location: "",
   sponsor_company_id: "",
+  capacity: "",
 }
 
 export default function ManageEventsPage() {
   const [events, setEvents] = useState<Event[]>([])
-  const [companies, setCompanies] = useState<Company[]>([])
+  const [total, setTotal] = useState(0)
+  const [companies, setCompanies] = useState<CompanyOption[]>([])
   const [loading, setLoading] = useState(true)
-  const [search, setSearch] = useState("")
+  const { query, setQuery, searchInput, setSearchInput } = useTableQuery([{ column: "start_date", ascending: false }])
   const [dialogOpen, setDialogOpen] = useState(false)
   const [editing, setEditing] = useState<Event | null>(null)
   const [form, setForm] = useState(emptyForm)
@@ -71,53 +87,41 @@ export default function ManageEventsPage() {
   const [selectedVisitorIds, setSelectedVisitorIds] = useState<Set<string>>(new Set())
   const [visitorSearch, setVisitorSearch] = useState("")
   const [savingAssignments, setSavingAssignments] = useState(false)
+  // RSVP state of visitors already saved to the event, keyed by visitor id
+  const [assignments, setAssignments] = useState<Record<string, Assignment>>({})
+  const [pendingTransition, setPendingTransition] = useState<{ visitor: Visitor; to: RsvpStatus } | null>(null)
+  const [changingRsvp, setChangingRsvp] = useState(false)
+
+  // Delete state
+  const [deletingEvent, setDeletingEvent] = useState<Event | null>(null)
+  const [deleting, setDeleting] = useState(false)
 
   const supabase = createClient()
 
   const fetchEvents = useCallback(async () => {
-    // Fetch events with visitor count
-    const { data: eventsData } = await supabase
-      .from("events")
-      .select("*, sponsor_company:companies(name)")
-      .order("start_date", { ascending: false })
-
-    if (eventsData) {
-      // Fetch visitor counts for each event
-      const { data: countsData } = await supabase
-        .from("event_visitors")
-        .select("event_id")
-
-      const countMap: Record<string, number> = {}
-      countsData?.forEach((ev) => {
-        countMap[ev.event_id] = (countMap[ev.event_id] || 0) + 1
-      })
-
-      const eventsWithCounts = eventsData.map((event) => ({
-        ...event,
-        visitor_count: countMap[event.id] || 0,
-      }))
+    setLoading(true)
+    const { rows, total, error } = await listEvents(supabase, query)
 
-      setEvents(eventsWithCounts)
+    if (error) {
+      setMessage({ type: "error", text: error.message })
+    } else {
+      setEvents(rows.map((event) => ({
+        ...event,
+        capacity_summary: summarizeCapacityCounts(event.capacity, event.places_taken, event.waitlisted),
+      })))
+      setTotal(total)
     }
     setLoading(false)
-  }, [supabase])
+  }, [supabase, query])
 
   const fetchCompanies = useCallback(async () => {
-    const { data } = await supabase
-      .from("companies")
-      .select("id, name")
-      .order("name")
-
-    if (data) setCompanies(data)
+    const { rows } = await listCompanyOptions(supabase)
+    setCompanies(rows)
   }, [supabase])
 
   const fetchAllVisitors = useCallback(async () => {
-    const { data } = await supabase
-      .from("visitors")
-      .select("id, first_name, last_name, email, company:companies(name)")
-      .order("last_name")
-
-    if (data) setAllVisitors(data as unknown as Visitor[])
+    const { rows } = await listVisitorOptions(supabase)
+    setAllVisitors(rows)
   }, [supabase])
 
   useEffect(() => {
@@ -126,16 +130,6 @@ export default function ManageEventsPage() {
     void fetchAllVisitors()
   }, [fetchEvents, fetchCompanies, fetchAllVisitors])
 
-  const filteredEvents = events.filter((event) => {
-    const term = search.toLowerCase()
-    return (
-      event.name.toLowerCase().includes(term) ||
-      (event.location?.toLowerCase().includes(term) ?? false) ||
-      (event.description?.toLowerCase().includes(term) ?? false) ||
-      (event.sponsor_company?.name?.toLowerCase().includes(term) ?? false)
-    )
-  })
-
   const filteredVisitors = allVisitors.filter((visitor) => {
     const term = visitorSearch.toLowerCase()
     const fullName = `${visitor.first_name} ${visitor.last_name}`.toLowerCase()
@@ -162,6 +156,7 @@ export default function ManageEventsPage() {
       end_date: event.end_date || "",
       location: event.location || "",
       sponsor_company_id: event.sponsor_company_id || "",
+      capacity: event.capacity?.toString() ?? "",
     })
     setMessage(null)
     setDialogOpen(true)
@@ -172,17 +167,60 @@ export default function ManageEventsPage() {
     setVisitorSearch("")
     setMessage(null)
 
-    // Fetch current visitors for this event
-    const { data: eventVisitors } = await supabase
-      .from("event_visitors")
-      .select("visitor_id")
-      .eq("event_id", event.id)
+    const currentAssignments = await refreshAssignments(event.id)
+    setSelectedVisitorIds(new Set(Object.keys(currentAssignments)))
+    setAssignDialogOpen(true)
+  }
+
+  // Fetch current visitors for an event
+  const refreshAssignments = async (eventId: string) => {
+    const { rows } = await listEventAssignments(supabase, eventId)
+
+    const currentAssignments: Record<string, Assignment> = {}
+    rows.forEach((ev) => {
+      if (isRsvpStatus(ev.rsvp_status)) {
+        currentAssignments[ev.visitor_id] = {
+          status: ev.rsvp_status,
+          reason: ev.rsvp_reason,
+          waitlistPosition: ev.waitlist_position,
+        }
+      }
+    })
+    setAssignments(currentAssignments)
+    return currentAssignments
+  }
 
-    const currentIds = new Set<string>(
-      (eventVisitors as EventVisitor[] | null)?.map((ev) => ev.visitor_id) || []
+  const applyRsvpTransition = async (visitor: Visitor, to: RsvpStatus, change?: RsvpChange) => {
+    if (!assigningEvent) return
+
+    setChangingRsvp(true)
+    setMessage(null)
+
+    const { error } = await transitionRsvp(
+      supabase,
+      { eventId: assigningEvent.id, visitorId: visitor.id },
+      to,
+      "admin",
+      change
     )
-    setSelectedVisitorIds(currentIds)
-    setAssignDialogOpen(true)
+
+    if (error) {
+      setMessage({ type: "error", text: error })
+    } else {
+      setMessage({ type: "success", text: `${visitor.first_name} ${visitor.last_name} is now ${RSVP_STATUS_LABELS[to].toLowerCase()}` })
+      setPendingTransition(null)
+      // Reload: a place opening up may have promoted someone off the waitlist
+      await refreshAssignments(assigningEvent.id)
+    }
+    setChangingRsvp(false)
+  }
+
+  const handleRsvpAction = (visitor: Visitor, to: RsvpStatus) => {
+    if (RSVP_REASONS[to]) {
+      setPendingTransition({ visitor, to })
+    } else {
+      void applyRsvpTransition(visitor, to)
+    }
   }
 
   const toggleVisitor = (visitorId: string) => {
@@ -211,38 +249,25 @@ export default function ManageEventsPage() {
     setSavingAssignments(true)
     setMessage(null)
 
-    // Delete all existing assignments for this event
-    const { error: deleteError } = await supabase
-      .from("event_visitors")
-      .delete()
-      .eq("event_id", assigningEvent.id)
+    // The database keeps the assignments that stay as they are and adds
+    // new visitors in this order, onto the waitlist once the event is full
+    const visitorIds = allVisitors.map((v) => v.id).filter((id) => selectedVisitorIds.has(id))
+    const { rows: inserted, error } = await setEventVisitors(supabase, assigningEvent.id, visitorIds)
 
-    if (deleteError) {
-      setMessage({ type: "error", text: deleteError.message })
+    if (error) {
+      setMessage({ type: "error", text: error.message })
       setSavingAssignments(false)
       return
     }
 
-    // Insert new assignments
-    if (selectedVisitorIds.size > 0) {
-      const newAssignments = Array.from(selectedVisitorIds).map((visitorId) => ({
-        event_id: assigningEvent.id,
-        visitor_id: visitorId,
-        rsvp_status: "invited",
-      }))
-
-      const { error: insertError } = await supabase
-        .from("event_visitors")
-        .insert(newAssignments)
-
-      if (insertError) {
-        setMessage({ type: "error", text: insertError.message })
-        setSavingAssignments(false)
-        return
-      }
-    }
+    const waitlistedCount = inserted.filter((row) => row.rsvp_status === "waitlisted").length
 
-    setMessage({ type: "success", text: "Visitors assigned successfully" })
+    setMessage({
+      type: "success",
+      text: waitlistedCount > 0
+        ? `Visitors assigned. The event is full, so ${waitlistedCount} visitor(s) were added to the waitlist.`
+        : "Visitors assigned successfully",
+    })
     setSavingAssignments(false)
     setAssignDialogOpen(false)
     fetchEvents()
@@ -260,6 +285,7 @@ export default function ManageEventsPage() {
       end_date: form.end_date || null,
       location: form.location || null,
       sponsor_company_id: form.sponsor_company_id || null,
+      capacity: form.capacity === "" ? null : Number(form.capacity),
     }
 
     if (editing) {
@@ -290,6 +316,29 @@ export default function ManageEventsPage() {
     setSaving(false)
   }
 
+  const openDelete = (event: Event) => {
+    setDeletingEvent(event)
+    setMessage(null)
+  }
+
+  const handleDelete = async () => {
+    if (!deletingEvent) return
+
+    setDeleting(true)
+    setMessage(null)
+
+    const { error } = await moveToTrash(supabase, "events", [deletingEvent.id])
+
+    if (error) {
+      setMessage({ type: "error", text: `Failed to delete event: ${error.message}` })
+    } else {
+      setDeletingEvent(null)
+      fetchEvents()
+    }
+
+    setDeleting(false)
+  }
+
   const formatDate = (dateStr: string | null) => {
     if (!dateStr) return "—"
     return new Date(dateStr).toLocaleDateString("en-US", {
@@ -299,27 +348,120 @@ export default function ManageEventsPage() {
     })
   }
 
+  const columns: DataTableColumn<Event>[] = [
+    { key: "name", header: "Name", sortColumn: "name", className: "font-medium", render: (event) => event.name },
+    { key: "start", header: "Start Date", sortColumn: "start_date", render: (event) => formatDate(event.start_date) },
+    { key: "end", header: "End Date", sortColumn: "end_date", render: (event) => formatDate(event.end_date) },
+    {
+      key: "organization",
+      header: "Organization",
+      sortColumn: "sponsor_name",
+      render: (event) => event.sponsor_name || "—",
+    },
+    {
+      key: "places",
+      header: "Places",
+      sortColumn: "places_taken",
+      align: "center",
+      render: (event) => (
+        <>
+          <span
+            className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${
+              event.capacity_summary?.isFull ? "bg-yellow-100 text-yellow-800" : "bg-primary/10 text-primary"
+            }`}
+          >
+            {event.capacity_summary ? formatCapacity(event.capacity_summary) : 0}
+          </span>
+          {event.waitlisted > 0 && (
+            <p className="text-xs text-muted-foreground mt-1">+{event.waitlisted} waitlisted</p>
+          )}
+        </>
+      ),
+    },
+    {
+      key: "actions",
+      header: "Actions",
+      align: "right",
+      className: "space-x-1",
+      render: (event) => (
+        <>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => openAssignVisitors(event)}
+            title="Assign Visitors"
+          >
+            <Users className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-8 w-8" asChild title="Check-in">
+            <Link href={`/admin/events/${event.id}/check-in`}>
+              <ClipboardCheck className="h-4 w-4" />
+            </Link>
+          </Button>
+          <Button variant="ghost" size="icon" className="h-8 w-8" asChild title="Agenda">
+            <Link href={`/admin/events/${event.id}/agenda`}>
+              <CalendarDays className="h-4 w-4" />
+            </Link>
+          </Button>
+          <Button variant="ghost" size="icon" className="h-8 w-8" asChild title="Medical Summary">
+            <Link href={`/admin/events/${event.id}/medical`}>
+              <HeartPulse className="h-4 w-4" />
+            </Link>
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => openEdit(event)}
+            title="Edit Event"
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => openDelete(event)}
+            title="Delete Event"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </>
+      ),
+    },
+  ]
+
+
   return (
     <div>
       <div className="flex items-center justify-between mb-6">
         <h1 className="text-2xl font-bold">Manage Events</h1>
-        <Button onClick={openCreate}>
-          <Plus className="mr-2 h-4 w-4" />
-          New Event
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/admin/events/trash">
+              <Trash2 className="mr-2 h-4 w-4" />
+              Trash
+            </Link>
+          </Button>
+          <Button onClick={openCreate}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Event
+          </Button>
+        </div>
       </div>
 
       <div className="relative mb-4 max-w-sm">
         <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
         <Input
           placeholder="Search events..."
-          value={search}
-          onChange={(e) => setSearch(e.target.value)}
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
           className="pl-9 pr-9"
         />
-        {search && (
+        {searchInput && (
           <button
-            onClick={() => setSearch("")}
+            onClick={() => setSearchInput("")}
             className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
           >
             <X className="h-4 w-4" />
@@ -327,63 +469,16 @@ export default function ManageEventsPage() {
         )}
       </div>
 
-      {loading ? (
-        <p className="text-muted-foreground">Loading events...</p>
-      ) : filteredEvents.length === 0 ? (
-        <div className="text-center py-12 text-muted-foreground">
-          {search ? "No events match your search." : "No events yet. Create your first event."}
-        </div>
-      ) : (
-        <div className="overflow-x-auto rounded-lg border">
-          <table className="w-full text-sm">
-            <thead>
-              <tr className="border-b bg-muted/50">
-                <th className="px-4 py-3 text-left font-medium">Name</th>
-                <th className="px-4 py-3 text-left font-medium">Start Date</th>
-                <th className="px-4 py-3 text-left font-medium">End Date</th>
-                <th className="px-4 py-3 text-left font-medium">Organization</th>
-                <th className="px-4 py-3 text-center font-medium">Visitors</th>
-                <th className="px-4 py-3 text-right font-medium">Actions</th>
-              </tr>
-            </thead>
-            <tbody>
-              {filteredEvents.map((event) => (
-                <tr key={event.id} className="border-b last:border-0 hover:bg-muted/30">
-                  <td className="px-4 py-3 font-medium">{event.name}</td>
-                  <td className="px-4 py-3">{formatDate(event.start_date)}</td>
-                  <td className="px-4 py-3">{formatDate(event.end_date)}</td>
-                  <td className="px-4 py-3">{event.sponsor_company?.name || "—"}</td>
-                  <td className="px-4 py-3 text-center">
-                    <span className="inline-flex items-center rounded-full bg-primary/10 px-2.5 py-0.5 text-xs font-medium text-primary">
-                      {event.visitor_count || 0}
-                    </span>
-                  </td>
-                  <td className="px-4 py-3 text-right space-x-1">
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-8 w-8"
-                      onClick={() => openAssignVisitors(event)}
-                      title="Assign Visitors"
-                    >
-                      <Users className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-8 w-8"
-                      onClick={() => openEdit(event)}
-                      title="Edit Event"
-                    >
-                      <Pencil className="h-4 w-4" />
-                    </Button>
-                  </td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
-      )}
+      <DataTable
+        columns={columns}
+        rows={events}
+        total={total}
+        loading={loading}
+        query={query}
+        onQueryChange={setQuery}
+        noun={["event", "events"]}
+        emptyMessage={query.search ? "No events match your search." : "No events yet. Create your first event."}
+      />
 
       {/* Create/Edit Event Dialog */}
       <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
@@ -471,6 +566,20 @@ export default function ManageEventsPage() {
                   ))}
                 </select>
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="capacity">Capacity</Label>
+                <Input
+                  id="capacity"
+                  type="number"
+                  min={0}
+                  placeholder="Unlimited"
+                  value={form.capacity}
+                  onChange={(e) => setForm({ ...form, capacity: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Visitors assigned beyond capacity join the waitlist and are invited in order as places open up.
+                </p>
+              </div>
               <p className="text-xs text-muted-foreground">
                 <span className="text-destructive">*</span> Required field
               </p>
@@ -494,6 +603,9 @@ export default function ManageEventsPage() {
             <DialogTitle>Assign Visitors to {assigningEvent?.name}</DialogTitle>
             <DialogDescription>
               Select the visitors who will attend this event. {selectedVisitorIds.size} visitor(s) selected.
+              {assigningEvent?.capacity != null && (
+                <> Capacity {assigningEvent.capacity}; visitors beyond it join the waitlist.</>
+              )}
             </DialogDescription>
           </DialogHeader>
 
@@ -535,27 +647,52 @@ export default function ManageEventsPage() {
                 </div>
               ) : (
                 <div className="divide-y">
-                  {filteredVisitors.map((visitor) => (
-                    <label
-                      key={visitor.id}
-                      className="flex items-center gap-3 px-4 py-3 hover:bg-muted/30 cursor-pointer"
-                    >
-                      <input
-                        type="checkbox"
-                        checked={selectedVisitorIds.has(visitor.id)}
-                        onChange={() => toggleVisitor(visitor.id)}
-                        className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
-                      />
-                      <div className="flex-1 min-w-0">
-                        <p className="font-medium truncate">
-                          {visitor.first_name} {visitor.last_name}
-                        </p>
-                        <p className="text-sm text-muted-foreground truncate">
-                          {visitor.email || "No email"} {visitor.company?.name ? `• ${visitor.company.name}` : ""}
-                        </p>
+                  {filteredVisitors.map((visitor) => {
+                    const assignment = assignments[visitor.id]
+                    return (
+                      <div key={visitor.id} className="flex items-center gap-3 px-4 py-3 hover:bg-muted/30">
+                        <label className="flex flex-1 min-w-0 items-center gap-3 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={selectedVisitorIds.has(visitor.id)}
+                            onChange={() => toggleVisitor(visitor.id)}
+                            className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                          />
+                          <div className="flex-1 min-w-0">
+                            <p className="font-medium truncate">
+                              {visitor.first_name} {visitor.last_name}
+                            </p>
+                            <p className="text-sm text-muted-foreground truncate">
+                              {visitor.email || "No email"} {visitor.company?.name ? `• ${visitor.company.name}` : ""}
+                            </p>
+                          </div>
+                        </label>
+                        {assignment && (
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <button
+                                type="button"
+                                className={`inline-flex items-center gap-1 text-xs px-2 py-1 rounded ${RSVP_STATUS_CLASS_NAMES[assignment.status]}`}
+                                title={getReasonLabel(assignment.status, assignment.reason) || undefined}
+                                disabled={changingRsvp}
+                              >
+                                {RSVP_STATUS_LABELS[assignment.status]}
+                                {assignment.waitlistPosition !== null && ` #${assignment.waitlistPosition}`}
+                                <ChevronDown className="h-3 w-3" />
+                              </button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              {allowedTransitions(assignment.status, "admin").map((to) => (
+                                <DropdownMenuItem key={to} onClick={() => handleRsvpAction(visitor, to)}>
+                                  {RSVP_ACTION_LABELS[to]}
+                                </DropdownMenuItem>
+                              ))}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        )}
                       </div>
-                    </label>
-                  ))}
+                    )
+                  })}
                 </div>
               )}
             </div>
@@ -571,6 +708,58 @@ export default function ManageEventsPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <RsvpReasonDialog
+        key={pendingTransition ? `${pendingTransition.visitor.id}:${pendingTransition.to}` : "none"}
+        open={!!pendingTransition}
+        onOpenChange={(open) => !open && setPendingTransition(null)}
+        status={pendingTransition?.to ?? null}
+        title={pendingTransition ? `${RSVP_ACTION_LABELS[pendingTransition.to]} ${pendingTransition.visitor.first_name} ${pendingTransition.visitor.last_name}` : ""}
+        description="The reason is recorded in the visitor's RSVP history."
+        saving={changingRsvp}
+        onSubmit={(change) => pendingTransition && applyRsvpTransition(pendingTransition.visitor, pendingTransition.to, change)}
+      />
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={deletingEvent !== null} onOpenChange={(open) => !open && setDeletingEvent(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Confirm Deletion</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete {deletingEvent?.name}? It will be moved to the trash with its visitor
+              assignments and document links, and can be restored for {TRASH_RETENTION_DAYS} days.
+            </DialogDescription>
+          </DialogHeader>
+          {message?.type === "error" && (
+            <div className="rounded-md p-3 text-sm bg-destructive/10 text-destructive">
+              {message.text}
+            </div>
+          )}
+          <DialogFooter className="justify-center sm:justify-center gap-4">
+            <Button
+              variant="outline"
+              onClick={() => setDeletingEvent(null)}
+              disabled={deleting}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDelete}
+              disabled={deleting}
+            >
+              {deleting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                "Delete"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
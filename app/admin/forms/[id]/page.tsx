@@ -0,0 +1,317 @@
+"use client"
+
+import { useEffect, useState, useCallback } from "react"
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { createClient } from "@/lib/supabase/client"
+import {
+  getForm,
+  listEventOptions,
+  listFormAssignments,
+  setFormAssignments,
+  type EventOption,
+  type Form,
+} from "@/lib/db"
+import {
+  FIELD_TYPES,
+  FIELD_TYPE_LABELS,
+  createField,
+  normalizeFields,
+  parseFormFields,
+  validateFormDefinition,
+  type FieldType,
+  type FormField,
+} from "@/lib/forms"
+import { FormFieldEditor } from "@/components/admin/form-field-editor"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { ArrowLeft, Plus, ChevronDown, Inbox, Loader2 } from "lucide-react"
+
+const checkboxClassName = "h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+
+// The form builder: a form's questions and the events it's assigned to.
+// Required forms count towards what a visitor still has to do for the
+// event, alongside its required documents.
+export default function FormBuilderPage() {
+  const { id: formId } = useParams<{ id: string }>()
+  const [form, setForm] = useState<Form | null>(null)
+  const [name, setName] = useState("")
+  const [description, setDescription] = useState("")
+  const [fields, setFields] = useState<FormField[]>([])
+  const [events, setEvents] = useState<EventOption[]>([])
+  // Whether each assigned event requires the form, by event id
+  const [assignments, setAssignments] = useState<Map<string, boolean>>(new Map())
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+
+  const supabase = createClient()
+
+  const fetchForm = useCallback(async () => {
+    const [{ form, error }, { rows: assigned }, { rows: eventOptions }] = await Promise.all([
+      getForm(supabase, formId),
+      listFormAssignments(supabase, formId),
+      listEventOptions(supabase),
+    ])
+
+    if (error) {
+      console.error("Error fetching form:", error)
+      setMessage({ type: "error", text: "An error occurred while loading the form." })
+    }
+    if (form) {
+      setForm(form)
+      setName(form.name)
+      setDescription(form.description || "")
+      setFields(parseFormFields(form.fields))
+    }
+    setAssignments(new Map(assigned.map((a) => [a.event_id, a.required])))
+    setEvents(eventOptions)
+    setLoading(false)
+  }, [supabase, formId])
+
+  useEffect(() => {
+    void fetchForm() // eslint-disable-line react-hooks/set-state-in-effect
+  }, [fetchForm])
+
+  const addField = (type: FieldType) => setFields([...fields, createField(type)])
+
+  const updateField = (index: number, field: FormField) =>
+    setFields(fields.map((f, i) => (i === index ? field : f)))
+
+  const moveField = (index: number, offset: -1 | 1) => {
+    const target = index + offset
+    if (target < 0 || target >= fields.length) return
+    const next = [...fields]
+    const [moved] = next.splice(index, 1)
+    next.splice(target, 0, moved)
+    setFields(next)
+  }
+
+  const removeField = (index: number) => setFields(fields.filter((_, i) => i !== index))
+
+  const toggleEvent = (eventId: string) => {
+    const next = new Map(assignments)
+    if (next.has(eventId)) {
+      next.delete(eventId)
+    } else {
+      next.set(eventId, true)
+    }
+    setAssignments(next)
+  }
+
+  const toggleRequired = (eventId: string) => {
+    const next = new Map(assignments)
+    next.set(eventId, !next.get(eventId))
+    setAssignments(next)
+  }
+
+  const handleSave = async () => {
+    const normalized = normalizeFields(fields)
+    const invalid = validateFormDefinition(name, normalized)
+    if (invalid) {
+      setMessage({ type: "error", text: invalid })
+      return
+    }
+
+    setSaving(true)
+    setMessage(null)
+
+    const { error } = await supabase
+      .from("forms")
+      .update({
+        name: name.trim(),
+        description: description.trim() || null,
+        fields: normalized,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", formId)
+
+    const { error: assignError } = error
+      ? { error }
+      : await setFormAssignments(
+          supabase,
+          formId,
+          [...assignments].map(([event_id, required]) => ({ event_id, required }))
+        )
+
+    if (assignError) {
+      setMessage({ type: "error", text: assignError.message })
+    } else {
+      setFields(normalized)
+      setMessage({ type: "success", text: "Form saved" })
+    }
+
+    setSaving(false)
+  }
+
+  if (loading) {
+    return (
+      <div>
+        <h1 className="text-2xl font-bold mb-6">Edit Form</h1>
+        <p className="text-muted-foreground">Loading form...</p>
+      </div>
+    )
+  }
+
+  if (!form) {
+    return (
+      <div>
+        <Link href="/admin/forms" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-2">
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          Back to Forms
+        </Link>
+        <p className="text-muted-foreground">This form doesn&apos;t exist.</p>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <Link href="/admin/forms" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-2">
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          Back to Forms
+        </Link>
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold">Edit Form: {form.name}</h1>
+          <div className="flex gap-2">
+            <Button variant="outline" asChild>
+              <Link href={`/admin/forms/${formId}/responses`}>
+                <Inbox className="mr-2 h-4 w-4" />
+                Responses
+              </Link>
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {saving ? "Saving..." : "Save Form"}
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {message && (
+        <div
+          className={`rounded-md p-3 text-sm mb-4 ${
+            message.type === "success" ? "bg-green-100 text-green-800" : "bg-destructive/10 text-destructive"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          <section className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="name">
+                Name <span className="text-destructive">*</span>
+              </Label>
+              <Input id="name" value={name} onChange={(e) => setName(e.target.value)} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="description">Description</Label>
+              <Textarea
+                id="description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Shown to visitors above the questions..."
+                rows={2}
+              />
+            </div>
+          </section>
+
+          <section className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold">Questions</h2>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline">
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Question
+                    <ChevronDown className="ml-2 h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {FIELD_TYPES.map((type) => (
+                    <DropdownMenuItem key={type} onClick={() => addField(type)}>
+                      {FIELD_TYPE_LABELS[type]}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+
+            {fields.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground rounded-lg border border-dashed">
+                No questions yet. Add your first question.
+              </div>
+            ) : (
+              fields.map((field, index) => (
+                <FormFieldEditor
+                  key={field.id}
+                  field={field}
+                  index={index}
+                  fields={fields}
+                  onChange={(updated) => updateField(index, updated)}
+                  onMove={(offset) => moveField(index, offset)}
+                  onRemove={() => removeField(index)}
+                />
+              ))
+            )}
+          </section>
+        </div>
+
+        <section className="space-y-4">
+          <div>
+            <h2 className="text-lg font-semibold">Events</h2>
+            <p className="text-sm text-muted-foreground">
+              Visitors to these events see the form next to their documents. Required forms must be answered
+              before the visit.
+            </p>
+          </div>
+          {events.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No events yet.</p>
+          ) : (
+            <div className="rounded-lg border divide-y">
+              {events.map((event) => {
+                const assigned = assignments.has(event.id)
+                return (
+                  <div key={event.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                    <label className="flex items-center gap-2 text-sm cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={assigned}
+                        onChange={() => toggleEvent(event.id)}
+                        className={checkboxClassName}
+                      />
+                      {event.name}
+                    </label>
+                    {assigned && (
+                      <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={!!assignments.get(event.id)}
+                          onChange={() => toggleRequired(event.id)}
+                          className={checkboxClassName}
+                        />
+                        Required
+                      </label>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,251 @@
+"use client"
+
+import { useEffect, useState, useCallback, useMemo } from "react"
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { createClient } from "@/lib/supabase/client"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ArrowLeft, Download, Loader2, Paperclip, Search, X } from "lucide-react"
+import {
+  getForm,
+  listEventOptions,
+  listFormAssignments,
+  listFormResponses,
+  type EventOption,
+  type Form,
+  type FormResponseListRow,
+} from "@/lib/db"
+import {
+  FORM_UPLOAD_BUCKET,
+  formResponsesExportData,
+  formatAnswer,
+  parseFormFields,
+  type FormField,
+} from "@/lib/forms"
+import { exportReport } from "@/lib/reports/export"
+
+const selectClassName =
+  "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+
+// Visitors' answers to a form, for every event it's assigned to or one at
+// a time, with an Excel export of what's shown.
+export default function FormResponsesPage() {
+  const { id: formId } = useParams<{ id: string }>()
+  const [form, setForm] = useState<Form | null>(null)
+  const [events, setEvents] = useState<EventOption[]>([])
+  const [eventId, setEventId] = useState("")
+  const [responses, setResponses] = useState<FormResponseListRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [search, setSearch] = useState("")
+  const [exporting, setExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const supabase = createClient()
+
+  const fetchForm = useCallback(async () => {
+    const [{ form }, { rows: assigned }, { rows: eventOptions }] = await Promise.all([
+      getForm(supabase, formId),
+      listFormAssignments(supabase, formId),
+      listEventOptions(supabase),
+    ])
+
+    setForm(form)
+    // Only the events the form is assigned to can have responses
+    const assignedIds = new Set(assigned.map((a) => a.event_id))
+    setEvents(eventOptions.filter((event) => assignedIds.has(event.id)))
+  }, [supabase, formId])
+
+  const fetchResponses = useCallback(async () => {
+    const { rows, error } = await listFormResponses(supabase, formId, eventId || null)
+    if (error) {
+      console.error("Error fetching form responses:", error)
+      setError("An error occurred while loading responses.")
+    }
+    setResponses(rows)
+    setLoading(false)
+  }, [supabase, formId, eventId])
+
+  useEffect(() => {
+    void fetchForm() // eslint-disable-line react-hooks/set-state-in-effect
+  }, [fetchForm])
+
+  useEffect(() => {
+    void fetchResponses() // eslint-disable-line react-hooks/set-state-in-effect
+  }, [fetchResponses])
+
+  const fields: FormField[] = useMemo(() => parseFormFields(form?.fields), [form])
+
+  const eventNames = useMemo(() => new Map(events.map((event) => [event.id, event.name])), [events])
+
+  const filteredResponses = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    if (!term) return responses
+    return responses.filter(
+      (response) =>
+        response.visitorName.toLowerCase().includes(term) ||
+        (response.email?.toLowerCase().includes(term) ?? false)
+    )
+  }, [responses, search])
+
+  const openFile = async (path: string) => {
+    const { data, error } = await supabase.storage.from(FORM_UPLOAD_BUCKET).createSignedUrl(path, 60)
+    if (error || !data) {
+      setError("Could not open the uploaded file.")
+      return
+    }
+    window.open(data.signedUrl, "_blank", "noopener")
+  }
+
+  const handleExport = async () => {
+    if (!form) return
+
+    setExporting(true)
+    try {
+      const eventName = eventNames.get(eventId)
+      const file = await exportReport("xlsx", formResponsesExportData(fields, filteredResponses), {
+        reportName: `${form.name} Responses`,
+        filters: eventName ? [{ label: "Event", value: eventName }] : [],
+        generatedAt: new Date(),
+      })
+
+      const blob = new Blob([file.content], { type: file.mimeType })
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement("a")
+      a.href = url
+      a.download = file.filename
+      a.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      console.error("Error exporting form responses:", err)
+      setError("An error occurred while exporting responses.")
+    }
+    setExporting(false)
+  }
+
+  if (loading && !form) {
+    return (
+      <div>
+        <h1 className="text-2xl font-bold mb-6">Responses</h1>
+        <p className="text-muted-foreground">Loading responses...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <Link href={`/admin/forms/${formId}`} className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-2">
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          Back to Form
+        </Link>
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold">Responses: {form?.name}</h1>
+          <Button variant="outline" onClick={handleExport} disabled={filteredResponses.length === 0 || exporting}>
+            {exporting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="mr-2 h-4 w-4" />
+            )}
+            Export Excel
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-md p-3 text-sm mb-4 bg-destructive/10 text-destructive">{error}</div>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-4 mb-4">
+        <div className="relative max-w-sm flex-1">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            placeholder="Search visitors..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-9 pr-9"
+          />
+          {search && (
+            <button
+              type="button"
+              onClick={() => setSearch("")}
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+            >
+              <X className="h-4 w-4" />
+              <span className="sr-only">Clear search</span>
+            </button>
+          )}
+        </div>
+        <select
+          aria-label="Event"
+          className={`${selectClassName} sm:w-64`}
+          value={eventId}
+          onChange={(e) => setEventId(e.target.value)}
+        >
+          <option value="">All events</option>
+          {events.map((event) => (
+            <option key={event.id} value={event.id}>
+              {event.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {filteredResponses.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          {search ? "No responses match your search." : "No responses yet."}
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b bg-muted/50">
+                <th className="px-4 py-3 text-left font-medium">Visitor</th>
+                {!eventId && <th className="px-4 py-3 text-left font-medium">Event</th>}
+                <th className="px-4 py-3 text-left font-medium">Submitted</th>
+                {fields.map((field) => (
+                  <th key={field.id} className="px-4 py-3 text-left font-medium min-w-40">
+                    {field.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {filteredResponses.map((response) => (
+                <tr key={response.id} className="border-b last:border-0 align-top hover:bg-muted/30">
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <div className="font-medium">{response.visitorName}</div>
+                    {response.email && <div className="text-xs text-muted-foreground">{response.email}</div>}
+                  </td>
+                  {!eventId && <td className="px-4 py-3">{eventNames.get(response.eventId) ?? "—"}</td>}
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    {new Date(response.submittedAt).toLocaleString("en-US")}
+                  </td>
+                  {fields.map((field) => {
+                    const value = response.answers[field.id]
+                    return (
+                      <td key={field.id} className="px-4 py-3 whitespace-pre-line">
+                        {field.type === "file" && typeof value === "string" && value ? (
+                          <button
+                            type="button"
+                            onClick={() => openFile(value)}
+                            className="inline-flex items-center text-primary hover:underline"
+                          >
+                            <Paperclip className="mr-1 h-3 w-3" />
+                            {formatAnswer(field, value)}
+                          </button>
+                        ) : (
+                          formatAnswer(field, value) || "—"
+                        )}
+                      </td>
+                    )
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,10 @@
+import { requireAreaAccess } from "@/lib/auth"
+
+export default async function FormsLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  await requireAreaAccess("forms")
+  return children
+}
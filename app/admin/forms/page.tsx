@@ -0,0 +1,270 @@
+"use client"
+
+import { useEffect, useState, useCallback } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { createClient } from "@/lib/supabase/client"
+import { listForms, type FormListRow } from "@/lib/db"
+import { parseFormFields } from "@/lib/forms"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Plus, Pencil, Search, X, Inbox, Trash2 } from "lucide-react"
+
+const emptyForm = {
+  name: "",
+  description: "",
+}
+
+// Custom questionnaires for events, such as arrival airport or t-shirt
+// size. Questions are edited in the builder at /admin/forms/[id].
+export default function ManageFormsPage() {
+  const router = useRouter()
+  const [forms, setForms] = useState<FormListRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [search, setSearch] = useState("")
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [form, setForm] = useState(emptyForm)
+  const [deleting, setDeleting] = useState<FormListRow | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+
+  const supabase = createClient()
+
+  const fetchForms = useCallback(async () => {
+    const { rows, error } = await listForms(supabase)
+    if (error) {
+      console.error("Error fetching forms:", error)
+      setMessage({ type: "error", text: "An error occurred while loading forms." })
+    }
+    setForms(rows)
+    setLoading(false)
+  }, [supabase])
+
+  useEffect(() => {
+    void fetchForms() // eslint-disable-line react-hooks/set-state-in-effect
+  }, [fetchForms])
+
+  const filteredForms = forms.filter((f) => {
+    const term = search.toLowerCase()
+    return f.name.toLowerCase().includes(term) || (f.description?.toLowerCase().includes(term) ?? false)
+  })
+
+  const openCreate = () => {
+    setForm(emptyForm)
+    setMessage(null)
+    setDialogOpen(true)
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setMessage(null)
+
+    const { data, error } = await supabase
+      .from("forms")
+      .insert({ name: form.name.trim(), description: form.description.trim() || null })
+      .select("id")
+      .single()
+
+    if (error) {
+      setMessage({ type: "error", text: error.message })
+      setSaving(false)
+    } else {
+      // Straight on to adding the questions
+      router.push(`/admin/forms/${data.id}`)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!deleting) return
+
+    setSaving(true)
+    const { error } = await supabase.from("forms").delete().eq("id", deleting.id)
+
+    if (error) {
+      setMessage({ type: "error", text: error.message })
+    } else {
+      setMessage({ type: "success", text: `"${deleting.name}" deleted` })
+      fetchForms()
+    }
+
+    setSaving(false)
+    setDeleting(null)
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold">Manage Forms</h1>
+        <Button onClick={openCreate}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Form
+        </Button>
+      </div>
+
+      {message && !dialogOpen && (
+        <div
+          className={`rounded-md p-3 text-sm mb-4 ${
+            message.type === "success" ? "bg-green-100 text-green-800" : "bg-destructive/10 text-destructive"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <div className="relative mb-4 max-w-sm">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Search forms..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="pl-9 pr-9"
+        />
+        {search && (
+          <button
+            onClick={() => setSearch("")}
+            className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <p className="text-muted-foreground">Loading forms...</p>
+      ) : filteredForms.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          {search ? "No forms match your search." : "No forms yet. Create your first form."}
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b bg-muted/50">
+                <th className="px-4 py-3 text-left font-medium">Name</th>
+                <th className="px-4 py-3 text-left font-medium">Description</th>
+                <th className="px-4 py-3 text-center font-medium">Questions</th>
+                <th className="px-4 py-3 text-center font-medium">Events</th>
+                <th className="px-4 py-3 text-right font-medium">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filteredForms.map((f) => (
+                <tr key={f.id} className="border-b last:border-0 hover:bg-muted/30">
+                  <td className="px-4 py-3 font-medium">{f.name}</td>
+                  <td className="px-4 py-3">{f.description || "—"}</td>
+                  <td className="px-4 py-3 text-center">{parseFormFields(f.fields).length}</td>
+                  <td className="px-4 py-3 text-center">{f.eventCount}</td>
+                  <td className="px-4 py-3 text-right space-x-1">
+                    <Button variant="ghost" size="icon" className="h-8 w-8" asChild title="Edit Form">
+                      <Link href={`/admin/forms/${f.id}`}>
+                        <Pencil className="h-4 w-4" />
+                      </Link>
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" asChild title="Responses">
+                      <Link href={`/admin/forms/${f.id}/responses`}>
+                        <Inbox className="h-4 w-4" />
+                      </Link>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => setDeleting(f)}
+                      title="Delete Form"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Create Form</DialogTitle>
+            <DialogDescription>Name the form, then add its questions and assign it to events.</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCreate}>
+            <div className="space-y-4 py-4">
+              {message && (
+                <div className="rounded-md p-3 text-sm bg-destructive/10 text-destructive">{message.text}</div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="name">
+                  Name <span className="text-destructive">*</span>
+                </Label>
+                <Input
+                  id="name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g., Travel Details, Activity Interests"
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="description">Description</Label>
+                <Textarea
+                  id="description"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  placeholder="Shown to visitors above the questions..."
+                  rows={3}
+                />
+              </div>
+
+              <p className="text-xs text-muted-foreground">
+                <span className="text-destructive">*</span> Required field
+              </p>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Creating..." : "Create Form"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Delete Form</DialogTitle>
+            <DialogDescription>
+              Delete <strong>{deleting?.name}</strong>? It&apos;s removed from {deleting?.eventCount ?? 0} events and every
+              response to it is deleted too. This can&apos;t be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setDeleting(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={saving}>
+              {saving ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -3,6 +3,8 @@ import { createClient } from "@/lib/supabase/server"
 import { Header } from "@/components/landing/header"
 import { Footer } from "@/components/landing/footer"
 import { AdminSidebar } from "@/components/admin/sidebar"
+import { StaffRoleProvider } from "@/components/admin/role-provider"
+import { isStaffRole } from "@/lib/roles"
 
 export default async function AdminLayout({
   children,
@@ -22,7 +24,9 @@ export default async function AdminLayout({
     .eq("id", user.id)
     .single()
 
-  if (profile?.security_group !== "admin") {
+  // Each area's layout checks the role can use that area
+  const role = profile?.security_group
+  if (!isStaffRole(role)) {
     redirect("/")
   }
 
@@ -30,9 +34,11 @@ export default async function AdminLayout({
     <div className="flex min-h-screen flex-col">
       <Header initialUser={user} />
       <div className="flex flex-1">
-        <AdminSidebar />
+        <AdminSidebar role={role} />
         <main id="main-content" className="flex-1 bg-background p-6">
-          {children}
+          <StaffRoleProvider role={role}>
+            {children}
+          </StaffRoleProvider>
         </main>
       </div>
       <Footer isAuthenticated />
@@ -0,0 +1,10 @@
+import { requireAreaAccess } from "@/lib/auth"
+
+export default async function OrganizationsLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  await requireAreaAccess("organizations")
+  return children
+}
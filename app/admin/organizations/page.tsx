@@ -1,6 +1,7 @@
 "use client"
 
 import { useEffect, useState, useCallback } from "react"
+import Link from "next/link"
 import { createClient } from "@/lib/supabase/client"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -13,21 +14,12 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog"
-import { Plus, Pencil, Search, X } from "lucide-react"
-
-interface Company {
-  id: string
-  name: string
-  address_line_1: string | null
-  address_line_2: string | null
-  city: string | null
-  state_province: string | null
-  postal_code: string | null
-  country: string | null
-  main_contact_name: string | null
-  main_contact_email: string | null
-  main_contact_phone: string | null
-}
+import { Plus, Pencil, Search, X, Trash2, Loader2 } from "lucide-react"
+import { TRASH_RETENTION_DAYS, moveToTrash } from "@/lib/trash"
+import { DataTable, useTableQuery, type DataTableColumn } from "@/components/admin/data-table"
+import { listCompanies, type CompanyListRow } from "@/lib/db"
+
+type Company = CompanyListRow
 
 const emptyForm = {
   name: "",
@@ -44,41 +36,36 @@ const emptyForm = {
 
 export default function ManageOrganizationsPage() {
   const [companies, setCompanies] = useState<Company[]>([])
+  const [total, setTotal] = useState(0)
   const [loading, setLoading] = useState(true)
-  const [search, setSearch] = useState("")
+  const { query, setQuery, searchInput, setSearchInput } = useTableQuery([{ column: "name", ascending: true }])
   const [dialogOpen, setDialogOpen] = useState(false)
   const [editing, setEditing] = useState<Company | null>(null)
   const [form, setForm] = useState(emptyForm)
   const [saving, setSaving] = useState(false)
   const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+  const [deletingCompany, setDeletingCompany] = useState<Company | null>(null)
+  const [deleting, setDeleting] = useState(false)
 
   const supabase = createClient()
 
   const fetchCompanies = useCallback(async () => {
-    const { data } = await supabase
-      .from("companies")
-      .select("*")
-      .order("name")
+    setLoading(true)
+    const { rows, total, error } = await listCompanies(supabase, query)
 
-    if (data) setCompanies(data)
+    if (error) {
+      setMessage({ type: "error", text: error.message })
+    } else {
+      setCompanies(rows)
+      setTotal(total)
+    }
     setLoading(false)
-  }, [supabase])
+  }, [supabase, query])
 
   useEffect(() => {
     void fetchCompanies() // eslint-disable-line react-hooks/set-state-in-effect
   }, [fetchCompanies])
 
-  const filteredCompanies = companies.filter((company) => {
-    const term = search.toLowerCase()
-    return (
-      company.name.toLowerCase().includes(term) ||
-      (company.city?.toLowerCase().includes(term) ?? false) ||
-      (company.state_province?.toLowerCase().includes(term) ?? false) ||
-      (company.main_contact_name?.toLowerCase().includes(term) ?? false) ||
-      (company.main_contact_email?.toLowerCase().includes(term) ?? false)
-    )
-  })
-
   const openCreate = () => {
     setEditing(null)
     setForm(emptyForm)
@@ -150,32 +137,116 @@ export default function ManageOrganizationsPage() {
     setSaving(false)
   }
 
+  const openDelete = (company: Company) => {
+    setDeletingCompany(company)
+    setMessage(null)
+  }
+
+  const handleDelete = async () => {
+    if (!deletingCompany) return
+
+    setDeleting(true)
+    setMessage(null)
+
+    const { error } = await moveToTrash(supabase, "companies", [deletingCompany.id])
+
+    if (error) {
+      setMessage({ type: "error", text: `Failed to delete organization: ${error.message}` })
+    } else {
+      setDeletingCompany(null)
+      fetchCompanies()
+    }
+
+    setDeleting(false)
+  }
+
   const formatAddress = (company: Company) => {
     const parts = [company.city, company.state_province].filter(Boolean)
     return parts.length > 0 ? parts.join(", ") : "—"
   }
 
+  const columns: DataTableColumn<Company>[] = [
+    { key: "name", header: "Name", sortColumn: "name", className: "font-medium", render: (company) => company.name },
+    { key: "location", header: "Location", sortColumn: "city", render: formatAddress },
+    {
+      key: "contact",
+      header: "Main Contact",
+      sortColumn: "main_contact_name",
+      render: (company) => company.main_contact_name || "—",
+    },
+    {
+      key: "email",
+      header: "Email",
+      sortColumn: "main_contact_email",
+      render: (company) => company.main_contact_email || "—",
+    },
+    { key: "phone", header: "Phone", render: (company) => company.main_contact_phone || "—" },
+    {
+      key: "visitors",
+      header: "Visitors",
+      sortColumn: "visitor_count",
+      align: "center",
+      render: (company) => company.visitor_count,
+    },
+    { key: "events", header: "Events", sortColumn: "event_count", align: "center", render: (company) => company.event_count },
+    {
+      key: "actions",
+      header: "Actions",
+      align: "right",
+      className: "space-x-1",
+      render: (company) => (
+        <>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => openEdit(company)}
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => openDelete(company)}
+            title="Delete Organization"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </>
+      ),
+    },
+  ]
+
   return (
     <div>
       <div className="flex items-center justify-between mb-6">
         <h1 className="text-2xl font-bold">Manage Organizations</h1>
-        <Button onClick={openCreate}>
-          <Plus className="mr-2 h-4 w-4" />
-          New Organization
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/admin/organizations/trash">
+              <Trash2 className="mr-2 h-4 w-4" />
+              Trash
+            </Link>
+          </Button>
+          <Button onClick={openCreate}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Organization
+          </Button>
+        </div>
       </div>
 
       <div className="relative mb-4 max-w-sm">
         <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
         <Input
           placeholder="Search organizations..."
-          value={search}
-          onChange={(e) => setSearch(e.target.value)}
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
           className="pl-9 pr-9"
         />
-        {search && (
+        {searchInput && (
           <button
-            onClick={() => setSearch("")}
+            onClick={() => setSearchInput("")}
             className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
           >
             <X className="h-4 w-4" />
@@ -183,49 +254,18 @@ export default function ManageOrganizationsPage() {
         )}
       </div>
 
-      {loading ? (
-        <p className="text-muted-foreground">Loading organizations...</p>
-      ) : filteredCompanies.length === 0 ? (
-        <div className="text-center py-12 text-muted-foreground">
-          {search ? "No organizations match your search." : "No organizations yet. Create your first organization."}
-        </div>
-      ) : (
-        <div className="overflow-x-auto rounded-lg border">
-          <table className="w-full text-sm">
-            <thead>
-              <tr className="border-b bg-muted/50">
-                <th className="px-4 py-3 text-left font-medium">Name</th>
-                <th className="px-4 py-3 text-left font-medium">Location</th>
-                <th className="px-4 py-3 text-left font-medium">Main Contact</th>
-                <th className="px-4 py-3 text-left font-medium">Email</th>
-                <th className="px-4 py-3 text-left font-medium">Phone</th>
-                <th className="px-4 py-3 text-right font-medium">Actions</th>
-              </tr>
-            </thead>
-            <tbody>
-              {filteredCompanies.map((company) => (
-                <tr key={company.id} className="border-b last:border-0 hover:bg-muted/30">
-                  <td className="px-4 py-3 font-medium">{company.name}</td>
-                  <td className="px-4 py-3">{formatAddress(company)}</td>
-                  <td className="px-4 py-3">{company.main_contact_name || "—"}</td>
-                  <td className="px-4 py-3">{company.main_contact_email || "—"}</td>
-                  <td className="px-4 py-3">{company.main_contact_phone || "—"}</td>
-                  <td className="px-4 py-3 text-right">
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-8 w-8"
-                      onClick={() => openEdit(company)}
-                    >
-                      <Pencil className="h-4 w-4" />
-                    </Button>
-                  </td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
-      )}
+      <DataTable
+        columns={columns}
+        rows={companies}
+        total={total}
+        loading={loading}
+        query={query}
+        onQueryChange={setQuery}
+        noun={["organization", "organizations"]}
+        emptyMessage={
+          query.search ? "No organizations match your search." : "No organizations yet. Create your first organization."
+        }
+      />
 
       <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
         <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
@@ -368,6 +408,47 @@ export default function ManageOrganizationsPage() {
           </form>
         </DialogContent>
       </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={deletingCompany !== null} onOpenChange={(open) => !open && setDeletingCompany(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Confirm Deletion</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete {deletingCompany?.name}? It will be moved to the trash and can be
+              restored for {TRASH_RETENTION_DAYS} days. Its visitors and sponsored events are not affected.
+            </DialogDescription>
+          </DialogHeader>
+          {message?.type === "error" && (
+            <div className="rounded-md p-3 text-sm bg-destructive/10 text-destructive">
+              {message.text}
+            </div>
+          )}
+          <DialogFooter className="justify-center sm:justify-center gap-4">
+            <Button
+              variant="outline"
+              onClick={() => setDeletingCompany(null)}
+              disabled={deleting}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDelete}
+              disabled={deleting}
+            >
+              {deleting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                "Delete"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
@@ -1,5 +1,8 @@
 import { redirect } from "next/navigation"
+import { getStaffContext } from "@/lib/auth"
+import { getHomePath } from "@/lib/roles"
 
-export default function AdminPage() {
-  redirect("/admin/dashboard")
+export default async function AdminPage() {
+  const staff = await getStaffContext()
+  redirect(staff ? getHomePath(staff.role) : "/")
 }
@@ -0,0 +1,236 @@
+"use client"
+
+import { useEffect, useState, useCallback } from "react"
+import Link from "next/link"
+import { createClient } from "@/lib/supabase/client"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { ArrowLeft, Search, X, Loader2, Merge } from "lucide-react"
+import { useStaffRole } from "@/components/admin/role-provider"
+import { listDuplicateCandidates, type DuplicateCandidate } from "@/lib/db"
+import {
+  DUPLICATE_REASON_LABELS,
+  findDuplicateVisitors,
+  mergeVisitors,
+  type DuplicatePair,
+} from "@/lib/duplicates"
+
+interface PendingMerge {
+  keep: DuplicateCandidate
+  merge: DuplicateCandidate
+}
+
+export default function VisitorDuplicatesPage() {
+  const [pairs, setPairs] = useState<DuplicatePair<DuplicateCandidate>[]>([])
+  const [loading, setLoading] = useState(true)
+  const [search, setSearch] = useState("")
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null)
+  const [merging, setMerging] = useState(false)
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+
+  const { role } = useStaffRole()
+  const canMerge = role === "admin" || role === "coordinator"
+
+  const supabase = createClient()
+
+  const fetchDuplicates = useCallback(async () => {
+    const { rows, error } = await listDuplicateCandidates(supabase)
+
+    if (error) {
+      setMessage({ type: "error", text: error.message })
+    } else {
+      setPairs(findDuplicateVisitors(rows))
+    }
+    setLoading(false)
+  }, [supabase])
+
+  useEffect(() => {
+    void fetchDuplicates() // eslint-disable-line react-hooks/set-state-in-effect
+  }, [fetchDuplicates])
+
+  const filteredPairs = pairs.filter(({ a, b }) => {
+    const term = search.toLowerCase()
+    return [a, b].some((v) =>
+      `${v.first_name} ${v.last_name}`.toLowerCase().includes(term)
+      || v.email?.toLowerCase().includes(term)
+    )
+  })
+
+  const handleMerge = async () => {
+    if (!pendingMerge) return
+
+    setMerging(true)
+    setMessage(null)
+
+    const { keep, merge } = pendingMerge
+    const { error } = await mergeVisitors(supabase, keep.id, merge.id)
+
+    if (error) {
+      setMessage({ type: "error", text: `Failed to merge visitors: ${error.message}` })
+    } else {
+      setMessage({
+        type: "success",
+        text: `Merged ${merge.first_name} ${merge.last_name} into ${keep.first_name} ${keep.last_name}`,
+      })
+      fetchDuplicates()
+    }
+
+    setMerging(false)
+    setPendingMerge(null)
+  }
+
+  const eventCount = (visitor: DuplicateCandidate) => visitor.event_visitors[0]?.count || 0
+
+  return (
+    <div>
+      <div className="mb-6">
+        <Link href="/admin/visitors" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-2">
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          Back to Visitors
+        </Link>
+        <h1 className="text-2xl font-bold">Duplicate Visitors</h1>
+        <p className="text-sm text-muted-foreground">
+          Visitors with matching or similar names, emails or phone numbers. Keep one record of each pair
+          and its duplicate&apos;s events, document confirmations and login move across to it.
+        </p>
+      </div>
+
+      {message && (
+        <div
+          className={`rounded-md p-3 text-sm mb-4 ${
+            message.type === "success"
+              ? "bg-green-100 text-green-800"
+              : "bg-destructive/10 text-destructive"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <div className="relative max-w-sm mb-4">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Search duplicates..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="pl-9 pr-9"
+        />
+        {search && (
+          <button
+            onClick={() => setSearch("")}
+            className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <p className="text-muted-foreground">Looking for duplicates...</p>
+      ) : filteredPairs.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          {search ? "No duplicates match your search." : "No likely duplicates found."}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {filteredPairs.map(({ a, b, reasons }) => (
+            <div key={`${a.id}-${b.id}`} className="overflow-x-auto rounded-lg border">
+              <div className="flex flex-wrap gap-2 border-b bg-muted/50 px-4 py-2">
+                {reasons.map((reason) => (
+                  <span
+                    key={reason}
+                    className="inline-flex items-center rounded-full bg-primary/10 px-2.5 py-0.5 text-xs font-medium text-primary"
+                  >
+                    {DUPLICATE_REASON_LABELS[reason]}
+                  </span>
+                ))}
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="px-4 py-3 text-left font-medium">Name</th>
+                    <th className="px-4 py-3 text-left font-medium">Email</th>
+                    <th className="px-4 py-3 text-left font-medium">Phone</th>
+                    <th className="px-4 py-3 text-left font-medium">Organization</th>
+                    <th className="px-4 py-3 text-center font-medium">Events</th>
+                    <th className="px-4 py-3 text-center font-medium">Account</th>
+                    {canMerge && <th className="px-4 py-3 text-right font-medium">Actions</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {[[a, b], [b, a]].map(([visitor, other]) => (
+                    <tr key={visitor.id} className="border-b last:border-0 hover:bg-muted/30">
+                      <td className="px-4 py-3 font-medium">
+                        {visitor.first_name} {visitor.last_name}
+                      </td>
+                      <td className="px-4 py-3">{visitor.email || "—"}</td>
+                      <td className="px-4 py-3">{visitor.phone || "—"}</td>
+                      <td className="px-4 py-3">{visitor.company?.name || "—"}</td>
+                      <td className="px-4 py-3 text-center">{eventCount(visitor)}</td>
+                      <td className="px-4 py-3 text-center">{visitor.profile_id ? "Linked" : "—"}</td>
+                      {canMerge && (
+                        <td className="px-4 py-3 text-right">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setPendingMerge({ keep: visitor, merge: other })}
+                          >
+                            <Merge className="mr-2 h-4 w-4" />
+                            Keep This
+                          </Button>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Merge Confirmation Dialog */}
+      <Dialog open={!!pendingMerge} onOpenChange={(open) => !open && !merging && setPendingMerge(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Merge Visitors</DialogTitle>
+            <p className="text-sm text-white/90">
+              Merge {pendingMerge?.merge.first_name} {pendingMerge?.merge.last_name}
+              {pendingMerge?.merge.email ? ` (${pendingMerge.merge.email})` : ""} into{" "}
+              {pendingMerge?.keep.first_name} {pendingMerge?.keep.last_name}
+              {pendingMerge?.keep.email ? ` (${pendingMerge.keep.email})` : ""}? Their events, document
+              confirmations and login move to the record kept, which keeps its own details where both
+              have them. The duplicate then moves to the trash.
+            </p>
+          </DialogHeader>
+          <DialogFooter className="justify-center sm:justify-center gap-4">
+            <Button
+              variant="outline"
+              onClick={() => setPendingMerge(null)}
+              disabled={merging}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleMerge} disabled={merging}>
+              {merging ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Merging...
+                </>
+              ) : (
+                "Merge"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
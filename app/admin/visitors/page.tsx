@@ -1,6 +1,7 @@
 "use client"
 
 import { useEffect, useState, useCallback } from "react"
+import Link from "next/link"
 import { createClient } from "@/lib/supabase/client"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -13,50 +14,27 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog"
-import { Plus, Pencil, Search, X, CalendarDays, Download, Upload, Loader2, Trash2 } from "lucide-react"
-import ExcelJS from "exceljs"
-
-interface UploadError {
-  row: number
-  firstName: string
-  lastName: string
-  reason: string
-}
-
-interface UploadResult {
-  total: number
-  success: number
-  errors: UploadError[]
-}
-
-interface Visitor {
-  id: string
-  first_name: string
-  last_name: string
-  email: string | null
-  phone: string | null
-  company_id: string | null
-  profile_id: string | null
-  company?: { name: string } | null
-  event_count?: number
-}
-
-interface Company {
-  id: string
-  name: string
-}
+import { Plus, Pencil, Search, X, CalendarDays, Download, Loader2, Trash2, Merge } from "lucide-react"
+import { summarizeCapacityCounts, type CapacitySummary } from "@/lib/capacity"
+import { TRASH_RETENTION_DAYS, moveToTrash } from "@/lib/trash"
+import { ROSTER_MIME_TYPE, buildRosterTemplate, nextRosterTemplateFilename } from "@/lib/roster"
+import { RosterImport } from "@/components/roster-import"
+import { DataTable, useTableQuery, type DataTableColumn } from "@/components/admin/data-table"
+import {
+  assignEventsToVisitor,
+  listAllEvents,
+  listCompanyOptions,
+  listVisitorAssignments,
+  listVisitors,
+  setVisitorEvents,
+  type CompanyOption,
+  type EventListRow,
+  type VisitorListRow,
+} from "@/lib/db"
 
-interface Event {
-  id: string
-  name: string
-  start_date: string | null
-  end_date: string | null
-  location: string | null
-}
+type Visitor = VisitorListRow
 
-interface EventVisitor {
-  event_id: string
-}
+type Event = EventListRow & { capacity_summary: CapacitySummary }
 
 const emptyForm = {
   first_name: "",
@@ -69,9 +47,13 @@ const emptyForm = {
 
 export default function ManageVisitorsPage() {
   const [visitors, setVisitors] = useState<Visitor[]>([])
-  const [companies, setCompanies] = useState<Company[]>([])
+  const [total, setTotal] = useState(0)
+  const [companies, setCompanies] = useState<CompanyOption[]>([])
   const [loading, setLoading] = useState(true)
-  const [search, setSearch] = useState("")
+  const { query, setQuery, searchInput, setSearchInput } = useTableQuery([
+    { column: "last_name", ascending: true },
+    { column: "first_name", ascending: true },
+  ])
   const [dialogOpen, setDialogOpen] = useState(false)
   const [editing, setEditing] = useState<Visitor | null>(null)
   const [form, setForm] = useState(emptyForm)
@@ -83,14 +65,11 @@ export default function ManageVisitorsPage() {
   const [assigningVisitor, setAssigningVisitor] = useState<Visitor | null>(null)
   const [allEvents, setAllEvents] = useState<Event[]>([])
   const [selectedEventIds, setSelectedEventIds] = useState<Set<string>>(new Set())
+  // RSVP status of the events the visitor is already assigned to, keyed by event id
+  const [assignedStatuses, setAssignedStatuses] = useState<Record<string, string>>({})
   const [eventSearch, setEventSearch] = useState("")
   const [savingAssignments, setSavingAssignments] = useState(false)
 
-  // Upload state
-  const [uploading, setUploading] = useState(false)
-  const [uploadResultDialogOpen, setUploadResultDialogOpen] = useState(false)
-  const [uploadResult, setUploadResult] = useState<UploadResult | null>(null)
-
   // Selection and delete state
   const [selectedVisitorIds, setSelectedVisitorIds] = useState<Set<string>>(new Set())
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
@@ -99,48 +78,29 @@ export default function ManageVisitorsPage() {
   const supabase = createClient()
 
   const fetchVisitors = useCallback(async () => {
-    const { data: visitorsData } = await supabase
-      .from("visitors")
-      .select("*, company:companies(name)")
-      .order("last_name")
-
-    if (visitorsData) {
-      // Fetch event counts for each visitor
-      const { data: countsData } = await supabase
-        .from("event_visitors")
-        .select("visitor_id")
-
-      const countMap: Record<string, number> = {}
-      countsData?.forEach((ev) => {
-        countMap[ev.visitor_id] = (countMap[ev.visitor_id] || 0) + 1
-      })
-
-      const visitorsWithCounts = visitorsData.map((visitor) => ({
-        ...visitor,
-        event_count: countMap[visitor.id] || 0,
-      }))
+    setLoading(true)
+    const { rows, total, error } = await listVisitors(supabase, query)
 
-      setVisitors(visitorsWithCounts)
+    if (error) {
+      setMessage({ type: "error", text: error.message })
+    } else {
+      setVisitors(rows)
+      setTotal(total)
     }
     setLoading(false)
-  }, [supabase])
+  }, [supabase, query])
 
   const fetchCompanies = useCallback(async () => {
-    const { data } = await supabase
-      .from("companies")
-      .select("id, name")
-      .order("name")
-
-    if (data) setCompanies(data)
+    const { rows } = await listCompanyOptions(supabase)
+    setCompanies(rows)
   }, [supabase])
 
   const fetchAllEvents = useCallback(async () => {
-    const { data } = await supabase
-      .from("events")
-      .select("id, name, start_date, end_date, location")
-      .order("start_date", { ascending: true })
-
-    if (data) setAllEvents(data)
+    const { rows } = await listAllEvents(supabase)
+    setAllEvents(rows.map((event) => ({
+      ...event,
+      capacity_summary: summarizeCapacityCounts(event.capacity, event.places_taken, event.waitlisted),
+    })))
   }, [supabase])
 
   useEffect(() => {
@@ -149,19 +109,6 @@ export default function ManageVisitorsPage() {
     void fetchAllEvents()
   }, [fetchVisitors, fetchCompanies, fetchAllEvents])
 
-  const filteredVisitors = visitors.filter((visitor) => {
-    const term = search.toLowerCase()
-    const fullName = `${visitor.first_name} ${visitor.last_name}`.toLowerCase()
-    return (
-      fullName.includes(term) ||
-      visitor.first_name.toLowerCase().includes(term) ||
-      visitor.last_name.toLowerCase().includes(term) ||
-      (visitor.email?.toLowerCase().includes(term) ?? false) ||
-      (visitor.phone?.toLowerCase().includes(term) ?? false) ||
-      (visitor.company?.name?.toLowerCase().includes(term) ?? false)
-    )
-  })
-
   const filteredEvents = allEvents.filter((event) => {
     const term = eventSearch.toLowerCase()
     return (
@@ -197,15 +144,14 @@ export default function ManageVisitorsPage() {
     setMessage(null)
 
     // Fetch current events for this visitor
-    const { data: visitorEvents } = await supabase
-      .from("event_visitors")
-      .select("event_id")
-      .eq("visitor_id", visitor.id)
+    const { rows } = await listVisitorAssignments(supabase, visitor.id)
 
-    const currentIds = new Set<string>(
-      (visitorEvents as EventVisitor[] | null)?.map((ev) => ev.event_id) || []
-    )
-    setSelectedEventIds(currentIds)
+    const statuses: Record<string, string> = {}
+    rows.forEach((ev) => {
+      statuses[ev.event_id] = ev.rsvp_status
+    })
+    setAssignedStatuses(statuses)
+    setSelectedEventIds(new Set(Object.keys(statuses)))
     setAssignDialogOpen(true)
   }
 
@@ -235,41 +181,30 @@ export default function ManageVisitorsPage() {
     setSavingAssignments(true)
     setMessage(null)
 
-    // Delete all existing assignments for this visitor
-    const { error: deleteError } = await supabase
-      .from("event_visitors")
-      .delete()
-      .eq("visitor_id", assigningVisitor.id)
+    // The database keeps the assignments that stay as they are. Events that
+    // are full put the visitor on their waitlist instead.
+    const { rows: inserted, error } = await setVisitorEvents(supabase, assigningVisitor.id, Array.from(selectedEventIds))
 
-    if (deleteError) {
-      setMessage({ type: "error", text: deleteError.message })
+    if (error) {
+      setMessage({ type: "error", text: error.message })
       setSavingAssignments(false)
       return
     }
 
-    // Insert new assignments
-    if (selectedEventIds.size > 0) {
-      const newAssignments = Array.from(selectedEventIds).map((eventId) => ({
-        event_id: eventId,
-        visitor_id: assigningVisitor.id,
-        rsvp_status: "invited",
-      }))
-
-      const { error: insertError } = await supabase
-        .from("event_visitors")
-        .insert(newAssignments)
-
-      if (insertError) {
-        setMessage({ type: "error", text: insertError.message })
-        setSavingAssignments(false)
-        return
-      }
-    }
+    const waitlistedEvents = inserted
+      .filter((row) => row.rsvp_status === "waitlisted")
+      .map((row) => allEvents.find((e) => e.id === row.event_id)?.name || "an event")
 
-    setMessage({ type: "success", text: "Events assigned successfully" })
+    setMessage({
+      type: "success",
+      text: waitlistedEvents.length > 0
+        ? `Events assigned. Added to the waitlist for ${waitlistedEvents.join(", ")} (at capacity).`
+        : "Events assigned successfully",
+    })
     setSavingAssignments(false)
     setAssignDialogOpen(false)
     fetchVisitors()
+    fetchAllEvents()
   }
 
   const handleSave = async (e: React.FormEvent) => {
@@ -304,6 +239,8 @@ export default function ManageVisitorsPage() {
               rsvp_status: "invited",
             }, {
               onConflict: "visitor_id,event_id",
+              // Keep the RSVP state of an existing assignment
+              ignoreDuplicates: true,
             })
 
           if (eventError) {
@@ -327,13 +264,7 @@ export default function ManageVisitorsPage() {
         setMessage({ type: "error", text: error.message })
       } else if (newVisitor && form.event_id) {
         // Create event_visitors entry for the assigned event
-        const { error: eventError } = await supabase
-          .from("event_visitors")
-          .insert({
-            visitor_id: newVisitor.id,
-            event_id: form.event_id,
-            rsvp_status: "invited",
-          })
+        const { error: eventError } = await assignEventsToVisitor(supabase, newVisitor.id, [form.event_id])
 
         if (eventError) {
           setMessage({ type: "error", text: `Visitor created but event assignment failed: ${eventError.message}` })
@@ -362,352 +293,19 @@ export default function ManageVisitorsPage() {
   }
 
   const downloadTemplate = async () => {
-    const workbook = new ExcelJS.Workbook()
-    workbook.creator = "West Creek Ranch"
-    workbook.created = new Date()
-
-    // Main data sheet
-    const worksheet = workbook.addWorksheet("Visitors")
-
-    // Define columns
-    worksheet.columns = [
-      { header: "First Name", key: "first_name", width: 20 },
-      { header: "Last Name", key: "last_name", width: 20 },
-      { header: "Email", key: "email", width: 30 },
-      { header: "Phone", key: "phone", width: 20 },
-      { header: "Organization", key: "organization", width: 30 },
-      { header: "Event", key: "event", width: 40 },
-    ]
-
-    // Style the header row
-    const headerRow = worksheet.getRow(1)
-    headerRow.font = { bold: true }
-    headerRow.fill = {
-      type: "pattern",
-      pattern: "solid",
-      fgColor: { argb: "FFE0E0E0" },
-    }
-
-    // Create a hidden sheet for dropdown values
-    const lookupSheet = workbook.addWorksheet("_Lookups")
-    lookupSheet.state = "veryHidden"
-
-    // Add organization names to lookup sheet
-    const orgNames = companies.map((c) => c.name)
-    orgNames.forEach((name, index) => {
-      lookupSheet.getCell(`A${index + 1}`).value = name
-    })
-
-    // Add event names with dates to lookup sheet
-    const eventNames = allEvents.map((e) => `${e.name} (${formatDate(e.start_date)})`)
-    eventNames.forEach((name, index) => {
-      lookupSheet.getCell(`B${index + 1}`).value = name
-    })
-
-    // Add data validation for Organization column (column E)
-    // Apply to rows 2 through 1000 (enough for bulk import)
-    if (orgNames.length > 0) {
-      for (let row = 2; row <= 1000; row++) {
-        worksheet.getCell(`E${row}`).dataValidation = {
-          type: "list",
-          allowBlank: true,
-          formulae: [`'_Lookups'!$A$1:$A$${orgNames.length}`],
-          showErrorMessage: true,
-          errorTitle: "Invalid Organization",
-          error: "Please select an organization from the dropdown list.",
-        }
-      }
-    }
-
-    // Add data validation for Event column (column F)
-    if (eventNames.length > 0) {
-      for (let row = 2; row <= 1000; row++) {
-        worksheet.getCell(`F${row}`).dataValidation = {
-          type: "list",
-          allowBlank: true,
-          formulae: [`'_Lookups'!$B$1:$B$${eventNames.length}`],
-          showErrorMessage: true,
-          errorTitle: "Invalid Event",
-          error: "Please select an event from the dropdown list.",
-        }
-      }
-    }
-
-    // Add data validation for Phone column (column D) - format 000-000-0000
-    for (let row = 2; row <= 1000; row++) {
-      worksheet.getCell(`D${row}`).dataValidation = {
-        type: "custom",
-        allowBlank: true,
-        formulae: [`AND(LEN(D${row})=12,MID(D${row},4,1)="-",MID(D${row},8,1)="-",ISNUMBER(VALUE(SUBSTITUTE(D${row},"-",""))))`],
-        showErrorMessage: true,
-        errorTitle: "Invalid Phone Format",
-        error: "Please enter phone number in format: 000-000-0000",
-      }
-    }
-
-    // Add a few empty rows to show the structure
-    for (let i = 0; i < 10; i++) {
-      worksheet.addRow({})
-    }
-
-    // Generate filename with current date and incremented counter
-    const now = new Date()
-    const mm = String(now.getMonth() + 1).padStart(2, "0")
-    const dd = String(now.getDate()).padStart(2, "0")
-    const yyyy = now.getFullYear()
-    const dateKey = `${mm}${dd}${yyyy}`
-
-    // Get or initialize download counter for today
-    const storageKey = "wcr_template_download"
-    const stored = localStorage.getItem(storageKey)
-    let counter = 1
-
-    if (stored) {
-      const { date, count } = JSON.parse(stored)
-      if (date === dateKey) {
-        counter = count + 1
-      }
-    }
-
-    // Save updated counter
-    localStorage.setItem(storageKey, JSON.stringify({ date: dateKey, count: counter }))
-
-    const filename = `WCR_Visitor_Template_${dateKey}_${counter}.xlsx`
-
     // Generate and download the file
-    const buffer = await workbook.xlsx.writeBuffer()
-    const blob = new Blob([buffer], {
-      type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
-    })
+    const buffer = await buildRosterTemplate(companies, allEvents)
+    const blob = new Blob([buffer], { type: ROSTER_MIME_TYPE })
     const url = URL.createObjectURL(blob)
     const link = document.createElement("a")
     link.href = url
-    link.download = filename
+    link.download = nextRosterTemplateFilename()
     document.body.appendChild(link)
     link.click()
     document.body.removeChild(link)
     URL.revokeObjectURL(url)
   }
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (!file) return
-
-    // Reset file input so same file can be selected again
-    event.target.value = ""
-
-    setUploading(true)
-    setUploadResult(null)
-
-    try {
-      const buffer = await file.arrayBuffer()
-      const workbook = new ExcelJS.Workbook()
-      await workbook.xlsx.load(buffer)
-
-      const worksheet = workbook.getWorksheet("Visitors")
-      if (!worksheet) {
-        setUploadResult({
-          total: 0,
-          success: 0,
-          errors: [{ row: 0, firstName: "", lastName: "", reason: "Invalid file format. The file must have a 'Visitors' worksheet. Please download the template and use the correct format." }],
-        })
-        setUploadResultDialogOpen(true)
-        setUploading(false)
-        return
-      }
-
-      // Validate header row
-      const headerRow = worksheet.getRow(1)
-      const expectedHeaders = ["First Name", "Last Name", "Email", "Phone", "Organization", "Event"]
-      const headers: string[] = []
-      headerRow.eachCell((cell, colNumber) => {
-        headers[colNumber - 1] = String(cell.value || "").trim()
-      })
-
-      const headersMatch = expectedHeaders.every((h, i) => headers[i] === h)
-      if (!headersMatch) {
-        setUploadResult({
-          total: 0,
-          success: 0,
-          errors: [{ row: 0, firstName: "", lastName: "", reason: "Invalid file format. Column headers do not match the expected template. Please download the template and use the correct format." }],
-        })
-        setUploadResultDialogOpen(true)
-        setUploading(false)
-        return
-      }
-
-      // Build lookup maps for organizations and events
-      const orgMap = new Map(companies.map((c) => [c.name.toLowerCase(), c.id]))
-      const eventMap = new Map(
-        allEvents.map((e) => {
-          const eventLabel = `${e.name} (${formatDate(e.start_date)})`.toLowerCase()
-          return [eventLabel, e.id]
-        })
-      )
-
-      const errors: UploadError[] = []
-      let successCount = 0
-      let totalRows = 0
-
-      // Helper to extract text from cell (handles hyperlinks, rich text, etc.)
-      const getCellText = (cell: ExcelJS.Cell): string => {
-        const value = cell.value
-        if (value === null || value === undefined) return ""
-        if (typeof value === "string") return value.trim()
-        if (typeof value === "number") return String(value)
-        // Handle hyperlink objects (e.g., email addresses)
-        if (typeof value === "object" && "text" in value) {
-          return String(value.text || "").trim()
-        }
-        // Handle rich text
-        if (typeof value === "object" && "richText" in value) {
-          const richText = value.richText as Array<{ text: string }>
-          return richText.map((r) => r.text).join("").trim()
-        }
-        return String(value).trim()
-      }
-
-      // Process each data row (starting from row 2)
-      for (let rowNum = 2; rowNum <= worksheet.rowCount; rowNum++) {
-        const row = worksheet.getRow(rowNum)
-        const firstName = getCellText(row.getCell(1))
-        const lastName = getCellText(row.getCell(2))
-        const email = getCellText(row.getCell(3))
-        const phone = getCellText(row.getCell(4))
-        const orgName = getCellText(row.getCell(5))
-        const eventName = getCellText(row.getCell(6))
-
-        // Skip completely empty rows
-        if (!firstName && !lastName && !email && !phone && !orgName && !eventName) {
-          continue
-        }
-
-        totalRows++
-
-        // Validate required fields
-        const missingFields: string[] = []
-        if (!firstName) missingFields.push("First Name")
-        if (!lastName) missingFields.push("Last Name")
-        if (!email) missingFields.push("Email")
-        if (!orgName) missingFields.push("Organization")
-        if (!eventName) missingFields.push("Event")
-
-        if (missingFields.length > 0) {
-          errors.push({
-            row: rowNum,
-            firstName: firstName || "(empty)",
-            lastName: lastName || "(empty)",
-            reason: `Missing required fields: ${missingFields.join(", ")}`,
-          })
-          continue
-        }
-
-        // Lookup organization
-        const companyId = orgMap.get(orgName.toLowerCase())
-        if (!companyId) {
-          errors.push({
-            row: rowNum,
-            firstName,
-            lastName,
-            reason: `Organization "${orgName}" not found`,
-          })
-          continue
-        }
-
-        // Lookup event
-        const eventId = eventMap.get(eventName.toLowerCase())
-        if (!eventId) {
-          errors.push({
-            row: rowNum,
-            firstName,
-            lastName,
-            reason: `Event "${eventName}" not found`,
-          })
-          continue
-        }
-
-        // Validate phone format if provided
-        if (phone && !/^\d{3}-\d{3}-\d{4}$/.test(phone)) {
-          errors.push({
-            row: rowNum,
-            firstName,
-            lastName,
-            reason: `Invalid phone format "${phone}". Expected: 000-000-0000`,
-          })
-          continue
-        }
-
-        // Create visitor record
-        const { data: newVisitor, error: visitorError } = await supabase
-          .from("visitors")
-          .insert({
-            first_name: firstName,
-            last_name: lastName,
-            email: email || null,
-            phone: phone || null,
-            company_id: companyId,
-          })
-          .select("id")
-          .single()
-
-        if (visitorError) {
-          errors.push({
-            row: rowNum,
-            firstName,
-            lastName,
-            reason: `Database error: ${visitorError.message}`,
-          })
-          continue
-        }
-
-        // Create event_visitors record
-        if (newVisitor) {
-          const { error: eventError } = await supabase
-            .from("event_visitors")
-            .insert({
-              visitor_id: newVisitor.id,
-              event_id: eventId,
-              rsvp_status: "invited",
-            })
-
-          if (eventError) {
-            errors.push({
-              row: rowNum,
-              firstName,
-              lastName,
-              reason: `Visitor created but event assignment failed: ${eventError.message}`,
-            })
-            continue
-          }
-        }
-
-        successCount++
-      }
-
-      setUploadResult({
-        total: totalRows,
-        success: successCount,
-        errors,
-      })
-      setUploadResultDialogOpen(true)
-
-      // Refresh visitors list if any were added
-      if (successCount > 0) {
-        fetchVisitors()
-      }
-    } catch (err) {
-      console.error("Error processing file:", err)
-      setUploadResult({
-        total: 0,
-        success: 0,
-        errors: [{ row: 0, firstName: "", lastName: "", reason: "Failed to read the file. Please ensure it is a valid Excel (.xlsx) file." }],
-      })
-      setUploadResultDialogOpen(true)
-    }
-
-    setUploading(false)
-  }
-
   // Selection helpers
   const toggleVisitorSelection = (visitorId: string) => {
     setSelectedVisitorIds((prev) => {
@@ -721,11 +319,13 @@ export default function ManageVisitorsPage() {
     })
   }
 
+  const allSelected = visitors.length > 0 && visitors.every((v) => selectedVisitorIds.has(v.id))
+
   const toggleSelectAll = () => {
-    if (selectedVisitorIds.size === filteredVisitors.length) {
+    if (allSelected) {
       setSelectedVisitorIds(new Set())
     } else {
-      setSelectedVisitorIds(new Set(filteredVisitors.map((v) => v.id)))
+      setSelectedVisitorIds(new Set(visitors.map((v) => v.id)))
     }
   }
 
@@ -734,15 +334,12 @@ export default function ManageVisitorsPage() {
 
     setDeleting(true)
 
-    const { error } = await supabase
-      .from("visitors")
-      .delete()
-      .in("id", Array.from(selectedVisitorIds))
+    const { count, error } = await moveToTrash(supabase, "visitors", Array.from(selectedVisitorIds))
 
     if (error) {
       setMessage({ type: "error", text: `Failed to delete visitors: ${error.message}` })
     } else {
-      setMessage({ type: "success", text: `Successfully deleted ${selectedVisitorIds.size} visitor(s)` })
+      setMessage({ type: "success", text: `Moved ${count} visitor(s) to the trash` })
       setSelectedVisitorIds(new Set())
       fetchVisitors()
     }
@@ -751,6 +348,84 @@ export default function ManageVisitorsPage() {
     setDeleteDialogOpen(false)
   }
 
+  const columns: DataTableColumn<Visitor>[] = [
+    {
+      key: "select",
+      header: (
+        <input
+          type="checkbox"
+          checked={allSelected}
+          onChange={toggleSelectAll}
+          className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+        />
+      ),
+      align: "center",
+      className: "w-12",
+      render: (visitor) => (
+        <input
+          type="checkbox"
+          checked={selectedVisitorIds.has(visitor.id)}
+          onChange={() => toggleVisitorSelection(visitor.id)}
+          className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+        />
+      ),
+    },
+    {
+      key: "name",
+      header: "Name",
+      sortColumn: "last_name",
+      className: "font-medium",
+      render: (visitor) => `${visitor.first_name} ${visitor.last_name}`,
+    },
+    { key: "email", header: "Email", sortColumn: "email", render: (visitor) => visitor.email || "—" },
+    { key: "phone", header: "Phone", sortColumn: "phone", render: (visitor) => visitor.phone || "—" },
+    {
+      key: "organization",
+      header: "Organization",
+      sortColumn: "company_name",
+      render: (visitor) => visitor.company_name || "—",
+    },
+    {
+      key: "events",
+      header: "Events",
+      sortColumn: "event_count",
+      align: "center",
+      render: (visitor) => (
+        <span className="inline-flex items-center rounded-full bg-primary/10 px-2.5 py-0.5 text-xs font-medium text-primary">
+          {visitor.event_count}
+        </span>
+      ),
+    },
+    {
+      key: "actions",
+      header: "Actions",
+      align: "right",
+      className: "space-x-1",
+      render: (visitor) => (
+        <>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => openAssignEvents(visitor)}
+            title="Assign to Events"
+          >
+            <CalendarDays className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => openEdit(visitor)}
+            title="Edit Visitor"
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+        </>
+      ),
+    },
+  ]
+
   return (
     <div>
       <div className="flex items-center justify-between mb-6">
@@ -761,29 +436,25 @@ export default function ManageVisitorsPage() {
               <Download className="mr-2 h-4 w-4" />
               Download Template
             </Button>
-            <input
-              type="file"
-              id="visitor-upload"
-              accept=".xlsx"
-              onChange={handleFileUpload}
-              className="hidden"
+            <RosterImport
+              organizations={companies}
+              events={allEvents}
+              onImported={() => {
+                fetchVisitors()
+                fetchAllEvents()
+              }}
             />
-            <Button
-              variant="outline"
-              onClick={() => document.getElementById("visitor-upload")?.click()}
-              disabled={uploading}
-            >
-              {uploading ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Processing...
-                </>
-              ) : (
-                <>
-                  <Upload className="mr-2 h-4 w-4" />
-                  Upload Visitors
-                </>
-              )}
+            <Button variant="outline" asChild>
+              <Link href="/admin/visitors/duplicates">
+                <Merge className="mr-2 h-4 w-4" />
+                Duplicates
+              </Link>
+            </Button>
+            <Button variant="outline" asChild>
+              <Link href="/admin/visitors/trash">
+                <Trash2 className="mr-2 h-4 w-4" />
+                Trash
+              </Link>
             </Button>
             <Button onClick={openCreate}>
               <Plus className="mr-2 h-4 w-4" />
@@ -798,13 +469,13 @@ export default function ManageVisitorsPage() {
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
           <Input
             placeholder="Search visitors..."
-            value={search}
-            onChange={(e) => setSearch(e.target.value)}
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
             className="pl-9 pr-9"
           />
-          {search && (
+          {searchInput && (
             <button
-              onClick={() => setSearch("")}
+              onClick={() => setSearchInput("")}
               className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
             >
               <X className="h-4 w-4" />
@@ -823,81 +494,16 @@ export default function ManageVisitorsPage() {
         )}
       </div>
 
-      {loading ? (
-        <p className="text-muted-foreground">Loading visitors...</p>
-      ) : filteredVisitors.length === 0 ? (
-        <div className="text-center py-12 text-muted-foreground">
-          {search ? "No visitors match your search." : "No visitors yet. Create your first visitor."}
-        </div>
-      ) : (
-        <div className="overflow-x-auto rounded-lg border">
-          <table className="w-full text-sm">
-            <thead>
-              <tr className="border-b bg-muted/50">
-                <th className="px-4 py-3 text-center font-medium w-12">
-                  <input
-                    type="checkbox"
-                    checked={selectedVisitorIds.size === filteredVisitors.length && filteredVisitors.length > 0}
-                    onChange={toggleSelectAll}
-                    className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
-                  />
-                </th>
-                <th className="px-4 py-3 text-left font-medium">Name</th>
-                <th className="px-4 py-3 text-left font-medium">Email</th>
-                <th className="px-4 py-3 text-left font-medium">Phone</th>
-                <th className="px-4 py-3 text-left font-medium">Organization</th>
-                <th className="px-4 py-3 text-center font-medium">Events</th>
-                <th className="px-4 py-3 text-right font-medium">Actions</th>
-              </tr>
-            </thead>
-            <tbody>
-              {filteredVisitors.map((visitor) => (
-                <tr key={visitor.id} className="border-b last:border-0 hover:bg-muted/30">
-                  <td className="px-4 py-3 text-center">
-                    <input
-                      type="checkbox"
-                      checked={selectedVisitorIds.has(visitor.id)}
-                      onChange={() => toggleVisitorSelection(visitor.id)}
-                      className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
-                    />
-                  </td>
-                  <td className="px-4 py-3 font-medium">
-                    {visitor.first_name} {visitor.last_name}
-                  </td>
-                  <td className="px-4 py-3">{visitor.email || "—"}</td>
-                  <td className="px-4 py-3">{visitor.phone || "—"}</td>
-                  <td className="px-4 py-3">{visitor.company?.name || "—"}</td>
-                  <td className="px-4 py-3 text-center">
-                    <span className="inline-flex items-center rounded-full bg-primary/10 px-2.5 py-0.5 text-xs font-medium text-primary">
-                      {visitor.event_count || 0}
-                    </span>
-                  </td>
-                  <td className="px-4 py-3 text-right space-x-1">
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-8 w-8"
-                      onClick={() => openAssignEvents(visitor)}
-                      title="Assign to Events"
-                    >
-                      <CalendarDays className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-8 w-8"
-                      onClick={() => openEdit(visitor)}
-                      title="Edit Visitor"
-                    >
-                      <Pencil className="h-4 w-4" />
-                    </Button>
-                  </td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
-      )}
+      <DataTable
+        columns={columns}
+        rows={visitors}
+        total={total}
+        loading={loading}
+        query={query}
+        onQueryChange={setQuery}
+        noun={["visitor", "visitors"]}
+        emptyMessage={query.search ? "No visitors match your search." : "No visitors yet. Create your first visitor."}
+      />
 
       {/* Create/Edit Visitor Dialog */}
       <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
@@ -1097,6 +703,11 @@ export default function ManageVisitorsPage() {
                           {event.location ? ` • ${event.location}` : ""}
                         </p>
                       </div>
+                      {assignedStatuses[event.id] === "waitlisted" ? (
+                        <span className="text-xs px-2 py-1 rounded bg-yellow-100 text-yellow-800">Waitlisted</span>
+                      ) : event.capacity_summary?.isFull && !assignedStatuses[event.id] ? (
+                        <span className="text-xs px-2 py-1 rounded bg-yellow-100 text-yellow-800">Full: waitlist</span>
+                      ) : null}
                     </label>
                   ))}
                 </div>
@@ -1115,69 +726,6 @@ export default function ManageVisitorsPage() {
         </DialogContent>
       </Dialog>
 
-      {/* Upload Result Dialog */}
-      <Dialog open={uploadResultDialogOpen} onOpenChange={setUploadResultDialogOpen}>
-        <DialogContent className="sm:max-w-lg max-h-[80vh] flex flex-col">
-          <DialogHeader>
-            <DialogTitle>Upload Results</DialogTitle>
-            <p className="text-sm text-white/90">
-              Summary of the visitor import process.
-            </p>
-          </DialogHeader>
-
-          {uploadResult && (
-            <div className="flex-1 overflow-hidden flex flex-col py-4">
-              {/* Summary */}
-              <div className="grid grid-cols-3 gap-4 mb-4">
-                <div className="text-center p-3 rounded-lg bg-white/10">
-                  <p className="text-2xl font-bold">{uploadResult.total}</p>
-                  <p className="text-sm text-white/90">Total Records</p>
-                </div>
-                <div className="text-center p-3 rounded-lg bg-white/10">
-                  <p className="text-2xl font-bold">{uploadResult.success}</p>
-                  <p className="text-sm text-white/90">Successful</p>
-                </div>
-                <div className="text-center p-3 rounded-lg bg-white/10">
-                  <p className="text-2xl font-bold">{uploadResult.errors.length}</p>
-                  <p className="text-sm text-white/90">Errors</p>
-                </div>
-              </div>
-
-              {/* Errors List */}
-              {uploadResult.errors.length > 0 && (
-                <div className="flex-1 overflow-hidden flex flex-col">
-                  <p className="text-sm font-medium mb-2">Errors:</p>
-                  <div className="flex-1 overflow-y-auto border rounded-lg bg-white text-black">
-                    <div className="divide-y divide-gray-200">
-                      {uploadResult.errors.map((error, index) => (
-                        <div key={index} className="p-3 text-sm">
-                          {error.row > 0 ? (
-                            <>
-                              <p className="font-medium">
-                                Row {error.row}: {error.firstName} {error.lastName}
-                              </p>
-                              <p className="text-red-600">{error.reason}</p>
-                            </>
-                          ) : (
-                            <p className="text-red-600">{error.reason}</p>
-                          )}
-                        </div>
-                      ))}
-                    </div>
-                  </div>
-                </div>
-              )}
-            </div>
-          )}
-
-          <DialogFooter className="justify-center sm:justify-center">
-            <Button onClick={() => setUploadResultDialogOpen(false)}>
-              Close
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
-
       {/* Delete Confirmation Dialog */}
       <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <DialogContent className="sm:max-w-md">
@@ -1185,7 +733,8 @@ export default function ManageVisitorsPage() {
             <DialogTitle>Confirm Deletion</DialogTitle>
             <p className="text-sm text-white/90">
               Are you sure you want to delete {selectedVisitorIds.size} visitor{selectedVisitorIds.size !== 1 ? "s" : ""}?
-              This will also remove their event assignments and document confirmations. This action cannot be undone.
+              They will be moved to the trash with their event assignments and document confirmations,
+              and can be restored for {TRASH_RETENTION_DAYS} days.
             </p>
           </DialogHeader>
           <DialogFooter className="justify-center sm:justify-center gap-4">
@@ -0,0 +1,5 @@
+import { TrashView } from "@/components/admin/trash-view"
+
+export default function VisitorsTrashPage() {
+  return <TrashView table="visitors" />
+}
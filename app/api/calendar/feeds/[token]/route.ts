@@ -0,0 +1,33 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { createServiceClient } from "@/lib/supabase/service"
+import { buildCalendar } from "@/lib/calendar/ics"
+import { loadCalendarFeed } from "@/lib/calendar/server"
+import { calendarResponse } from "@/lib/calendar/response"
+
+// A visitor's calendar subscription feed. Calendar apps fetch it without
+// signing in, so the secret token in the URL stands in for a session. The
+// URL may end in .ics, which some apps expect.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params
+
+  try {
+    const entries = await loadCalendarFeed(
+      createServiceClient(),
+      token.replace(/\.ics$/, ""),
+      request.nextUrl.origin
+    )
+    if (!entries) {
+      return NextResponse.json({ error: "Calendar feed not found" }, { status: 404 })
+    }
+
+    const ics = buildCalendar({ name: "West Creek Ranch", entries, subscription: true })
+    return calendarResponse(ics, "West Creek Ranch", { download: false })
+  } catch (err) {
+    // The feed is public, so database errors stay in the logs
+    console.error("Error building calendar feed:", err)
+    return NextResponse.json({ error: "Failed to build calendar feed" }, { status: 500 })
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { createServiceClient } from "@/lib/supabase/service"
+import { getCalendarFeedToken } from "@/lib/calendar/server"
+import { getVisitorIdForProfile } from "@/lib/db"
+
+// Returns the signed-in visitor's calendar feed URL, creating the feed the
+// first time. `{ reset: true }` replaces the URL, e.g. after it was shared.
+export async function POST(request: NextRequest) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { reset } = await request.json().catch(() => ({}))
+
+  const { visitorId } = await getVisitorIdForProfile(supabase, user.id)
+  if (!visitorId) {
+    return NextResponse.json({ error: "No visitor record for this account" }, { status: 404 })
+  }
+
+  try {
+    const token = await getCalendarFeedToken(createServiceClient(), visitorId, { reset: reset === true })
+    return NextResponse.json({ url: `${request.nextUrl.origin}/api/calendar/feeds/${token}.ics` })
+  } catch (err) {
+    console.error("Error creating calendar feed:", err)
+    const message = err instanceof Error ? err.message : "Failed to create calendar feed"
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
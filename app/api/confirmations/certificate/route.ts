@@ -0,0 +1,40 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { createServiceClient } from "@/lib/supabase/service"
+import { getVisitorIdForProfile } from "@/lib/db"
+import { loadCertificates } from "@/lib/certificates/server"
+import { certificateResponse } from "@/lib/certificates/response"
+
+// The signed-in visitor's certificate of acknowledgement for a document
+// version they confirmed for an event.
+export async function GET(request: NextRequest) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const eventId = request.nextUrl.searchParams.get("eventId")
+  const documentVersionId = request.nextUrl.searchParams.get("documentVersionId")
+  if (!eventId || !documentVersionId) {
+    return NextResponse.json({ error: "eventId and documentVersionId are required" }, { status: 400 })
+  }
+
+  const { visitorId } = await getVisitorIdForProfile(supabase, user.id)
+  if (!visitorId) {
+    return NextResponse.json({ error: "No visitor record for this account" }, { status: 404 })
+  }
+
+  try {
+    const certificates = await loadCertificates(createServiceClient(), { eventId, visitorId, documentVersionId })
+    if (certificates.length === 0) {
+      return NextResponse.json({ error: "This document hasn't been confirmed" }, { status: 404 })
+    }
+    return certificateResponse(certificates, `${certificates[0].documentName} Certificate`)
+  } catch (err) {
+    console.error("Error generating certificate:", err)
+    const message = err instanceof Error ? err.message : "Failed to generate certificate"
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
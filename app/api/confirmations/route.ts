@@ -0,0 +1,141 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { createServiceClient } from "@/lib/supabase/service"
+import { getVisitorIdForProfile, listVisitorAssignments } from "@/lib/db"
+import {
+  SIGNATURE_BUCKET,
+  decodeSignatureImage,
+  getClientIp,
+  isSignatureMethod,
+  signatureConsentText,
+  signatureImagePath,
+} from "@/lib/signatures"
+
+// Records the signed-in visitor's confirmation of the current version of a
+// document for an event they're assigned to, once per version, as long as
+// the document is linked to that event. Documents whose type requires
+// a signature must come with one, which is stored along with the consent
+// text. The confirmation is written with the service role, as only the
+// server may record the signature, IP address and user agent.
+export async function POST(request: NextRequest) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const body = await request.json().catch(() => ({}))
+  const { eventId, documentVersionId, signature } = body
+  if (typeof eventId !== "string" || !eventId || typeof documentVersionId !== "string" || !documentVersionId) {
+    return NextResponse.json({ error: "eventId and documentVersionId are required" }, { status: 400 })
+  }
+
+  const { visitorId } = await getVisitorIdForProfile(supabase, user.id)
+  if (!visitorId) {
+    return NextResponse.json({ error: "No visitor record for this account" }, { status: 404 })
+  }
+
+  const { rows: assignments, error: assignmentsError } = await listVisitorAssignments(supabase, visitorId)
+  if (assignmentsError) {
+    console.error("Error loading event assignments:", assignmentsError)
+    return NextResponse.json({ error: "Failed to record confirmation" }, { status: 500 })
+  }
+  if (!assignments.some((a) => a.event_id === eventId)) {
+    return NextResponse.json({ error: "You are not assigned to this event" }, { status: 403 })
+  }
+
+  const { data: version } = await supabase
+    .from("document_versions")
+    .select("id, document_id, version_number, is_current, document:documents(name, document_type:document_types(requires_signature))")
+    .eq("id", documentVersionId)
+    .maybeSingle()
+
+  if (!version?.document) {
+    return NextResponse.json({ error: "Document not found" }, { status: 404 })
+  }
+  if (!version.is_current) {
+    return NextResponse.json({ error: "A newer version of this document has been published" }, { status: 409 })
+  }
+
+  const service = createServiceClient()
+
+  const [link, existing] = await Promise.all([
+    service
+      .from("document_events")
+      .select("document_id")
+      .eq("document_id", version.document_id)
+      .eq("event_id", eventId)
+      .maybeSingle(),
+    service
+      .from("visitor_confirmations")
+      .select("id")
+      .eq("visitor_id", visitorId)
+      .eq("event_id", eventId)
+      .eq("document_version_id", version.id)
+      .limit(1),
+  ])
+
+  if (link.error || existing.error) {
+    console.error("Error checking confirmation:", link.error ?? existing.error)
+    return NextResponse.json({ error: "Failed to record confirmation" }, { status: 500 })
+  }
+  if (!link.data) {
+    return NextResponse.json({ error: "This document is not part of the event" }, { status: 404 })
+  }
+  if (existing.data.length > 0) {
+    return NextResponse.json({ error: "You have already confirmed this version" }, { status: 409 })
+  }
+
+  const signedAt = new Date()
+  const consentText = signatureConsentText(version.document.name, version.version_number)
+  const confirmation = {
+    visitor_id: visitorId,
+    event_id: eventId,
+    document_id: version.document_id,
+    document_version_id: version.id,
+    form_name: version.document.name,
+    signed_at: signedAt.toISOString(),
+    ip_address: getClientIp(request.headers),
+    user_agent: request.headers.get("user-agent"),
+  }
+
+  if (!version.document.document_type?.requires_signature) {
+    const { error } = await service.from("visitor_confirmations").insert(confirmation)
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+    return NextResponse.json({ confirmed: true })
+  }
+
+  const signerName = typeof signature?.name === "string" ? signature.name.trim() : ""
+  const image = decodeSignatureImage(signature?.image)
+  if (!isSignatureMethod(signature?.method) || !signerName || !image) {
+    return NextResponse.json({ error: "A signature with your full name is required" }, { status: 400 })
+  }
+
+  // The bucket is private and visitors can't write to it
+  const storage = service.storage.from(SIGNATURE_BUCKET)
+  const path = signatureImagePath(visitorId, version.id, signedAt)
+  const { error: uploadError } = await storage.upload(path, image, { contentType: "image/png" })
+
+  if (uploadError) {
+    console.error("Error storing signature:", uploadError)
+    return NextResponse.json({ error: "Failed to store signature" }, { status: 500 })
+  }
+
+  const { error } = await service.from("visitor_confirmations").insert({
+    ...confirmation,
+    signature_method: signature.method,
+    signer_name: signerName,
+    signature_path: path,
+    consent_text: consentText,
+  })
+
+  if (error) {
+    await storage.remove([path])
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ confirmed: true })
+}
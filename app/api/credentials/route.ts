@@ -0,0 +1,38 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { createServiceClient } from "@/lib/supabase/service"
+import { getCurrentCredential } from "@/lib/credentials/server"
+import { getVisitorIdForProfile } from "@/lib/db"
+
+// Returns the signed visitor's credential for an event, issuing it if
+// needed. Called by the home page once all documents are confirmed.
+export async function POST(request: NextRequest) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { eventId } = await request.json().catch(() => ({}))
+  if (typeof eventId !== "string" || !eventId) {
+    return NextResponse.json({ error: "eventId is required" }, { status: 400 })
+  }
+
+  const { visitorId } = await getVisitorIdForProfile(supabase, user.id)
+  if (!visitorId) {
+    return NextResponse.json({ error: "No visitor record for this account" }, { status: 404 })
+  }
+
+  try {
+    const token = await getCurrentCredential(createServiceClient(), visitorId, eventId)
+    if (!token) {
+      return NextResponse.json({ error: "All required documents must be confirmed first" }, { status: 409 })
+    }
+    return NextResponse.json({ token })
+  } catch (err) {
+    console.error("Error issuing credential:", err)
+    const message = err instanceof Error ? err.message : "Failed to issue credential"
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
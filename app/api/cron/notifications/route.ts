@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { createServiceClient } from "@/lib/supabase/service"
+import { getMailTransport } from "@/lib/mail"
+import { sendPendingNotifications } from "@/lib/notifications"
+
+// Invoked by Vercel Cron (see vercel.json) to email queued visitor
+// notifications such as waitlist promotions.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const result = await sendPendingNotifications(createServiceClient(), getMailTransport())
+    return NextResponse.json(result)
+  } catch (err) {
+    console.error("Error sending notifications:", err)
+    const message = err instanceof Error ? err.message : "Failed to send notifications"
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
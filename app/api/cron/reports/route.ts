@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { createServiceClient } from "@/lib/supabase/service"
+import { getMailTransport } from "@/lib/mail"
+import { runScheduledReports } from "@/lib/reports/scheduler"
+
+// Invoked daily by Vercel Cron (see vercel.json). Vercel sends
+// CRON_SECRET as a bearer token.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const result = await runScheduledReports(createServiceClient(), getMailTransport())
+    return NextResponse.json(result)
+  } catch (err) {
+    console.error("Error running scheduled reports:", err)
+    const message = err instanceof Error ? err.message : "Failed to run scheduled reports"
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
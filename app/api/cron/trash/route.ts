@@ -0,0 +1,25 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { createServiceClient } from "@/lib/supabase/service"
+import { getPurgeCutoff } from "@/lib/trash"
+
+// Invoked by Vercel Cron (see vercel.json) to permanently delete visitors,
+// events and organizations that have been in the trash past retention.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const { data, error } = await createServiceClient().rpc("purge_trash", {
+      p_before: getPurgeCutoff().toISOString(),
+    })
+    if (error) throw error
+
+    return NextResponse.json({ purged: data })
+  } catch (err) {
+    console.error("Error purging trash:", err)
+    const message = err instanceof Error ? err.message : "Failed to purge trash"
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { buildCalendar, eventEntry } from "@/lib/calendar/ics"
+import { calendarResponse } from "@/lib/calendar/response"
+
+// An event as an .ics file to add to a calendar. Read as the signed-in
+// user, so anyone who can see the event can download it.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await params
+
+  const { data: event, error } = await supabase
+    .from("events")
+    .select("id, name, description, location, start_date, end_date")
+    .eq("id", id)
+    .is("deleted_at", null)
+    .maybeSingle()
+
+  if (error) {
+    console.error(`Error loading event ${id} for calendar:`, error)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+  if (!event) {
+    return NextResponse.json({ error: "Event not found" }, { status: 404 })
+  }
+
+  const entry = eventEntry(event, { url: `${request.nextUrl.origin}/?event=${event.id}` })
+  if (!entry) {
+    return NextResponse.json({ error: "This event has no dates yet" }, { status: 409 })
+  }
+
+  return calendarResponse(buildCalendar({ name: event.name, entries: [entry] }), event.name)
+}
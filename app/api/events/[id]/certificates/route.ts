@@ -0,0 +1,31 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { getAdminContext } from "@/lib/auth"
+import { createServiceClient } from "@/lib/supabase/service"
+import { loadCertificates } from "@/lib/certificates/server"
+import { certificateResponse } from "@/lib/certificates/response"
+
+// Every certificate of acknowledgement for an event in one PDF, a page per
+// confirmation, for liability records.
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const admin = await getAdminContext("reports")
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+  }
+
+  const { id } = await params
+
+  try {
+    const certificates = await loadCertificates(createServiceClient(), { eventId: id })
+    if (certificates.length === 0) {
+      return NextResponse.json({ error: "No documents have been confirmed for this event" }, { status: 404 })
+    }
+    return certificateResponse(certificates, `${certificates[0].eventName} Certificates`)
+  } catch (err) {
+    console.error(`Error generating certificates for event ${id}:`, err)
+    const message = err instanceof Error ? err.message : "Failed to generate certificates"
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
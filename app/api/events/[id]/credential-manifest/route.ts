@@ -0,0 +1,37 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { getAdminContext } from "@/lib/auth"
+import { getAdmittedVisitorIds, getRequiredDocumentVersions, getVerifyJwk } from "@/lib/credentials/server"
+import { createServiceClient } from "@/lib/supabase/service"
+
+// Everything a gate device needs to verify credentials offline: the public
+// key, the current version of each required document and the visitors
+// whose credentials still admit them.
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const admin = await getAdminContext("events")
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+  }
+
+  const { id } = await params
+
+  try {
+    const [documents, admitted] = await Promise.all([
+      getRequiredDocumentVersions(admin.supabase, id),
+      getAdmittedVisitorIds(createServiceClient(), id),
+    ])
+    return NextResponse.json({
+      eventId: id,
+      publicKey: getVerifyJwk(),
+      documents,
+      admitted,
+      generatedAt: new Date().toISOString(),
+    })
+  } catch (err) {
+    console.error(`Error building credential manifest for event ${id}:`, err)
+    const message = err instanceof Error ? err.message : "Failed to load credential manifest"
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
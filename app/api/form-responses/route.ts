@@ -0,0 +1,89 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { createServiceClient } from "@/lib/supabase/service"
+import { getVisitorIdForProfile, listVisitorAssignments } from "@/lib/db"
+import { cleanAnswers, isOwnUpload, parseFormAnswers, parseFormFields, validateAnswers, visibleFields } from "@/lib/forms"
+
+// Saves the signed-in visitor's answers to a form assigned to an event
+// they're assigned to. The answers are checked against the form's fields
+// here, not just in the browser, and written with the service role, as
+// visitors can't write responses themselves.
+export async function POST(request: NextRequest) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const body = await request.json().catch(() => ({}))
+  const { formId, eventId } = body
+  if (typeof formId !== "string" || !formId || typeof eventId !== "string" || !eventId) {
+    return NextResponse.json({ error: "formId and eventId are required" }, { status: 400 })
+  }
+
+  const { visitorId } = await getVisitorIdForProfile(supabase, user.id)
+  if (!visitorId) {
+    return NextResponse.json({ error: "No visitor record for this account" }, { status: 404 })
+  }
+
+  const { rows: assignments, error: assignmentsError } = await listVisitorAssignments(supabase, visitorId)
+  if (assignmentsError) {
+    console.error("Error loading event assignments:", assignmentsError)
+    return NextResponse.json({ error: "Failed to save answers" }, { status: 500 })
+  }
+  if (!assignments.some((a) => a.event_id === eventId)) {
+    return NextResponse.json({ error: "You are not assigned to this event" }, { status: 403 })
+  }
+
+  const service = createServiceClient()
+
+  const { data: assigned, error: formError } = await service
+    .from("form_events")
+    .select("form:forms!inner(fields)")
+    .eq("form_id", formId)
+    .eq("event_id", eventId)
+    .maybeSingle()
+
+  if (formError) {
+    console.error("Error loading form:", formError)
+    return NextResponse.json({ error: "Failed to save answers" }, { status: 500 })
+  }
+  if (!assigned) {
+    return NextResponse.json({ error: "This form is not part of the event" }, { status: 404 })
+  }
+
+  const fields = parseFormFields(assigned.form.fields)
+  const answers = parseFormAnswers(body.answers)
+  const errors = validateAnswers(fields, answers)
+
+  // Files must be the visitor's own uploads for this form
+  visibleFields(fields, answers).forEach((field) => {
+    const value = answers[field.id]
+    if (field.type === "file" && typeof value === "string" && !isOwnUpload(value, visitorId, formId)) {
+      errors[field.id] = "Upload a file."
+    }
+  })
+
+  if (Object.keys(errors).length > 0) {
+    return NextResponse.json({ error: "Some answers need fixing", errors }, { status: 400 })
+  }
+
+  const { error } = await service.from("form_responses").upsert(
+    {
+      form_id: formId,
+      event_id: eventId,
+      visitor_id: visitorId,
+      answers: cleanAnswers(fields, answers),
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "form_id,event_id,visitor_id" }
+  )
+
+  if (error) {
+    console.error("Error saving form response:", error)
+    return NextResponse.json({ error: "Failed to save answers" }, { status: 500 })
+  }
+
+  return NextResponse.json({ saved: true })
+}
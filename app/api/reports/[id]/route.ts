@@ -0,0 +1,30 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { getAdminContext } from "@/lib/auth"
+import { getReport } from "@/lib/reports/registry"
+import { parseReportOptions, runReport } from "@/lib/reports/engine"
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const admin = await getAdminContext("reports")
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+  }
+
+  const { id } = await params
+  const definition = getReport(id)
+  if (!definition) {
+    return NextResponse.json({ error: `Unknown report "${id}"` }, { status: 404 })
+  }
+
+  try {
+    const options = parseReportOptions(request.nextUrl.searchParams, definition)
+    const result = await runReport(admin.supabase, definition, options)
+    return NextResponse.json(result)
+  } catch (err) {
+    console.error(`Error running report ${id}:`, err)
+    const message = err instanceof Error ? err.message : "Failed to run report"
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
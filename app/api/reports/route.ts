@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server"
+import { getAdminContext } from "@/lib/auth"
+import { listReports } from "@/lib/reports/registry"
+
+export async function GET() {
+  const admin = await getAdminContext("reports")
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+  }
+
+  return NextResponse.json({ reports: listReports() })
+}
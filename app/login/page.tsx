@@ -8,6 +8,7 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { getHomePath, isStaffRole } from "@/lib/roles"
 
 export default function LoginPage() {
   const [email, setEmail] = useState("")
@@ -31,17 +32,19 @@ export default function LoginPage() {
       setError(error.message)
       setLoading(false)
     } else {
-      // Check if user is an admin
+      // Send staff to the first admin area their role can use
       const { data: profile } = await supabase
         .from("profiles")
         .select("security_group")
         .eq("id", data.user.id)
         .single()
 
-      if (profile?.security_group === "admin") {
-        router.push("/admin")
+      if (isStaffRole(profile?.security_group)) {
+        router.push(getHomePath(profile.security_group))
       } else {
-        router.push("/")
+        // Organization contacts go to their portal
+        const { data: companyId } = await supabase.rpc("contact_company_id")
+        router.push(companyId ? "/portal" : "/")
       }
       router.refresh()
     }
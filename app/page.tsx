@@ -1,23 +1,25 @@
 import { createClient } from "@/lib/supabase/server"
+import { createServiceClient } from "@/lib/supabase/service"
+import { getCurrentCredential } from "@/lib/credentials/server"
+import { countOpenRequiredForms, getVisitorIdForProfile } from "@/lib/db"
+import { isRsvpStatus } from "@/lib/rsvp"
+import { countOutstanding, selectVisit, type DocumentProgress, type UpcomingVisit } from "@/lib/visits"
 import { Header } from "@/components/landing/header"
 import { Hero } from "@/components/landing/hero"
 import { Features } from "@/components/landing/features"
 import { Pricing } from "@/components/landing/pricing"
 import { Footer } from "@/components/landing/footer"
 
-interface UpcomingEvent {
-  id: string
-  start_date: string
-  end_date: string
-}
-
-export default async function Home() {
+export default async function Home({ searchParams }: { searchParams: Promise<{ event?: string }> }) {
+  const { event: requestedEventId } = await searchParams
   const supabase = await createClient()
   const { data: { user } } = await supabase.auth.getUser()
 
   let firstName: string | null = null
-  let upcomingEvent: UpcomingEvent | null = null
+  let visits: UpcomingVisit[] = []
+  let selectedVisit: UpcomingVisit | null = null
   let visitorId: string | null = null
+  let credential: string | null = null
 
   if (user) {
     // Get user's profile for first name
@@ -30,34 +32,61 @@ export default async function Home() {
     firstName = profile?.first_name || null
 
     // Get visitor record linked to this profile
-    const { data: visitor } = await supabase
-      .from("visitors")
-      .select("id")
-      .eq("profile_id", user.id)
-      .single()
-
-    if (visitor) {
-      visitorId = visitor.id
+    visitorId = (await getVisitorIdForProfile(supabase, user.id)).visitorId
 
-      // Get the next upcoming event for this visitor
+    if (visitorId) {
+      // Every event this visitor is assigned to that hasn't finished yet,
+      // soonest first
       const today = new Date().toISOString().split("T")[0]
-      const { data: eventVisitor } = await supabase
+      const { data: assignments } = await supabase
         .from("event_visitors")
         .select(`
-          event:events (
+          rsvp_status,
+          event:events!inner (
             id,
+            name,
             start_date,
             end_date
           )
         `)
-        .eq("visitor_id", visitor.id)
-        .gte("event.start_date", today)
+        .eq("visitor_id", visitorId)
+        .is("event.deleted_at", null)
+        .gte("event.end_date", today)
         .order("event(start_date)", { ascending: true })
-        .limit(1)
-        .single()
 
-      if (eventVisitor?.event) {
-        upcomingEvent = eventVisitor.event as unknown as UpcomingEvent
+      const eventIds = (assignments || []).map((a) => a.event.id)
+      const { data: progress } = await supabase
+        .from("event_visitor_document_status")
+        .select("event_id, required_docs, confirmed_docs")
+        .eq("visitor_id", visitorId)
+        .in("event_id", eventIds)
+
+      const progressByEvent = new Map(
+        (progress || []).map((p) => [p.event_id, p as DocumentProgress])
+      )
+      const { counts: openForms } = await countOpenRequiredForms(supabase, visitorId, eventIds)
+
+      visits = (assignments || []).flatMap(({ rsvp_status, event }) =>
+        isRsvpStatus(rsvp_status) && event.start_date && event.end_date
+          ? [{
+              eventId: event.id,
+              name: event.name,
+              startDate: event.start_date,
+              endDate: event.end_date,
+              rsvpStatus: rsvp_status,
+              outstanding: countOutstanding(rsvp_status, progressByEvent.get(event.id), openForms.get(event.id)),
+            }]
+          : []
+      )
+      selectedVisit = selectVisit(visits, requestedEventId)
+
+      if (selectedVisit) {
+        // Gate pass for confirmed visitors
+        try {
+          credential = await getCurrentCredential(createServiceClient(), visitorId, selectedVisit.eventId)
+        } catch (err) {
+          console.error("Error loading credential:", err)
+        }
       }
     }
   }
@@ -76,11 +105,19 @@ export default async function Home() {
           <Hero
             isAuthenticated={!!user}
             firstName={firstName}
-            upcomingEvent={upcomingEvent}
+            visits={visits}
+            selectedVisit={selectedVisit}
+            visitorId={visitorId}
           />
           {user && (
             <>
-              <Features eventId={upcomingEvent?.id || null} visitorId={visitorId} />
+              {/* Keyed so switching events starts from a clean slate */}
+              <Features
+                key={selectedVisit?.eventId ?? "none"}
+                eventId={selectedVisit?.eventId || null}
+                visitorId={visitorId}
+                initialCredential={credential}
+              />
               <Pricing />
             </>
           )}
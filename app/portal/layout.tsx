@@ -0,0 +1,35 @@
+import { redirect } from "next/navigation"
+import { createClient } from "@/lib/supabase/server"
+import { Header } from "@/components/landing/header"
+import { Footer } from "@/components/landing/footer"
+
+export default async function PortalLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    redirect("/login")
+  }
+
+  // Only an organization's main contact has a portal
+  const { data: companyId } = await supabase.rpc("contact_company_id")
+  if (!companyId) {
+    redirect("/")
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col">
+      <Header initialUser={user} />
+      <main id="main-content" className="flex-1 bg-background p-6">
+        <div className="mx-auto max-w-7xl">
+          {children}
+        </div>
+      </main>
+      <Footer isAuthenticated />
+    </div>
+  )
+}
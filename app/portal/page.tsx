@@ -0,0 +1,73 @@
+import { redirect } from "next/navigation"
+import { createClient } from "@/lib/supabase/server"
+import { getRequiredDocumentVersions } from "@/lib/credentials/server"
+import { getDocumentStatus, type PortalData, type PortalEvent } from "@/lib/portal"
+import { isRsvpStatus, type RsvpStatus } from "@/lib/rsvp"
+import { OrganizationPortal } from "@/components/portal/organization-portal"
+
+export default async function PortalPage() {
+  const supabase = await createClient()
+  const { data: companyId } = await supabase.rpc("contact_company_id")
+  if (!companyId) {
+    redirect("/")
+  }
+
+  const { data: organization } = await supabase
+    .from("companies")
+    .select("id, name")
+    .eq("id", companyId)
+    .single()
+
+  const { data: eventsData } = await supabase
+    .from("events")
+    .select("id, name, start_date, end_date, location")
+    .eq("sponsor_company_id", companyId)
+    .is("deleted_at", null)
+    .order("start_date", { ascending: true })
+
+  const events: PortalEvent[] = eventsData || []
+  const eventIds = new Set(events.map((e) => e.id))
+
+  const { data: visitorsData } = await supabase
+    .from("visitors")
+    .select("id, first_name, last_name, email, phone, event_visitors(event_id, rsvp_status)")
+    .eq("company_id", companyId)
+    .is("deleted_at", null)
+    .order("last_name", { ascending: true })
+    .order("first_name", { ascending: true })
+
+  const { data: confirmations } = await supabase
+    .from("visitor_confirmations")
+    .select("visitor_id, event_id, document_id, document_version_id")
+    .in("visitor_id", (visitorsData || []).map((v) => v.id))
+
+  // Required documents can only be looked up for the events the
+  // organization sponsors, so assignments elsewhere aren't shown
+  const requiredByEvent = new Map(
+    await Promise.all(events.map(async (e) => [e.id, await getRequiredDocumentVersions(supabase, e.id)] as const))
+  )
+
+  const data: PortalData = {
+    organization: organization || { id: companyId, name: "" },
+    events,
+    visitors: (visitorsData || []).map((v) => ({
+      id: v.id,
+      first_name: v.first_name,
+      last_name: v.last_name,
+      email: v.email,
+      phone: v.phone,
+      assignments: (v.event_visitors || [])
+        .filter((ev) => eventIds.has(ev.event_id) && isRsvpStatus(ev.rsvp_status))
+        .map((ev) => ({
+          event_id: ev.event_id,
+          rsvp_status: ev.rsvp_status as RsvpStatus,
+          documents: getDocumentStatus(
+            requiredByEvent.get(ev.event_id) || {},
+            (confirmations || []).filter((c) => c.visitor_id === v.id && c.event_id === ev.event_id)
+          ),
+        })),
+    })),
+  }
+
+  return <OrganizationPortal data={data} />
+}
@@ -4,6 +4,7 @@ import { useEffect, useState } from "react"
 import { useRouter } from "next/navigation"
 import Link from "next/link"
 import { createClient } from "@/lib/supabase/client"
+import type { Profile } from "@/lib/db"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
@@ -12,13 +13,6 @@ import { Header } from "@/components/landing/header"
 import { Footer } from "@/components/landing/footer"
 import type { User } from "@supabase/supabase-js"
 
-interface Profile {
-  id: string
-  first_name: string | null
-  last_name: string | null
-  account_type: string
-}
-
 export default function ProfilePage() {
   const [user, setUser] = useState<User | null>(null)
   const [profile, setProfile] = useState<Profile | null>(null)
@@ -72,6 +66,7 @@ export default function ProfilePage() {
 
   const handleSave = async (e: React.FormEvent) => {
     e.preventDefault()
+    if (!user) return
     setSaving(true)
     setMessage(null)
 
@@ -82,7 +77,7 @@ export default function ProfilePage() {
         last_name: lastName,
         updated_at: new Date().toISOString(),
       })
-      .eq("id", user?.id)
+      .eq("id", user.id)
 
     if (error) {
       setMessage({ type: "error", text: error.message })
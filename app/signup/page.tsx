@@ -36,11 +36,15 @@ export default function SignupPage() {
       return
     }
 
-    // Check if email exists in visitors table using secure function
+    // Check if email belongs to a visitor or an organization's main
+    // contact using secure functions
     const { data: emailExists } = await supabase
       .rpc("check_visitor_email_exists", { email_to_check: email })
+    const { data: contactExists } = emailExists
+      ? { data: false }
+      : await supabase.rpc("check_organization_contact_email_exists", { email_to_check: email })
 
-    if (!emailExists) {
+    if (!emailExists && !contactExists) {
       setError("Your information does not exist as a guest at West Creek Ranch.")
       setLoading(false)
       return
@@ -0,0 +1,189 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { ArrowDown, ArrowUp, ChevronLeft, ChevronRight } from "lucide-react"
+import {
+  DEFAULT_PAGE_SIZE,
+  PAGE_SIZE_OPTIONS,
+  getPageCount,
+  toggleSort,
+  type SortRule,
+  type TableQuery,
+} from "@/lib/data-table"
+
+export interface DataTableColumn<T> {
+  key: string
+  header: React.ReactNode
+  /** View column to sort by; leave out for columns that can't be sorted */
+  sortColumn?: string
+  align?: "left" | "center" | "right"
+  className?: string
+  render: (row: T) => React.ReactNode
+}
+
+interface DataTableProps<T extends { id: string }> {
+  columns: DataTableColumn<T>[]
+  rows: T[]
+  total: number
+  loading: boolean
+  query: TableQuery
+  onQueryChange: (query: TableQuery) => void
+  /** Singular and plural, e.g. ["visitor", "visitors"] */
+  noun: [string, string]
+  emptyMessage: string
+}
+
+const alignClass = { left: "text-left", center: "text-center", right: "text-right" }
+
+/**
+ * Query state for a DataTable. Search input is debounced so each keystroke
+ * doesn't hit the server, and any change of search goes back to page 1.
+ */
+export function useTableQuery(initialSort: SortRule[]) {
+  const [query, setQuery] = useState<TableQuery>({
+    page: 1,
+    pageSize: DEFAULT_PAGE_SIZE,
+    sort: initialSort,
+    search: "",
+  })
+  const [searchInput, setSearchInput] = useState("")
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const search = searchInput.trim()
+      setQuery((prev) => (prev.search === search ? prev : { ...prev, search, page: 1 }))
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [searchInput])
+
+  return { query, setQuery, searchInput, setSearchInput }
+}
+
+// A page of rows from the server with sortable headers and paging. Click a
+// header to sort by it; shift-click to add it as a further sort.
+export function DataTable<T extends { id: string }>({
+  columns,
+  rows,
+  total,
+  loading,
+  query,
+  onQueryChange,
+  noun,
+  emptyMessage,
+}: DataTableProps<T>) {
+  const pageCount = getPageCount(total, query.pageSize)
+  // Deleting the last rows of the last page leaves it empty
+  const pageEmptied = !loading && rows.length === 0 && query.page > 1
+
+  useEffect(() => {
+    if (pageEmptied) onQueryChange({ ...query, page: 1 })
+  }, [pageEmptied, query, onQueryChange])
+
+  if ((loading || pageEmptied) && rows.length === 0) {
+    return <p className="text-muted-foreground">Loading {noun[1]}...</p>
+  }
+
+  if (total === 0) {
+    return <div className="text-center py-12 text-muted-foreground">{emptyMessage}</div>
+  }
+
+  const handleSort = (column: string, add: boolean) => {
+    onQueryChange({ ...query, sort: toggleSort(query.sort, column, add), page: 1 })
+  }
+
+  return (
+    <>
+      <div className={`overflow-x-auto rounded-lg border ${loading ? "opacity-60" : ""}`}>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b bg-muted/50">
+              {columns.map((column) => {
+                const ruleIndex = query.sort.findIndex((rule) => rule.column === column.sortColumn)
+                const rule = ruleIndex >= 0 ? query.sort[ruleIndex] : null
+                const align = column.align || "left"
+                return (
+                  <th
+                    key={column.key}
+                    className={`px-4 py-3 font-medium ${alignClass[align]} ${column.className || ""}`}
+                    aria-sort={rule ? (rule.ascending ? "ascending" : "descending") : undefined}
+                  >
+                    {column.sortColumn ? (
+                      <button
+                        type="button"
+                        onClick={(e) => handleSort(column.sortColumn!, e.shiftKey)}
+                        className="inline-flex items-center gap-1 hover:text-foreground"
+                        title="Sort. Shift-click to sort by more than one column."
+                      >
+                        {column.header}
+                        {rule && (rule.ascending ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />)}
+                        {rule && query.sort.length > 1 && (
+                          <span className="text-xs text-muted-foreground">{ruleIndex + 1}</span>
+                        )}
+                      </button>
+                    ) : (
+                      column.header
+                    )}
+                  </th>
+                )
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.id} className="border-b last:border-0 hover:bg-muted/30">
+                {columns.map((column) => (
+                  <td
+                    key={column.key}
+                    className={`px-4 py-3 ${alignClass[column.align || "left"]} ${column.className || ""}`}
+                  >
+                    {column.render(row)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Pagination */}
+      <div className="flex items-center justify-between mt-4 text-sm text-muted-foreground">
+        <span>
+          {total} {total === 1 ? noun[0] : noun[1]} • Page {query.page} of {pageCount}
+        </span>
+        <div className="flex items-center gap-2">
+          <select
+            aria-label="Rows per page"
+            className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+            value={query.pageSize}
+            onChange={(e) => onQueryChange({ ...query, pageSize: Number(e.target.value), page: 1 })}
+          >
+            {PAGE_SIZE_OPTIONS.map((size) => (
+              <option key={size} value={size}>
+                {size} per page
+              </option>
+            ))}
+          </select>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onQueryChange({ ...query, page: query.page - 1 })}
+            disabled={loading || query.page <= 1}
+          >
+            <ChevronLeft className="h-4 w-4" />
+            Previous
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onQueryChange({ ...query, page: query.page + 1 })}
+            disabled={loading || query.page >= pageCount}
+          >
+            Next
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </>
+  )
+}
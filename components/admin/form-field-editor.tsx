@@ -0,0 +1,285 @@
+"use client"
+
+import { FIELD_TYPES, FIELD_TYPE_LABELS, type FieldType, type FormField } from "@/lib/forms"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { ArrowUp, ArrowDown, Trash2 } from "lucide-react"
+
+interface FormFieldEditorProps {
+  field: FormField
+  index: number
+  /** Every field of the form, for conditions on earlier questions */
+  fields: FormField[]
+  onChange: (field: FormField) => void
+  onMove: (offset: -1 | 1) => void
+  onRemove: () => void
+}
+
+const selectClassName =
+  "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+
+const checkboxClassName = "h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+
+// Only answers that can be matched exactly make sense as conditions
+const CONDITION_SOURCE_TYPES: FieldType[] = ["text", "choice", "yes_no"]
+
+const toNumber = (value: string) => (value ? Number(value) : undefined)
+
+// One question in the form builder. Options and extensions are kept as
+// typed and tidied by normalizeFields when the form is saved.
+export function FormFieldEditor({ field, index, fields, onChange, onMove, onRemove }: FormFieldEditorProps) {
+  const set = (changes: Partial<FormField>) => onChange({ ...field, ...changes })
+  const prefix = `field-${field.id}`
+
+  const conditionSources = fields
+    .slice(0, index)
+    .filter((f) => CONDITION_SOURCE_TYPES.includes(f.type))
+  const conditionSource = fields.find((f) => f.id === field.showIf?.fieldId)
+
+  return (
+    <div className="rounded-lg border p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-muted-foreground">Question {index + 1}</span>
+        <div className="space-x-1">
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => onMove(-1)}
+            disabled={index === 0}
+            title="Move Up"
+          >
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => onMove(1)}
+            disabled={index === fields.length - 1}
+            title="Move Down"
+          >
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={onRemove} title="Remove Question">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="space-y-2 sm:col-span-2">
+          <Label htmlFor={`${prefix}-label`}>
+            Question <span className="text-destructive">*</span>
+          </Label>
+          <Input
+            id={`${prefix}-label`}
+            value={field.label}
+            onChange={(e) => set({ label: e.target.value })}
+            placeholder="e.g., Which airport are you flying into?"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${prefix}-type`}>Type</Label>
+          <select
+            id={`${prefix}-type`}
+            className={selectClassName}
+            value={field.type}
+            onChange={(e) => {
+              const type = e.target.value as FieldType
+              set({ type, options: type === "choice" ? field.options ?? [] : field.options })
+            }}
+          >
+            {FIELD_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {FIELD_TYPE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${prefix}-help`}>Help text</Label>
+        <Input
+          id={`${prefix}-help`}
+          value={field.helpText ?? ""}
+          onChange={(e) => set({ helpText: e.target.value })}
+          placeholder="Shown under the question"
+        />
+      </div>
+
+      {field.type === "text" && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+          <label className="flex items-center gap-2 text-sm cursor-pointer h-10">
+            <input
+              type="checkbox"
+              checked={!!field.multiline}
+              onChange={(e) => set({ multiline: e.target.checked })}
+              className={checkboxClassName}
+            />
+            Long answer
+          </label>
+          <div className="space-y-2">
+            <Label htmlFor={`${prefix}-min-length`}>Minimum characters</Label>
+            <Input
+              id={`${prefix}-min-length`}
+              type="number"
+              min={1}
+              value={field.minLength ?? ""}
+              onChange={(e) => set({ minLength: toNumber(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${prefix}-max-length`}>Maximum characters</Label>
+            <Input
+              id={`${prefix}-max-length`}
+              type="number"
+              min={1}
+              value={field.maxLength ?? ""}
+              onChange={(e) => set({ maxLength: toNumber(e.target.value) })}
+            />
+          </div>
+        </div>
+      )}
+
+      {field.type === "choice" && (
+        <div className="space-y-2">
+          <Label htmlFor={`${prefix}-options`}>
+            Options, one per line <span className="text-destructive">*</span>
+          </Label>
+          <Textarea
+            id={`${prefix}-options`}
+            value={(field.options ?? []).join("\n")}
+            onChange={(e) => set({ options: e.target.value.split("\n") })}
+            placeholder={"Small\nMedium\nLarge"}
+            rows={4}
+          />
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!!field.multiple}
+              onChange={(e) => set({ multiple: e.target.checked })}
+              className={checkboxClassName}
+            />
+            Visitors can choose more than one
+          </label>
+        </div>
+      )}
+
+      {field.type === "date" && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor={`${prefix}-min-date`}>Earliest date</Label>
+            <Input
+              id={`${prefix}-min-date`}
+              type="date"
+              value={field.minDate ?? ""}
+              onChange={(e) => set({ minDate: e.target.value || undefined })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${prefix}-max-date`}>Latest date</Label>
+            <Input
+              id={`${prefix}-max-date`}
+              type="date"
+              value={field.maxDate ?? ""}
+              onChange={(e) => set({ maxDate: e.target.value || undefined })}
+            />
+          </div>
+        </div>
+      )}
+
+      {field.type === "file" && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor={`${prefix}-accept`}>Allowed file types</Label>
+            <Input
+              id={`${prefix}-accept`}
+              value={(field.accept ?? []).join(", ")}
+              onChange={(e) => set({ accept: e.target.value.split(",").map((ext) => ext.trim()) })}
+              placeholder="e.g., .pdf, .jpg (any when empty)"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${prefix}-max-size`}>Maximum size (MB)</Label>
+            <Input
+              id={`${prefix}-max-size`}
+              type="number"
+              min={1}
+              value={field.maxSizeMb ?? ""}
+              onChange={(e) => set({ maxSizeMb: toNumber(e.target.value) })}
+              placeholder="10"
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+        <label className="flex items-center gap-2 text-sm cursor-pointer h-10">
+          <input
+            type="checkbox"
+            checked={field.required}
+            onChange={(e) => set({ required: e.target.checked })}
+            className={checkboxClassName}
+          />
+          Required
+        </label>
+        <div className="space-y-2">
+          <Label htmlFor={`${prefix}-condition`}>Show only when</Label>
+          <select
+            id={`${prefix}-condition`}
+            className={selectClassName}
+            value={field.showIf?.fieldId ?? ""}
+            onChange={(e) => set({ showIf: e.target.value ? { fieldId: e.target.value, value: "" } : undefined })}
+            disabled={conditionSources.length === 0 && !field.showIf}
+          >
+            <option value="">Always shown</option>
+            {conditionSources.map((source) => (
+              <option key={source.id} value={source.id}>
+                {source.label || `Question ${fields.indexOf(source) + 1}`}
+              </option>
+            ))}
+          </select>
+        </div>
+        {field.showIf && (
+          <div className="space-y-2">
+            <Label htmlFor={`${prefix}-condition-value`}>is answered</Label>
+            {conditionSource?.type === "choice" || conditionSource?.type === "yes_no" ? (
+              <select
+                id={`${prefix}-condition-value`}
+                className={selectClassName}
+                value={field.showIf.value}
+                onChange={(e) => set({ showIf: { fieldId: field.showIf!.fieldId, value: e.target.value } })}
+              >
+                <option value="">Choose an answer</option>
+                {(conditionSource.type === "yes_no"
+                  ? [{ value: "yes", label: "Yes" }, { value: "no", label: "No" }]
+                  : (conditionSource.options ?? [])
+                      .map((option) => option.trim())
+                      .filter(Boolean)
+                      .map((option) => ({ value: option, label: option }))
+                ).map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <Input
+                id={`${prefix}-condition-value`}
+                value={field.showIf.value}
+                onChange={(e) => set({ showIf: { fieldId: field.showIf!.fieldId, value: e.target.value } })}
+                placeholder="Answer to match"
+              />
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,19 @@
+"use client"
+
+import { createContext, useContext } from "react"
+import { canAccess, type AccessLevel, type AdminArea, type StaffRole } from "@/lib/roles"
+
+const StaffRoleContext = createContext<StaffRole | null>(null)
+
+export function StaffRoleProvider({ role, children }: { role: StaffRole; children: React.ReactNode }) {
+  return <StaffRoleContext.Provider value={role}>{children}</StaffRoleContext.Provider>
+}
+
+/** The signed-in staff member's role, for hiding actions they can't take */
+export function useStaffRole() {
+  const role = useContext(StaffRoleContext)
+  return {
+    role,
+    can: (area: AdminArea, level: AccessLevel = "read") => canAccess(role, area, level),
+  }
+}
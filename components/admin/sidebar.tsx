@@ -4,8 +4,9 @@ import Link from "next/link"
 import { usePathname } from "next/navigation"
 import { useState } from "react"
 import { cn } from "@/lib/utils"
+import { canAccess, getAreaForPath, type StaffRole } from "@/lib/roles"
 import { Button } from "@/components/ui/button"
-import { CalendarDays, Building2, Users, BarChart3, FileText, FileCog, PanelLeftClose, PanelLeft, ChevronDown, ChevronRight, ClipboardList } from "lucide-react"
+import { CalendarDays, Building2, Users, BarChart3, FileText, FileCog, PanelLeftClose, PanelLeft, ChevronDown, ChevronRight, ClipboardList, ListChecks, ScrollText } from "lucide-react"
 
 type NavItem = {
   label: string
@@ -47,7 +48,7 @@ const navItems: NavItem[] = [
       },
     ],
   },
-  // Section 3: Documents
+  // Section 3: Documents & Forms
   {
     label: "Documents",
     href: "/admin/documents",
@@ -58,10 +59,48 @@ const navItems: NavItem[] = [
     href: "/admin/document-types",
     icon: FileCog,
   },
+  {
+    label: "Forms",
+    href: "/admin/forms",
+    icon: ListChecks,
+    sectionEnd: true,
+  },
+  // Section 4: Audit
+  {
+    label: "Audit Log",
+    href: "/admin/audit",
+    icon: ScrollText,
+  },
 ]
 
-export function AdminSidebar() {
+// Only the areas the role can use, keeping section breaks between the
+// sections that remain
+function getVisibleNavItems(role: StaffRole): NavItem[] {
+  const allowed = (item: NavItem) => {
+    const area = getAreaForPath(item.href)
+    return area !== null && canAccess(role, area)
+  }
+
+  const visible: NavItem[] = []
+  navItems.forEach((item, index) => {
+    const sectionEndsHere = item.sectionEnd || index === navItems.length - 1
+    if (allowed(item)) {
+      visible.push({ ...item, children: item.children?.filter(allowed) })
+    }
+    if (sectionEndsHere && visible.length > 0) {
+      visible[visible.length - 1] = { ...visible[visible.length - 1], sectionEnd: true }
+    }
+  })
+
+  if (visible.length > 0) {
+    visible[visible.length - 1] = { ...visible[visible.length - 1], sectionEnd: false }
+  }
+  return visible
+}
+
+export function AdminSidebar({ role }: { role: StaffRole }) {
   const pathname = usePathname()
+  const visibleNavItems = getVisibleNavItems(role)
   const [collapsed, setCollapsed] = useState(false)
   const [expandedItems, setExpandedItems] = useState<Set<string>>(new Set(["/admin/dashboard"]))
 
@@ -175,7 +214,7 @@ export function AdminSidebar() {
         </Button>
       </div>
       <nav className="flex-1 p-2">
-        {navItems.map((item) => renderNavItem(item))}
+        {visibleNavItems.map((item) => renderNavItem(item))}
       </nav>
     </aside>
   )
@@ -0,0 +1,307 @@
+"use client"
+
+import { useEffect, useState, useCallback } from "react"
+import Link from "next/link"
+import { createClient } from "@/lib/supabase/client"
+import type { DbClient } from "@/lib/db"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ArrowLeft, Search, X, Undo2, Loader2 } from "lucide-react"
+import { TRASH_RETENTION_DAYS, daysUntilPurge, restoreFromTrash, type TrashTable } from "@/lib/trash"
+
+interface TrashRow {
+  id: string
+  name: string
+  detail: string
+  deletedAt: string
+}
+
+const formatDate = (date: string | null) => {
+  if (!date) return "TBD"
+  return new Date(date + "T00:00:00").toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  })
+}
+
+const trashConfig: Record<TrashTable, {
+  title: string
+  noun: string
+  backHref: string
+  backLabel: string
+  /** Trashed records, most recently deleted first */
+  load: (supabase: DbClient) => Promise<{ rows: TrashRow[]; error: Error | null }>
+}> = {
+  visitors: {
+    title: "Visitors",
+    noun: "visitor",
+    backHref: "/admin/visitors",
+    backLabel: "Back to Visitors",
+    load: async (supabase) => {
+      const { data, error } = await supabase
+        .from("visitors")
+        .select("id, first_name, last_name, email, deleted_at, company:companies(name)")
+        .not("deleted_at", "is", null)
+        .order("deleted_at", { ascending: false })
+        .order("last_name")
+
+      const rows = (data || []).map((visitor) => ({
+        id: visitor.id,
+        deletedAt: visitor.deleted_at ?? "",
+        name: `${visitor.first_name} ${visitor.last_name}`,
+        detail: [visitor.email, visitor.company?.name].filter(Boolean).join(" • "),
+      }))
+      return { rows, error }
+    },
+  },
+  events: {
+    title: "Events",
+    noun: "event",
+    backHref: "/admin/events",
+    backLabel: "Back to Events",
+    load: async (supabase) => {
+      const { data, error } = await supabase
+        .from("events")
+        .select("id, name, start_date, end_date, location, deleted_at")
+        .not("deleted_at", "is", null)
+        .order("deleted_at", { ascending: false })
+        .order("start_date")
+
+      const rows = (data || []).map((event) => ({
+        id: event.id,
+        deletedAt: event.deleted_at ?? "",
+        name: event.name,
+        detail: `${formatDate(event.start_date)} - ${formatDate(event.end_date)}${event.location ? ` • ${event.location}` : ""}`,
+      }))
+      return { rows, error }
+    },
+  },
+  companies: {
+    title: "Organizations",
+    noun: "organization",
+    backHref: "/admin/organizations",
+    backLabel: "Back to Organizations",
+    load: async (supabase) => {
+      const { data, error } = await supabase
+        .from("companies")
+        .select("id, name, city, state_province, deleted_at")
+        .not("deleted_at", "is", null)
+        .order("deleted_at", { ascending: false })
+        .order("name")
+
+      const rows = (data || []).map((company) => ({
+        id: company.id,
+        deletedAt: company.deleted_at ?? "",
+        name: company.name,
+        detail: [company.city, company.state_province].filter(Boolean).join(", "),
+      }))
+      return { rows, error }
+    },
+  },
+}
+
+export function TrashView({ table }: { table: TrashTable }) {
+  const config = trashConfig[table]
+  const [rows, setRows] = useState<TrashRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [search, setSearch] = useState("")
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [restoring, setRestoring] = useState(false)
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+
+  const supabase = createClient()
+
+  const fetchTrash = useCallback(async () => {
+    const { rows, error } = await config.load(supabase)
+
+    if (error) {
+      setMessage({ type: "error", text: error.message })
+    } else {
+      setRows(rows)
+    }
+    setLoading(false)
+  }, [supabase, config])
+
+  useEffect(() => {
+    void fetchTrash() // eslint-disable-line react-hooks/set-state-in-effect
+  }, [fetchTrash])
+
+  const filteredRows = rows.filter((row) => {
+    const term = search.toLowerCase()
+    return row.name.toLowerCase().includes(term) || row.detail.toLowerCase().includes(term)
+  })
+
+  const toggleSelection = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  const toggleSelectAll = () => {
+    if (selectedIds.size === filteredRows.length) {
+      setSelectedIds(new Set())
+    } else {
+      setSelectedIds(new Set(filteredRows.map((row) => row.id)))
+    }
+  }
+
+  const handleRestore = async (ids: string[]) => {
+    if (ids.length === 0) return
+
+    setRestoring(true)
+    setMessage(null)
+
+    const { count, error } = await restoreFromTrash(supabase, table, ids)
+
+    if (error) {
+      setMessage({ type: "error", text: `Failed to restore: ${error.message}` })
+    } else {
+      setMessage({ type: "success", text: `Restored ${count} ${config.noun}${count !== 1 ? "s" : ""}` })
+      setSelectedIds(new Set())
+      fetchTrash()
+    }
+
+    setRestoring(false)
+  }
+
+  const formatDeletedAt = (timestamp: string) =>
+    new Date(timestamp).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    })
+
+  return (
+    <div>
+      <div className="mb-6">
+        <Link href={config.backHref} className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-2">
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          {config.backLabel}
+        </Link>
+        <h1 className="text-2xl font-bold">Trash: {config.title}</h1>
+        <p className="text-sm text-muted-foreground">
+          Deleted {config.noun}s are kept for {TRASH_RETENTION_DAYS} days and then permanently removed.
+        </p>
+      </div>
+
+      {message && (
+        <div
+          className={`rounded-md p-3 text-sm mb-4 ${
+            message.type === "success"
+              ? "bg-green-100 text-green-800"
+              : "bg-destructive/10 text-destructive"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between mb-4">
+        <div className="relative max-w-sm">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder={`Search deleted ${config.noun}s...`}
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-9 pr-9"
+          />
+          {search && (
+            <button
+              onClick={() => setSearch("")}
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+        {selectedIds.size > 0 && (
+          <Button
+            size="sm"
+            onClick={() => handleRestore(Array.from(selectedIds))}
+            disabled={restoring}
+          >
+            {restoring ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Undo2 className="mr-2 h-4 w-4" />
+            )}
+            Restore Selected ({selectedIds.size})
+          </Button>
+        )}
+      </div>
+
+      {loading ? (
+        <p className="text-muted-foreground">Loading trash...</p>
+      ) : filteredRows.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          {search ? `No deleted ${config.noun}s match your search.` : "The trash is empty."}
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b bg-muted/50">
+                <th className="px-4 py-3 text-center font-medium w-12">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.size === filteredRows.length && filteredRows.length > 0}
+                    onChange={toggleSelectAll}
+                    className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                  />
+                </th>
+                <th className="px-4 py-3 text-left font-medium">Name</th>
+                <th className="px-4 py-3 text-left font-medium">Details</th>
+                <th className="px-4 py-3 text-left font-medium">Deleted</th>
+                <th className="px-4 py-3 text-left font-medium">Purged In</th>
+                <th className="px-4 py-3 text-right font-medium">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filteredRows.map((row) => {
+                const daysLeft = daysUntilPurge(row.deletedAt)
+                return (
+                  <tr key={row.id} className="border-b last:border-0 hover:bg-muted/30">
+                    <td className="px-4 py-3 text-center">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(row.id)}
+                        onChange={() => toggleSelection(row.id)}
+                        className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                      />
+                    </td>
+                    <td className="px-4 py-3 font-medium">{row.name}</td>
+                    <td className="px-4 py-3">{row.detail || "—"}</td>
+                    <td className="px-4 py-3 whitespace-nowrap">{formatDeletedAt(row.deletedAt)}</td>
+                    <td className="px-4 py-3">
+                      {daysLeft === 0 ? "Next purge" : `${daysLeft} day${daysLeft !== 1 ? "s" : ""}`}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRestore([row.id])}
+                        disabled={restoring}
+                      >
+                        <Undo2 className="mr-2 h-4 w-4" />
+                        Restore
+                      </Button>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { createClient } from "@/lib/supabase/client"
+import { listEventSessions, type EventSession } from "@/lib/db"
+import { formatAgendaDay, formatSessionTimes, groupSessionsByDay } from "@/lib/agenda"
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Loader2, MapPin, User } from "lucide-react"
+
+interface AgendaItineraryProps {
+  eventId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/** The event's agenda, day by day, as the visitor's itinerary */
+export function AgendaItinerary({ eventId, open, onOpenChange }: AgendaItineraryProps) {
+  const [sessions, setSessions] = useState<EventSession[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const supabase = createClient()
+
+  const fetchSessions = useCallback(async () => {
+    setLoading(true)
+    const { rows, error } = await listEventSessions(supabase, eventId)
+    if (error) {
+      console.error("Error fetching agenda:", error)
+      setError("An error occurred while loading the agenda.")
+    } else {
+      setSessions(rows)
+      setError(null)
+    }
+    setLoading(false)
+  }, [supabase, eventId])
+
+  useEffect(() => {
+    if (open) void fetchSessions() // eslint-disable-line react-hooks/set-state-in-effect
+  }, [open, fetchSessions])
+
+  const days = groupSessionsByDay(sessions)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Schedule of Events</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-auto p-6 pt-4">
+          {loading ? (
+            <div className="flex items-center justify-center h-64">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              <span className="ml-2 text-muted-foreground">Loading agenda...</span>
+            </div>
+          ) : error || days.length === 0 ? (
+            <div className="flex items-center justify-center h-64">
+              <p className="text-muted-foreground">{error ?? "The agenda hasn't been published yet."}</p>
+            </div>
+          ) : (
+            <div className="space-y-8">
+              {days.map((day) => (
+                <section key={day.date}>
+                  <h3 className="text-lg font-semibold mb-3">{formatAgendaDay(day.date)}</h3>
+                  <ol className="space-y-4 border-l pl-4">
+                    {day.sessions.map((session) => (
+                      <li key={session.id}>
+                        <p className="text-sm font-medium text-primary">{formatSessionTimes(session)}</p>
+                        <p className="font-medium">{session.title}</p>
+                        {(session.location || session.host) && (
+                          <div className="mt-1 flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                            {session.location && (
+                              <span className="inline-flex items-center">
+                                <MapPin className="mr-1 h-3.5 w-3.5" />
+                                {session.location}
+                              </span>
+                            )}
+                            {session.host && (
+                              <span className="inline-flex items-center">
+                                <User className="mr-1 h-3.5 w-3.5" />
+                                {session.host}
+                              </span>
+                            )}
+                          </div>
+                        )}
+                        {session.description && (
+                          <p className="mt-1 text-sm text-muted-foreground">{session.description}</p>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                </section>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
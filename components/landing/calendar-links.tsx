@@ -0,0 +1,130 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { CalendarPlus, Rss, Copy, Check, Loader2 } from "lucide-react"
+
+interface CalendarLinksProps {
+  eventId: string
+}
+
+// "Add to calendar" for the visit on show, and a personal subscription feed
+// that keeps every visit and its agenda up to date in the visitor's
+// calendar app.
+export function CalendarLinks({ eventId }: CalendarLinksProps) {
+  const [feedOpen, setFeedOpen] = useState(false)
+  const [feedUrl, setFeedUrl] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [copied, setCopied] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchFeedUrl = async (reset = false) => {
+    setLoading(true)
+    setError(null)
+    setCopied(false)
+
+    try {
+      const response = await fetch("/api/calendar/feeds", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reset }),
+      })
+      const body = await response.json().catch(() => ({}))
+      if (response.ok) {
+        setFeedUrl(body.url)
+      } else {
+        setError(body.error || "Could not load your calendar link.")
+      }
+    } catch (err) {
+      console.error("Error fetching calendar feed:", err)
+      setError("Could not load your calendar link.")
+    }
+
+    setLoading(false)
+  }
+
+  const openFeed = () => {
+    setFeedOpen(true)
+    if (!feedUrl) fetchFeedUrl()
+  }
+
+  const copyFeedUrl = async () => {
+    if (!feedUrl) return
+    await navigator.clipboard.writeText(feedUrl)
+    setCopied(true)
+  }
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-4">
+      <Button variant="outline" className="border-zinc-400" asChild>
+        <a href={`/api/events/${eventId}/calendar`} download>
+          <CalendarPlus className="mr-2 h-4 w-4" />
+          Add to Calendar
+        </a>
+      </Button>
+      <Button variant="outline" className="border-zinc-400" onClick={openFeed}>
+        <Rss className="mr-2 h-4 w-4" />
+        Subscribe to My Visits
+      </Button>
+
+      <Dialog open={feedOpen} onOpenChange={setFeedOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Subscribe to My Visits</DialogTitle>
+            <DialogDescription>
+              Add this link to your calendar app to see all of your visits and their agendas, updated as
+              plans change. Keep it private: anyone with the link can see your itinerary.
+            </DialogDescription>
+          </DialogHeader>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-destructive">{error}</p>
+          ) : feedUrl && (
+            <div className="space-y-3">
+              <div className="flex gap-2">
+                <Input value={feedUrl} readOnly onFocus={(e) => e.target.select()} aria-label="Calendar feed link" />
+                <Button type="button" variant="outline" size="icon" onClick={copyFeedUrl} title="Copy Link">
+                  {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                </Button>
+              </div>
+              <Button className="w-full" asChild>
+                <a href={feedUrl.replace(/^https?:/, "webcal:")}>
+                  <CalendarPlus className="mr-2 h-4 w-4" />
+                  Open in Calendar App
+                </a>
+              </Button>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => fetchFeedUrl(true)}
+              disabled={loading || !feedUrl}
+              title="Stops the current link working"
+            >
+              Reset Link
+            </Button>
+            <Button type="button" variant="outline" onClick={() => setFeedOpen(false)}>
+              Close
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,295 @@
+"use client"
+
+import { useState } from "react"
+import { createClient } from "@/lib/supabase/client"
+import type { EventForm } from "@/lib/db"
+import {
+  FORM_UPLOAD_BUCKET,
+  cleanAnswers,
+  fileAnswerName,
+  formUploadPath,
+  validateAnswers,
+  validateFile,
+  visibleFields,
+  type AnswerValue,
+  type FormAnswers,
+  type FormField,
+} from "@/lib/forms"
+import { toggleOption } from "@/lib/intake"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Loader2, Paperclip } from "lucide-react"
+
+interface CustomFormDialogProps {
+  /** The form to answer, or null when closed */
+  eventForm: EventForm | null
+  eventId: string
+  visitorId: string
+  /** The visitor's saved answers, if they've answered before */
+  initialAnswers: FormAnswers | undefined
+  onOpenChange: (open: boolean) => void
+  onSaved: () => void
+}
+
+const checkboxClassName = "h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+
+const selectClassName =
+  "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+
+// An event's custom questionnaire, built by administrators in the form
+// builder. Questions appear as earlier answers call for them; answers can
+// be changed until the visit.
+export function CustomFormDialog(props: CustomFormDialogProps) {
+  return (
+    <Dialog open={!!props.eventForm} onOpenChange={props.onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] flex flex-col">
+        {/* Keyed so each form starts from its saved answers */}
+        {props.eventForm && <CustomFormBody key={props.eventForm.form.id} {...props} eventForm={props.eventForm} />}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function CustomFormBody({
+  eventForm,
+  eventId,
+  visitorId,
+  initialAnswers,
+  onOpenChange,
+  onSaved,
+}: CustomFormDialogProps & { eventForm: EventForm }) {
+  const { form, fields } = eventForm
+  const [answers, setAnswers] = useState<FormAnswers>(initialAnswers ?? {})
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [uploading, setUploading] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const supabase = createClient()
+
+  const setAnswer = (fieldId: string, value: AnswerValue) => {
+    // Functional updates, as uploads finish after other answers may change
+    setAnswers((current) => ({ ...current, [fieldId]: value }))
+    setErrors((current) => ({ ...current, [fieldId]: "" }))
+  }
+
+  const handleUpload = async (field: FormField, file: File | undefined) => {
+    if (!file) return
+
+    const invalid = validateFile(field, file)
+    if (invalid) {
+      setErrors((current) => ({ ...current, [field.id]: invalid }))
+      return
+    }
+
+    setUploading(field.id)
+    const path = formUploadPath(visitorId, form.id, file.name)
+    const { error: uploadError } = await supabase.storage.from(FORM_UPLOAD_BUCKET).upload(path, file)
+
+    if (uploadError) {
+      setErrors((current) => ({ ...current, [field.id]: `Failed to upload the file: ${uploadError.message}` }))
+    } else {
+      setAnswer(field.id, path)
+    }
+    setUploading(null)
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const invalid = validateAnswers(fields, answers)
+    setErrors(invalid)
+    if (Object.keys(invalid).length > 0) {
+      setError("Please fix the answers marked below.")
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+
+    // The server checks the answers again before saving them
+    try {
+      const response = await fetch("/api/form-responses", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ formId: form.id, eventId, answers: cleanAnswers(fields, answers) }),
+      })
+
+      if (!response.ok) {
+        const { error: message, errors: fieldErrors } = await response.json().catch(() => ({ error: response.statusText }))
+        if (fieldErrors) setErrors(fieldErrors)
+        setError(`Failed to save your answers: ${message}`)
+      } else {
+        onSaved()
+        onOpenChange(false)
+      }
+    } catch (err) {
+      console.error("Error saving form response:", err)
+      setError("An error occurred while saving your answers.")
+    }
+
+    setSaving(false)
+  }
+
+  const renderInput = (field: FormField) => {
+    const id = `form-field-${field.id}`
+    const value = answers[field.id]
+
+    switch (field.type) {
+      case "text":
+        return field.multiline ? (
+          <Textarea
+            id={id}
+            value={typeof value === "string" ? value : ""}
+            onChange={(e) => setAnswer(field.id, e.target.value)}
+            maxLength={field.maxLength}
+            rows={3}
+          />
+        ) : (
+          <Input
+            id={id}
+            value={typeof value === "string" ? value : ""}
+            onChange={(e) => setAnswer(field.id, e.target.value)}
+            maxLength={field.maxLength}
+          />
+        )
+      case "choice":
+        if (field.multiple) {
+          const chosen = Array.isArray(value) ? value : []
+          return (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {field.options?.map((option) => (
+                <label key={option} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={chosen.includes(option)}
+                    onChange={() => setAnswer(field.id, toggleOption(chosen, option))}
+                    className={checkboxClassName}
+                  />
+                  {option}
+                </label>
+              ))}
+            </div>
+          )
+        }
+        return (
+          <select
+            id={id}
+            className={selectClassName}
+            value={typeof value === "string" ? value : ""}
+            onChange={(e) => setAnswer(field.id, e.target.value || null)}
+          >
+            <option value="">Choose an option</option>
+            {field.options?.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        )
+      case "date":
+        return (
+          <Input
+            id={id}
+            type="date"
+            value={typeof value === "string" ? value : ""}
+            min={field.minDate}
+            max={field.maxDate}
+            onChange={(e) => setAnswer(field.id, e.target.value || null)}
+          />
+        )
+      case "file":
+        return (
+          <div className="space-y-2">
+            {typeof value === "string" && value && (
+              <div className="flex items-center gap-2 text-sm">
+                <Paperclip className="h-4 w-4 text-muted-foreground" />
+                {fileAnswerName(value)}
+              </div>
+            )}
+            <div className="flex items-center gap-2">
+              <Input
+                id={id}
+                type="file"
+                accept={field.accept?.join(",")}
+                onChange={(e) => handleUpload(field, e.target.files?.[0])}
+                disabled={uploading === field.id}
+              />
+              {uploading === field.id && <Loader2 className="h-4 w-4 animate-spin text-primary" />}
+            </div>
+          </div>
+        )
+      case "yes_no":
+        return (
+          <div className="flex gap-6">
+            {[true, false].map((option) => (
+              <label key={String(option)} className="flex items-center gap-2 text-sm cursor-pointer">
+                <input
+                  type="radio"
+                  name={id}
+                  checked={value === option}
+                  onChange={() => setAnswer(field.id, option)}
+                  className={checkboxClassName}
+                />
+                {option ? "Yes" : "No"}
+              </label>
+            ))}
+          </div>
+        )
+    }
+  }
+
+  const hasRequired = fields.some((field) => field.required)
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>{form.name}</DialogTitle>
+        {form.description && <DialogDescription>{form.description}</DialogDescription>}
+      </DialogHeader>
+
+      <form onSubmit={handleSave} className="flex-1 overflow-auto flex flex-col">
+        <div className="space-y-6 py-4 px-1">
+          {error && (
+            <div className="rounded-md p-3 text-sm bg-destructive/10 text-destructive">{error}</div>
+          )}
+
+          {visibleFields(fields, answers).map((field) => (
+            <div key={field.id} className="space-y-2">
+              <Label htmlFor={`form-field-${field.id}`}>
+                {field.label} {field.required && <span className="text-destructive">*</span>}
+              </Label>
+              {field.helpText && <p className="text-xs text-muted-foreground">{field.helpText}</p>}
+              {renderInput(field)}
+              {errors[field.id] && <p className="text-xs text-destructive">{errors[field.id]}</p>}
+            </div>
+          ))}
+
+          {hasRequired && (
+            <p className="text-xs text-muted-foreground">
+              <span className="text-destructive">*</span> Required field
+            </p>
+          )}
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={saving || !!uploading}>
+            {saving ? "Saving..." : "Save Answers"}
+          </Button>
+        </DialogFooter>
+      </form>
+    </>
+  )
+}
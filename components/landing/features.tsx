@@ -2,6 +2,14 @@
 
 import { useState, useEffect, useRef, useCallback } from "react"
 import { createClient } from "@/lib/supabase/client"
+import {
+  getCurrentVersion,
+  getIntakeForms,
+  getRequirementStatus,
+  listEventForms,
+  listVisitorFormResponses,
+  type EventForm,
+} from "@/lib/db"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import {
   Dialog,
@@ -10,11 +18,20 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog"
 import { Button } from "@/components/ui/button"
-import { ShieldCheck, HeartPulse, Utensils, Map, Mountain, Calendar, Loader2, CheckCircle2, AlertCircle } from "lucide-react"
+import { GatePass } from "@/components/landing/gate-pass"
+import { AgendaItinerary } from "@/components/landing/agenda-itinerary"
+import { IntakeFormDialog } from "@/components/landing/intake-form-dialog"
+import { CustomFormDialog } from "@/components/landing/custom-form-dialog"
+import { SignaturePad, type SignatureValue } from "@/components/signature-pad"
+import { signatureConsentText } from "@/lib/signatures"
+import type { IntakeKind } from "@/lib/intake"
+import type { FormAnswers } from "@/lib/forms"
+import { ShieldCheck, HeartPulse, Utensils, Map as MapIcon, Mountain, Calendar, Loader2, CheckCircle2, AlertCircle, Download, ClipboardList } from "lucide-react"
 
 interface FeaturesProps {
   eventId: string | null
   visitorId: string | null
+  initialCredential?: string | null
 }
 
 const featureDefinitions = [
@@ -31,6 +48,8 @@ const featureDefinitions = [
     description: "Access to medical resources and first aid facilities for your peace of mind.",
     icon: HeartPulse,
     documentType: "Medical",
+    // A questionnaire, with the medical document a click away
+    intake: "medical" as IntakeKind,
   },
   {
     key: "food",
@@ -38,12 +57,13 @@ const featureDefinitions = [
     description: "Customizable dining options to accommodate all dietary needs and preferences.",
     icon: Utensils,
     documentType: "Food Preferences",
+    intake: "dietary" as IntakeKind,
   },
   {
     key: "directions",
     title: "Directions",
     description: "Easy-to-follow guides and maps to help you navigate the ranch and surrounding areas.",
-    icon: Map,
+    icon: MapIcon,
     documentType: "Directions",
   },
   {
@@ -59,11 +79,17 @@ const featureDefinitions = [
     description: "View the full itinerary of activities and events planned during your visit.",
     icon: Calendar,
     documentType: "Schedule of Events",
+    // Built from the event's agenda sessions rather than an uploaded file
+    agenda: true,
   },
 ]
 
-export function Features({ eventId, visitorId }: FeaturesProps) {
+type FeatureDefinition = (typeof featureDefinitions)[number]
+
+export function Features({ eventId, visitorId, initialCredential = null }: FeaturesProps) {
   const [dialogOpen, setDialogOpen] = useState(false)
+  const [agendaOpen, setAgendaOpen] = useState(false)
+  const [intakeKind, setIntakeKind] = useState<IntakeKind | null>(null)
   const [loading, setLoading] = useState(false)
   const [documentUrl, setDocumentUrl] = useState<string | null>(null)
   const [documentName, setDocumentName] = useState<string>("")
@@ -79,11 +105,24 @@ export function Features({ eventId, visitorId }: FeaturesProps) {
   const [alreadyConfirmed, setAlreadyConfirmed] = useState(false)
   const [confirmingDocument, setConfirmingDocument] = useState(false)
   const [confirmationSuccess, setConfirmationSuccess] = useState(false)
+  // Waivers are signed rather than just acknowledged
+  const [requiresSignature, setRequiresSignature] = useState(false)
+  const [consentText, setConsentText] = useState<string | null>(null)
+  const [signature, setSignature] = useState<SignatureValue | null>(null)
 
   // Track which document types have been confirmed with current version
   const [confirmedDocTypes, setConfirmedDocTypes] = useState<Set<string>>(new Set())
   // Track which document types require confirmation
   const [requiresConfirmationDocTypes, setRequiresConfirmationDocTypes] = useState<Set<string>>(new Set())
+  // Dietary and medical questionnaires the visitor has answered
+  const [completedIntake, setCompletedIntake] = useState<Set<IntakeKind>>(new Set())
+  // Signed gate pass, issued once every required document is confirmed
+  const [credential, setCredential] = useState<string | null>(initialCredential)
+  // Custom questionnaires assigned to the event, and the visitor's answers
+  // by form id
+  const [eventForms, setEventForms] = useState<EventForm[]>([])
+  const [formAnswers, setFormAnswers] = useState<Map<string, FormAnswers>>(new Map())
+  const [openForm, setOpenForm] = useState<EventForm | null>(null)
 
   const scrollContainerRef = useRef<HTMLDivElement>(null)
   const supabase = createClient()
@@ -93,95 +132,22 @@ export function Features({ eventId, visitorId }: FeaturesProps) {
     if (!eventId || !visitorId) return
 
     try {
-      // Get all document types
-      const { data: docTypes } = await supabase
-        .from("document_types")
-        .select("id, name, requires_confirmation")
-
-      if (!docTypes) return
-
-      // Get documents assigned to this event
-      const { data: docEvents } = await supabase
-        .from("document_events")
-        .select("document_id")
+      // The event's documents with their current version and the version
+      // this visitor confirmed
+      const { data: documents } = await supabase
+        .from("visitor_document_versions")
+        .select("document_type_name, requires_confirmation, current_version_id, confirmed_version_id")
         .eq("event_id", eventId)
-
-      if (!docEvents || docEvents.length === 0) return
-
-      const eventDocIds = docEvents.map((de) => de.document_id)
-
-      // Get documents with their types
-      const { data: docs } = await supabase
-        .from("documents")
-        .select("id, document_type_id")
-        .in("id", eventDocIds)
-
-      if (!docs) return
-
-      // Get current versions for these documents
-      const docIds = docs.map((d) => d.id)
-      const { data: versions } = await supabase
-        .from("document_versions")
-        .select("id, document_id")
-        .in("document_id", docIds)
-        .eq("is_current", true)
-
-      if (!versions) return
-
-      // Get visitor's confirmations
-      const versionIds = versions.map((v) => v.id)
-      const { data: confirmations } = await supabase
-        .from("visitor_confirmations")
-        .select("document_id, document_version_id")
         .eq("visitor_id", visitorId)
-        .eq("event_id", eventId)
-        .in("document_version_id", versionIds)
 
-      if (!confirmations) return
+      if (!documents) return
 
-      // Build a map of document_id -> current_version_id
-      const currentVersionMap: Record<string, string> = {}
-      versions.forEach((v) => {
-        currentVersionMap[v.document_id] = v.id
-      })
-
-      // Build a map of document_id -> document_type_id
-      const docTypeMap: Record<string, string> = {}
-      docs.forEach((d) => {
-        docTypeMap[d.id] = d.document_type_id
-      })
-
-      // Build a map of document_type_id -> name and requires_confirmation
-      const typeNameMap: Record<string, string> = {}
-      const typeRequiresConfirmation: Record<string, boolean> = {}
-      docTypes.forEach((dt) => {
-        typeNameMap[dt.id] = dt.name
-        typeRequiresConfirmation[dt.id] = dt.requires_confirmation ?? false
-      })
-
-      // Find which document types require confirmation (based on assigned documents)
       const requiresConfirmationTypes = new Set<string>()
-      docs.forEach((d) => {
-        const typeId = d.document_type_id
-        if (typeRequiresConfirmation[typeId]) {
-          const typeName = typeNameMap[typeId]
-          if (typeName) {
-            requiresConfirmationTypes.add(typeName)
-          }
-        }
-      })
-
-      // Find which document types are confirmed with current version
       const confirmedTypes = new Set<string>()
-      confirmations?.forEach((c) => {
-        const currentVersionId = currentVersionMap[c.document_id]
-        if (c.document_version_id === currentVersionId) {
-          const typeId = docTypeMap[c.document_id]
-          const typeName = typeNameMap[typeId]
-          if (typeName) {
-            confirmedTypes.add(typeName)
-          }
-        }
+      documents.forEach((d) => {
+        if (!d.document_type_name) return
+        if (d.requires_confirmation) requiresConfirmationTypes.add(d.document_type_name)
+        if (d.confirmed_version_id === d.current_version_id) confirmedTypes.add(d.document_type_name)
       })
 
       setRequiresConfirmationDocTypes(requiresConfirmationTypes)
@@ -195,6 +161,45 @@ export function Features({ eventId, visitorId }: FeaturesProps) {
     void fetchConfirmationStatus() // eslint-disable-line react-hooks/set-state-in-effect
   }, [fetchConfirmationStatus])
 
+  const fetchIntakeStatus = useCallback(async () => {
+    if (!eventId || !visitorId) return
+
+    const { dietary, medical, error } = await getIntakeForms(supabase, eventId, visitorId)
+    if (error) {
+      console.error("Error fetching intake forms:", error)
+      return
+    }
+
+    const completed = new Set<IntakeKind>()
+    if (dietary) completed.add("dietary")
+    if (medical) completed.add("medical")
+    setCompletedIntake(completed)
+  }, [eventId, visitorId, supabase])
+
+  useEffect(() => {
+    void fetchIntakeStatus() // eslint-disable-line react-hooks/set-state-in-effect
+  }, [fetchIntakeStatus])
+
+  const fetchFormStatus = useCallback(async () => {
+    if (!eventId || !visitorId) return
+
+    const [forms, responses] = await Promise.all([
+      listEventForms(supabase, eventId),
+      listVisitorFormResponses(supabase, eventId, visitorId),
+    ])
+    if (forms.error || responses.error) {
+      console.error("Error fetching event forms:", forms.error ?? responses.error)
+      return
+    }
+
+    setEventForms(forms.rows)
+    setFormAnswers(responses.answersByForm)
+  }, [eventId, visitorId, supabase])
+
+  useEffect(() => {
+    void fetchFormStatus() // eslint-disable-line react-hooks/set-state-in-effect
+  }, [fetchFormStatus])
+
   const handleScroll = useCallback(() => {
     const container = scrollContainerRef.current
     if (!container) return
@@ -234,7 +239,17 @@ export function Features({ eventId, visitorId }: FeaturesProps) {
     return !error && (count ?? 0) > 0
   }
 
-  const handleCardClick = async (documentType: string, title: string) => {
+  const handleCardClick = (feature: FeatureDefinition) => {
+    if (eventId && "agenda" in feature) {
+      setAgendaOpen(true)
+    } else if (eventId && visitorId && feature.intake) {
+      setIntakeKind(feature.intake)
+    } else {
+      openDocument(feature.documentType, feature.title)
+    }
+  }
+
+  const openDocument = async (documentType: string, title: string) => {
     if (!eventId) {
       setError("No event assigned. Please contact an administrator.")
       setDialogOpen(true)
@@ -252,13 +267,16 @@ export function Features({ eventId, visitorId }: FeaturesProps) {
     setConfirmationSuccess(false)
     setCurrentDocumentId(null)
     setCurrentVersionId(null)
+    setRequiresSignature(false)
+    setConsentText(null)
+    setSignature(null)
     setDialogOpen(true)
 
     try {
       // First, get the document type ID and requires_confirmation setting
       const { data: docType } = await supabase
         .from("document_types")
-        .select("id, requires_confirmation")
+        .select("id, requires_confirmation, requires_signature")
         .eq("name", documentType)
         .single()
 
@@ -271,6 +289,7 @@ export function Features({ eventId, visitorId }: FeaturesProps) {
       // Set requires confirmation from database
       const needsConfirmation = docType.requires_confirmation ?? false
       setRequiresConfirmation(needsConfirmation)
+      setRequiresSignature(needsConfirmation && docType.requires_signature)
 
       // Get document IDs assigned to this event
       const { data: docEvents } = await supabase
@@ -303,12 +322,7 @@ export function Features({ eventId, visitorId }: FeaturesProps) {
       setCurrentDocumentId(doc.id)
 
       // Get the current version of this document
-      const { data: currentVersion } = await supabase
-        .from("document_versions")
-        .select("id, file_path, file_name, mime_type")
-        .eq("document_id", doc.id)
-        .eq("is_current", true)
-        .single()
+      const { version: currentVersion } = await getCurrentVersion(supabase, doc.id)
 
       if (!currentVersion || !currentVersion.file_path) {
         setError(`The ${title} document has no uploaded file yet.`)
@@ -317,6 +331,8 @@ export function Features({ eventId, visitorId }: FeaturesProps) {
       }
 
       setCurrentVersionId(currentVersion.id)
+      // Worded as the server records it
+      setConsentText(signatureConsentText(doc.name, currentVersion.version_number))
 
       // Check if already confirmed this version
       if (needsConfirmation && visitorId) {
@@ -343,64 +359,41 @@ export function Features({ eventId, visitorId }: FeaturesProps) {
     setLoading(false)
   }
 
-  const checkAllDocumentsConfirmed = async () => {
+  const checkRequirementsComplete = async () => {
     if (!visitorId || !eventId) return
 
-    // Get all document types that require confirmation
-    const { data: requiredTypes } = await supabase
-      .from("document_types")
-      .select("id")
-      .eq("requires_confirmation", true)
-
-    if (!requiredTypes || requiredTypes.length === 0) return
-
-    const requiredTypeIds = requiredTypes.map((t) => t.id)
-
-    // Get all document IDs assigned to this event
-    const { data: eventDocs } = await supabase
-      .from("document_events")
-      .select("document_id")
-      .eq("event_id", eventId)
-
-    if (!eventDocs || eventDocs.length === 0) return
-
-    const eventDocIds = eventDocs.map((ed) => ed.document_id)
-
-    // Get documents that require confirmation (matching type and assigned to event)
-    const { data: requiredDocs } = await supabase
-      .from("documents")
-      .select("id")
-      .in("id", eventDocIds)
-      .in("document_type_id", requiredTypeIds)
-
-    if (!requiredDocs || requiredDocs.length === 0) return
-
-    // Get the current versions of these documents
-    const docIds = requiredDocs.map((d) => d.id)
-    const { data: currentVersions } = await supabase
-      .from("document_versions")
-      .select("id, document_id")
-      .in("document_id", docIds)
-      .eq("is_current", true)
-
-    if (!currentVersions || currentVersions.length === 0) return
+    const { complete } = await getRequirementStatus(supabase, visitorId, eventId)
 
-    // Check which of these the visitor has confirmed
-    const versionIds = currentVersions.map((v) => v.id)
-    const { data: confirmations } = await supabase
-      .from("visitor_confirmations")
-      .select("document_version_id")
-      .eq("visitor_id", visitorId)
-      .eq("event_id", eventId)
-      .in("document_version_id", versionIds)
-
-    // If all required documents are confirmed, update RSVP status
-    if (confirmations && confirmations.length >= currentVersions.length) {
+    // Once every required document is confirmed and every required form
+    // answered, update RSVP status. Only invited or accepted visitors move
+    // to confirmed; a decline, waitlist or cancellation stands.
+    if (complete) {
       await supabase
         .from("event_visitors")
-        .update({ rsvp_status: "confirmed" })
+        .update({ rsvp_status: "confirmed", rsvp_reason: null, rsvp_note: null })
         .eq("visitor_id", visitorId)
         .eq("event_id", eventId)
+        .in("rsvp_status", ["invited", "accepted"])
+
+      await fetchCredential()
+    }
+  }
+
+  const fetchCredential = async () => {
+    if (!eventId) return
+
+    try {
+      const response = await fetch("/api/credentials", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ eventId }),
+      })
+      if (response.ok) {
+        const { token } = await response.json()
+        setCredential(token)
+      }
+    } catch (err) {
+      console.error("Error fetching credential:", err)
     }
   }
 
@@ -413,19 +406,21 @@ export function Features({ eventId, visitorId }: FeaturesProps) {
     setConfirmingDocument(true)
 
     try {
-      const { error: insertError } = await supabase
-        .from("visitor_confirmations")
-        .insert({
-          visitor_id: visitorId,
-          event_id: eventId,
-          document_id: currentDocumentId,
-          document_version_id: currentVersionId,
-          form_name: documentName,
-          signed_at: new Date().toISOString(),
-        })
-
-      if (insertError) {
-        setError(`Failed to save confirmation: ${insertError.message}`)
+      // Recorded by the server so the IP address and browser can be kept
+      // with the signature
+      const response = await fetch("/api/confirmations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          eventId,
+          documentVersionId: currentVersionId,
+          signature: requiresSignature ? signature : undefined,
+        }),
+      })
+
+      if (!response.ok) {
+        const { error: message } = await response.json().catch(() => ({ error: response.statusText }))
+        setError(`Failed to save confirmation: ${message}`)
       } else {
         setConfirmationSuccess(true)
         setAlreadyConfirmed(true)
@@ -433,8 +428,8 @@ export function Features({ eventId, visitorId }: FeaturesProps) {
         // Refresh confirmation status to update card indicators
         await fetchConfirmationStatus()
 
-        // Check if all required documents are now confirmed
-        await checkAllDocumentsConfirmed()
+        // Check if every requirement is now met
+        await checkRequirementsComplete()
       }
     } catch (err) {
       console.error("Error saving confirmation:", err)
@@ -453,8 +448,31 @@ export function Features({ eventId, visitorId }: FeaturesProps) {
     setHasScrolledToBottom(false)
     setIsConfirmed(false)
     setConfirmationSuccess(false)
+    setSignature(null)
   }
 
+  // Questionnaire cards are complete once answered and any required
+  // document is confirmed
+  const featureStatus = (feature: FeatureDefinition): "complete" | "outstanding" | null => {
+    const { documentType } = feature
+    const documentOutstanding = requiresConfirmationDocTypes.has(documentType) && !confirmedDocTypes.has(documentType)
+
+    if (feature.intake && eventId && visitorId) {
+      return completedIntake.has(feature.intake) && !documentOutstanding ? "complete" : "outstanding"
+    }
+    if (confirmedDocTypes.has(documentType)) return "complete"
+    return documentOutstanding ? "outstanding" : null
+  }
+
+  const formStatus = ({ form, required }: EventForm): "complete" | "outstanding" | null => {
+    if (formAnswers.has(form.id)) return "complete"
+    return required ? "outstanding" : null
+  }
+
+  const hasSignature = !!signature?.name.trim() && !!signature.image
+  const certificateUrl = eventId && currentVersionId
+    ? `/api/confirmations/certificate?${new URLSearchParams({ eventId, documentVersionId: currentVersionId })}`
+    : null
   const isPdf = documentMimeType === "application/pdf"
 
   return (
@@ -468,31 +486,24 @@ export function Features({ eventId, visitorId }: FeaturesProps) {
             Review each item below and complete as required.
           </p>
         </div>
+        {credential && <GatePass credential={credential} />}
         <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
           {featureDefinitions.map((feature) => (
             <Card
               key={feature.key}
               className="bg-background cursor-pointer transition-all hover:scale-[1.02] hover:shadow-lg relative focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
-              onClick={() => handleCardClick(feature.documentType, feature.title)}
+              onClick={() => handleCardClick(feature)}
               onKeyDown={(e) => {
                 if (e.key === "Enter" || e.key === " ") {
                   e.preventDefault()
-                  handleCardClick(feature.documentType, feature.title)
+                  handleCardClick(feature)
                 }
               }}
               role="button"
               tabIndex={0}
-              aria-label={`View ${feature.title} document`}
+              aria-label={feature.intake ? `Complete the ${feature.title} form` : `View ${feature.title} document`}
             >
-              {confirmedDocTypes.has(feature.documentType) ? (
-                <div className="absolute top-3 right-3">
-                  <CheckCircle2 className="h-6 w-6 text-green-500" />
-                </div>
-              ) : requiresConfirmationDocTypes.has(feature.documentType) ? (
-                <div className="absolute top-3 right-3">
-                  <AlertCircle className="h-6 w-6 text-yellow-500" />
-                </div>
-              ) : null}
+              <StatusIcon status={featureStatus(feature)} />
               <CardHeader>
                 <div className="mb-2 flex h-10 w-10 items-center justify-center rounded-lg bg-primary/10">
                   <feature.icon className="h-5 w-5 text-primary" />
@@ -506,9 +517,68 @@ export function Features({ eventId, visitorId }: FeaturesProps) {
               </CardContent>
             </Card>
           ))}
+          {eventForms.map((eventForm) => (
+            <Card
+              key={eventForm.form.id}
+              className="bg-background cursor-pointer transition-all hover:scale-[1.02] hover:shadow-lg relative focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+              onClick={() => setOpenForm(eventForm)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" || e.key === " ") {
+                  e.preventDefault()
+                  setOpenForm(eventForm)
+                }
+              }}
+              role="button"
+              tabIndex={0}
+              aria-label={`Complete the ${eventForm.form.name} form`}
+            >
+              <StatusIcon status={formStatus(eventForm)} />
+              <CardHeader>
+                <div className="mb-2 flex h-10 w-10 items-center justify-center rounded-lg bg-primary/10">
+                  <ClipboardList className="h-5 w-5 text-primary" />
+                </div>
+                <CardTitle className="text-lg">{eventForm.form.name}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <CardDescription className="text-base text-white/90">
+                  {eventForm.form.description || "Answer a few questions to help us prepare for your visit."}
+                </CardDescription>
+              </CardContent>
+            </Card>
+          ))}
         </div>
       </div>
 
+      {eventId && <AgendaItinerary eventId={eventId} open={agendaOpen} onOpenChange={setAgendaOpen} />}
+      {eventId && visitorId && (
+        <IntakeFormDialog
+          kind={intakeKind}
+          eventId={eventId}
+          visitorId={visitorId}
+          onOpenChange={(open) => !open && setIntakeKind(null)}
+          onSaved={fetchIntakeStatus}
+          onViewDocument={() => {
+            const feature = featureDefinitions.find((f) => f.intake === intakeKind)
+            setIntakeKind(null)
+            if (feature) openDocument(feature.documentType, feature.title)
+          }}
+        />
+      )}
+
+      {eventId && visitorId && (
+        <CustomFormDialog
+          eventForm={openForm}
+          eventId={eventId}
+          visitorId={visitorId}
+          initialAnswers={openForm ? formAnswers.get(openForm.form.id) : undefined}
+          onOpenChange={(open) => !open && setOpenForm(null)}
+          onSaved={async () => {
+            await fetchFormStatus()
+            await checkRequirementsComplete()
+          }}
+        />
+      )}
+
       <Dialog open={dialogOpen} onOpenChange={(open) => !open && closeDialog()}>
         <DialogContent className="sm:max-w-4xl max-h-[90vh] flex flex-col">
           <DialogHeader>
@@ -578,7 +648,17 @@ export function Features({ eventId, visitorId }: FeaturesProps) {
                           <CheckCircle2 className="h-5 w-5" />
                           <span className="font-medium">Thank you for confirming this document.</span>
                         </div>
-                        <Button onClick={closeDialog}>Close</Button>
+                        <div className="flex gap-2">
+                          {certificateUrl && (
+                            <Button variant="outline" asChild>
+                              <a href={certificateUrl} download>
+                                <Download className="mr-2 h-4 w-4" />
+                                Download Certificate
+                              </a>
+                            </Button>
+                          )}
+                          <Button onClick={closeDialog}>Close</Button>
+                        </div>
                       </div>
                     ) : alreadyConfirmed ? (
                       <div className="flex flex-col items-center gap-4">
@@ -586,7 +666,17 @@ export function Features({ eventId, visitorId }: FeaturesProps) {
                           <CheckCircle2 className="h-5 w-5" />
                           <span className="font-medium">You have already confirmed this document.</span>
                         </div>
-                        <Button onClick={closeDialog}>Close</Button>
+                        <div className="flex gap-2">
+                          {certificateUrl && (
+                            <Button variant="outline" asChild>
+                              <a href={certificateUrl} download>
+                                <Download className="mr-2 h-4 w-4" />
+                                Download Certificate
+                              </a>
+                            </Button>
+                          )}
+                          <Button onClick={closeDialog}>Close</Button>
+                        </div>
                       </div>
                     ) : (
                       <div className="space-y-4">
@@ -604,16 +694,27 @@ export function Features({ eventId, visitorId }: FeaturesProps) {
                           </label>
                         )}
 
+                        {hasScrolledToBottom && requiresSignature && consentText && (
+                          <div className="space-y-3">
+                            <p className="text-sm text-white/90">
+                              {consentText}
+                            </p>
+                            <SignaturePad disabled={confirmingDocument} onChange={setSignature} />
+                          </div>
+                        )}
+
                         <div className="flex justify-end">
                           <Button
                             onClick={handleConfirmation}
-                            disabled={!hasScrolledToBottom || !isConfirmed || confirmingDocument}
+                            disabled={!hasScrolledToBottom || !isConfirmed || (requiresSignature && !hasSignature) || confirmingDocument}
                           >
                             {confirmingDocument ? (
                               <>
                                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                                 Confirming...
                               </>
+                            ) : requiresSignature ? (
+                              "Sign and Confirm"
                             ) : (
                               "Confirm Acknowledgment"
                             )}
@@ -631,3 +732,16 @@ export function Features({ eventId, visitorId }: FeaturesProps) {
     </section>
   )
 }
+
+function StatusIcon({ status }: { status: "complete" | "outstanding" | null }) {
+  if (!status) return null
+  return (
+    <div className="absolute top-3 right-3">
+      {status === "complete" ? (
+        <CheckCircle2 className="h-6 w-6 text-green-500" />
+      ) : (
+        <AlertCircle className="h-6 w-6 text-yellow-500" />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,48 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import QRCode from "qrcode"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { QrCode } from "lucide-react"
+
+interface GatePassProps {
+  credential: string
+}
+
+export function GatePass({ credential }: GatePassProps) {
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    QRCode.toDataURL(credential, { errorCorrectionLevel: "M", margin: 2, width: 320 })
+      .then((url) => {
+        if (!cancelled) setQrDataUrl(url)
+      })
+      .catch((err) => console.error("Error rendering gate pass:", err))
+    return () => {
+      cancelled = true
+    }
+  }, [credential])
+
+  return (
+    <Card className="bg-background max-w-md mx-auto mb-12">
+      <CardHeader className="text-center">
+        <div className="mx-auto mb-2 flex h-10 w-10 items-center justify-center rounded-lg bg-primary/10">
+          <QrCode className="h-5 w-5 text-primary" />
+        </div>
+        <CardTitle className="text-lg">Your Gate Pass</CardTitle>
+        <CardDescription className="text-base text-white/90">
+          You&apos;re confirmed. Show this code at the gate when you arrive.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex justify-center">
+        {qrDataUrl ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={qrDataUrl} alt="Gate pass QR code" className="h-64 w-64 rounded-lg bg-white" />
+        ) : (
+          <div className="h-64 w-64 rounded-lg bg-muted animate-pulse" />
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -4,6 +4,7 @@ import { useEffect, useState } from "react"
 import Link from "next/link"
 import { useRouter } from "next/navigation"
 import { createClient } from "@/lib/supabase/client"
+import { isStaffRole } from "@/lib/roles"
 import { Button } from "@/components/ui/button"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import {
@@ -13,7 +14,7 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
-import { LogOut, User, Shield } from "lucide-react"
+import { LogOut, User, Shield, Building2 } from "lucide-react"
 import Image from "next/image"
 import type { User as SupabaseUser } from "@supabase/supabase-js"
 
@@ -24,6 +25,7 @@ interface HeaderProps {
 export function Header({ initialUser }: HeaderProps) {
   const [user, setUser] = useState<SupabaseUser | null>(initialUser)
   const [securityGroup, setSecurityGroup] = useState<string | null>(null)
+  const [isContact, setIsContact] = useState(false)
   const router = useRouter()
   const supabase = createClient()
 
@@ -41,6 +43,7 @@ export function Header({ initialUser }: HeaderProps) {
     const fetchProfile = async () => {
       if (!user) {
         setSecurityGroup(null)
+        setIsContact(false)
         return
       }
       const { data } = await supabase
@@ -51,6 +54,8 @@ export function Header({ initialUser }: HeaderProps) {
       if (data) {
         setSecurityGroup(data.security_group)
       }
+      const { data: companyId } = await supabase.rpc("contact_company_id")
+      setIsContact(!!companyId)
     }
     fetchProfile()
   }, [user, supabase])
@@ -110,7 +115,7 @@ export function Header({ initialUser }: HeaderProps) {
                   </div>
                 </div>
                 <DropdownMenuSeparator />
-                {securityGroup === "admin" && (
+                {isStaffRole(securityGroup) && (
                   <DropdownMenuItem asChild>
                     <Link href="/admin" className="w-full cursor-pointer">
                       <Shield className="mr-2 h-4 w-4" />
@@ -118,6 +123,14 @@ export function Header({ initialUser }: HeaderProps) {
                     </Link>
                   </DropdownMenuItem>
                 )}
+                {isContact && (
+                  <DropdownMenuItem asChild>
+                    <Link href="/portal" className="w-full cursor-pointer">
+                      <Building2 className="mr-2 h-4 w-4" />
+                      Organization Portal
+                    </Link>
+                  </DropdownMenuItem>
+                )}
                 <DropdownMenuItem asChild>
                   <Link href="/profile" className="w-full cursor-pointer">
                     <User className="mr-2 h-4 w-4" />
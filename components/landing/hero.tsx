@@ -1,16 +1,18 @@
 import Link from "next/link"
 import { Button } from "@/components/ui/button"
+import { RsvpActions } from "@/components/landing/rsvp-actions"
+import { UpcomingVisits } from "@/components/landing/upcoming-visits"
+import { CalendarLinks } from "@/components/landing/calendar-links"
 import { ArrowRight, ChevronDown } from "lucide-react"
-
-interface UpcomingEvent {
-  start_date: string
-  end_date: string
-}
+import type { UpcomingVisit } from "@/lib/visits"
 
 interface HeroProps {
   isAuthenticated?: boolean
   firstName?: string | null
-  upcomingEvent?: UpcomingEvent | null
+  visits?: UpcomingVisit[]
+  /** The visit the page is showing, one of visits */
+  selectedVisit?: UpcomingVisit | null
+  visitorId?: string | null
 }
 
 function formatDate(dateString: string): string {
@@ -22,7 +24,8 @@ function formatDate(dateString: string): string {
   })
 }
 
-export function Hero({ isAuthenticated = false, firstName, upcomingEvent }: HeroProps) {
+export function Hero({ isAuthenticated = false, firstName, visits = [], selectedVisit, visitorId }: HeroProps) {
+  const rsvpStatus = selectedVisit?.rsvpStatus
   return (
     <section className="relative overflow-hidden min-h-[calc(100vh-4rem)] flex items-center">
       <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8">
@@ -32,11 +35,32 @@ export function Hero({ isAuthenticated = false, firstName, upcomingEvent }: Hero
               Welcome to <span style={{ color: '#B8C9D0' }}>Montana</span>
             </h1>
             <p className="text-lg text-white/90 max-w-xl">
-              {isAuthenticated && firstName && upcomingEvent ? (
+              {isAuthenticated && firstName && selectedVisit && rsvpStatus === "declined" ? (
+                <>
+                  Hello <strong>{firstName}</strong>, you declined your visit from{" "}
+                  <strong>{formatDate(selectedVisit.startDate)}</strong> to{" "}
+                  <strong>{formatDate(selectedVisit.endDate)}</strong>. If your plans change,
+                  you can still accept below.
+                </>
+              ) : isAuthenticated && firstName && selectedVisit && rsvpStatus === "waitlisted" ? (
+                <>
+                  Hello <strong>{firstName}</strong>, you are on the waitlist for our visit from{" "}
+                  <strong>{formatDate(selectedVisit.startDate)}</strong> to{" "}
+                  <strong>{formatDate(selectedVisit.endDate)}</strong>. We&apos;ll let you know
+                  as soon as a place opens up.
+                </>
+              ) : isAuthenticated && firstName && selectedVisit && rsvpStatus === "cancelled" ? (
+                <>
+                  Hello <strong>{firstName}</strong>, your visit from{" "}
+                  <strong>{formatDate(selectedVisit.startDate)}</strong> to{" "}
+                  <strong>{formatDate(selectedVisit.endDate)}</strong> has been cancelled.
+                  Please contact us if you have any questions.
+                </>
+              ) : isAuthenticated && firstName && selectedVisit ? (
                 <>
                   Hello <strong>{firstName}</strong>, you are scheduled to visit with us from{" "}
-                  <strong>{formatDate(upcomingEvent.start_date)}</strong> to{" "}
-                  <strong>{formatDate(upcomingEvent.end_date)}</strong>. We&apos;re glad you&apos;re
+                  <strong>{formatDate(selectedVisit.startDate)}</strong> to{" "}
+                  <strong>{formatDate(selectedVisit.endDate)}</strong>. We&apos;re glad you&apos;re
                   coming to visit. Get additional details below.
                 </>
               ) : isAuthenticated && firstName ? (
@@ -48,6 +72,10 @@ export function Hero({ isAuthenticated = false, firstName, upcomingEvent }: Hero
                 <>A collaborative destination for meaningful connections.</>
               )}
             </p>
+            {isAuthenticated && selectedVisit && visitorId && rsvpStatus && (
+              <RsvpActions eventId={selectedVisit.eventId} visitorId={visitorId} status={rsvpStatus} />
+            )}
+            {isAuthenticated && selectedVisit && <CalendarLinks eventId={selectedVisit.eventId} />}
             <div className="flex flex-col sm:flex-row gap-4">
               <Button size="lg" asChild>
                 <Link href={isAuthenticated ? "#features" : "/signup"}>
@@ -63,6 +91,9 @@ export function Hero({ isAuthenticated = false, firstName, upcomingEvent }: Hero
             </div>
           </div>
           <div className="relative">
+            {isAuthenticated && visits.length > 0 && (
+              <UpcomingVisits visits={visits} selectedEventId={selectedVisit?.eventId ?? null} />
+            )}
           </div>
         </div>
       </div>
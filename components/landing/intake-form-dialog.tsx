@@ -0,0 +1,309 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { createClient } from "@/lib/supabase/client"
+import { getIntakeForms } from "@/lib/db"
+import {
+  ALLERGENS,
+  ALLERGEN_LABELS,
+  DIETARY_RESTRICTIONS,
+  DIETARY_RESTRICTION_LABELS,
+  EMPTY_DIETARY_ANSWERS,
+  EMPTY_MEDICAL_ANSWERS,
+  dietaryAnswersFromForm,
+  dietaryFormValues,
+  medicalAnswersFromForm,
+  medicalFormValues,
+  toggleOption,
+  validateMedicalAnswers,
+  type DietaryAnswers,
+  type IntakeKind,
+  type MedicalAnswers,
+} from "@/lib/intake"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { FileText, Loader2 } from "lucide-react"
+
+interface IntakeFormDialogProps {
+  kind: IntakeKind | null
+  eventId: string
+  visitorId: string
+  onOpenChange: (open: boolean) => void
+  onSaved: () => void
+  /** Opens the document of the same type, e.g. the medical waiver */
+  onViewDocument: () => void
+}
+
+const TITLES: Record<IntakeKind, { title: string; description: string; document: string }> = {
+  dietary: {
+    title: "Food Preferences",
+    description: "Tell our kitchen about your diet and any food allergies so every meal works for you.",
+    document: "View Food Preferences Document",
+  },
+  medical: {
+    title: "Medical",
+    description: "Only our event coordinators can see these answers. They're used to keep you safe during your visit.",
+    document: "View Medical Document",
+  },
+}
+
+const checkboxClassName = "h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+
+// The dietary or medical questionnaire for the visitor's event, opened from
+// the Food Preferences and Medical cards. Answers can be changed until the
+// visit.
+export function IntakeFormDialog({ kind, eventId, visitorId, onOpenChange, onSaved, onViewDocument }: IntakeFormDialogProps) {
+  const [dietary, setDietary] = useState<DietaryAnswers>(EMPTY_DIETARY_ANSWERS)
+  const [medical, setMedical] = useState<MedicalAnswers>(EMPTY_MEDICAL_ANSWERS)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const supabase = createClient()
+
+  const fetchAnswers = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+
+    const { dietary: dietaryForm, medical: medicalForm, error } = await getIntakeForms(supabase, eventId, visitorId)
+    if (error) {
+      console.error("Error fetching intake forms:", error)
+      setError("An error occurred while loading your answers.")
+    }
+    setDietary(dietaryForm ? dietaryAnswersFromForm(dietaryForm) : EMPTY_DIETARY_ANSWERS)
+    setMedical(medicalForm ? medicalAnswersFromForm(medicalForm) : EMPTY_MEDICAL_ANSWERS)
+    setLoading(false)
+  }, [supabase, eventId, visitorId])
+
+  useEffect(() => {
+    if (kind) void fetchAnswers() // eslint-disable-line react-hooks/set-state-in-effect
+  }, [kind, fetchAnswers])
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!kind) return
+
+    if (kind === "medical") {
+      const invalid = validateMedicalAnswers(medical)
+      if (invalid) {
+        setError(invalid)
+        return
+      }
+    }
+
+    setSaving(true)
+    setError(null)
+
+    const key = { event_id: eventId, visitor_id: visitorId, updated_at: new Date().toISOString() }
+    const { error: saveError } = kind === "dietary"
+      ? await supabase.from("dietary_forms").upsert({ ...key, ...dietaryFormValues(dietary) })
+      : await supabase.from("medical_forms").upsert({ ...key, ...medicalFormValues(medical) })
+
+    if (saveError) {
+      setError(`Failed to save your answers: ${saveError.message}`)
+    } else {
+      onSaved()
+      onOpenChange(false)
+    }
+
+    setSaving(false)
+  }
+
+  const text = kind ? TITLES[kind] : null
+
+  return (
+    <Dialog open={!!kind} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{text?.title}</DialogTitle>
+          <DialogDescription>{text?.description}</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            <span className="ml-2 text-muted-foreground">Loading your answers...</span>
+          </div>
+        ) : (
+          <form onSubmit={handleSave} className="flex-1 overflow-auto flex flex-col">
+            <div className="space-y-6 py-4 px-1">
+              {error && (
+                <div className="rounded-md p-3 text-sm bg-destructive/10 text-destructive">{error}</div>
+              )}
+
+              {kind === "dietary" && (
+                <>
+                  <fieldset className="space-y-3">
+                    <legend className="text-sm font-medium mb-2">Dietary restrictions</legend>
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                      {DIETARY_RESTRICTIONS.map((restriction) => (
+                        <label key={restriction} className="flex items-center gap-2 text-sm cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={dietary.restrictions.includes(restriction)}
+                            onChange={() => setDietary({ ...dietary, restrictions: toggleOption(dietary.restrictions, restriction) })}
+                            className={checkboxClassName}
+                          />
+                          {DIETARY_RESTRICTION_LABELS[restriction]}
+                        </label>
+                      ))}
+                    </div>
+                  </fieldset>
+                  <fieldset className="space-y-3">
+                    <legend className="text-sm font-medium mb-2">Food allergies</legend>
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                      {ALLERGENS.map((allergen) => (
+                        <label key={allergen} className="flex items-center gap-2 text-sm cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={dietary.allergens.includes(allergen)}
+                            onChange={() => setDietary({ ...dietary, allergens: toggleOption(dietary.allergens, allergen) })}
+                            className={checkboxClassName}
+                          />
+                          {ALLERGEN_LABELS[allergen]}
+                        </label>
+                      ))}
+                    </div>
+                  </fieldset>
+                  <div className="space-y-2">
+                    <Label htmlFor="allergy_notes">Other food allergies or severity</Label>
+                    <Input
+                      id="allergy_notes"
+                      value={dietary.allergy_notes}
+                      onChange={(e) => setDietary({ ...dietary, allergy_notes: e.target.value })}
+                      placeholder="e.g. severe, airborne exposure"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="dietary_notes">Anything else our kitchen should know</Label>
+                    <Textarea
+                      id="dietary_notes"
+                      value={dietary.notes}
+                      onChange={(e) => setDietary({ ...dietary, notes: e.target.value })}
+                      rows={3}
+                    />
+                  </div>
+                </>
+              )}
+
+              {kind === "medical" && (
+                <>
+                  <fieldset className="space-y-4">
+                    <legend className="text-sm font-medium mb-2">Emergency contact</legend>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="emergency_contact_name">
+                          Name <span className="text-destructive">*</span>
+                        </Label>
+                        <Input
+                          id="emergency_contact_name"
+                          value={medical.emergency_contact_name}
+                          onChange={(e) => setMedical({ ...medical, emergency_contact_name: e.target.value })}
+                          required
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="emergency_contact_phone">
+                          Phone <span className="text-destructive">*</span>
+                        </Label>
+                        <Input
+                          id="emergency_contact_phone"
+                          type="tel"
+                          value={medical.emergency_contact_phone}
+                          onChange={(e) => setMedical({ ...medical, emergency_contact_phone: e.target.value })}
+                          required
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="emergency_contact_relationship">Relationship</Label>
+                        <Input
+                          id="emergency_contact_relationship"
+                          value={medical.emergency_contact_relationship}
+                          onChange={(e) => setMedical({ ...medical, emergency_contact_relationship: e.target.value })}
+                          placeholder="e.g. Spouse"
+                        />
+                      </div>
+                    </div>
+                  </fieldset>
+                  <div className="space-y-2">
+                    <Label htmlFor="allergies">Allergies (medications, insects, other)</Label>
+                    <Input
+                      id="allergies"
+                      value={medical.allergies}
+                      onChange={(e) => setMedical({ ...medical, allergies: e.target.value })}
+                      placeholder="Food allergies go on the Food Preferences form"
+                    />
+                    <label className="flex items-center gap-2 text-sm cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={medical.carries_epinephrine}
+                        onChange={(e) => setMedical({ ...medical, carries_epinephrine: e.target.checked })}
+                        className={checkboxClassName}
+                      />
+                      I carry an epinephrine auto-injector (e.g. EpiPen)
+                    </label>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="medications">Medications</Label>
+                    <Textarea
+                      id="medications"
+                      value={medical.medications}
+                      onChange={(e) => setMedical({ ...medical, medications: e.target.value })}
+                      rows={2}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="conditions">Medical conditions we should know about</Label>
+                    <Textarea
+                      id="conditions"
+                      value={medical.conditions}
+                      onChange={(e) => setMedical({ ...medical, conditions: e.target.value })}
+                      rows={2}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="mobility_needs">Mobility or accessibility needs</Label>
+                    <Textarea
+                      id="mobility_needs"
+                      value={medical.mobility_needs}
+                      onChange={(e) => setMedical({ ...medical, mobility_needs: e.target.value })}
+                      rows={2}
+                      placeholder="e.g. wheelchair access, no stairs, help boarding vehicles"
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    <span className="text-destructive">*</span> Required field
+                  </p>
+                </>
+              )}
+            </div>
+            <DialogFooter className="sm:justify-between gap-2">
+              <Button type="button" variant="ghost" onClick={onViewDocument}>
+                <FileText className="mr-2 h-4 w-4" />
+                {text?.document}
+              </Button>
+              <div className="flex flex-col-reverse sm:flex-row gap-2">
+                <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving}>
+                  {saving ? "Saving..." : "Save Answers"}
+                </Button>
+              </div>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
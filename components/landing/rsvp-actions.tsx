@@ -0,0 +1,78 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { createClient } from "@/lib/supabase/client"
+import { Button } from "@/components/ui/button"
+import { RsvpReasonDialog } from "@/components/rsvp-reason-dialog"
+import { Check, X } from "lucide-react"
+import { allowedTransitions, transitionRsvp, type RsvpChange, type RsvpStatus } from "@/lib/rsvp"
+
+interface RsvpActionsProps {
+  eventId: string
+  visitorId: string
+  status: RsvpStatus
+}
+
+export function RsvpActions({ eventId, visitorId, status }: RsvpActionsProps) {
+  const router = useRouter()
+  const [saving, setSaving] = useState(false)
+  const [declineOpen, setDeclineOpen] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const supabase = createClient()
+  const allowed = allowedTransitions(status, "visitor")
+
+  const respond = async (to: RsvpStatus, change?: RsvpChange) => {
+    setSaving(true)
+    setError(null)
+
+    const { error: transitionError } = await transitionRsvp(supabase, { eventId, visitorId }, to, "visitor", change)
+
+    if (transitionError) {
+      setError(transitionError)
+    } else {
+      setDeclineOpen(false)
+      router.refresh()
+    }
+    setSaving(false)
+  }
+
+  if (allowed.length === 0) return null
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-col sm:flex-row gap-4">
+        {allowed.includes("accepted") && (
+          <Button size="lg" onClick={() => respond("accepted")} disabled={saving}>
+            <Check className="mr-2 h-4 w-4" />
+            Accept Invitation
+          </Button>
+        )}
+        {allowed.includes("declined") && (
+          <Button
+            size="lg"
+            variant="outline"
+            className="border-zinc-400"
+            onClick={() => setDeclineOpen(true)}
+            disabled={saving}
+          >
+            <X className="mr-2 h-4 w-4" />
+            {status === "invited" ? "Decline" : "Cancel My Visit"}
+          </Button>
+        )}
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <RsvpReasonDialog
+        open={declineOpen}
+        onOpenChange={setDeclineOpen}
+        status="declined"
+        title="Decline this visit?"
+        description="Let us know why you can't make it. You can accept again later if your plans change."
+        saving={saving}
+        onSubmit={(change) => respond("declined", change)}
+      />
+    </div>
+  )
+}
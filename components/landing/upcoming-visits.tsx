@@ -0,0 +1,66 @@
+import Link from "next/link"
+import { CalendarDays, CheckCircle2 } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { RSVP_STATUS_LABELS } from "@/lib/rsvp"
+import type { UpcomingVisit } from "@/lib/visits"
+
+interface UpcomingVisitsProps {
+  visits: UpcomingVisit[]
+  selectedEventId: string | null
+}
+
+function formatDateRange(start: string, end: string): string {
+  const format = (value: string) =>
+    new Date(value + "T00:00:00").toLocaleDateString("en-US", { month: "short", day: "numeric" })
+  return start === end ? format(start) : `${format(start)} – ${format(end)}`
+}
+
+// "My upcoming visits": each event the visitor is assigned to, with how
+// many documents and forms are still to complete. Choosing one scopes the
+// rest of the home page to it.
+export function UpcomingVisits({ visits, selectedEventId }: UpcomingVisitsProps) {
+  return (
+    <nav aria-label="My upcoming visits" className="rounded-xl border border-white/20 bg-background/80 p-4 backdrop-blur">
+      <h2 className="mb-3 flex items-center gap-2 text-sm font-semibold uppercase tracking-wide text-white/90">
+        <CalendarDays className="h-4 w-4" />
+        My upcoming visits
+      </h2>
+      <ul className="space-y-2">
+        {visits.map((visit) => {
+          const selected = visit.eventId === selectedEventId
+          return (
+            <li key={visit.eventId}>
+              <Link
+                href={`/?event=${visit.eventId}`}
+                scroll={false}
+                aria-current={selected ? "page" : undefined}
+                className={cn(
+                  "flex items-center justify-between gap-3 rounded-lg border px-3 py-2 transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+                  selected ? "border-primary bg-primary/10" : "border-transparent hover:bg-white/5"
+                )}
+              >
+                <div className="min-w-0">
+                  <p className="truncate font-medium">{visit.name}</p>
+                  <p className="text-sm text-white/70">
+                    {formatDateRange(visit.startDate, visit.endDate)} · {RSVP_STATUS_LABELS[visit.rsvpStatus]}
+                  </p>
+                </div>
+                {visit.outstanding > 0 ? (
+                  <span
+                    className="shrink-0 rounded-full bg-yellow-500 px-2 py-0.5 text-xs font-semibold text-black"
+                    title={`${visit.outstanding} item(s) to complete`}
+                  >
+                    {visit.outstanding}
+                    <span className="sr-only"> item(s) to complete</span>
+                  </span>
+                ) : (
+                  <CheckCircle2 className="h-5 w-5 shrink-0 text-green-500" aria-label="Nothing outstanding" />
+                )}
+              </Link>
+            </li>
+          )
+        })}
+      </ul>
+    </nav>
+  )
+}
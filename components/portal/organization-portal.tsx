@@ -0,0 +1,403 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { createClient } from "@/lib/supabase/client"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { RosterImport } from "@/components/roster-import"
+import { Plus, Download, Loader2, Trash2 } from "lucide-react"
+import { formatDocumentStatus, type PortalData, type PortalVisitor } from "@/lib/portal"
+import { RSVP_STATUS_CLASS_NAMES, RSVP_STATUS_LABELS } from "@/lib/rsvp"
+import { ROSTER_MIME_TYPE, buildRosterTemplate, nextRosterTemplateFilename } from "@/lib/roster"
+import { TRASH_RETENTION_DAYS, moveToTrash } from "@/lib/trash"
+
+const emptyForm = {
+  first_name: "",
+  last_name: "",
+  email: "",
+  phone: "",
+  event_id: "",
+}
+
+const formatDate = (dateStr: string | null) => {
+  if (!dateStr) return ""
+  return new Date(dateStr).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  })
+}
+
+export function OrganizationPortal({ data }: { data: PortalData }) {
+  const { organization, events, visitors } = data
+  const router = useRouter()
+  const supabase = createClient()
+
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [form, setForm] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+
+  const [removingVisitor, setRemovingVisitor] = useState<PortalVisitor | null>(null)
+  const [removing, setRemoving] = useState(false)
+
+  const eventMap = new Map(events.map((e) => [e.id, e]))
+  const assignedCounts = new Map<string, number>()
+  visitors.forEach((v) => v.assignments.forEach((a) => {
+    assignedCounts.set(a.event_id, (assignedCounts.get(a.event_id) || 0) + 1)
+  }))
+
+  const openCreate = () => {
+    setForm(emptyForm)
+    setMessage(null)
+    setDialogOpen(true)
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setMessage(null)
+
+    const { data: newVisitor, error } = await supabase
+      .from("visitors")
+      .insert({
+        first_name: form.first_name,
+        last_name: form.last_name,
+        email: form.email || null,
+        phone: form.phone || null,
+        company_id: organization.id,
+      })
+      .select("id")
+      .single()
+
+    if (error) {
+      setMessage({ type: "error", text: error.message })
+      setSaving(false)
+      return
+    }
+
+    if (form.event_id) {
+      const { error: eventError } = await supabase
+        .from("event_visitors")
+        .insert({ visitor_id: newVisitor.id, event_id: form.event_id, rsvp_status: "invited" })
+
+      if (eventError) {
+        setMessage({ type: "error", text: `Visitor added but event assignment failed: ${eventError.message}` })
+        setSaving(false)
+        router.refresh()
+        return
+      }
+    }
+
+    setSaving(false)
+    setDialogOpen(false)
+    router.refresh()
+  }
+
+  const handleRemove = async () => {
+    if (!removingVisitor) return
+
+    setRemoving(true)
+    setMessage(null)
+
+    const { error } = await moveToTrash(supabase, "visitors", [removingVisitor.id])
+
+    if (error) {
+      setMessage({ type: "error", text: `Failed to remove visitor: ${error.message}` })
+    } else {
+      setRemovingVisitor(null)
+      router.refresh()
+    }
+
+    setRemoving(false)
+  }
+
+  // The template only offers this organization and the events it sponsors
+  const downloadTemplate = async () => {
+    const buffer = await buildRosterTemplate([organization], events)
+    const blob = new Blob([buffer], { type: ROSTER_MIME_TYPE })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = nextRosterTemplateFilename()
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold">{organization.name}</h1>
+          <p className="text-sm text-muted-foreground">Organization Portal</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={downloadTemplate}>
+            <Download className="mr-2 h-4 w-4" />
+            Download Template
+          </Button>
+          <RosterImport
+            organizations={[organization]}
+            events={events}
+            onImported={() => router.refresh()}
+          />
+          <Button onClick={openCreate}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Visitor
+          </Button>
+        </div>
+      </div>
+
+      <h2 className="text-lg font-semibold mb-3">Sponsored Events</h2>
+      {events.length === 0 ? (
+        <p className="text-muted-foreground mb-8">Your organization is not sponsoring any events.</p>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border mb-8">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b bg-muted/50">
+                <th className="px-4 py-3 text-left font-medium">Event</th>
+                <th className="px-4 py-3 text-left font-medium">Dates</th>
+                <th className="px-4 py-3 text-left font-medium">Location</th>
+                <th className="px-4 py-3 text-center font-medium">Visitors</th>
+              </tr>
+            </thead>
+            <tbody>
+              {events.map((event) => (
+                <tr key={event.id} className="border-b last:border-0">
+                  <td className="px-4 py-3 font-medium">{event.name}</td>
+                  <td className="px-4 py-3">
+                    {formatDate(event.start_date)} - {formatDate(event.end_date)}
+                  </td>
+                  <td className="px-4 py-3">{event.location || "—"}</td>
+                  <td className="px-4 py-3 text-center">{assignedCounts.get(event.id) || 0}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <h2 className="text-lg font-semibold mb-3">Visitors</h2>
+      {visitors.length === 0 ? (
+        <p className="text-muted-foreground">No visitors yet. Add them one at a time or upload a roster.</p>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b bg-muted/50">
+                <th className="px-4 py-3 text-left font-medium">Name</th>
+                <th className="px-4 py-3 text-left font-medium">Email</th>
+                <th className="px-4 py-3 text-left font-medium">Phone</th>
+                <th className="px-4 py-3 text-left font-medium">Events and Documents</th>
+                <th className="px-4 py-3 text-right font-medium">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visitors.map((visitor) => (
+                <tr key={visitor.id} className="border-b last:border-0 align-top">
+                  <td className="px-4 py-3 font-medium">
+                    {visitor.first_name} {visitor.last_name}
+                  </td>
+                  <td className="px-4 py-3">{visitor.email || "—"}</td>
+                  <td className="px-4 py-3">{visitor.phone || "—"}</td>
+                  <td className="px-4 py-3">
+                    {visitor.assignments.length === 0 ? (
+                      <span className="text-muted-foreground">Not assigned</span>
+                    ) : (
+                      <ul className="space-y-1">
+                        {visitor.assignments.map((assignment) => (
+                          <li key={assignment.event_id} className="flex flex-wrap items-center gap-2">
+                            <span>{eventMap.get(assignment.event_id)?.name}</span>
+                            <span className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${RSVP_STATUS_CLASS_NAMES[assignment.rsvp_status]}`}>
+                              {RSVP_STATUS_LABELS[assignment.rsvp_status]}
+                            </span>
+                            <span className="text-muted-foreground">
+                              {formatDocumentStatus(assignment.documents)}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => {
+                        setMessage(null)
+                        setRemovingVisitor(visitor)
+                      }}
+                      title="Remove Visitor"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Add Visitor Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Add Visitor</DialogTitle>
+            <DialogDescription>
+              Add a visitor from {organization.name} and optionally assign them to an event.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSave}>
+            <div className="space-y-4 py-4">
+              {message && (
+                <div
+                  className={`rounded-md p-3 text-sm ${
+                    message.type === "success"
+                      ? "bg-green-100 text-green-800"
+                      : "bg-destructive/10 text-destructive"
+                  }`}
+                >
+                  {message.text}
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="first_name">
+                    First Name <span className="text-destructive">*</span>
+                  </Label>
+                  <Input
+                    id="first_name"
+                    value={form.first_name}
+                    onChange={(e) => setForm({ ...form, first_name: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="last_name">
+                    Last Name <span className="text-destructive">*</span>
+                  </Label>
+                  <Input
+                    id="last_name"
+                    value={form.last_name}
+                    onChange={(e) => setForm({ ...form, last_name: e.target.value })}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="email">
+                  Email <span className="text-destructive">*</span>
+                </Label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={form.email}
+                  onChange={(e) => setForm({ ...form, email: e.target.value })}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="phone">Phone</Label>
+                <Input
+                  id="phone"
+                  type="tel"
+                  value={form.phone}
+                  onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="event">Assign to Event</Label>
+                <select
+                  id="event"
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                  value={form.event_id}
+                  onChange={(e) => setForm({ ...form, event_id: e.target.value })}
+                >
+                  <option value="">Select an event (optional)</option>
+                  {events.map((e) => (
+                    <option key={e.id} value={e.id}>
+                      {e.name} ({formatDate(e.start_date)})
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <p className="text-xs text-muted-foreground">
+                <span className="text-destructive">*</span> Required field
+              </p>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Saving..." : "Add Visitor"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Remove Confirmation Dialog */}
+      <Dialog open={!!removingVisitor} onOpenChange={(open) => !open && setRemovingVisitor(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Remove Visitor</DialogTitle>
+            <p className="text-sm text-white/90">
+              Are you sure you want to remove {removingVisitor?.first_name} {removingVisitor?.last_name}?
+              They will be taken off every event. An administrator can restore them
+              within {TRASH_RETENTION_DAYS} days.
+            </p>
+          </DialogHeader>
+          {message && (
+            <div className="rounded-md p-3 text-sm bg-destructive/10 text-destructive">
+              {message.text}
+            </div>
+          )}
+          <DialogFooter className="justify-center sm:justify-center gap-4">
+            <Button
+              variant="outline"
+              onClick={() => setRemovingVisitor(null)}
+              disabled={removing}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleRemove}
+              disabled={removing}
+            >
+              {removing ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Removing...
+                </>
+              ) : (
+                "Remove"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,299 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { createClient } from "@/lib/supabase/client"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Upload, Loader2 } from "lucide-react"
+import {
+  RosterFormatError,
+  commitRosterImport,
+  findExistingVisitors,
+  formatRosterEventLabel,
+  parseRoster,
+  stageRosterRows,
+  type RosterAction,
+  type RosterError,
+  type RosterEvent,
+  type RosterImportSummary,
+  type RosterOrganization,
+  type StagedRosterRow,
+} from "@/lib/roster"
+
+interface RosterImportProps {
+  organizations: RosterOrganization[]
+  events: RosterEvent[]
+  onImported: () => void
+}
+
+const ACTION_LABELS: Record<RosterAction, string> = {
+  create: "Create new",
+  update: "Update existing",
+  skip: "Skip",
+}
+
+// Upload button and preview for a visitor roster. Nothing is written until
+// the uploader has reviewed every row and confirmed the import.
+export function RosterImport({ organizations, events, onImported }: RosterImportProps) {
+  const supabase = createClient()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [open, setOpen] = useState(false)
+  const [parsing, setParsing] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const [rows, setRows] = useState<StagedRosterRow[]>([])
+  const [invalidRows, setInvalidRows] = useState<RosterError[]>([])
+  const [summary, setSummary] = useState<RosterImportSummary | null>(null)
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+
+  const orgNames = new Map(organizations.map((o) => [o.id, o.name]))
+  const eventLabels = new Map(events.map((e) => [e.id, formatRosterEventLabel(e)]))
+  const counts = { create: 0, update: 0, skip: 0 }
+  rows.forEach((r) => counts[r.action]++)
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    // Reset file input so same file can be selected again
+    event.target.value = ""
+
+    setParsing(true)
+    setRows([])
+    setInvalidRows([])
+    setSummary(null)
+    setMessage(null)
+
+    try {
+      const parsed = await parseRoster(await file.arrayBuffer(), organizations, events)
+      const { visitors, error } = await findExistingVisitors(supabase, parsed.rows)
+      if (error) {
+        setMessage({ type: "error", text: `Failed to check for existing visitors: ${error.message}` })
+      } else {
+        setRows(stageRosterRows(parsed.rows, visitors))
+        setInvalidRows(parsed.errors)
+        if (parsed.total === 0) {
+          setMessage({ type: "error", text: "The file has no visitor rows." })
+        }
+      }
+    } catch (err) {
+      if (!(err instanceof RosterFormatError)) console.error("Error processing file:", err)
+      setMessage({
+        type: "error",
+        text: err instanceof RosterFormatError
+          ? err.message
+          : "Failed to read the file. Please ensure it is a valid Excel (.xlsx) file.",
+      })
+    }
+
+    setParsing(false)
+    setOpen(true)
+  }
+
+  const setAction = (row: number, action: RosterAction) => {
+    setRows((prev) => prev.map((r) => (r.row === row ? { ...r, action } : r)))
+  }
+
+  const handleImport = async () => {
+    setImporting(true)
+    setMessage(null)
+
+    const { summary, error } = await commitRosterImport(supabase, rows)
+
+    if (error) {
+      setMessage({ type: "error", text: `Nothing was imported. ${error.message}` })
+    } else {
+      setSummary(summary)
+      setMessage({ type: "success", text: "Import complete" })
+      onImported()
+    }
+
+    setImporting(false)
+  }
+
+  const describeMatch = (row: StagedRosterRow) => {
+    if (!row.match) return "New visitor"
+    const name = `${row.match.first_name} ${row.match.last_name}`
+    return row.matchedBy === "email"
+      ? `Email matches ${name}`
+      : `Name matches ${name}${row.match.email ? ` (${row.match.email})` : ""}`
+  }
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".xlsx"
+        onChange={handleFileChange}
+        className="hidden"
+      />
+      <Button
+        variant="outline"
+        onClick={() => inputRef.current?.click()}
+        disabled={parsing}
+      >
+        {parsing ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Processing...
+          </>
+        ) : (
+          <>
+            <Upload className="mr-2 h-4 w-4" />
+            Upload Visitors
+          </>
+        )}
+      </Button>
+
+      <Dialog open={open} onOpenChange={(isOpen) => !importing && setOpen(isOpen)}>
+        <DialogContent className="sm:max-w-5xl max-h-[85vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>{summary ? "Import Results" : "Review Import"}</DialogTitle>
+            <DialogDescription>
+              {summary
+                ? "The roster has been imported."
+                : "Nothing has been saved yet. Choose what to do with each row, then import them all at once."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex-1 overflow-hidden flex flex-col gap-4 py-4">
+            {message && (
+              <div
+                className={`rounded-md p-3 text-sm ${
+                  message.type === "success"
+                    ? "bg-green-100 text-green-800"
+                    : "bg-destructive/10 text-destructive"
+                }`}
+              >
+                {message.text}
+              </div>
+            )}
+
+            {summary ? (
+              <div className="grid grid-cols-3 gap-4">
+                <div className="text-center p-3 rounded-lg bg-white/10">
+                  <p className="text-2xl font-bold">{summary.created}</p>
+                  <p className="text-sm text-white/90">Visitors Created</p>
+                </div>
+                <div className="text-center p-3 rounded-lg bg-white/10">
+                  <p className="text-2xl font-bold">{summary.updated}</p>
+                  <p className="text-sm text-white/90">Visitors Updated</p>
+                </div>
+                <div className="text-center p-3 rounded-lg bg-white/10">
+                  <p className="text-2xl font-bold">{summary.assigned}</p>
+                  <p className="text-sm text-white/90">Event Assignments</p>
+                </div>
+              </div>
+            ) : (rows.length > 0 || invalidRows.length > 0) && (
+              <>
+                <div className="grid grid-cols-4 gap-4">
+                  <div className="text-center p-3 rounded-lg bg-white/10">
+                    <p className="text-2xl font-bold">{counts.create}</p>
+                    <p className="text-sm text-white/90">To Create</p>
+                  </div>
+                  <div className="text-center p-3 rounded-lg bg-white/10">
+                    <p className="text-2xl font-bold">{counts.update}</p>
+                    <p className="text-sm text-white/90">To Update</p>
+                  </div>
+                  <div className="text-center p-3 rounded-lg bg-white/10">
+                    <p className="text-2xl font-bold">{counts.skip}</p>
+                    <p className="text-sm text-white/90">To Skip</p>
+                  </div>
+                  <div className="text-center p-3 rounded-lg bg-white/10">
+                    <p className="text-2xl font-bold">{invalidRows.length}</p>
+                    <p className="text-sm text-white/90">Invalid</p>
+                  </div>
+                </div>
+
+                <div className="flex-1 overflow-auto rounded-lg border bg-white text-black">
+                  <table className="w-full text-sm">
+                    <thead className="sticky top-0 bg-gray-100">
+                      <tr className="border-b">
+                        <th className="px-4 py-3 text-left font-medium">Row</th>
+                        <th className="px-4 py-3 text-left font-medium">Name</th>
+                        <th className="px-4 py-3 text-left font-medium">Email</th>
+                        <th className="px-4 py-3 text-left font-medium">Organization</th>
+                        <th className="px-4 py-3 text-left font-medium">Event</th>
+                        <th className="px-4 py-3 text-left font-medium">Existing Visitor</th>
+                        <th className="px-4 py-3 text-left font-medium">Action</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {[
+                        ...rows.map((row) => ({ row: row.row, staged: row, error: null })),
+                        ...invalidRows.map((error) => ({ row: error.row, staged: null, error })),
+                      ]
+                        .sort((a, b) => a.row - b.row)
+                        .map(({ row, staged, error }) => staged ? (
+                          <tr key={row}>
+                            <td className="px-4 py-3">{row}</td>
+                            <td className="px-4 py-3 font-medium">{staged.firstName} {staged.lastName}</td>
+                            <td className="px-4 py-3">{staged.email}</td>
+                            <td className="px-4 py-3">{orgNames.get(staged.companyId)}</td>
+                            <td className="px-4 py-3">{eventLabels.get(staged.eventId)}</td>
+                            <td className="px-4 py-3">
+                              {describeMatch(staged)}
+                              {staged.duplicateOfRow && (
+                                <p className="text-xs text-gray-500">Same visitor as row {staged.duplicateOfRow}</p>
+                              )}
+                            </td>
+                            <td className="px-4 py-3">
+                              <select
+                                aria-label={`Action for row ${row}`}
+                                className="h-9 rounded-md border border-gray-300 bg-white px-2 text-sm"
+                                value={staged.action}
+                                onChange={(e) => setAction(row, e.target.value as RosterAction)}
+                                disabled={importing}
+                              >
+                                {(["create", "update", "skip"] as const).map((action) => (
+                                  <option key={action} value={action} disabled={action === "update" && !staged.match}>
+                                    {ACTION_LABELS[action]}
+                                  </option>
+                                ))}
+                              </select>
+                            </td>
+                          </tr>
+                        ) : error && (
+                          <tr key={row} className="bg-red-50">
+                            <td className="px-4 py-3">{row}</td>
+                            <td className="px-4 py-3 font-medium">{error.firstName} {error.lastName}</td>
+                            <td colSpan={4} className="px-4 py-3 text-red-600">{error.reason}</td>
+                            <td className="px-4 py-3 text-gray-500">Skipped</td>
+                          </tr>
+                        ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)} disabled={importing}>
+              {summary ? "Close" : "Cancel"}
+            </Button>
+            {!summary && rows.length > 0 && (
+              <Button onClick={handleImport} disabled={importing || counts.create + counts.update === 0}>
+                {importing ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Importing...
+                  </>
+                ) : (
+                  `Import ${counts.create + counts.update} Row${counts.create + counts.update !== 1 ? "s" : ""}`
+                )}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,105 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { RSVP_ACTION_LABELS, RSVP_REASONS, type RsvpChange, type RsvpStatus } from "@/lib/rsvp"
+
+interface RsvpReasonDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  status: RsvpStatus | null
+  title: string
+  description: string
+  saving?: boolean
+  onSubmit: (change: RsvpChange) => void
+}
+
+// Asks for a reason code (and optional note) before a transition into a
+// status that records one.
+export function RsvpReasonDialog({
+  open,
+  onOpenChange,
+  status,
+  title,
+  description,
+  saving = false,
+  onSubmit,
+}: RsvpReasonDialogProps) {
+  const reasons = status ? RSVP_REASONS[status] || [] : []
+  const [reason, setReason] = useState("")
+  const [note, setNote] = useState("")
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setReason("")
+      setNote("")
+    }
+    onOpenChange(isOpen)
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onSubmit({ reason: reason || null, note: note.trim() || null })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            {reasons.length > 0 && (
+              <div className="grid gap-2">
+                <Label htmlFor="rsvp_reason">Reason</Label>
+                <select
+                  id="rsvp_reason"
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  required
+                >
+                  <option value="">Select a reason</option>
+                  {reasons.map((r) => (
+                    <option key={r.code} value={r.code}>
+                      {r.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div className="grid gap-2">
+              <Label htmlFor="rsvp_note">Note (optional)</Label>
+              <Textarea
+                id="rsvp_note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                rows={3}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              Back
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving ? "Saving..." : status ? RSVP_ACTION_LABELS[status] : "Save"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
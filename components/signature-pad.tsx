@@ -0,0 +1,186 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { SIGNATURE_METHODS, SIGNATURE_METHOD_LABELS, type SignatureMethod } from "@/lib/signatures"
+
+export interface SignatureValue {
+  method: SignatureMethod
+  name: string
+  /** PNG data URL of the signature, null until there is one */
+  image: string | null
+}
+
+interface SignaturePadProps {
+  defaultName?: string
+  disabled?: boolean
+  onChange: (value: SignatureValue) => void
+}
+
+const PAD_WIDTH = 600
+const PAD_HEIGHT = 160
+const INK = "#111827"
+
+// A typed signature is stored as an image too, so both kinds are kept and
+// shown the same way
+const renderTypedSignature = (name: string) => {
+  if (!name.trim()) return null
+
+  const canvas = document.createElement("canvas")
+  canvas.width = PAD_WIDTH
+  canvas.height = PAD_HEIGHT
+  const context = canvas.getContext("2d")
+  if (!context) return null
+
+  context.fillStyle = INK
+  context.font = "italic 48px 'Brush Script MT', 'Segoe Script', cursive"
+  context.textAlign = "center"
+  context.textBaseline = "middle"
+  context.fillText(name.trim(), PAD_WIDTH / 2, PAD_HEIGHT / 2, PAD_WIDTH - 40)
+  return canvas.toDataURL("image/png")
+}
+
+// Captures a signature as the visitor's typed full name or drawn with a
+// mouse, pen or finger. Both ask for the full name, which is recorded with
+// the signature.
+export function SignaturePad({ defaultName = "", disabled = false, onChange }: SignaturePadProps) {
+  const [method, setMethod] = useState<SignatureMethod>("typed")
+  const [name, setName] = useState(defaultName)
+  const [drawnImage, setDrawnImage] = useState<string | null>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const drawingRef = useRef(false)
+
+  const emit = (next: { method?: SignatureMethod; name?: string; drawnImage?: string | null }) => {
+    const nextMethod = next.method ?? method
+    const nextName = next.name ?? name
+    const nextDrawn = next.drawnImage !== undefined ? next.drawnImage : drawnImage
+    onChange({
+      method: nextMethod,
+      name: nextName,
+      image: nextMethod === "typed" ? renderTypedSignature(nextName) : nextDrawn,
+    })
+  }
+
+  const handleMethodChange = (next: SignatureMethod) => {
+    // The canvas starts blank each time it's shown
+    setMethod(next)
+    setDrawnImage(null)
+    emit({ method: next, drawnImage: null })
+  }
+
+  const handleNameChange = (next: string) => {
+    setName(next)
+    emit({ name: next })
+  }
+
+  const pointFor = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * PAD_WIDTH,
+      y: ((e.clientY - rect.top) / rect.height) * PAD_HEIGHT,
+    }
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = e.currentTarget.getContext("2d")
+    if (disabled || !context) return
+
+    e.currentTarget.setPointerCapture(e.pointerId)
+    drawingRef.current = true
+    const { x, y } = pointFor(e)
+    context.strokeStyle = INK
+    context.lineWidth = 3
+    context.lineCap = "round"
+    context.lineJoin = "round"
+    context.beginPath()
+    context.moveTo(x, y)
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = e.currentTarget.getContext("2d")
+    if (!drawingRef.current || !context) return
+
+    const { x, y } = pointFor(e)
+    context.lineTo(x, y)
+    context.stroke()
+  }
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return
+
+    drawingRef.current = false
+    const image = e.currentTarget.toDataURL("image/png")
+    setDrawnImage(image)
+    emit({ drawnImage: image })
+  }
+
+  const clearDrawing = () => {
+    const canvas = canvasRef.current
+    canvas?.getContext("2d")?.clearRect(0, 0, PAD_WIDTH, PAD_HEIGHT)
+    setDrawnImage(null)
+    emit({ drawnImage: null })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2" role="radiogroup" aria-label="Signature method">
+        {SIGNATURE_METHODS.map((option) => (
+          <Button
+            key={option}
+            type="button"
+            size="sm"
+            variant={method === option ? "default" : "outline"}
+            role="radio"
+            aria-checked={method === option}
+            disabled={disabled}
+            onClick={() => handleMethodChange(option)}
+          >
+            {SIGNATURE_METHOD_LABELS[option]}
+          </Button>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="signer-name">Full name</Label>
+        <Input
+          id="signer-name"
+          value={name}
+          autoComplete="name"
+          disabled={disabled}
+          onChange={(e) => handleNameChange(e.target.value)}
+        />
+      </div>
+
+      {method === "typed" ? (
+        <div
+          className="flex h-24 items-center justify-center rounded-md border bg-white px-4 text-4xl italic text-gray-900"
+          style={{ fontFamily: "'Brush Script MT', 'Segoe Script', cursive" }}
+          aria-live="polite"
+        >
+          {name.trim() || <span className="text-base not-italic text-gray-400">Your signature appears here</span>}
+        </div>
+      ) : (
+        <div className="space-y-1">
+          <canvas
+            ref={canvasRef}
+            width={PAD_WIDTH}
+            height={PAD_HEIGHT}
+            className="h-28 w-full touch-none rounded-md border bg-white"
+            aria-label="Signature drawing area"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          />
+          <div className="flex justify-end">
+            <Button type="button" size="sm" variant="ghost" disabled={disabled || !drawnImage} onClick={clearDrawing}>
+              Clear
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,109 @@
+import type { ExportData } from "@/lib/reports/export/shared"
+
+// Event agendas: sessions with a date, local start and end times, a place
+// on the ranch and a host. Shared by the admin agenda page, its exports and
+// the visitor's itinerary.
+
+export interface AgendaSession {
+  id: string
+  title: string
+  description: string | null
+  session_date: string
+  start_time: string
+  end_time: string | null
+  location: string | null
+  host: string | null
+}
+
+export interface AgendaDay<T extends AgendaSession = AgendaSession> {
+  date: string
+  sessions: T[]
+}
+
+/** Sessions grouped by day, each day and its sessions in running order */
+export function groupSessionsByDay<T extends AgendaSession>(sessions: T[]): AgendaDay<T>[] {
+  const sorted = [...sessions].sort(
+    (a, b) => a.session_date.localeCompare(b.session_date) || a.start_time.localeCompare(b.start_time)
+  )
+
+  const days: AgendaDay<T>[] = []
+  sorted.forEach((session) => {
+    const day = days[days.length - 1]
+    if (day?.date === session.session_date) {
+      day.sessions.push(session)
+    } else {
+      days.push({ date: session.session_date, sessions: [session] })
+    }
+  })
+  return days
+}
+
+/** `14:30:00` as `2:30 PM` */
+export function formatSessionTime(time: string) {
+  const [hours, minutes] = time.split(":").map(Number)
+  const period = hours < 12 ? "AM" : "PM"
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, "0")} ${period}`
+}
+
+/** A session's time span, or just its start when it has no set end */
+export function formatSessionTimes(session: Pick<AgendaSession, "start_time" | "end_time">) {
+  const start = formatSessionTime(session.start_time)
+  return session.end_time ? `${start} – ${formatSessionTime(session.end_time)}` : start
+}
+
+/** `2026-10-24` as `Saturday, October 24` */
+export function formatAgendaDay(date: string) {
+  return new Date(date + "T00:00:00").toLocaleDateString("en-US", {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+  })
+}
+
+/**
+ * Checks a session before saving. Returns a message for the first problem,
+ * or null when it's valid. Times compare as strings, so they must be
+ * zero-padded 24-hour times as time inputs produce.
+ */
+export function validateSession(
+  session: Pick<AgendaSession, "title" | "session_date" | "start_time" | "end_time">,
+  event?: { start_date: string | null; end_date: string | null }
+): string | null {
+  if (!session.title.trim()) return "Enter a title for the session."
+  if (!session.session_date) return "Choose the day of the session."
+  if (!session.start_time) return "Enter a start time."
+  if (session.end_time && session.end_time <= session.start_time) {
+    return "The session must end after it starts."
+  }
+  if (
+    (event?.start_date && session.session_date < event.start_date) ||
+    (event?.end_date && session.session_date > event.end_date)
+  ) {
+    return "The session must fall within the event's dates."
+  }
+  return null
+}
+
+/** The agenda as rows for the report exporters */
+export function agendaExportData(sessions: AgendaSession[]): ExportData {
+  return {
+    columns: [
+      { key: "day", label: "Day" },
+      { key: "time", label: "Time" },
+      { key: "title", label: "Session" },
+      { key: "location", label: "Location" },
+      { key: "host", label: "Host" },
+      { key: "description", label: "Description" },
+    ],
+    data: groupSessionsByDay(sessions).flatMap((day) =>
+      day.sessions.map((session) => ({
+        day: formatAgendaDay(day.date),
+        time: formatSessionTimes(session),
+        title: session.title,
+        location: session.location,
+        host: session.host,
+        description: session.description,
+      }))
+    ),
+  }
+}
@@ -0,0 +1,96 @@
+// Audit log entries are written by the record_audit trigger; this module
+// only describes and formats them for the audit page.
+
+export type AuditAction = "insert" | "update" | "delete"
+
+export interface AuditEntry {
+  id: number
+  occurred_at: string
+  actor_id: string | null
+  actor_email: string | null
+  table_name: string
+  row_id: string
+  row_label: string | null
+  action: AuditAction
+  old_values: Record<string, unknown> | null
+  new_values: Record<string, unknown> | null
+  changed_fields: string[] | null
+}
+
+export interface AuditChange {
+  field: string
+  before: unknown
+  after: unknown
+}
+
+export const AUDITED_TABLES: Record<string, string> = {
+  visitors: "Visitors",
+  events: "Events",
+  companies: "Organizations",
+  event_visitors: "Event Assignments",
+  event_sessions: "Agenda Sessions",
+  dietary_forms: "Dietary Forms",
+  documents: "Documents",
+  document_versions: "Document Versions",
+  document_events: "Document Assignments",
+  document_types: "Document Types",
+  forms: "Forms",
+  form_events: "Form Assignments",
+}
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  insert: "Created",
+  update: "Updated",
+  delete: "Deleted",
+}
+
+/** Bookkeeping columns that change on every write and add nothing to a diff */
+const IGNORED_FIELDS = new Set(["updated_at"])
+
+/**
+ * Field-level changes for an entry. Inserts list every field as added and
+ * deletes every field as removed, so a deleted row can be reconstructed.
+ */
+export function getAuditChanges(entry: Pick<AuditEntry, "action" | "old_values" | "new_values" | "changed_fields">): AuditChange[] {
+  const before = entry.old_values || {}
+  const after = entry.new_values || {}
+
+  const fields = entry.action === "update"
+    ? entry.changed_fields || Object.keys({ ...before, ...after }).filter((key) =>
+      JSON.stringify(before[key]) !== JSON.stringify(after[key])
+    )
+    : Object.keys(entry.action === "insert" ? after : before)
+
+  return fields
+    .filter((field) => !IGNORED_FIELDS.has(field))
+    .sort()
+    .map((field) => ({
+      field,
+      before: entry.action === "insert" ? undefined : before[field],
+      after: entry.action === "delete" ? undefined : after[field],
+    }))
+}
+
+/** Soft deletes and restores are updates of deleted_at; name them as such */
+export function getAuditActionLabel(entry: Pick<AuditEntry, "action" | "new_values" | "changed_fields">): string {
+  if (entry.action === "update" && entry.changed_fields?.includes("deleted_at")) {
+    return entry.new_values?.deleted_at ? "Moved to Trash" : "Restored"
+  }
+  return AUDIT_ACTION_LABELS[entry.action]
+}
+
+export function formatAuditValue(value: unknown): string {
+  if (value === undefined) return ""
+  if (value === null) return "—"
+  if (typeof value === "object") return JSON.stringify(value)
+  return String(value)
+}
+
+/** PostgREST `or` filter matching the row label, row id or actor email */
+export function buildAuditSearchFilter(term: string): string | null {
+  if (!term) return null
+  const escaped = term.replace(/[\\"]/g, "\\$&")
+  return ["row_label", "row_id", "actor_email"]
+    .map((column) => `${column}.ilike."*${escaped}*"`)
+    .join(",")
+}
@@ -0,0 +1,50 @@
+import { redirect } from "next/navigation"
+import { createClient } from "@/lib/supabase/server"
+import { canAccess, getHomePath, isStaffRole, type AccessLevel, type AdminArea } from "@/lib/roles"
+
+/**
+ * Returns the server Supabase client, user and role when the current
+ * session belongs to a staff member, or null otherwise.
+ */
+export async function getStaffContext() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) return null
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("security_group")
+    .eq("id", user.id)
+    .single()
+
+  const role = profile?.security_group
+  if (!isStaffRole(role)) return null
+
+  return { supabase, user, role }
+}
+
+/**
+ * Returns the staff context when the current session may use an admin
+ * area, or null otherwise. Without an area only full admins pass. Used by
+ * route handlers, which cannot rely on the redirects in the admin layouts.
+ */
+export async function getAdminContext(area?: AdminArea, level: AccessLevel = "read") {
+  const context = await getStaffContext()
+  if (!context) return null
+
+  const allowed = area ? canAccess(context.role, area, level) : context.role === "admin"
+  return allowed ? context : null
+}
+
+/** Used by the admin area layouts: sends anyone without access elsewhere */
+export async function requireAreaAccess(area: AdminArea) {
+  const context = await getStaffContext()
+  if (!context) redirect("/")
+
+  if (!canAccess(context.role, area)) {
+    redirect(getHomePath(context.role))
+  }
+
+  return context
+}
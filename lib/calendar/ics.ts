@@ -0,0 +1,218 @@
+import type { AgendaSession } from "@/lib/agenda"
+
+// iCalendar (RFC 5545) files for events and visitor itineraries. Events are
+// all-day entries across their dates; agenda sessions are timed entries,
+// converted from the ranch's local time to UTC so they show at the right
+// time wherever the visitor's calendar is set.
+
+/** Agenda times are wall-clock times at the ranch */
+export const RANCH_TIME_ZONE = "America/Denver"
+
+const PRODUCT_ID = "-//West Creek Ranch//Visitor Portal//EN"
+const UID_DOMAIN = "westcreekranch"
+
+/** A calendar day (`2026-10-24`) or an exact instant */
+export type CalendarTime = { date: string } | { dateTime: Date }
+
+export interface CalendarEntry {
+  uid: string
+  summary: string
+  start: CalendarTime
+  /** Exclusive: an all-day entry ends on the day after its last day */
+  end?: CalendarTime
+  description?: string | null
+  location?: string | null
+  url?: string
+  /** Shown struck through or dropped by calendar apps */
+  cancelled?: boolean
+}
+
+export interface CalendarEvent {
+  id: string
+  name: string
+  description: string | null
+  location: string | null
+  start_date: string | null
+  end_date: string | null
+}
+
+/** Escapes TEXT values: backslashes, commas, semicolons and newlines */
+export function escapeText(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n")
+}
+
+const encoder = new TextEncoder()
+
+/**
+ * Folds a content line so no line is longer than 75 octets, continuing on
+ * lines that start with a space. Never splits a multi-byte character.
+ */
+export function foldLine(line: string) {
+  const lines: string[] = []
+  let current = ""
+  let octets = 0
+
+  for (const char of line) {
+    const size = encoder.encode(char).length
+    // Continuation lines spend one octet on the leading space
+    const limit = lines.length === 0 ? 75 : 74
+    if (octets + size > limit) {
+      lines.push(current)
+      current = ""
+      octets = 0
+    }
+    current += char
+    octets += size
+  }
+  lines.push(current)
+
+  return lines.join("\r\n ")
+}
+
+const formatDate = (date: string) => date.replace(/-/g, "")
+
+const formatDateTime = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")
+
+const nextDay = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number)
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10)
+}
+
+function formatTime(name: string, time: CalendarTime) {
+  return "date" in time
+    ? `${name};VALUE=DATE:${formatDate(time.date)}`
+    : `${name}:${formatDateTime(time.dateTime)}`
+}
+
+/** How far ahead of UTC the time zone is at an instant, in milliseconds */
+function zoneOffset(instant: Date, timeZone: string) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    })
+      .formatToParts(instant)
+      .map((part) => [part.type, Number(part.value)])
+  )
+  const local = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second)
+  return local - Math.floor(instant.getTime() / 1000) * 1000
+}
+
+/**
+ * The instant a wall-clock time on a day occurs in a time zone, e.g.
+ * `2026-10-24` `09:00:00` in America/Denver is 15:00 UTC.
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string) {
+  const [year, month, day] = date.split("-").map(Number)
+  const [hours, minutes] = time.split(":").map(Number)
+  const asUtc = Date.UTC(year, month - 1, day, hours, minutes)
+
+  // The offset at the guess can differ from the offset at the answer when
+  // a daylight saving change falls between them
+  const offset = zoneOffset(new Date(asUtc), timeZone)
+  const corrected = zoneOffset(new Date(asUtc - offset), timeZone)
+  return new Date(asUtc - corrected)
+}
+
+/**
+ * An event as an all-day entry across its dates. Events without a start
+ * date can't be placed on a calendar.
+ */
+export function eventEntry(
+  event: CalendarEvent,
+  options: { cancelled?: boolean; url?: string } = {}
+): CalendarEntry | null {
+  if (!event.start_date) return null
+
+  return {
+    uid: `event-${event.id}@${UID_DOMAIN}`,
+    summary: event.name,
+    start: { date: event.start_date },
+    end: { date: nextDay(event.end_date || event.start_date) },
+    description: event.description,
+    location: event.location,
+    ...options,
+  }
+}
+
+/** An agenda session as a timed entry within its event */
+export function sessionEntry(
+  session: AgendaSession,
+  event: Pick<CalendarEvent, "name">,
+  timeZone: string = RANCH_TIME_ZONE
+): CalendarEntry {
+  const description = [
+    session.description,
+    session.host && `Host: ${session.host}`,
+    `Part of ${event.name}`,
+  ].filter(Boolean).join("\n\n")
+
+  return {
+    uid: `session-${session.id}@${UID_DOMAIN}`,
+    summary: session.title,
+    start: { dateTime: zonedTimeToUtc(session.session_date, session.start_time, timeZone) },
+    end: session.end_time
+      ? { dateTime: zonedTimeToUtc(session.session_date, session.end_time, timeZone) }
+      : undefined,
+    description,
+    location: session.location,
+  }
+}
+
+/**
+ * A complete VCALENDAR. Subscription feeds ask calendar apps to check back
+ * hourly so agenda changes reach visitors.
+ */
+export function buildCalendar({
+  name,
+  entries,
+  now = new Date(),
+  subscription = false,
+}: {
+  name: string
+  entries: CalendarEntry[]
+  now?: Date
+  subscription?: boolean
+}) {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ]
+
+  if (subscription) {
+    lines.push("REFRESH-INTERVAL;VALUE=DURATION:PT1H", "X-PUBLISHED-TTL:PT1H")
+  }
+
+  entries.forEach((entry) => {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${entry.uid}`,
+      `DTSTAMP:${formatDateTime(now)}`,
+      formatTime("DTSTART", entry.start)
+    )
+    if (entry.end) lines.push(formatTime("DTEND", entry.end))
+    lines.push(`SUMMARY:${escapeText(entry.summary)}`)
+    if (entry.description) lines.push(`DESCRIPTION:${escapeText(entry.description)}`)
+    if (entry.location) lines.push(`LOCATION:${escapeText(entry.location)}`)
+    if (entry.url) lines.push(`URL:${entry.url}`)
+    lines.push(`STATUS:${entry.cancelled ? "CANCELLED" : "CONFIRMED"}`, "END:VEVENT")
+  })
+
+  lines.push("END:VCALENDAR")
+
+  return lines.map(foldLine).join("\r\n") + "\r\n"
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server"
+
+/**
+ * A calendar file named after `name`. Feeds are served inline so calendar
+ * apps subscribing to them aren't handed a download, and never cached by
+ * the browser or CDN since they change with the agenda.
+ */
+export function calendarResponse(ics: string, name: string, { download = true }: { download?: boolean } = {}) {
+  const filename = `${name.replace(/[^\w\s-]/g, "").trim().replace(/\s+/g, "_") || "calendar"}.ics`
+  return new NextResponse(ics, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `${download ? "attachment" : "inline"}; filename="${filename}"`,
+      "Cache-Control": "private, no-store",
+    },
+  })
+}
@@ -0,0 +1,99 @@
+import { randomBytes } from "node:crypto"
+import { listSessionsForEvents, type DbClient } from "@/lib/db"
+import { isRsvpStatus, type RsvpStatus } from "@/lib/rsvp"
+import { eventEntry, sessionEntry, type CalendarEntry, type CalendarEvent } from "./ics"
+
+// Never import this from client components. Expects a service role client:
+// calendar_feeds is not writable by users, and feeds are fetched by
+// calendar apps without a session.
+
+/** Visits the visitor isn't coming to stay on the calendar, marked cancelled */
+const CANCELLED_STATUSES: RsvpStatus[] = ["declined", "cancelled"]
+
+/**
+ * The visitor's calendar feed token, created the first time it's asked
+ * for. Resetting replaces it, so any URL shared before stops working.
+ */
+export async function getCalendarFeedToken(
+  supabase: DbClient,
+  visitorId: string,
+  { reset = false }: { reset?: boolean } = {}
+): Promise<string> {
+  if (!reset) {
+    const { data: feed, error } = await supabase
+      .from("calendar_feeds")
+      .select("token")
+      .eq("visitor_id", visitorId)
+      .maybeSingle()
+
+    if (error) throw error
+    if (feed) return feed.token
+  }
+
+  const token = randomBytes(24).toString("base64url")
+  const { error } = await supabase
+    .from("calendar_feeds")
+    .upsert({
+      visitor_id: visitorId,
+      token,
+      created_at: new Date().toISOString(),
+    }, {
+      onConflict: "visitor_id",
+    })
+
+  if (error) throw error
+
+  return token
+}
+
+/**
+ * Entries for every event the feed's visitor is assigned to, with the
+ * agenda sessions of those they're still coming to. Returns null for an
+ * unknown token or a visitor in the trash.
+ */
+export async function loadCalendarFeed(
+  supabase: DbClient,
+  token: string,
+  origin: string
+): Promise<CalendarEntry[] | null> {
+  const { data: feed, error: feedError } = await supabase
+    .from("calendar_feeds")
+    .select("visitor_id, visitor:visitors!inner(deleted_at)")
+    .eq("token", token)
+    .is("visitor.deleted_at", null)
+    .maybeSingle()
+
+  if (feedError) throw feedError
+  if (!feed) return null
+
+  const { data: assignments, error } = await supabase
+    .from("event_visitors")
+    .select("rsvp_status, event:events!inner(id, name, description, location, start_date, end_date)")
+    .eq("visitor_id", feed.visitor_id)
+    .is("event.deleted_at", null)
+
+  if (error) throw error
+
+  const entries: CalendarEntry[] = []
+  const attending = new Map<string, CalendarEvent>()
+
+  for (const assignment of assignments || []) {
+    const { event, rsvp_status } = assignment
+    const cancelled = isRsvpStatus(rsvp_status) && CANCELLED_STATUSES.includes(rsvp_status)
+    const entry = eventEntry(event, { cancelled, url: `${origin}/?event=${event.id}` })
+    if (!entry) continue
+
+    entries.push(entry)
+    if (!cancelled) attending.set(event.id, event)
+  }
+
+  const { rows: sessions, error: sessionsError } = await listSessionsForEvents(supabase, [...attending.keys()])
+  if (sessionsError) throw sessionsError
+
+  sessions.forEach((session) => {
+    const event = attending.get(session.event_id)
+    if (event) entries.push(sessionEntry(session, event))
+  })
+
+  return entries
+}
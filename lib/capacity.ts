@@ -0,0 +1,37 @@
+import { holdsPlace } from "@/lib/rsvp"
+
+export interface CapacitySummary {
+  /** null when the event has no limit */
+  capacity: number | null
+  /** Invited, accepted and confirmed visitors */
+  taken: number
+  /** Places left, or null when the event has no limit */
+  remaining: number | null
+  waitlisted: number
+  isFull: boolean
+}
+
+export function summarizeCapacity(capacity: number | null, statuses: (string | null)[]): CapacitySummary {
+  return summarizeCapacityCounts(
+    capacity,
+    statuses.filter(holdsPlace).length,
+    statuses.filter((status) => status === "waitlisted").length
+  )
+}
+
+/** The same summary from counts already made, e.g. by the admin_event_list view */
+export function summarizeCapacityCounts(capacity: number | null, taken: number, waitlisted: number): CapacitySummary {
+  const remaining = capacity === null ? null : Math.max(capacity - taken, 0)
+
+  return {
+    capacity,
+    taken,
+    remaining,
+    waitlisted,
+    isFull: remaining === 0,
+  }
+}
+
+export function formatCapacity(summary: CapacitySummary): string {
+  return summary.capacity === null ? `${summary.taken}` : `${summary.taken} / ${summary.capacity}`
+}
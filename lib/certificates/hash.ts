@@ -0,0 +1,13 @@
+// File hashes printed on certificates. Document versions are hashed in the
+// browser as they're uploaded, so this stays free of the PDF code.
+
+/** Hex encoded SHA-256, as printed on certificates */
+export async function sha256Hex(bytes: Uint8Array<ArrayBuffer>) {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", bytes))
+  return Array.from(digest, (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+/** The SHA-256 of an uploaded file, saved with its document version */
+export async function fileSha256(file: Blob) {
+  return sha256Hex(new Uint8Array(await file.arrayBuffer()))
+}
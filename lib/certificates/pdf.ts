@@ -0,0 +1,102 @@
+import { jsPDF } from "jspdf"
+
+// Certificates of document acknowledgement: a one-page receipt per
+// confirmation recording what was confirmed, by whom and when, kept for
+// liability records. The hash of the source file pins down exactly which
+// file the visitor was shown.
+
+export interface CertificateData {
+  confirmationId: string
+  documentName: string
+  versionNumber: number
+  visitorName: string
+  eventName: string
+  eventDate: string | null
+  signedAt: string
+  /** SHA-256 of the document version's file, hex encoded */
+  fileSha256: string | null
+  signerName: string | null
+  signatureMethod: string | null
+  consentText: string | null
+  /** PNG of the visitor's signature, for documents that were signed */
+  signatureImage: Uint8Array | null
+}
+
+const MARGIN = 56
+const LABEL_WIDTH = 110
+
+/** An unambiguous UTC timestamp such as `2026-10-20 14:05:09 UTC` */
+export function formatCertificateTimestamp(value: string) {
+  return new Date(value).toISOString().replace("T", " ").replace(/\.\d+Z$/, " UTC")
+}
+
+/** Renders certificates into one PDF, a page each */
+export function renderCertificates(certificates: CertificateData[], generatedAt: Date = new Date()): Uint8Array<ArrayBuffer> {
+  const doc = new jsPDF({ unit: "pt", format: "letter" })
+  const width = doc.internal.pageSize.getWidth()
+  const height = doc.internal.pageSize.getHeight()
+  const textWidth = width - MARGIN * 2
+
+  certificates.forEach((certificate, index) => {
+    if (index > 0) doc.addPage()
+    let y = MARGIN + 16
+
+    doc.setFont("helvetica", "bold")
+    doc.setFontSize(20)
+    doc.text("Certificate of Document Acknowledgement", width / 2, y, { align: "center" })
+    y += 40
+
+    const rows: [string, string][] = [
+      ["Document", certificate.documentName],
+      ["Version", String(certificate.versionNumber)],
+      ["Visitor", certificate.visitorName],
+      ["Event", certificate.eventDate ? `${certificate.eventName} (${certificate.eventDate})` : certificate.eventName],
+      ["Confirmed at", formatCertificateTimestamp(certificate.signedAt)],
+    ]
+    if (certificate.signerName) {
+      const method = certificate.signatureMethod === "drawn" ? "drawn signature" : "typed signature"
+      rows.push(["Signed by", `${certificate.signerName} (${method})`])
+    }
+
+    doc.setFontSize(11)
+    rows.forEach(([label, value]) => {
+      doc.setFont("helvetica", "bold")
+      doc.text(label, MARGIN, y)
+      doc.setFont("helvetica", "normal")
+      const lines: string[] = doc.splitTextToSize(value, textWidth - LABEL_WIDTH)
+      doc.text(lines, MARGIN + LABEL_WIDTH, y)
+      y += lines.length * 14 + 6
+    })
+
+    doc.setFont("helvetica", "bold")
+    doc.text("File SHA-256", MARGIN, y)
+    doc.setFont("courier", "normal")
+    doc.setFontSize(9)
+    doc.text(doc.splitTextToSize(certificate.fileSha256 ?? "Unavailable", textWidth - LABEL_WIDTH), MARGIN + LABEL_WIDTH, y)
+    y += 36
+
+    if (certificate.consentText) {
+      doc.setFont("helvetica", "italic")
+      doc.setFontSize(10)
+      const consent: string[] = doc.splitTextToSize(certificate.consentText, textWidth)
+      doc.text(consent, MARGIN, y)
+      y += consent.length * 13 + 12
+    }
+
+    if (certificate.signatureImage) {
+      doc.addImage(certificate.signatureImage, "PNG", MARGIN, y, 240, 64)
+      y += 68
+      doc.setLineWidth(0.5)
+      doc.line(MARGIN, y, MARGIN + 240, y)
+    }
+
+    doc.setFont("helvetica", "normal")
+    doc.setFontSize(8)
+    doc.text(`Confirmation ${certificate.confirmationId}`, MARGIN, height - 36)
+    doc.text(`Generated ${formatCertificateTimestamp(generatedAt.toISOString())}`, width - MARGIN, height - 36, {
+      align: "right",
+    })
+  })
+
+  return new Uint8Array(doc.output("arraybuffer"))
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server"
+import { exportFilename } from "@/lib/reports/export/shared"
+import { renderCertificates, type CertificateData } from "./pdf"
+
+/** Certificates as a PDF download named after `name` */
+export function certificateResponse(certificates: CertificateData[], name: string) {
+  const filename = exportFilename(name.replace(/[^\w\s-]/g, ""), "pdf")
+  return new NextResponse(renderCertificates(certificates), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    },
+  })
+}
@@ -0,0 +1,114 @@
+import type { DbClient } from "@/lib/db"
+import { SIGNATURE_BUCKET } from "@/lib/signatures"
+import { sha256Hex } from "./hash"
+import type { CertificateData } from "./pdf"
+
+// Never import this from client components. Expects a service role client:
+// route handlers check who may see which certificates before calling it.
+
+export interface CertificateFilter {
+  eventId: string
+  visitorId?: string
+  documentVersionId?: string
+}
+
+/** Files downloaded at once while building a batch of certificates */
+const DOWNLOAD_CONCURRENCY = 4
+
+/**
+ * The hash of a document version's file. Versions are hashed as they're
+ * uploaded; ones uploaded before that are hashed from storage the first
+ * time a certificate needs it, and the hash is saved.
+ */
+async function getFileHash(supabase: DbClient, versionId: string, filePath: string) {
+  const { data: file, error } = await supabase.storage.from("documents").download(filePath)
+  if (error || !file) {
+    console.error(`Error downloading ${filePath} to hash:`, error)
+    return null
+  }
+
+  const hash = await sha256Hex(new Uint8Array(await file.arrayBuffer()))
+  await supabase.from("document_versions").update({ file_sha256: hash }).eq("id", versionId)
+  return hash
+}
+
+async function getSignatureImage(supabase: DbClient, path: string) {
+  const { data: image, error } = await supabase.storage.from(SIGNATURE_BUCKET).download(path)
+  if (error || !image) {
+    console.error(`Error downloading signature ${path}:`, error)
+    return null
+  }
+  return new Uint8Array(await image.arrayBuffer())
+}
+
+/** Certificates for an event's confirmations, by visitor then document */
+export async function loadCertificates(supabase: DbClient, filter: CertificateFilter): Promise<CertificateData[]> {
+  let query = supabase
+    .from("visitor_confirmations")
+    .select(`
+      id,
+      signed_at,
+      signer_name,
+      signature_method,
+      signature_path,
+      consent_text,
+      visitor:visitors(first_name, last_name),
+      event:events(name, start_date),
+      version:document_versions(id, version_number, file_path, file_sha256, document:documents(name))
+    `)
+    .eq("event_id", filter.eventId)
+
+  if (filter.visitorId) query = query.eq("visitor_id", filter.visitorId)
+  if (filter.documentVersionId) query = query.eq("document_version_id", filter.documentVersionId)
+
+  const { data, error } = await query
+  if (error) throw error
+
+  const confirmations = (data || []).sort(
+    (a, b) =>
+      a.visitor.last_name.localeCompare(b.visitor.last_name) ||
+      a.visitor.first_name.localeCompare(b.visitor.first_name) ||
+      a.version.document.name.localeCompare(b.version.document.name)
+  )
+
+  // Each version is hashed at most once per batch
+  const hashes = new Map<string, Promise<string | null>>()
+  const hashFor = (version: (typeof confirmations)[number]["version"]) => {
+    if (version.file_sha256) return Promise.resolve(version.file_sha256)
+    if (!hashes.has(version.id)) hashes.set(version.id, getFileHash(supabase, version.id, version.file_path))
+    return hashes.get(version.id)!
+  }
+
+  return mapWithConcurrency(confirmations, DOWNLOAD_CONCURRENCY, async (confirmation) => ({
+    confirmationId: confirmation.id,
+    documentName: confirmation.version.document.name,
+    versionNumber: confirmation.version.version_number,
+    visitorName: `${confirmation.visitor.first_name} ${confirmation.visitor.last_name}`,
+    eventName: confirmation.event.name,
+    eventDate: confirmation.event.start_date,
+    signedAt: confirmation.signed_at,
+    fileSha256: await hashFor(confirmation.version),
+    signerName: confirmation.signer_name,
+    signatureMethod: confirmation.signature_method,
+    consentText: confirmation.consent_text,
+    signatureImage: confirmation.signature_path
+      ? await getSignatureImage(supabase, confirmation.signature_path)
+      : null,
+  }))
+}
+
+/** Maps items with at most `limit` calls in flight, keeping their order */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>) {
+  const results: R[] = new Array(items.length)
+  let next = 0
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index])
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+  return results
+}
@@ -0,0 +1,71 @@
+import { holdsPlace } from "@/lib/rsvp"
+
+export type AttendanceStatus = "expected" | "on_site" | "departed"
+
+export interface AttendanceRecord {
+  rsvp_status: string | null
+  arrived_at: string | null
+  departed_at: string | null
+}
+
+export interface AttendanceSummary {
+  /** Everyone assigned to the event */
+  assigned: number
+  confirmed: number
+  /** Arrived at any point, including those who have since left */
+  arrived: number
+  departed: number
+  /** Currently at the ranch */
+  onSite: number
+}
+
+export function getAttendanceStatus(record: AttendanceRecord): AttendanceStatus {
+  if (!record.arrived_at) return "expected"
+  if (record.departed_at) return "departed"
+  return "on_site"
+}
+
+/**
+ * Only visitors still holding their place can be checked in. Declined,
+ * cancelled and waitlisted visitors need their RSVP changed first.
+ */
+export function canCheckIn(record: AttendanceRecord): boolean {
+  return holdsPlace(record.rsvp_status)
+}
+
+export function summarizeAttendance(records: AttendanceRecord[]): AttendanceSummary {
+  const summary: AttendanceSummary = { assigned: 0, confirmed: 0, arrived: 0, departed: 0, onSite: 0 }
+
+  records.forEach((record) => {
+    summary.assigned++
+    if (record.rsvp_status === "confirmed") summary.confirmed++
+
+    const status = getAttendanceStatus(record)
+    if (status !== "expected") summary.arrived++
+    if (status === "departed") summary.departed++
+    if (status === "on_site") summary.onSite++
+  })
+
+  return summary
+}
+
+export interface ScanCandidate {
+  visitor_id: string
+  visitor: { first_name: string; last_name: string; email: string | null } | null
+}
+
+/**
+ * The rows a scanned or typed term identifies exactly: the visitor id, the
+ * email address or the full name, ignoring case. Partial matches never
+ * count, so pressing Enter can't check in the wrong person.
+ */
+export function findExactMatches<T extends ScanCandidate>(rows: T[], term: string): T[] {
+  const needle = term.trim().toLowerCase()
+  if (!needle) return []
+
+  return rows.filter((row) =>
+    row.visitor_id.toLowerCase() === needle ||
+    row.visitor?.email?.toLowerCase() === needle ||
+    (row.visitor ? `${row.visitor.first_name} ${row.visitor.last_name}`.toLowerCase() === needle : false)
+  )
+}
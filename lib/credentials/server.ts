@@ -0,0 +1,170 @@
+import type { DbClient } from "@/lib/db"
+import {
+  decodeCredential,
+  findOutdatedDocuments,
+  importSigningKey,
+  signCredential,
+  toPublicJwk,
+  type DocumentManifest,
+} from "./token"
+
+// Never import this from client components: it reads the signing key.
+
+function getSigningJwk(): JsonWebKey {
+  const value = process.env.CREDENTIAL_SIGNING_KEY
+  if (!value) {
+    throw new Error("CREDENTIAL_SIGNING_KEY is not configured")
+  }
+  return JSON.parse(value)
+}
+
+/** The key gate devices use to verify credentials */
+export function getVerifyJwk(): JsonWebKey {
+  return toPublicJwk(getSigningJwk())
+}
+
+/**
+ * Current version of every document assigned to the event whose type
+ * requires confirmation.
+ */
+export async function getRequiredDocumentVersions(
+  supabase: DbClient,
+  eventId: string
+): Promise<DocumentManifest> {
+  const { data: versions, error } = await supabase
+    .from("event_document_versions")
+    .select("document_id, current_version_id")
+    .eq("event_id", eventId)
+    .eq("requires_confirmation", true)
+
+  if (error) throw error
+
+  return Object.fromEntries((versions || []).map((v) => [v.document_id, v.current_version_id]))
+}
+
+/**
+ * Visitors whose credentials for the event still admit them: those whose
+ * current assignment is confirmed and who aren't in the trash. Everyone
+ * else is turned away at the gate, whether they declined, were waitlisted
+ * or cancelled, were removed from the event or were trashed, and however
+ * they came to be confirmed before. Expects a service role client so
+ * trashed visitors are seen as trashed.
+ */
+export async function getAdmittedVisitorIds(
+  supabase: DbClient,
+  eventId: string
+): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("event_visitors")
+    .select("visitor_id, visitor:visitors(deleted_at)")
+    .eq("event_id", eventId)
+    .eq("rsvp_status", "confirmed")
+
+  if (error) throw error
+
+  return (data || [])
+    .filter(({ visitor }) => visitor && !visitor.deleted_at)
+    .map(({ visitor_id }) => visitor_id)
+    .sort()
+}
+
+/**
+ * Signs and stores a credential for a confirmed visitor. Returns null when
+ * the visitor is not confirmed or is missing a current confirmation.
+ * Expects a service role client: visitor_credentials is not writable by
+ * users.
+ */
+export async function issueCredential(
+  supabase: DbClient,
+  visitorId: string,
+  eventId: string,
+  now: Date = new Date()
+): Promise<string | null> {
+  const { data: assignment } = await supabase
+    .from("event_visitors")
+    .select("rsvp_status, visitor:visitors(first_name, last_name)")
+    .eq("visitor_id", visitorId)
+    .eq("event_id", eventId)
+    .single()
+
+  if (assignment?.rsvp_status !== "confirmed") return null
+
+  const required = await getRequiredDocumentVersions(supabase, eventId)
+  const versionIds = Object.values(required)
+
+  const { data: confirmations, error } = versionIds.length > 0
+    ? await supabase
+      .from("visitor_confirmations")
+      .select("document_id, document_version_id")
+      .eq("visitor_id", visitorId)
+      .eq("event_id", eventId)
+      .in("document_version_id", versionIds)
+    : { data: [], error: null }
+
+  if (error) throw error
+
+  const { visitor } = assignment
+  const payload = {
+    v: 1 as const,
+    visitorId,
+    visitorName: visitor ? `${visitor.first_name} ${visitor.last_name}` : "",
+    eventId,
+    documents: Object.fromEntries((confirmations || []).map((c) => [c.document_id, c.document_version_id])),
+    issuedAt: now.toISOString(),
+  }
+
+  if (findOutdatedDocuments(payload, required).length > 0) return null
+
+  const token = await signCredential(payload, await importSigningKey(getSigningJwk()))
+
+  const { error: upsertError } = await supabase
+    .from("visitor_credentials")
+    .upsert({
+      visitor_id: visitorId,
+      event_id: eventId,
+      token,
+      issued_at: payload.issuedAt,
+    }, {
+      onConflict: "visitor_id,event_id",
+    })
+
+  if (upsertError) throw upsertError
+
+  return token
+}
+
+/**
+ * Returns the visitor's stored credential if it still covers every
+ * required document, issuing a fresh one otherwise.
+ */
+export async function getCurrentCredential(
+  supabase: DbClient,
+  visitorId: string,
+  eventId: string
+): Promise<string | null> {
+  const { data: assignment } = await supabase
+    .from("event_visitors")
+    .select("rsvp_status")
+    .eq("visitor_id", visitorId)
+    .eq("event_id", eventId)
+    .single()
+
+  if (assignment?.rsvp_status !== "confirmed") return null
+
+  const { data: stored } = await supabase
+    .from("visitor_credentials")
+    .select("token")
+    .eq("visitor_id", visitorId)
+    .eq("event_id", eventId)
+    .maybeSingle()
+
+  const payload = stored ? decodeCredential(stored.token) : null
+  if (stored && payload) {
+    const required = await getRequiredDocumentVersions(supabase, eventId)
+    if (findOutdatedDocuments(payload, required).length === 0) {
+      return stored.token
+    }
+  }
+
+  return issueCredential(supabase, visitorId, eventId)
+}
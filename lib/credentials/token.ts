@@ -0,0 +1,139 @@
+// Signed visitor credentials shown as a QR code and checked at the gate.
+//
+// A credential is `<payload>.<signature>`, both base64url encoded. The
+// payload records the document versions the visitor had confirmed when it
+// was issued, so the gate can reject it offline once a newer version of a
+// required document is published, or once the visitor's place is revoked
+// (see getAdmittedVisitorIds). Uses WebCrypto so the same code signs on
+// the server and verifies in the browser.
+
+/** Required documents for an event: document id -> current version id */
+export type DocumentManifest = Record<string, string>
+
+export interface CredentialPayload {
+  /** Payload format version */
+  v: 1
+  visitorId: string
+  visitorName: string
+  eventId: string
+  /** Confirmed version of each required document when issued */
+  documents: DocumentManifest
+  issuedAt: string
+}
+
+export type VerificationResult =
+  | { valid: true; payload: CredentialPayload }
+  | { valid: false; reason: string; payload?: CredentialPayload }
+
+const KEY_ALGORITHM = { name: "ECDSA", namedCurve: "P-256" } as const
+const SIGNATURE_ALGORITHM = { name: "ECDSA", hash: "SHA-256" } as const
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = ""
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+const fromBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/")
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4))
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+/** Strips the private part of an EC JWK so it can be handed to gate devices */
+export function toPublicJwk(jwk: JsonWebKey): JsonWebKey {
+  const { kty, crv, x, y } = jwk
+  return { kty, crv, x, y }
+}
+
+export function importSigningKey(jwk: JsonWebKey) {
+  return crypto.subtle.importKey("jwk", jwk, KEY_ALGORITHM, false, ["sign"])
+}
+
+export function importVerifyKey(jwk: JsonWebKey) {
+  return crypto.subtle.importKey("jwk", toPublicJwk(jwk), KEY_ALGORITHM, false, ["verify"])
+}
+
+export async function signCredential(payload: CredentialPayload, key: CryptoKey): Promise<string> {
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)))
+  const signature = await crypto.subtle.sign(SIGNATURE_ALGORITHM, key, encoder.encode(body))
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`
+}
+
+/** Reads the payload without checking the signature */
+export function decodeCredential(token: string): CredentialPayload | null {
+  const [body] = token.trim().split(".")
+  try {
+    const payload = JSON.parse(decoder.decode(fromBase64Url(body)))
+    return payload?.v === 1 ? payload : null
+  } catch {
+    return null
+  }
+}
+
+/** Required documents the credential does not cover at their current version */
+export function findOutdatedDocuments(payload: CredentialPayload, required: DocumentManifest): string[] {
+  return Object.entries(required)
+    .filter(([documentId, versionId]) => payload.documents[documentId] !== versionId)
+    .map(([documentId]) => documentId)
+}
+
+/**
+ * Checks a scanned credential against the event's current document
+ * manifest and the visitors it still admits. Needs no network access once
+ * the key and manifest are loaded. Without a list of admitted visitors only
+ * the documents are checked.
+ */
+export async function verifyCredential(
+  token: string,
+  key: CryptoKey,
+  eventId: string,
+  required: DocumentManifest,
+  admitted: string[] | null
+): Promise<VerificationResult> {
+  const parts = token.trim().split(".")
+  const payload = decodeCredential(token)
+  if (parts.length !== 2 || !payload) {
+    return { valid: false, reason: "Not a visitor credential" }
+  }
+
+  let signatureValid = false
+  try {
+    signatureValid = await crypto.subtle.verify(
+      SIGNATURE_ALGORITHM,
+      key,
+      fromBase64Url(parts[1]),
+      encoder.encode(parts[0])
+    )
+  } catch {
+    signatureValid = false
+  }
+
+  if (!signatureValid) {
+    return { valid: false, reason: "Signature is invalid" }
+  }
+
+  if (payload.eventId !== eventId) {
+    return { valid: false, reason: "Credential is for a different event", payload }
+  }
+
+  if (admitted && !admitted.includes(payload.visitorId)) {
+    return { valid: false, reason: "Credential has been revoked", payload }
+  }
+
+  const outdated = findOutdatedDocuments(payload, required)
+  if (outdated.length > 0) {
+    return {
+      valid: false,
+      reason: `${outdated.length} required ${outdated.length === 1 ? "document has" : "documents have"} not been confirmed at the current version`,
+      payload,
+    }
+  }
+
+  return { valid: true, payload }
+}
@@ -0,0 +1,82 @@
+import type { DbClient, ListView } from "@/lib/db/models"
+
+// Server-side paging, sorting and search for the admin tables, which read
+// from the admin_*_list views (see the admin_list_views migration).
+
+export interface SortRule {
+  column: string
+  ascending: boolean
+}
+
+export interface TableQuery {
+  /** 1-based */
+  page: number
+  pageSize: number
+  /** Applied in order; the first rule is the primary sort */
+  sort: SortRule[]
+  search: string
+}
+
+export const DEFAULT_PAGE_SIZE = 25
+
+export const PAGE_SIZE_OPTIONS = [25, 50, 100]
+
+/** PostgREST's max-rows: no single request returns more than this */
+export const MAX_ROWS_PER_REQUEST = 1000
+
+/** Rows [from, to] of a page, inclusive, as .range() expects */
+export function getPageRange(page: number, pageSize: number): [number, number] {
+  const from = (Math.max(page, 1) - 1) * pageSize
+  return [from, from + pageSize - 1]
+}
+
+export function getPageCount(total: number, pageSize: number): number {
+  return Math.max(1, Math.ceil(total / pageSize))
+}
+
+/**
+ * Clicking a column makes it the only sort, flipping its direction if it
+ * already was. Adding keeps the other rules and appends or flips this one.
+ */
+export function toggleSort(sort: SortRule[], column: string, add = false): SortRule[] {
+  const existing = sort.find((rule) => rule.column === column)
+  const toggled = { column, ascending: existing ? !existing.ascending : true }
+
+  if (!add) return [toggled]
+  if (!existing) return [...sort, toggled]
+  return sort.map((rule) => (rule.column === column ? toggled : rule))
+}
+
+/**
+ * A prefix query for to_tsquery matching the views' search vectors: every
+ * word must start a word in the row. Punctuation splits words, as it does
+ * when the vectors are built. Returns null when there's nothing to search.
+ */
+export function toSearchQuery(term: string): string | null {
+  const words = term.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean)
+  if (words.length === 0) return null
+  return words.map((word) => `${word}:*`).join(" & ")
+}
+
+/** One page of a list view, with the total number of matching rows */
+export async function fetchTablePage<T>(
+  supabase: DbClient,
+  view: ListView,
+  columns: string,
+  query: TableQuery
+): Promise<{ rows: T[]; total: number; error: Error | null }> {
+  let request = supabase.from(view).select(columns, { count: "exact" })
+
+  const search = toSearchQuery(query.search)
+  if (search) request = request.textSearch("search", search, { config: "simple" })
+
+  for (const rule of query.sort) {
+    request = request.order(rule.column, { ascending: rule.ascending, nullsFirst: false })
+  }
+
+  // Ties keep a stable order so rows don't move between pages
+  const [from, to] = getPageRange(query.page, query.pageSize)
+  const { data, count, error } = await request.order("id").range(from, to)
+
+  return { rows: (data || []) as T[], total: count || 0, error }
+}
@@ -0,0 +1,43 @@
+import { fetchTablePage, type TableQuery } from "@/lib/data-table"
+import type { Company, DbClient } from "./models"
+
+export type CompanyOption = Pick<Company, "id" | "name">
+
+export type CompanyListRow = Pick<
+  Company,
+  | "id"
+  | "name"
+  | "address_line_1"
+  | "address_line_2"
+  | "city"
+  | "state_province"
+  | "postal_code"
+  | "country"
+  | "main_contact_name"
+  | "main_contact_email"
+  | "main_contact_phone"
+> & {
+  visitor_count: number
+  event_count: number
+}
+
+/** Organizations not in the trash, by name, for pickers */
+export async function listCompanyOptions(supabase: DbClient) {
+  const { data, error } = await supabase
+    .from("companies")
+    .select("id, name")
+    .is("deleted_at", null)
+    .order("name")
+
+  return { rows: (data || []) as CompanyOption[], error }
+}
+
+/** A page of the organizations table */
+export function listCompanies(supabase: DbClient, query: TableQuery) {
+  return fetchTablePage<CompanyListRow>(
+    supabase,
+    "admin_organization_list",
+    "id, name, address_line_1, address_line_2, city, state_province, postal_code, country, main_contact_name, main_contact_email, main_contact_phone, visitor_count, event_count",
+    query
+  )
+}
@@ -0,0 +1,92 @@
+import { fetchTablePage, type TableQuery } from "@/lib/data-table"
+import type { DbClient, Document, DocumentType, DocumentVersion, ViewRow } from "./models"
+
+export type DocumentListRow = Pick<
+  Document,
+  "id" | "name" | "description" | "document_type_id" | "is_active" | "created_at"
+> & {
+  document_type_name: string | null
+  event_count: number
+  current_version_id: string | null
+  current_version_number: number | null
+  current_file_name: string | null
+  current_file_size: number | null
+}
+
+export type VisitorDocumentStatus = ViewRow<"event_visitor_document_status", "organization_name" | "event_start_date">
+
+/** A page of the documents table, each with its current version */
+export function listDocuments(supabase: DbClient, query: TableQuery) {
+  return fetchTablePage<DocumentListRow>(
+    supabase,
+    "admin_document_list",
+    "id, name, description, document_type_id, is_active, created_at, document_type_name, event_count, current_version_id, current_version_number, current_file_name, current_file_size",
+    query
+  )
+}
+
+export async function listDocumentTypes(supabase: DbClient) {
+  const { data, error } = await supabase
+    .from("document_types")
+    .select("*")
+    .order("name")
+
+  return { rows: (data || []) as DocumentType[], error }
+}
+
+/** Every version of a document, newest first */
+export async function listDocumentVersions(supabase: DbClient, documentId: string) {
+  const { data, error } = await supabase
+    .from("document_versions")
+    .select("*")
+    .eq("document_id", documentId)
+    .order("version_number", { ascending: false })
+
+  return { rows: (data || []) as DocumentVersion[], error }
+}
+
+/** The version of a document visitors see, or null before one is uploaded */
+export async function getCurrentVersion(supabase: DbClient, documentId: string) {
+  const { data, error } = await supabase
+    .from("document_versions")
+    .select("*")
+    .eq("document_id", documentId)
+    .eq("is_current", true)
+    .maybeSingle()
+
+  return { version: data as DocumentVersion | null, error }
+}
+
+/**
+ * Assigned visitors of the given events who haven't confirmed every
+ * required document at its current version, soonest event first
+ */
+export async function listIncompleteDocumentStatus(supabase: DbClient, eventIds: string[]) {
+  const { data, error } = await supabase
+    .from("event_visitor_document_status")
+    .select("*")
+    .in("event_id", eventIds)
+    .not("rsvp_status", "in", "(declined,cancelled)")
+    .eq("documents_complete", false)
+    .order("event_start_date")
+    .order("organization_name")
+    .order("first_name")
+    .order("last_name")
+
+  return { rows: (data || []) as VisitorDocumentStatus[], error }
+}
+
+/**
+ * Whether the visitor has confirmed every required document and answered
+ * every required form for the event
+ */
+export async function getRequirementStatus(supabase: DbClient, visitorId: string, eventId: string) {
+  const { data, error } = await supabase
+    .from("event_visitor_document_status")
+    .select("documents_complete, forms_complete")
+    .eq("visitor_id", visitorId)
+    .eq("event_id", eventId)
+    .maybeSingle()
+
+  return { complete: Boolean(data?.documents_complete && data.forms_complete), error }
+}
@@ -0,0 +1,122 @@
+import { fetchTablePage, type TableQuery } from "@/lib/data-table"
+import type { Company, DbClient, Event, EventVisitor, Visitor } from "./models"
+
+export type EventListRow = Pick<
+  Event,
+  "id" | "name" | "description" | "start_date" | "end_date" | "location" | "sponsor_company_id" | "capacity"
+> & {
+  sponsor_name: string | null
+  places_taken: number
+  waitlisted: number
+}
+
+export type EventOption = Pick<Event, "id" | "name">
+
+export type EventAssignment = Pick<EventVisitor, "visitor_id" | "rsvp_status" | "rsvp_reason" | "waitlist_position">
+
+export type CheckInRow = Pick<
+  EventVisitor,
+  "id" | "visitor_id" | "rsvp_status" | "arrived_at" | "departed_at"
+> & {
+  visitor: (Pick<Visitor, "first_name" | "last_name" | "email"> & { company: Pick<Company, "name"> | null }) | null
+}
+
+const EVENT_LIST_COLUMNS =
+  "id, name, description, start_date, end_date, location, sponsor_company_id, capacity, sponsor_name, places_taken, waitlisted"
+
+/** A page of the events table */
+export function listEvents(supabase: DbClient, query: TableQuery) {
+  return fetchTablePage<EventListRow>(supabase, "admin_event_list", EVENT_LIST_COLUMNS, query)
+}
+
+/** Every event not in the trash, soonest first, with its places taken */
+export async function listAllEvents(supabase: DbClient) {
+  const { data, error } = await supabase
+    .from("admin_event_list")
+    .select(EVENT_LIST_COLUMNS)
+    .order("start_date", { ascending: true })
+
+  return { rows: (data || []) as EventListRow[], error }
+}
+
+/** Events not in the trash, by name, for pickers */
+export async function listEventOptions(supabase: DbClient) {
+  const { data, error } = await supabase
+    .from("events")
+    .select("id, name")
+    .is("deleted_at", null)
+    .order("name")
+
+  return { rows: (data || []) as EventOption[], error }
+}
+
+/** The visitors assigned to an event and where they are in the RSVP flow */
+export async function listEventAssignments(supabase: DbClient, eventId: string) {
+  const { data, error } = await supabase
+    .from("event_visitors")
+    .select("visitor_id, rsvp_status, rsvp_reason, waitlist_position")
+    .eq("event_id", eventId)
+
+  return { rows: (data || []) as EventAssignment[], error }
+}
+
+/** Everyone assigned to an event with their arrival and departure, by name */
+export async function listCheckInRows(supabase: DbClient, eventId: string) {
+  const { data, error } = await supabase
+    .from("event_visitors")
+    .select("id, visitor_id, rsvp_status, arrived_at, departed_at, visitor:visitors(first_name, last_name, email, company:companies(name))")
+    .eq("event_id", eventId)
+
+  const rows: CheckInRow[] = (data || []).sort((a, b) =>
+    (a.visitor?.last_name || "").localeCompare(b.visitor?.last_name || "") ||
+    (a.visitor?.first_name || "").localeCompare(b.visitor?.first_name || "")
+  )
+  return { rows, error }
+}
+
+/** The events a visitor is assigned to, with their RSVP status */
+export async function listVisitorAssignments(supabase: DbClient, visitorId: string) {
+  const { data, error } = await supabase
+    .from("event_visitors")
+    .select("event_id, rsvp_status")
+    .eq("visitor_id", visitorId)
+
+  return { rows: data || [], error }
+}
+
+/** Invites a visitor to events, joining the waitlist of any that are full */
+export async function assignEventsToVisitor(supabase: DbClient, visitorId: string, eventIds: string[]) {
+  if (eventIds.length === 0) return { rows: [], error: null }
+
+  const { data, error } = await supabase
+    .from("event_visitors")
+    .insert(eventIds.map((eventId) => ({ event_id: eventId, visitor_id: visitorId, rsvp_status: "invited" })))
+    .select("event_id, rsvp_status")
+
+  return { rows: data || [], error }
+}
+
+/**
+ * Makes the given visitors an event's assignments in one transaction.
+ * Visitors who stay keep their RSVP state; new ones are invited, in the
+ * order given, onto the waitlist once the event is full. Returns the
+ * assignments added.
+ */
+export async function setEventVisitors(supabase: DbClient, eventId: string, visitorIds: string[]) {
+  const { data, error } = await supabase.rpc("set_event_visitors", {
+    p_event_id: eventId,
+    p_visitor_ids: visitorIds,
+  })
+
+  return { rows: data || [], error }
+}
+
+/** As setEventVisitors, for the events a visitor is assigned to */
+export async function setVisitorEvents(supabase: DbClient, visitorId: string, eventIds: string[]) {
+  const { data, error } = await supabase.rpc("set_visitor_events", {
+    p_visitor_id: visitorId,
+    p_event_ids: eventIds,
+  })
+
+  return { rows: data || [], error }
+}
@@ -0,0 +1,147 @@
+import { parseFormAnswers, parseFormFields, type FormField, type FormResponseRow } from "@/lib/forms"
+import type { DbClient, Form, FormEvent } from "./models"
+
+/** A form assigned to an event, with its fields parsed */
+export interface EventForm {
+  form: Form
+  fields: FormField[]
+  required: boolean
+}
+
+export type FormAssignment = Pick<FormEvent, "event_id" | "required">
+
+export interface FormResponseListRow extends FormResponseRow {
+  id: string
+  eventId: string
+  visitorId: string
+}
+
+export type FormListRow = Form & { eventCount: number }
+
+/** Every form, by name, with the number of events it's assigned to */
+export async function listForms(supabase: DbClient) {
+  const { data, error } = await supabase
+    .from("forms")
+    .select("*, form_events(event_id)")
+    .order("name")
+
+  const rows: FormListRow[] = (data || []).map(({ form_events, ...form }) => ({
+    ...form,
+    eventCount: form_events.length,
+  }))
+
+  return { rows, error }
+}
+
+/** One form, null when it doesn't exist */
+export async function getForm(supabase: DbClient, formId: string) {
+  const { data, error } = await supabase.from("forms").select("*").eq("id", formId).maybeSingle()
+
+  return { form: data as Form | null, error }
+}
+
+/** The forms assigned to an event, by name */
+export async function listEventForms(supabase: DbClient, eventId: string) {
+  const { data, error } = await supabase
+    .from("form_events")
+    .select("required, form:forms!inner(*)")
+    .eq("event_id", eventId)
+
+  const rows: EventForm[] = (data || [])
+    .map(({ required, form }) => ({ form, fields: parseFormFields(form.fields), required }))
+    .sort((a, b) => a.form.name.localeCompare(b.form.name))
+
+  return { rows, error }
+}
+
+/** The events a form is assigned to */
+export async function listFormAssignments(supabase: DbClient, formId: string) {
+  const { data, error } = await supabase
+    .from("form_events")
+    .select("event_id, required")
+    .eq("form_id", formId)
+
+  return { rows: (data || []) as FormAssignment[], error }
+}
+
+/**
+ * Makes the given events a form's assignments: events left out are
+ * unassigned, and their responses kept in case the form is assigned again.
+ */
+export async function setFormAssignments(supabase: DbClient, formId: string, assignments: FormAssignment[]) {
+  let removal = supabase.from("form_events").delete().eq("form_id", formId)
+  if (assignments.length > 0) {
+    removal = removal.not("event_id", "in", `(${assignments.map((a) => a.event_id).join(",")})`)
+  }
+  const { error: removeError } = await removal
+  if (removeError || assignments.length === 0) return { error: removeError }
+
+  const { error } = await supabase
+    .from("form_events")
+    .upsert(assignments.map((a) => ({ form_id: formId, event_id: a.event_id, required: a.required })))
+
+  return { error }
+}
+
+/** A form's responses, optionally for one event, by visitor name */
+export async function listFormResponses(supabase: DbClient, formId: string, eventId?: string | null) {
+  let query = supabase
+    .from("form_responses")
+    .select(`
+      id,
+      event_id,
+      visitor_id,
+      answers,
+      submitted_at,
+      visitor:visitors!inner(first_name, last_name, email)
+    `)
+    .eq("form_id", formId)
+  if (eventId) query = query.eq("event_id", eventId)
+
+  const { data, error } = await query
+
+  const rows: FormResponseListRow[] = (data || [])
+    .map(({ id, event_id, visitor_id, answers, submitted_at, visitor }) => ({
+      id,
+      eventId: event_id,
+      visitorId: visitor_id,
+      visitorName: `${visitor.first_name} ${visitor.last_name}`,
+      email: visitor.email,
+      submittedAt: submitted_at,
+      answers: parseFormAnswers(answers),
+    }))
+    .sort((a, b) => a.visitorName.localeCompare(b.visitorName))
+
+  return { rows, error }
+}
+
+/** A visitor's answers to an event's forms, by form id */
+export async function listVisitorFormResponses(supabase: DbClient, eventId: string, visitorId: string) {
+  const { data, error } = await supabase
+    .from("form_responses")
+    .select("form_id, answers")
+    .eq("event_id", eventId)
+    .eq("visitor_id", visitorId)
+
+  const answersByForm = new Map((data || []).map((r) => [r.form_id, parseFormAnswers(r.answers)]))
+  return { answersByForm, error }
+}
+
+/** Required forms the visitor hasn't answered yet, counted by event */
+export async function countOpenRequiredForms(supabase: DbClient, visitorId: string, eventIds: string[]) {
+  const counts = new Map<string, number>()
+  if (eventIds.length === 0) return { counts, error: null }
+
+  const [assigned, responses] = await Promise.all([
+    supabase.from("form_events").select("form_id, event_id").eq("required", true).in("event_id", eventIds),
+    supabase.from("form_responses").select("form_id, event_id").eq("visitor_id", visitorId).in("event_id", eventIds),
+  ])
+
+  const answered = new Set((responses.data || []).map((r) => `${r.form_id}:${r.event_id}`))
+  for (const { form_id, event_id } of assigned.data || []) {
+    if (!answered.has(`${form_id}:${event_id}`)) counts.set(event_id, (counts.get(event_id) ?? 0) + 1)
+  }
+
+  return { counts, error: assigned.error ?? responses.error }
+}
+
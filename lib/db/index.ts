@@ -0,0 +1,12 @@
+// Typed data access. Pages import their row types and common queries from
+// here instead of declaring their own; see ./types for the schema.
+
+export type { Database, Json, Tables, TablesInsert, TablesUpdate } from "./types"
+export * from "./models"
+export * from "./companies"
+export * from "./documents"
+export * from "./events"
+export * from "./forms"
+export * from "./intake"
+export * from "./sessions"
+export * from "./visitors"
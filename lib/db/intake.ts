@@ -0,0 +1,78 @@
+import { PLACE_HOLDING_STATUSES } from "@/lib/rsvp"
+import { describeFoodAllergies, type MedicalSummaryRow } from "@/lib/intake"
+import type { DbClient, DietaryForm, MedicalForm } from "./models"
+
+/** A visitor's dietary and medical forms for an event, null where unanswered */
+export async function getIntakeForms(supabase: DbClient, eventId: string, visitorId: string) {
+  const [dietary, medical] = await Promise.all([
+    supabase
+      .from("dietary_forms")
+      .select("*")
+      .eq("event_id", eventId)
+      .eq("visitor_id", visitorId)
+      .maybeSingle(),
+    supabase
+      .from("medical_forms")
+      .select("*")
+      .eq("event_id", eventId)
+      .eq("visitor_id", visitorId)
+      .maybeSingle(),
+  ])
+
+  return {
+    dietary: dietary.data as DietaryForm | null,
+    medical: medical.data as MedicalForm | null,
+    error: dietary.error ?? medical.error,
+  }
+}
+
+/**
+ * Medical details for everyone holding a place at an event, by name.
+ * Only administrators and coordinators can read medical forms; anyone else
+ * sees every visitor as not having completed one.
+ */
+export async function listMedicalSummary(supabase: DbClient, eventId: string) {
+  const [assignments, medical, dietary] = await Promise.all([
+    supabase
+      .from("event_visitors")
+      .select("visitor:visitors!inner(id, first_name, last_name)")
+      .eq("event_id", eventId)
+      .in("rsvp_status", PLACE_HOLDING_STATUSES)
+      .is("visitor.deleted_at", null),
+    supabase
+      .from("medical_forms")
+      .select(`
+        visitor_id,
+        allergies,
+        carries_epinephrine,
+        medications,
+        conditions,
+        mobility_needs,
+        emergency_contact_name,
+        emergency_contact_phone,
+        emergency_contact_relationship
+      `)
+      .eq("event_id", eventId),
+    supabase
+      .from("dietary_forms")
+      .select("visitor_id, allergens, allergy_notes")
+      .eq("event_id", eventId),
+  ])
+
+  const medicalByVisitor = new Map((medical.data || []).map(({ visitor_id, ...form }) => [visitor_id, form]))
+  const dietaryByVisitor = new Map((dietary.data || []).map((form) => [form.visitor_id, form]))
+
+  const rows: MedicalSummaryRow[] = (assignments.data || [])
+    .map(({ visitor }) => {
+      const dietaryForm = dietaryByVisitor.get(visitor.id)
+      return {
+        visitorId: visitor.id,
+        visitorName: `${visitor.first_name} ${visitor.last_name}`,
+        medical: medicalByVisitor.get(visitor.id) ?? null,
+        foodAllergies: dietaryForm ? describeFoodAllergies(dietaryForm) : "",
+      }
+    })
+    .sort((a, b) => a.visitorName.localeCompare(b.visitorName))
+
+  return { rows, error: assignments.error ?? medical.error ?? dietary.error }
+}
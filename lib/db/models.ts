@@ -0,0 +1,36 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { Database, Tables } from "./types"
+
+// Row types shared by the pages, taken from the schema types so a
+// renamed or dropped column fails to compile wherever it's used.
+
+export type DbClient = SupabaseClient<Database>
+
+export type ListView = keyof Database["public"]["Views"]
+
+/**
+ * The generated types make every view column nullable; this narrows the
+ * columns a view never leaves null.
+ */
+export type ViewRow<
+  V extends ListView,
+  Nullable extends keyof Tables<V> = never,
+> = {
+  [K in keyof Tables<V>]: K extends Nullable ? Tables<V>[K] : NonNullable<Tables<V>[K]>
+}
+
+export type Company = Tables<"companies">
+export type DietaryForm = Tables<"dietary_forms">
+export type Document = Tables<"documents">
+export type DocumentType = Tables<"document_types">
+export type DocumentVersion = Tables<"document_versions">
+export type Event = Tables<"events">
+export type EventSession = Tables<"event_sessions">
+export type EventVisitor = Tables<"event_visitors">
+export type Form = Tables<"forms">
+export type FormEvent = Tables<"form_events">
+export type FormResponse = Tables<"form_responses">
+export type MedicalForm = Tables<"medical_forms">
+export type Profile = Tables<"profiles">
+export type ReportSubscription = Tables<"report_subscriptions">
+export type Visitor = Tables<"visitors">
@@ -0,0 +1,27 @@
+import type { DbClient, EventSession } from "./models"
+
+/** An event's agenda in running order */
+export async function listEventSessions(supabase: DbClient, eventId: string) {
+  const { data, error } = await supabase
+    .from("event_sessions")
+    .select("*")
+    .eq("event_id", eventId)
+    .order("session_date")
+    .order("start_time")
+
+  return { rows: (data || []) as EventSession[], error }
+}
+
+/** The agendas of several events, by event then running order */
+export async function listSessionsForEvents(supabase: DbClient, eventIds: string[]) {
+  if (eventIds.length === 0) return { rows: [] as EventSession[], error: null }
+
+  const { data, error } = await supabase
+    .from("event_sessions")
+    .select("*")
+    .in("event_id", eventIds)
+    .order("session_date")
+    .order("start_time")
+
+  return { rows: (data || []) as EventSession[], error }
+}
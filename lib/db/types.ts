@@ -0,0 +1,1436 @@
+// The schema in supabase/migrations, in the shape `supabase gen types`
+// produces. Update it in the same change as each migration, either by hand
+// or, with a linked project, by regenerating it with
+//   npx supabase gen types typescript --linked --schema public > lib/db/types.ts
+// and checking the diff covers only that migration.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  // Allows to automatically instantiate createClient with right options
+  // instead of createClient<Database, { PostgrestVersion: 'XX' }>(URL, KEY)
+  __InternalSupabase: {
+    PostgrestVersion: "13.0.5"
+  }
+  public: {
+    Tables: {
+      audit_log: {
+        Row: {
+          action: string
+          actor_email: string | null
+          actor_id: string | null
+          changed_fields: string[] | null
+          id: number
+          new_values: Json | null
+          occurred_at: string
+          old_values: Json | null
+          row_id: string
+          row_label: string | null
+          table_name: string
+        }
+        Insert: {
+          action: string
+          actor_email?: string | null
+          actor_id?: string | null
+          changed_fields?: string[] | null
+          id?: never
+          new_values?: Json | null
+          occurred_at?: string
+          old_values?: Json | null
+          row_id: string
+          row_label?: string | null
+          table_name: string
+        }
+        Update: {
+          action?: string
+          actor_email?: string | null
+          actor_id?: string | null
+          changed_fields?: string[] | null
+          id?: never
+          new_values?: Json | null
+          occurred_at?: string
+          old_values?: Json | null
+          row_id?: string
+          row_label?: string | null
+          table_name?: string
+        }
+        Relationships: []
+      }
+      calendar_feeds: {
+        Row: {
+          created_at: string
+          token: string
+          visitor_id: string
+        }
+        Insert: {
+          created_at?: string
+          token: string
+          visitor_id: string
+        }
+        Update: {
+          created_at?: string
+          token?: string
+          visitor_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feeds_visitor_id_fkey"
+            columns: ["visitor_id"]
+            isOneToOne: true
+            referencedRelation: "visitors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      companies: {
+        Row: {
+          address_line_1: string | null
+          address_line_2: string | null
+          city: string | null
+          country: string | null
+          created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
+          id: string
+          main_contact_email: string | null
+          main_contact_name: string | null
+          main_contact_phone: string | null
+          name: string
+          postal_code: string | null
+          state_province: string | null
+          updated_at: string
+        }
+        Insert: {
+          address_line_1?: string | null
+          address_line_2?: string | null
+          city?: string | null
+          country?: string | null
+          created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          id?: string
+          main_contact_email?: string | null
+          main_contact_name?: string | null
+          main_contact_phone?: string | null
+          name: string
+          postal_code?: string | null
+          state_province?: string | null
+          updated_at?: string
+        }
+        Update: {
+          address_line_1?: string | null
+          address_line_2?: string | null
+          city?: string | null
+          country?: string | null
+          created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          id?: string
+          main_contact_email?: string | null
+          main_contact_name?: string | null
+          main_contact_phone?: string | null
+          name?: string
+          postal_code?: string | null
+          state_province?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      dietary_forms: {
+        Row: {
+          allergens: string[]
+          allergy_notes: string | null
+          created_at: string
+          event_id: string
+          notes: string | null
+          restrictions: string[]
+          updated_at: string
+          visitor_id: string
+        }
+        Insert: {
+          allergens?: string[]
+          allergy_notes?: string | null
+          created_at?: string
+          event_id: string
+          notes?: string | null
+          restrictions?: string[]
+          updated_at?: string
+          visitor_id: string
+        }
+        Update: {
+          allergens?: string[]
+          allergy_notes?: string | null
+          created_at?: string
+          event_id?: string
+          notes?: string | null
+          restrictions?: string[]
+          updated_at?: string
+          visitor_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dietary_forms_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dietary_forms_visitor_id_fkey"
+            columns: ["visitor_id"]
+            isOneToOne: false
+            referencedRelation: "visitors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_events: {
+        Row: {
+          created_at: string
+          document_id: string
+          event_id: string
+        }
+        Insert: {
+          created_at?: string
+          document_id: string
+          event_id: string
+        }
+        Update: {
+          created_at?: string
+          document_id?: string
+          event_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_events_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_events_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_types: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          requires_confirmation: boolean
+          requires_signature: boolean
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          requires_confirmation?: boolean
+          requires_signature?: boolean
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          requires_confirmation?: boolean
+          requires_signature?: boolean
+        }
+        Relationships: []
+      }
+      document_versions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          document_id: string
+          file_name: string
+          file_path: string
+          file_sha256: string | null
+          file_size: number | null
+          id: string
+          is_current: boolean
+          mime_type: string | null
+          notes: string | null
+          version_number: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          document_id: string
+          file_name: string
+          file_path: string
+          file_sha256?: string | null
+          file_size?: number | null
+          id?: string
+          is_current?: boolean
+          mime_type?: string | null
+          notes?: string | null
+          version_number: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          document_id?: string
+          file_name?: string
+          file_path?: string
+          file_sha256?: string | null
+          file_size?: number | null
+          id?: string
+          is_current?: boolean
+          mime_type?: string | null
+          notes?: string | null
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_versions_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      documents: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          document_type_id: string | null
+          id: string
+          is_active: boolean
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          document_type_id?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          document_type_id?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "documents_document_type_id_fkey"
+            columns: ["document_type_id"]
+            isOneToOne: false
+            referencedRelation: "document_types"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_sessions: {
+        Row: {
+          created_at: string
+          description: string | null
+          end_time: string | null
+          event_id: string
+          host: string | null
+          id: string
+          location: string | null
+          session_date: string
+          start_time: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          end_time?: string | null
+          event_id: string
+          host?: string | null
+          id?: string
+          location?: string | null
+          session_date: string
+          start_time: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          end_time?: string | null
+          event_id?: string
+          host?: string | null
+          id?: string
+          location?: string | null
+          session_date?: string
+          start_time?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_sessions_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_visitors: {
+        Row: {
+          arrived_at: string | null
+          checked_in_by: string | null
+          created_at: string
+          departed_at: string | null
+          event_id: string
+          id: string
+          rsvp_changed_at: string
+          rsvp_note: string | null
+          rsvp_reason: string | null
+          rsvp_status: string
+          visitor_id: string
+          waitlist_position: number | null
+        }
+        Insert: {
+          arrived_at?: string | null
+          checked_in_by?: string | null
+          created_at?: string
+          departed_at?: string | null
+          event_id: string
+          id?: string
+          rsvp_changed_at?: string
+          rsvp_note?: string | null
+          rsvp_reason?: string | null
+          rsvp_status?: string
+          visitor_id: string
+          waitlist_position?: number | null
+        }
+        Update: {
+          arrived_at?: string | null
+          checked_in_by?: string | null
+          created_at?: string
+          departed_at?: string | null
+          event_id?: string
+          id?: string
+          rsvp_changed_at?: string
+          rsvp_note?: string | null
+          rsvp_reason?: string | null
+          rsvp_status?: string
+          visitor_id?: string
+          waitlist_position?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_visitors_checked_in_by_fkey"
+            columns: ["checked_in_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_visitors_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_visitors_visitor_id_fkey"
+            columns: ["visitor_id"]
+            isOneToOne: false
+            referencedRelation: "visitors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      events: {
+        Row: {
+          capacity: number | null
+          created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
+          description: string | null
+          end_date: string | null
+          id: string
+          location: string | null
+          name: string
+          sponsor_company_id: string | null
+          start_date: string | null
+          updated_at: string
+        }
+        Insert: {
+          capacity?: number | null
+          created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          description?: string | null
+          end_date?: string | null
+          id?: string
+          location?: string | null
+          name: string
+          sponsor_company_id?: string | null
+          start_date?: string | null
+          updated_at?: string
+        }
+        Update: {
+          capacity?: number | null
+          created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          description?: string | null
+          end_date?: string | null
+          id?: string
+          location?: string | null
+          name?: string
+          sponsor_company_id?: string | null
+          start_date?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "events_sponsor_company_id_fkey"
+            columns: ["sponsor_company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      form_events: {
+        Row: {
+          created_at: string
+          event_id: string
+          form_id: string
+          required: boolean
+        }
+        Insert: {
+          created_at?: string
+          event_id: string
+          form_id: string
+          required?: boolean
+        }
+        Update: {
+          created_at?: string
+          event_id?: string
+          form_id?: string
+          required?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "form_events_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "form_events_form_id_fkey"
+            columns: ["form_id"]
+            isOneToOne: false
+            referencedRelation: "forms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      form_responses: {
+        Row: {
+          answers: Json
+          event_id: string
+          form_id: string
+          id: string
+          submitted_at: string
+          updated_at: string
+          visitor_id: string
+        }
+        Insert: {
+          answers?: Json
+          event_id: string
+          form_id: string
+          id?: string
+          submitted_at?: string
+          updated_at?: string
+          visitor_id: string
+        }
+        Update: {
+          answers?: Json
+          event_id?: string
+          form_id?: string
+          id?: string
+          submitted_at?: string
+          updated_at?: string
+          visitor_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "form_responses_form_id_fkey"
+            columns: ["form_id"]
+            isOneToOne: false
+            referencedRelation: "forms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "form_responses_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "form_responses_visitor_id_fkey"
+            columns: ["visitor_id"]
+            isOneToOne: false
+            referencedRelation: "visitors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      forms: {
+        Row: {
+          created_at: string
+          description: string | null
+          fields: Json
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          fields?: Json
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          fields?: Json
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      medical_forms: {
+        Row: {
+          allergies: string | null
+          carries_epinephrine: boolean
+          conditions: string | null
+          created_at: string
+          emergency_contact_name: string
+          emergency_contact_phone: string
+          emergency_contact_relationship: string | null
+          event_id: string
+          medications: string | null
+          mobility_needs: string | null
+          updated_at: string
+          visitor_id: string
+        }
+        Insert: {
+          allergies?: string | null
+          carries_epinephrine?: boolean
+          conditions?: string | null
+          created_at?: string
+          emergency_contact_name: string
+          emergency_contact_phone: string
+          emergency_contact_relationship?: string | null
+          event_id: string
+          medications?: string | null
+          mobility_needs?: string | null
+          updated_at?: string
+          visitor_id: string
+        }
+        Update: {
+          allergies?: string | null
+          carries_epinephrine?: boolean
+          conditions?: string | null
+          created_at?: string
+          emergency_contact_name?: string
+          emergency_contact_phone?: string
+          emergency_contact_relationship?: string | null
+          event_id?: string
+          medications?: string | null
+          mobility_needs?: string | null
+          updated_at?: string
+          visitor_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "medical_forms_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "medical_forms_visitor_id_fkey"
+            columns: ["visitor_id"]
+            isOneToOne: false
+            referencedRelation: "visitors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          created_at: string
+          error: string | null
+          event_id: string
+          id: string
+          kind: string
+          sent_at: string | null
+          status: string
+          visitor_id: string
+        }
+        Insert: {
+          created_at?: string
+          error?: string | null
+          event_id: string
+          id?: string
+          kind: string
+          sent_at?: string | null
+          status?: string
+          visitor_id: string
+        }
+        Update: {
+          created_at?: string
+          error?: string | null
+          event_id?: string
+          id?: string
+          kind?: string
+          sent_at?: string | null
+          status?: string
+          visitor_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_visitor_id_fkey"
+            columns: ["visitor_id"]
+            isOneToOne: false
+            referencedRelation: "visitors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          account_type: string
+          company_id: string | null
+          created_at: string
+          first_name: string | null
+          id: string
+          last_name: string | null
+          security_group: string | null
+          updated_at: string
+        }
+        Insert: {
+          account_type?: string
+          company_id?: string | null
+          created_at?: string
+          first_name?: string | null
+          id: string
+          last_name?: string | null
+          security_group?: string | null
+          updated_at?: string
+        }
+        Update: {
+          account_type?: string
+          company_id?: string | null
+          created_at?: string
+          first_name?: string | null
+          id?: string
+          last_name?: string | null
+          security_group?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_deliveries: {
+        Row: {
+          delivery_key: string
+          error: string | null
+          event_id: string | null
+          id: string
+          sent_at: string
+          status: string
+          subscription_id: string
+        }
+        Insert: {
+          delivery_key: string
+          error?: string | null
+          event_id?: string | null
+          id?: string
+          sent_at?: string
+          status: string
+          subscription_id: string
+        }
+        Update: {
+          delivery_key?: string
+          error?: string | null
+          event_id?: string | null
+          id?: string
+          sent_at?: string
+          status?: string
+          subscription_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_deliveries_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_deliveries_subscription_id_fkey"
+            columns: ["subscription_id"]
+            isOneToOne: false
+            referencedRelation: "report_subscriptions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_subscriptions: {
+        Row: {
+          created_at: string
+          days_before: number
+          email: string
+          id: string
+          is_active: boolean
+          params: Json
+          profile_id: string
+          report_id: string
+          schedule: string
+        }
+        Insert: {
+          created_at?: string
+          days_before?: number
+          email: string
+          id?: string
+          is_active?: boolean
+          params?: Json
+          profile_id: string
+          report_id: string
+          schedule: string
+        }
+        Update: {
+          created_at?: string
+          days_before?: number
+          email?: string
+          id?: string
+          is_active?: boolean
+          params?: Json
+          profile_id?: string
+          report_id?: string
+          schedule?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_subscriptions_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rsvp_history: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          event_id: string
+          from_status: string
+          id: string
+          note: string | null
+          reason: string | null
+          to_status: string
+          visitor_id: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          event_id: string
+          from_status: string
+          id?: string
+          note?: string | null
+          reason?: string | null
+          to_status: string
+          visitor_id: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          event_id?: string
+          from_status?: string
+          id?: string
+          note?: string | null
+          reason?: string | null
+          to_status?: string
+          visitor_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rsvp_history_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rsvp_history_visitor_id_fkey"
+            columns: ["visitor_id"]
+            isOneToOne: false
+            referencedRelation: "visitors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trashed_rows: {
+        Row: {
+          id: number
+          owner_id: string
+          owner_table: string
+          row_data: Json
+          table_name: string
+          trashed_at: string
+        }
+        Insert: {
+          id?: never
+          owner_id: string
+          owner_table: string
+          row_data: Json
+          table_name: string
+          trashed_at?: string
+        }
+        Update: {
+          id?: never
+          owner_id?: string
+          owner_table?: string
+          row_data?: Json
+          table_name?: string
+          trashed_at?: string
+        }
+        Relationships: []
+      }
+      visitor_confirmations: {
+        Row: {
+          consent_text: string | null
+          created_at: string
+          document_id: string
+          document_version_id: string
+          event_id: string
+          form_name: string | null
+          id: string
+          ip_address: string | null
+          signature_method: string | null
+          signature_path: string | null
+          signed_at: string
+          signer_name: string | null
+          user_agent: string | null
+          visitor_id: string
+        }
+        Insert: {
+          consent_text?: string | null
+          created_at?: string
+          document_id: string
+          document_version_id: string
+          event_id: string
+          form_name?: string | null
+          id?: string
+          ip_address?: string | null
+          signature_method?: string | null
+          signature_path?: string | null
+          signed_at?: string
+          signer_name?: string | null
+          user_agent?: string | null
+          visitor_id: string
+        }
+        Update: {
+          consent_text?: string | null
+          created_at?: string
+          document_id?: string
+          document_version_id?: string
+          event_id?: string
+          form_name?: string | null
+          id?: string
+          ip_address?: string | null
+          signature_method?: string | null
+          signature_path?: string | null
+          signed_at?: string
+          signer_name?: string | null
+          user_agent?: string | null
+          visitor_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "visitor_confirmations_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "visitor_confirmations_document_version_id_fkey"
+            columns: ["document_version_id"]
+            isOneToOne: false
+            referencedRelation: "document_versions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "visitor_confirmations_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "visitor_confirmations_visitor_id_fkey"
+            columns: ["visitor_id"]
+            isOneToOne: false
+            referencedRelation: "visitors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      visitor_credentials: {
+        Row: {
+          event_id: string
+          id: string
+          issued_at: string
+          token: string
+          visitor_id: string
+        }
+        Insert: {
+          event_id: string
+          id?: string
+          issued_at?: string
+          token: string
+          visitor_id: string
+        }
+        Update: {
+          event_id?: string
+          id?: string
+          issued_at?: string
+          token?: string
+          visitor_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "visitor_credentials_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "visitor_credentials_visitor_id_fkey"
+            columns: ["visitor_id"]
+            isOneToOne: false
+            referencedRelation: "visitors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      visitors: {
+        Row: {
+          company_id: string | null
+          created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
+          email: string | null
+          first_name: string
+          id: string
+          last_name: string
+          phone: string | null
+          profile_id: string | null
+          search_vector: unknown
+          updated_at: string
+        }
+        Insert: {
+          company_id?: string | null
+          created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          email?: string | null
+          first_name: string
+          id?: string
+          last_name: string
+          phone?: string | null
+          profile_id?: string | null
+          search_vector?: unknown
+          updated_at?: string
+        }
+        Update: {
+          company_id?: string | null
+          created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          email?: string | null
+          first_name?: string
+          id?: string
+          last_name?: string
+          phone?: string | null
+          profile_id?: string | null
+          search_vector?: unknown
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "visitors_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "visitors_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      admin_document_list: {
+        Row: {
+          created_at: string | null
+          current_file_name: string | null
+          current_file_size: number | null
+          current_version_id: string | null
+          current_version_number: number | null
+          description: string | null
+          document_type_id: string | null
+          document_type_name: string | null
+          event_count: number | null
+          id: string | null
+          is_active: boolean | null
+          name: string | null
+          search: unknown
+        }
+        Relationships: []
+      }
+      admin_event_list: {
+        Row: {
+          capacity: number | null
+          description: string | null
+          end_date: string | null
+          id: string | null
+          location: string | null
+          name: string | null
+          places_taken: number | null
+          search: unknown
+          sponsor_company_id: string | null
+          sponsor_name: string | null
+          start_date: string | null
+          waitlisted: number | null
+        }
+        Relationships: []
+      }
+      admin_organization_list: {
+        Row: {
+          address_line_1: string | null
+          address_line_2: string | null
+          city: string | null
+          country: string | null
+          event_count: number | null
+          id: string | null
+          main_contact_email: string | null
+          main_contact_name: string | null
+          main_contact_phone: string | null
+          name: string | null
+          postal_code: string | null
+          search: unknown
+          state_province: string | null
+          visitor_count: number | null
+        }
+        Relationships: []
+      }
+      admin_visitor_list: {
+        Row: {
+          company_id: string | null
+          company_name: string | null
+          email: string | null
+          event_count: number | null
+          first_name: string | null
+          id: string | null
+          last_name: string | null
+          phone: string | null
+          profile_id: string | null
+          search: unknown
+        }
+        Relationships: []
+      }
+      event_document_versions: {
+        Row: {
+          current_version_id: string | null
+          document_id: string | null
+          document_type_id: string | null
+          document_type_name: string | null
+          event_id: string | null
+          requires_confirmation: boolean | null
+        }
+        Relationships: []
+      }
+      event_visitor_document_status: {
+        Row: {
+          confirmed_docs: number | null
+          documents_complete: boolean | null
+          event_id: string | null
+          event_name: string | null
+          event_start_date: string | null
+          first_name: string | null
+          forms_complete: boolean | null
+          last_name: string | null
+          organization_name: string | null
+          outdated_docs: number | null
+          required_docs: number | null
+          rsvp_status: string | null
+          visitor_id: string | null
+        }
+        Relationships: []
+      }
+      report_document_confirmations: {
+        Row: {
+          confirmed_at: string | null
+          document_name: string | null
+          event_date: string | null
+          event_id: string | null
+          event_name: string | null
+          organization_id: string | null
+          version: number | null
+          visitor_id: string | null
+          visitor_name: string | null
+        }
+        Relationships: []
+      }
+      report_events_by_organization: {
+        Row: {
+          assigned_visitors: number | null
+          confirmed_visitors: number | null
+          end_date: string | null
+          event_id: string | null
+          event_name: string | null
+          organization: string | null
+          organization_id: string | null
+          start_date: string | null
+        }
+        Relationships: []
+      }
+      report_meal_counts: {
+        Row: {
+          category: string | null
+          event_date: string | null
+          event_id: string | null
+          event_name: string | null
+          organization_id: string | null
+          requirement: string | null
+          visitor_names: string | null
+          visitors: number | null
+        }
+        Relationships: []
+      }
+      report_visitors_by_event: {
+        Row: {
+          email: string | null
+          event_date: string | null
+          event_id: string | null
+          event_name: string | null
+          organization: string | null
+          organization_id: string | null
+          status: string | null
+          visitor_id: string | null
+          visitor_name: string | null
+        }
+        Relationships: []
+      }
+      visitor_document_versions: {
+        Row: {
+          confirmed_version_id: string | null
+          current_version_id: string | null
+          document_id: string | null
+          document_type_name: string | null
+          event_id: string | null
+          requires_confirmation: boolean | null
+          visitor_id: string | null
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      check_organization_contact_email_exists: {
+        Args: { email_to_check: string }
+        Returns: boolean
+      }
+      check_visitor_email_exists: {
+        Args: { email_to_check: string }
+        Returns: boolean
+      }
+      contact_company_id: { Args: never; Returns: string }
+      event_places_taken: { Args: { p_event_id: string }; Returns: number }
+      get_next_version_number: { Args: { doc_id: string }; Returns: number }
+      import_roster: { Args: { p_rows: Json }; Returns: Json }
+      is_contact_event: { Args: { p_event_id: string }; Returns: boolean }
+      is_contact_visitor: { Args: { p_visitor_id: string }; Returns: boolean }
+      is_liaison_visitor: { Args: { p_visitor_id: string }; Returns: boolean }
+      is_staff: { Args: { p_roles: string[] }; Returns: boolean }
+      liaison_company_id: { Args: never; Returns: string }
+      merge_visitors: {
+        Args: { p_keep_id: string; p_merge_id: string }
+        Returns: string
+      }
+      next_waitlist_position: { Args: { p_event_id: string }; Returns: number }
+      promote_from_waitlist: { Args: { p_event_id: string }; Returns: number }
+      purge_trash: { Args: { p_before: string }; Returns: number }
+      restore_records: {
+        Args: { p_ids: string[]; p_table: string }
+        Returns: number
+      }
+      search_vector: { Args: { p_values: string[] }; Returns: unknown }
+      set_current_version: { Args: { version_id: string }; Returns: undefined }
+      set_event_visitors: {
+        Args: { p_event_id: string; p_visitor_ids: string[] }
+        Returns: {
+          event_id: string
+          rsvp_status: string
+          visitor_id: string
+        }[]
+      }
+      set_visitor_events: {
+        Args: { p_event_ids: string[]; p_visitor_id: string }
+        Returns: {
+          event_id: string
+          rsvp_status: string
+          visitor_id: string
+        }[]
+      }
+      trash_records: {
+        Args: { p_ids: string[]; p_table: string }
+        Returns: number
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type DatabaseWithoutInternals = Omit<Database, "__InternalSupabase">
+
+type DefaultSchema = DatabaseWithoutInternals[Extract<keyof Database, "public">]
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+        DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+      DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])
+    ? (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
@@ -0,0 +1,80 @@
+import { fetchTablePage, MAX_ROWS_PER_REQUEST, type TableQuery } from "@/lib/data-table"
+import type { Company, DbClient, Visitor } from "./models"
+
+export type VisitorListRow = Pick<
+  Visitor,
+  "id" | "first_name" | "last_name" | "email" | "phone" | "company_id" | "profile_id"
+> & {
+  company_name: string | null
+  event_count: number
+}
+
+export type VisitorOption = Pick<Visitor, "id" | "first_name" | "last_name" | "email"> & {
+  company: Pick<Company, "name"> | null
+}
+
+/** A page of the visitors table */
+export function listVisitors(supabase: DbClient, query: TableQuery) {
+  return fetchTablePage<VisitorListRow>(
+    supabase,
+    "admin_visitor_list",
+    "id, first_name, last_name, email, phone, company_id, profile_id, company_name, event_count",
+    query
+  )
+}
+
+/** Visitors not in the trash, by last name, for pickers */
+export async function listVisitorOptions(supabase: DbClient) {
+  const { data, error } = await supabase
+    .from("visitors")
+    .select("id, first_name, last_name, email, company:companies(name)")
+    .is("deleted_at", null)
+    .order("last_name")
+
+  return { rows: (data || []) as VisitorOption[], error }
+}
+
+export type DuplicateCandidate = Pick<
+  Visitor,
+  "id" | "first_name" | "last_name" | "email" | "phone" | "profile_id"
+> & {
+  company: Pick<Company, "name"> | null
+  event_visitors: { count: number }[]
+}
+
+/**
+ * Every visitor not in the trash, with what the duplicates page compares
+ * and shows. Pages through past the server's max-rows, since a visitor
+ * left out can't be matched.
+ */
+export async function listDuplicateCandidates(supabase: DbClient) {
+  const rows: DuplicateCandidate[] = []
+
+  for (let from = 0; ; from += MAX_ROWS_PER_REQUEST) {
+    // Ties keep a stable order so rows don't move between pages
+    const { data, error } = await supabase
+      .from("visitors")
+      .select("id, first_name, last_name, email, phone, profile_id, company:companies(name), event_visitors(count)")
+      .is("deleted_at", null)
+      .order("last_name")
+      .order("id")
+      .range(from, from + MAX_ROWS_PER_REQUEST - 1)
+
+    if (error) return { rows, error }
+
+    rows.push(...(data || []))
+    if (!data || data.length < MAX_ROWS_PER_REQUEST) return { rows, error: null }
+  }
+}
+
+/** The visitor record linked to a login, if there is one */
+export async function getVisitorIdForProfile(supabase: DbClient, profileId: string) {
+  const { data, error } = await supabase
+    .from("visitors")
+    .select("id")
+    .eq("profile_id", profileId)
+    .is("deleted_at", null)
+    .maybeSingle()
+
+  return { visitorId: data?.id ?? null, error }
+}
@@ -0,0 +1,171 @@
+import type { DbClient } from "@/lib/db"
+
+// Finding visitors entered more than once, and merging them. Matching is
+// deliberately loose; an admin reviews every pair before merging.
+
+export interface DedupeVisitor {
+  id: string
+  first_name: string
+  last_name: string
+  email: string | null
+  phone: string | null
+}
+
+export type DuplicateReason = "same_email" | "similar_email" | "same_phone" | "same_name" | "similar_name"
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  same_email: "Same email",
+  similar_email: "Similar email",
+  same_phone: "Same phone",
+  same_name: "Same name",
+  similar_name: "Similar name",
+}
+
+const REASON_WEIGHTS: Record<DuplicateReason, number> = {
+  same_email: 3,
+  similar_email: 2,
+  same_phone: 2,
+  same_name: 2,
+  similar_name: 1,
+}
+
+export interface DuplicatePair<T extends DedupeVisitor> {
+  a: T
+  b: T
+  reasons: DuplicateReason[]
+  /** Higher is more likely the same person */
+  score: number
+}
+
+/** Names at least this similar are flagged */
+const NAME_SIMILARITY_THRESHOLD = 0.8
+
+const normalizeName = (value: string) => value.toLowerCase().replace(/[^a-z]/g, "")
+
+const normalizeEmail = (value: string | null) => value?.trim().toLowerCase() || ""
+
+/** Ignores dots and +tags in the local part: j.doe+events@x.com is jdoe@x.com */
+const looseEmail = (email: string) => {
+  const [local, domain] = email.split("@")
+  if (!domain) return email
+  return `${local.replace(/\+.*$/, "").replace(/\./g, "")}@${domain}`
+}
+
+/** The last ten digits, or nothing for numbers too short to compare */
+const normalizePhone = (value: string | null) => {
+  const digits = (value || "").replace(/\D/g, "")
+  return digits.length >= 7 ? digits.slice(-10) : ""
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/** 1 for the same letters, falling towards 0 as more edits are needed */
+export function nameSimilarity(a: string, b: string): number {
+  const x = normalizeName(a)
+  const y = normalizeName(b)
+  if (!x && !y) return 1
+  return 1 - editDistance(x, y) / Math.max(x.length, y.length)
+}
+
+const firstNamesMatch = (a: string, b: string) => {
+  const x = normalizeName(a)
+  const y = normalizeName(b)
+  // Jon and Jonathan
+  return x.length > 1 && y.length > 1 && (x.startsWith(y) || y.startsWith(x))
+}
+
+function compareVisitors(a: DedupeVisitor, b: DedupeVisitor): DuplicateReason[] {
+  const reasons: DuplicateReason[] = []
+
+  const emailA = normalizeEmail(a.email)
+  const emailB = normalizeEmail(b.email)
+  if (emailA && emailA === emailB) reasons.push("same_email")
+  else if (emailA && emailB && looseEmail(emailA) === looseEmail(emailB)) reasons.push("similar_email")
+
+  const phoneA = normalizePhone(a.phone)
+  if (phoneA && phoneA === normalizePhone(b.phone)) reasons.push("same_phone")
+
+  const fullA = `${a.first_name} ${a.last_name}`
+  const fullB = `${b.first_name} ${b.last_name}`
+  if (normalizeName(fullA) === normalizeName(fullB)) {
+    reasons.push("same_name")
+  } else if (
+    nameSimilarity(fullA, fullB) >= NAME_SIMILARITY_THRESHOLD
+    || (normalizeName(a.last_name) === normalizeName(b.last_name) && firstNamesMatch(a.first_name, b.first_name))
+  ) {
+    reasons.push("similar_name")
+  }
+
+  return reasons
+}
+
+/**
+ * Pairs of visitors that look like the same person, most likely first.
+ * Only visitors sharing an email, phone, first name or last name are
+ * compared, which keeps this quick on large lists.
+ */
+export function findDuplicateVisitors<T extends DedupeVisitor>(visitors: T[]): DuplicatePair<T>[] {
+  const buckets = new Map<string, number[]>()
+  const addToBucket = (key: string, index: number) => {
+    const bucket = buckets.get(key)
+    if (bucket) bucket.push(index)
+    else buckets.set(key, [index])
+  }
+
+  visitors.forEach((v, index) => {
+    const email = normalizeEmail(v.email)
+    if (email) addToBucket(`email:${looseEmail(email)}`, index)
+    const phone = normalizePhone(v.phone)
+    if (phone) addToBucket(`phone:${phone}`, index)
+    const first = normalizeName(v.first_name)
+    if (first) addToBucket(`first:${first}`, index)
+    const last = normalizeName(v.last_name)
+    if (last) addToBucket(`last:${last}`, index)
+  })
+
+  const seen = new Set<string>()
+  const pairs: DuplicatePair<T>[] = []
+
+  buckets.forEach((indexes) => {
+    for (let i = 0; i < indexes.length; i++) {
+      for (let j = i + 1; j < indexes.length; j++) {
+        const key = `${indexes[i]}:${indexes[j]}`
+        if (seen.has(key)) continue
+        seen.add(key)
+
+        const a = visitors[indexes[i]]
+        const b = visitors[indexes[j]]
+        const reasons = compareVisitors(a, b)
+        // A shared first or last name alone isn't a match
+        if (reasons.length === 0) continue
+
+        pairs.push({ a, b, reasons, score: reasons.reduce((sum, r) => sum + REASON_WEIGHTS[r], 0) })
+      }
+    }
+  })
+
+  return pairs.sort((x, y) => y.score - x.score)
+}
+
+/**
+ * Folds one visitor into another: assignments, confirmations, history and
+ * the login link move to the visitor kept, and the other goes to the trash.
+ */
+export async function mergeVisitors(supabase: DbClient, keepId: string, mergeId: string) {
+  const { error } = await supabase.rpc("merge_visitors", { p_keep_id: keepId, p_merge_id: mergeId })
+  return { error }
+}
@@ -0,0 +1,341 @@
+import type { ExportData } from "@/lib/reports/export/shared"
+
+// Custom questionnaires built in the admin form builder (see the
+// custom_forms migration). A form is an ordered list of typed fields; a
+// field can be shown only when an earlier field has a given answer, and
+// hidden fields are neither validated nor kept. Answers are stored as a
+// JSON object keyed by field id.
+
+export const FIELD_TYPES = ["text", "choice", "date", "file", "yes_no"] as const
+
+export type FieldType = (typeof FIELD_TYPES)[number]
+
+export const FIELD_TYPE_LABELS: Record<FieldType, string> = {
+  text: "Text",
+  choice: "Choice",
+  date: "Date",
+  file: "File Upload",
+  yes_no: "Yes / No",
+}
+
+/** Show a field only when an earlier field has this answer */
+export type FieldCondition = {
+  fieldId: string
+  /** An option of a choice field, `yes` or `no`, or text to match */
+  value: string
+}
+
+// Types rather than interfaces so fields can be saved as JSON
+export type FormField = {
+  id: string
+  type: FieldType
+  label: string
+  helpText?: string
+  required: boolean
+  showIf?: FieldCondition
+  /** Text fields */
+  multiline?: boolean
+  minLength?: number
+  maxLength?: number
+  /** Choice fields */
+  options?: string[]
+  multiple?: boolean
+  /** Date fields: the earliest and latest allowed days */
+  minDate?: string
+  maxDate?: string
+  /** File fields: allowed extensions such as `.pdf`, any when empty */
+  accept?: string[]
+  maxSizeMb?: number
+}
+
+/**
+ * Text and dates are strings, multiple choice a list of options, yes/no a
+ * boolean and files the storage path of the upload.
+ */
+export type AnswerValue = string | string[] | boolean | null
+
+export type FormAnswers = Record<string, AnswerValue>
+
+export const DEFAULT_MAX_FILE_MB = 10
+
+export const FORM_UPLOAD_BUCKET = "form-uploads"
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export function isFieldType(value: unknown): value is FieldType {
+  return typeof value === "string" && (FIELD_TYPES as readonly string[]).includes(value)
+}
+
+/** A new, empty field of the type, with a random id */
+export function createField(type: FieldType): FormField {
+  const field: FormField = { id: crypto.randomUUID().slice(0, 8), type, label: "", required: false }
+  if (type === "choice") field.options = []
+  return field
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+/** The fields stored on a form, skipping any that aren't well formed */
+export function parseFormFields(value: unknown): FormField[] {
+  if (!Array.isArray(value)) return []
+  return value.filter(
+    (field): field is FormField =>
+      isRecord(field) && typeof field.id === "string" && typeof field.label === "string" && isFieldType(field.type)
+  )
+}
+
+/** Stored answers, keeping only values of the shapes answers take */
+export function parseFormAnswers(value: unknown): FormAnswers {
+  if (!isRecord(value)) return {}
+  return Object.fromEntries(
+    Object.entries(value).filter(
+      ([, answer]) =>
+        answer === null ||
+        typeof answer === "string" ||
+        typeof answer === "boolean" ||
+        (Array.isArray(answer) && answer.every((item) => typeof item === "string"))
+    )
+  ) as FormAnswers
+}
+
+export function isAnswered(value: AnswerValue | undefined) {
+  if (value === null || value === undefined) return false
+  if (typeof value === "string") return value.trim() !== ""
+  if (Array.isArray(value)) return value.length > 0
+  return true
+}
+
+/** Whether an answer satisfies a condition's value */
+export function answerMatches(answer: AnswerValue | undefined, value: string) {
+  if (typeof answer === "boolean") return answer === (value === "yes")
+  if (Array.isArray(answer)) return answer.includes(value)
+  if (typeof answer === "string") return answer.trim().toLowerCase() === value.trim().toLowerCase()
+  return false
+}
+
+/**
+ * Whether the field is asked given the answers so far. A field whose
+ * condition depends on a hidden field is hidden too.
+ */
+export function isFieldVisible(field: FormField, fields: FormField[], answers: FormAnswers): boolean {
+  if (!field.showIf) return true
+
+  const { fieldId, value } = field.showIf
+  const source = fields.find((f) => f.id === fieldId)
+  if (!source || source === field) return false
+
+  return answerMatches(answers[fieldId], value) && isFieldVisible(source, fields, answers)
+}
+
+export function visibleFields(fields: FormField[], answers: FormAnswers) {
+  return fields.filter((field) => isFieldVisible(field, fields, answers))
+}
+
+/**
+ * Where a visitor's upload is stored. The storage policies only let a
+ * visitor write under their own id; the timestamp keeps uploads of the same
+ * file name apart.
+ */
+export function formUploadPath(visitorId: string, formId: string, fileName: string, now = Date.now()) {
+  return `${visitorId}/${formId}/${now}-${fileName.replace(/[^\w.-]+/g, "_")}`
+}
+
+/** Whether a file answer is the visitor's own upload for the form */
+export function isOwnUpload(path: string, visitorId: string, formId: string) {
+  return path.startsWith(`${visitorId}/${formId}/`) && !path.includes("..")
+}
+
+/** The name of an uploaded file from its storage path */
+export function fileAnswerName(path: string) {
+  return path.split("/").pop()?.replace(/^\d+-/, "") ?? path
+}
+
+/** Checks a file before uploading it. Returns a message, or null when it's allowed. */
+export function validateFile(field: FormField, file: { name: string; size: number }): string | null {
+  const accept = field.accept?.filter(Boolean) ?? []
+  const name = file.name.toLowerCase()
+  if (accept.length > 0 && !accept.some((ext) => name.endsWith(ext.toLowerCase()))) {
+    return `Upload a ${accept.join(", ")} file.`
+  }
+
+  const maxSizeMb = field.maxSizeMb ?? DEFAULT_MAX_FILE_MB
+  if (file.size > maxSizeMb * 1024 * 1024) {
+    return `The file must be ${maxSizeMb} MB or smaller.`
+  }
+  return null
+}
+
+/** Checks one answer. Returns a message for the first problem, or null. */
+export function validateAnswer(field: FormField, value: AnswerValue | undefined): string | null {
+  if (!isAnswered(value)) {
+    return field.required ? "This question is required." : null
+  }
+
+  switch (field.type) {
+    case "text": {
+      if (typeof value !== "string") return "Enter text."
+      const length = value.trim().length
+      if (field.minLength && length < field.minLength) return `Enter at least ${field.minLength} characters.`
+      if (field.maxLength && length > field.maxLength) return `Enter no more than ${field.maxLength} characters.`
+      return null
+    }
+    case "choice": {
+      const chosen = Array.isArray(value) ? value : [value]
+      if (!field.multiple && chosen.length > 1) return "Choose one option."
+      if (chosen.some((option) => typeof option !== "string" || !field.options?.includes(option))) {
+        return "Choose from the options listed."
+      }
+      return null
+    }
+    case "date": {
+      if (typeof value !== "string" || !DATE_PATTERN.test(value)) return "Enter a date."
+      if (field.minDate && value < field.minDate) return `Enter a date on or after ${field.minDate}.`
+      if (field.maxDate && value > field.maxDate) return `Enter a date on or before ${field.maxDate}.`
+      return null
+    }
+    case "file":
+      return typeof value === "string" ? null : "Upload a file."
+    case "yes_no":
+      return typeof value === "boolean" ? null : "Answer yes or no."
+  }
+}
+
+/** Messages for every visible field with a problem, by field id */
+export function validateAnswers(fields: FormField[], answers: FormAnswers): Record<string, string> {
+  const errors: Record<string, string> = {}
+  visibleFields(fields, answers).forEach((field) => {
+    const error = validateAnswer(field, answers[field.id])
+    if (error) errors[field.id] = error
+  })
+  return errors
+}
+
+/** The answers to keep: those to visible fields, trimmed */
+export function cleanAnswers(fields: FormField[], answers: FormAnswers): FormAnswers {
+  return Object.fromEntries(
+    visibleFields(fields, answers)
+      .filter((field) => isAnswered(answers[field.id]))
+      .map((field) => {
+        const value = answers[field.id]
+        return [field.id, typeof value === "string" ? value.trim() : value]
+      })
+  )
+}
+
+/**
+ * Tidies fields as edited in the builder for saving: trims text, drops
+ * blank options and extensions, and drops settings that don't apply to the
+ * field's type, such as options left over from changing a choice to text.
+ */
+export function normalizeFields(fields: FormField[]): FormField[] {
+  return fields.map((field) => {
+    const normalized: FormField = {
+      id: field.id,
+      type: field.type,
+      label: field.label.trim(),
+      required: field.required,
+    }
+    if (field.helpText?.trim()) normalized.helpText = field.helpText.trim()
+    if (field.showIf?.fieldId) normalized.showIf = { fieldId: field.showIf.fieldId, value: field.showIf.value.trim() }
+
+    switch (field.type) {
+      case "text":
+        if (field.multiline) normalized.multiline = true
+        if (field.minLength) normalized.minLength = field.minLength
+        if (field.maxLength) normalized.maxLength = field.maxLength
+        break
+      case "choice":
+        normalized.options = (field.options ?? []).map((option) => option.trim()).filter(Boolean)
+        if (field.multiple) normalized.multiple = true
+        break
+      case "date":
+        if (field.minDate) normalized.minDate = field.minDate
+        if (field.maxDate) normalized.maxDate = field.maxDate
+        break
+      case "file": {
+        const accept = (field.accept ?? []).map((ext) => ext.trim().toLowerCase()).filter(Boolean)
+        if (accept.length > 0) normalized.accept = accept.map((ext) => (ext.startsWith(".") ? ext : `.${ext}`))
+        if (field.maxSizeMb) normalized.maxSizeMb = field.maxSizeMb
+        break
+      }
+    }
+    return normalized
+  })
+}
+
+/**
+ * Checks a form's normalized fields before saving it in the builder.
+ * Returns a message for the first problem, or null when it's valid.
+ */
+export function validateFormDefinition(name: string, fields: FormField[]): string | null {
+  if (!name.trim()) return "Enter a name for the form."
+  if (fields.length === 0) return "Add at least one question."
+
+  for (const [index, field] of fields.entries()) {
+    const position = `Question ${index + 1}`
+    if (!field.label.trim()) return `${position} needs a label.`
+
+    if (field.type === "choice") {
+      const options = field.options ?? []
+      if (options.length === 0) return `${position} needs options to choose from.`
+      if (new Set(options).size !== options.length) return `${position} lists an option twice.`
+    }
+    if (field.minLength && field.maxLength && field.minLength > field.maxLength) {
+      return `${position} has a minimum length above its maximum.`
+    }
+    if (field.minDate && field.maxDate && field.minDate > field.maxDate) {
+      return `${position} has an earliest date after its latest.`
+    }
+
+    if (field.showIf) {
+      // Conditions look back only, so they can never loop
+      const source = fields.slice(0, index).find((f) => f.id === field.showIf?.fieldId)
+      if (!source) return `${position} depends on a question that doesn't come before it.`
+      if (source.type === "file" || source.type === "date") {
+        return `${position} can't depend on a ${FIELD_TYPE_LABELS[source.type].toLowerCase()} question.`
+      }
+      if (!field.showIf.value) return `${position} needs an answer to depend on.`
+      if (source.type === "choice" && !source.options?.includes(field.showIf.value)) {
+        return `${position} depends on an option that question doesn't have.`
+      }
+    }
+  }
+  return null
+}
+
+/** An answer as text for the response viewer and exports */
+export function formatAnswer(field: FormField, value: AnswerValue | undefined): string {
+  if (!isAnswered(value)) return ""
+  if (typeof value === "boolean") return value ? "Yes" : "No"
+  if (Array.isArray(value)) return value.join(", ")
+  if (field.type === "file") return fileAnswerName(value as string)
+  return value as string
+}
+
+export interface FormResponseRow {
+  visitorName: string
+  email: string | null
+  submittedAt: string
+  answers: FormAnswers
+}
+
+/** Responses as rows for the report exporters, a column per question */
+export function formResponsesExportData(fields: FormField[], responses: FormResponseRow[]): ExportData {
+  return {
+    columns: [
+      { key: "visitor", label: "Visitor" },
+      { key: "email", label: "Email" },
+      { key: "submitted_at", label: "Submitted", type: "datetime" },
+      ...fields.map((field) => ({ key: `field_${field.id}`, label: field.label })),
+    ],
+    data: responses.map((response) => ({
+      visitor: response.visitorName,
+      email: response.email,
+      submitted_at: response.submittedAt,
+      ...Object.fromEntries(
+        fields.map((field) => [`field_${field.id}`, formatAnswer(field, response.answers[field.id])])
+      ),
+    })),
+  }
+}
@@ -0,0 +1,229 @@
+import type { ExportData } from "@/lib/reports/export/shared"
+
+// Dietary and medical questionnaires visitors answer for each event (see
+// the intake_forms migration). The option keys match the database checks;
+// the meal counts report labels them the same way as these labels.
+
+export const DIETARY_RESTRICTIONS = [
+  "vegetarian",
+  "vegan",
+  "pescatarian",
+  "gluten_free",
+  "dairy_free",
+  "kosher",
+  "halal",
+] as const
+
+export type DietaryRestriction = (typeof DIETARY_RESTRICTIONS)[number]
+
+export const DIETARY_RESTRICTION_LABELS: Record<DietaryRestriction, string> = {
+  vegetarian: "Vegetarian",
+  vegan: "Vegan",
+  pescatarian: "Pescatarian",
+  gluten_free: "Gluten Free",
+  dairy_free: "Dairy Free",
+  kosher: "Kosher",
+  halal: "Halal",
+}
+
+export const ALLERGENS = [
+  "peanuts",
+  "tree_nuts",
+  "shellfish",
+  "fish",
+  "eggs",
+  "milk",
+  "soy",
+  "wheat",
+  "sesame",
+] as const
+
+export type Allergen = (typeof ALLERGENS)[number]
+
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  peanuts: "Peanuts",
+  tree_nuts: "Tree Nuts",
+  shellfish: "Shellfish",
+  fish: "Fish",
+  eggs: "Eggs",
+  milk: "Milk",
+  soy: "Soy",
+  wheat: "Wheat",
+  sesame: "Sesame",
+}
+
+export type IntakeKind = "dietary" | "medical"
+
+export interface DietaryAnswers {
+  restrictions: DietaryRestriction[]
+  allergens: Allergen[]
+  allergy_notes: string
+  notes: string
+}
+
+export interface MedicalAnswers {
+  allergies: string
+  carries_epinephrine: boolean
+  medications: string
+  conditions: string
+  mobility_needs: string
+  emergency_contact_name: string
+  emergency_contact_phone: string
+  emergency_contact_relationship: string
+}
+
+export const EMPTY_DIETARY_ANSWERS: DietaryAnswers = {
+  restrictions: [],
+  allergens: [],
+  allergy_notes: "",
+  notes: "",
+}
+
+export const EMPTY_MEDICAL_ANSWERS: MedicalAnswers = {
+  allergies: "",
+  carries_epinephrine: false,
+  medications: "",
+  conditions: "",
+  mobility_needs: "",
+  emergency_contact_name: "",
+  emergency_contact_phone: "",
+  emergency_contact_relationship: "",
+}
+
+/** Adds the option to the list, or takes it out if it's already there */
+export function toggleOption<T extends string>(options: T[], option: T): T[] {
+  return options.includes(option) ? options.filter((o) => o !== option) : [...options, option]
+}
+
+/**
+ * Checks medical answers before saving. Returns a message for the first
+ * problem, or null when they're valid.
+ */
+export function validateMedicalAnswers(answers: MedicalAnswers): string | null {
+  if (!answers.emergency_contact_name.trim()) return "Enter an emergency contact."
+  if (!answers.emergency_contact_phone.trim()) return "Enter a phone number for your emergency contact."
+  if (answers.emergency_contact_phone.replace(/\D/g, "").length < 7) {
+    return "Enter a full phone number for your emergency contact."
+  }
+  return null
+}
+
+const isDietaryRestriction = (value: string): value is DietaryRestriction =>
+  (DIETARY_RESTRICTIONS as readonly string[]).includes(value)
+
+const isAllergen = (value: string): value is Allergen => (ALLERGENS as readonly string[]).includes(value)
+
+/** A saved dietary form as answers to edit */
+export function dietaryAnswersFromForm(form: {
+  restrictions: string[]
+  allergens: string[]
+  allergy_notes: string | null
+  notes: string | null
+}): DietaryAnswers {
+  return {
+    restrictions: form.restrictions.filter(isDietaryRestriction),
+    allergens: form.allergens.filter(isAllergen),
+    allergy_notes: form.allergy_notes ?? "",
+    notes: form.notes ?? "",
+  }
+}
+
+/** A saved medical form as answers to edit */
+export function medicalAnswersFromForm(form: MedicalFormValues): MedicalAnswers {
+  return {
+    allergies: form.allergies ?? "",
+    carries_epinephrine: form.carries_epinephrine,
+    medications: form.medications ?? "",
+    conditions: form.conditions ?? "",
+    mobility_needs: form.mobility_needs ?? "",
+    emergency_contact_name: form.emergency_contact_name,
+    emergency_contact_phone: form.emergency_contact_phone,
+    emergency_contact_relationship: form.emergency_contact_relationship ?? "",
+  }
+}
+
+/** Free text answers as stored: trimmed, with blanks as null */
+const optionalText = (value: string) => value.trim() || null
+
+export function dietaryFormValues(answers: DietaryAnswers) {
+  return {
+    restrictions: answers.restrictions,
+    allergens: answers.allergens,
+    allergy_notes: optionalText(answers.allergy_notes),
+    notes: optionalText(answers.notes),
+  }
+}
+
+export function medicalFormValues(answers: MedicalAnswers) {
+  return {
+    allergies: optionalText(answers.allergies),
+    carries_epinephrine: answers.carries_epinephrine,
+    medications: optionalText(answers.medications),
+    conditions: optionalText(answers.conditions),
+    mobility_needs: optionalText(answers.mobility_needs),
+    emergency_contact_name: answers.emergency_contact_name.trim(),
+    emergency_contact_phone: answers.emergency_contact_phone.trim(),
+    emergency_contact_relationship: optionalText(answers.emergency_contact_relationship),
+  }
+}
+
+/** A visitor's food allergies in one line, e.g. `Peanuts, Sesame (mild)` */
+export function describeFoodAllergies(form: { allergens: string[]; allergy_notes: string | null }) {
+  const allergens = form.allergens
+    .map((allergen) => (isAllergen(allergen) ? ALLERGEN_LABELS[allergen] : allergen))
+    .join(", ")
+  if (!form.allergy_notes) return allergens
+  return allergens ? `${allergens} (${form.allergy_notes})` : form.allergy_notes
+}
+
+/** Medical answers as stored */
+export type MedicalFormValues = ReturnType<typeof medicalFormValues>
+
+/** One visitor's line in an event's medical summary */
+export interface MedicalSummaryRow {
+  visitorId: string
+  visitorName: string
+  /** Null until the visitor completes the medical form */
+  medical: MedicalFormValues | null
+  foodAllergies: string
+}
+
+/** e.g. `Jane Doe (Spouse) 406-555-0100` */
+export function describeEmergencyContact(medical: MedicalFormValues) {
+  return [
+    medical.emergency_contact_name,
+    medical.emergency_contact_relationship && `(${medical.emergency_contact_relationship})`,
+    medical.emergency_contact_phone,
+  ].filter(Boolean).join(" ")
+}
+
+/** Everything a visitor is allergic to, food and otherwise, in one line */
+export function describeAllergies({ medical, foodAllergies }: MedicalSummaryRow) {
+  return [
+    foodAllergies && `Food: ${foodAllergies}`,
+    medical?.allergies,
+    medical?.carries_epinephrine && "Carries epinephrine",
+  ].filter(Boolean).join("; ")
+}
+
+/** The medical summary as rows for the report exporters */
+export function medicalSummaryExportData(rows: MedicalSummaryRow[]): ExportData {
+  return {
+    columns: [
+      { key: "visitor", label: "Visitor" },
+      { key: "emergency_contact", label: "Emergency Contact" },
+      { key: "allergies", label: "Allergies" },
+      { key: "medications", label: "Medications" },
+      { key: "conditions", label: "Conditions" },
+      { key: "mobility_needs", label: "Mobility Needs" },
+    ],
+    data: rows.map((row) => ({
+      visitor: row.visitorName,
+      emergency_contact: row.medical ? describeEmergencyContact(row.medical) : "Form not completed",
+      allergies: describeAllergies(row),
+      medications: row.medical?.medications ?? null,
+      conditions: row.medical?.conditions ?? null,
+      mobility_needs: row.medical?.mobility_needs ?? null,
+    })),
+  }
+}
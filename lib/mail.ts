@@ -0,0 +1,73 @@
+import nodemailer from "nodemailer"
+
+export interface MailAttachment {
+  filename: string
+  content: Buffer
+  contentType?: string
+}
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  attachments?: MailAttachment[]
+}
+
+/**
+ * Anything that can deliver a message. The scheduler only depends on this
+ * interface so tests and local development can swap in their own transport.
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>
+}
+
+export interface SmtpConfig {
+  host: string
+  port: number
+  secure?: boolean
+  user?: string
+  password?: string
+  from: string
+}
+
+export function createSmtpTransport(config: SmtpConfig): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure ?? config.port === 465,
+    auth: config.user ? { user: config.user, pass: config.password } : undefined,
+  })
+
+  return {
+    async send(message) {
+      await transporter.sendMail({
+        from: config.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        attachments: message.attachments,
+      })
+    },
+  }
+}
+
+/**
+ * Builds the SMTP transport from SMTP_* environment variables. Point
+ * SMTP_HOST/SMTP_PORT at a local SMTP stand-in (e.g. Mailpit on
+ * localhost:1025) to capture mail during development.
+ */
+export function getMailTransport(): MailTransport {
+  const host = process.env.SMTP_HOST
+  if (!host) {
+    throw new Error("SMTP_HOST is not configured")
+  }
+
+  return createSmtpTransport({
+    host,
+    port: Number(process.env.SMTP_PORT || 587),
+    secure: process.env.SMTP_SECURE === "true",
+    user: process.env.SMTP_USER,
+    password: process.env.SMTP_PASSWORD,
+    from: process.env.MAIL_FROM || "West Creek Ranch <no-reply@westcreekranch.com>",
+  })
+}
@@ -0,0 +1,98 @@
+import type { DbClient, Event, Visitor } from "@/lib/db"
+import type { MailTransport } from "@/lib/mail"
+
+// Visitor notifications queued by the database (see the notifications
+// table) and emailed by the notifications cron.
+
+export const NOTIFICATION_KINDS = ["waitlist_promoted"] as const
+
+export type NotificationKind = (typeof NOTIFICATION_KINDS)[number]
+
+export interface NotificationContext {
+  visitor: Pick<Visitor, "first_name" | "email">
+  event: Pick<Event, "name" | "start_date" | "end_date">
+}
+
+export function isNotificationKind(value: unknown): value is NotificationKind {
+  return typeof value === "string" && (NOTIFICATION_KINDS as readonly string[]).includes(value)
+}
+
+const formatDate = (date: string | null) => {
+  if (!date) return "TBD"
+  return new Date(date + "T00:00:00").toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  })
+}
+
+export function composeNotification(kind: NotificationKind, { visitor, event }: NotificationContext) {
+  switch (kind) {
+    case "waitlist_promoted":
+      return {
+        subject: `A place has opened up: ${event.name}`,
+        text: [
+          `Hello ${visitor.first_name},`,
+          "",
+          `Good news! A place has opened up for ${event.name} (${formatDate(event.start_date)} to ${formatDate(event.end_date)}) and you have been moved off the waitlist.`,
+          "",
+          "Please sign in to accept your invitation and review the documents for your visit.",
+          "",
+          "West Creek Ranch",
+        ].join("\n"),
+      }
+  }
+}
+
+/** Emails every pending notification. Expects a service role client. */
+export async function sendPendingNotifications(supabase: DbClient, transport: MailTransport) {
+  const { data: pending, error } = await supabase
+    .from("notifications")
+    .select("id, kind, visitor:visitors(first_name, email), event:events(name, start_date, end_date)")
+    .eq("status", "pending")
+    .order("created_at", { ascending: true })
+    .limit(100)
+
+  if (error) throw error
+
+  let sent = 0
+  let failed = 0
+
+  for (const { id, kind, visitor, event } of pending || []) {
+    let sendError: string | null = null
+
+    try {
+      if (!visitor?.email) {
+        throw new Error("Visitor has no email address")
+      }
+      if (!event) {
+        throw new Error("Event not found")
+      }
+      if (!isNotificationKind(kind)) {
+        throw new Error(`Unknown notification kind: ${kind}`)
+      }
+
+      await transport.send({
+        to: visitor.email,
+        ...composeNotification(kind, { visitor, event }),
+      })
+      sent++
+    } catch (err) {
+      console.error(`Error sending notification ${id}:`, err)
+      sendError = err instanceof Error ? err.message : "Unknown error"
+      failed++
+    }
+
+    await supabase
+      .from("notifications")
+      .update({
+        status: sendError ? "failed" : "sent",
+        error: sendError,
+        sent_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+  }
+
+  return { sent, failed }
+}
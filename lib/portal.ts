@@ -0,0 +1,76 @@
+import type { DocumentManifest } from "@/lib/credentials/token"
+import type { RsvpStatus } from "@/lib/rsvp"
+
+// Shapes shared by the organization portal page and its client component.
+
+export interface PortalEvent {
+  id: string
+  name: string
+  start_date: string | null
+  end_date: string | null
+  location: string | null
+}
+
+export interface DocumentStatus {
+  required: number
+  /** Confirmed at the current version */
+  confirmed: number
+  /** Confirmed, but at a version that has since been replaced */
+  outdated: number
+}
+
+export interface PortalAssignment {
+  event_id: string
+  rsvp_status: RsvpStatus
+  documents: DocumentStatus
+}
+
+export interface PortalVisitor {
+  id: string
+  first_name: string
+  last_name: string
+  email: string | null
+  phone: string | null
+  assignments: PortalAssignment[]
+}
+
+export interface PortalData {
+  organization: { id: string; name: string }
+  events: PortalEvent[]
+  visitors: PortalVisitor[]
+}
+
+/**
+ * How far a visitor is through an event's required documents, given the
+ * event's current versions and the visitor's confirmations for that event.
+ * A visitor may have confirmed several versions of a document; it counts
+ * once, as confirmed if any of them is current.
+ */
+export function getDocumentStatus(
+  required: DocumentManifest,
+  confirmations: { document_id: string; document_version_id: string }[]
+): DocumentStatus {
+  const confirmed = new Map<string, Set<string>>()
+  confirmations.forEach((c) => {
+    const versions = confirmed.get(c.document_id) ?? new Set<string>()
+    versions.add(c.document_version_id)
+    confirmed.set(c.document_id, versions)
+  })
+  const status: DocumentStatus = { required: 0, confirmed: 0, outdated: 0 }
+
+  Object.entries(required).forEach(([documentId, versionId]) => {
+    status.required++
+    const confirmedVersions = confirmed.get(documentId)
+    if (confirmedVersions?.has(versionId)) status.confirmed++
+    else if (confirmedVersions) status.outdated++
+  })
+
+  return status
+}
+
+export function formatDocumentStatus(status: DocumentStatus): string {
+  if (status.required === 0) return "None required"
+  if (status.confirmed === status.required) return "Complete"
+  const text = `${status.confirmed} of ${status.required} confirmed`
+  return status.outdated > 0 ? `${text} (${status.outdated} outdated)` : text
+}
@@ -0,0 +1,26 @@
+import { dayAfter } from "../engine"
+import type { ReportDefinition } from "../types"
+
+export const documentConfirmations: ReportDefinition = {
+  id: "document-confirmations",
+  name: "Document Confirmations",
+  description: "List all document confirmations by visitor and event",
+  source: "report_document_confirmations",
+  columns: [
+    { key: "visitor_name", label: "Visitor Name", sortable: true, searchable: true },
+    { key: "event_name", label: "Event Name", sortable: true, searchable: true },
+    { key: "document_name", label: "Document Name", sortable: true, searchable: true },
+    { key: "confirmed_at", label: "Confirmed At", type: "datetime", sortable: true },
+    { key: "version", label: "Version", type: "number", sortable: true },
+  ],
+  parameters: ["dateRange", "organization", "event"],
+  defaultSort: [{ key: "confirmed_at", ascending: false }],
+  query: (query, params) => {
+    // The date range is when documents were confirmed, not the event date
+    if (params.startDate) query = query.gte("confirmed_at", params.startDate)
+    if (params.endDate) query = query.lt("confirmed_at", dayAfter(params.endDate))
+    if (params.organizationId) query = query.eq("organization_id", params.organizationId)
+    if (params.eventId) query = query.eq("event_id", params.eventId)
+    return query
+  },
+}
@@ -0,0 +1,30 @@
+import type { ReportDefinition } from "../types"
+
+export const eventsByOrganization: ReportDefinition = {
+  id: "events-by-organization",
+  name: "Events by Organization",
+  description: "List all events grouped by organization with visitor counts",
+  source: "report_events_by_organization",
+  columns: [
+    { key: "organization", label: "Organization", sortable: true, searchable: true },
+    { key: "event_name", label: "Event Name", sortable: true, searchable: true },
+    { key: "start_date", label: "Start Date", type: "date", sortable: true },
+    { key: "end_date", label: "End Date", type: "date", sortable: true },
+    { key: "assigned_visitors", label: "Assigned Visitors", type: "number", sortable: true },
+    { key: "confirmed_visitors", label: "Confirmed Visitors", type: "number", sortable: true },
+    { key: "declined_visitors", label: "Declined", type: "number", sortable: true },
+    { key: "waitlisted_visitors", label: "Waitlisted", type: "number", sortable: true },
+  ],
+  parameters: ["dateRange", "organization", "event"],
+  defaultSort: [
+    { key: "organization", ascending: true },
+    { key: "start_date", ascending: true },
+  ],
+  query: (query, params) => {
+    if (params.startDate) query = query.gte("start_date", params.startDate)
+    if (params.endDate) query = query.lte("start_date", params.endDate)
+    if (params.organizationId) query = query.eq("organization_id", params.organizationId)
+    if (params.eventId) query = query.eq("event_id", params.eventId)
+    return query
+  },
+}
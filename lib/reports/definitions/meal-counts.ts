@@ -0,0 +1,31 @@
+import type { ReportDefinition } from "../types"
+
+export const mealCounts: ReportDefinition = {
+  id: "meal-counts",
+  name: "Meal Counts",
+  description: "Meals per event for the kitchen, with counts and names for each diet and food allergy",
+  source: "report_meal_counts",
+  columns: [
+    { key: "event_name", label: "Event Name", sortable: true, searchable: true },
+    { key: "event_date", label: "Event Date", type: "date", sortable: true },
+    { key: "category", label: "Category", sortable: true, searchable: true },
+    { key: "requirement", label: "Requirement", sortable: true, searchable: true },
+    { key: "visitors", label: "Visitors", type: "number", sortable: true },
+    { key: "visitor_names", label: "Names", searchable: true },
+  ],
+  parameters: ["dateRange", "organization", "event"],
+  defaultSort: [
+    { key: "event_date", ascending: true },
+    { key: "event_name", ascending: true },
+    // Total, Not answered, Diet, Allergy
+    { key: "category", ascending: false },
+    { key: "requirement", ascending: true },
+  ],
+  query: (query, params) => {
+    if (params.startDate) query = query.gte("event_date", params.startDate)
+    if (params.endDate) query = query.lte("event_date", params.endDate)
+    if (params.organizationId) query = query.eq("organization_id", params.organizationId)
+    if (params.eventId) query = query.eq("event_id", params.eventId)
+    return query
+  },
+}
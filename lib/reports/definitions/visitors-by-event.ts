@@ -0,0 +1,29 @@
+import type { ReportDefinition } from "../types"
+
+export const visitorsByEvent: ReportDefinition = {
+  id: "visitors-by-event",
+  name: "Visitors by Event",
+  description: "List all visitors assigned to each event with their confirmation status",
+  source: "report_visitors_by_event",
+  columns: [
+    { key: "event_name", label: "Event Name", sortable: true, searchable: true },
+    { key: "event_date", label: "Event Date", type: "date", sortable: true },
+    { key: "organization", label: "Organization", sortable: true, searchable: true },
+    { key: "visitor_name", label: "Visitor Name", sortable: true, searchable: true },
+    { key: "email", label: "Email", sortable: true, searchable: true },
+    { key: "status", label: "Status", sortable: true, searchable: true },
+  ],
+  parameters: ["dateRange", "organization", "event"],
+  defaultSort: [
+    { key: "event_date", ascending: true },
+    { key: "event_name", ascending: true },
+    { key: "visitor_name", ascending: true },
+  ],
+  query: (query, params) => {
+    if (params.startDate) query = query.gte("event_date", params.startDate)
+    if (params.endDate) query = query.lte("event_date", params.endDate)
+    if (params.organizationId) query = query.eq("organization_id", params.organizationId)
+    if (params.eventId) query = query.eq("event_id", params.eventId)
+    return query
+  },
+}
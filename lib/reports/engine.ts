@@ -0,0 +1,152 @@
+import { MAX_ROWS_PER_REQUEST } from "@/lib/data-table"
+import type {
+  ReportClient,
+  ReportColumn,
+  ReportDefinition,
+  ReportOptions,
+  ReportResult,
+  ReportSource,
+  ReportSort,
+} from "./types"
+
+export const DEFAULT_PAGE_SIZE = 50
+export const MAX_PAGE_SIZE = 500
+export const EXPORT_ROW_LIMIT = 10000
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const toPositiveInt = (value: string | null, fallback: number) => {
+  const parsed = Number.parseInt(value ?? "", 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+/**
+ * The day after a `YYYY-MM-DD` date, for end dates compared against
+ * timestamps: everything before the next day is on or before the end date.
+ */
+export function dayAfter(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`)
+  next.setUTCDate(next.getUTCDate() + 1)
+  return next.toISOString().split("T")[0]
+}
+
+/**
+ * Parses a `sort` query value such as `event_date:asc,visitor_name:desc`.
+ * Columns that are unknown or not sortable are dropped.
+ */
+export function parseSort(value: string | null, columns: ReportColumn[]): ReportSort[] {
+  if (!value) return []
+
+  const sortable = new Set(columns.filter((col) => col.sortable).map((col) => col.key))
+
+  return value
+    .split(",")
+    .map((part) => {
+      const [key, direction] = part.trim().split(":")
+      return { key, ascending: direction !== "desc" }
+    })
+    .filter((sort) => sortable.has(sort.key))
+}
+
+export function parseReportOptions(searchParams: URLSearchParams, definition: ReportDefinition): ReportOptions {
+  const startDate = searchParams.get("startDate") ?? ""
+  const endDate = searchParams.get("endDate") ?? ""
+  const sort = parseSort(searchParams.get("sort"), definition.columns)
+
+  return {
+    params: {
+      startDate: DATE_PATTERN.test(startDate) ? startDate : undefined,
+      endDate: DATE_PATTERN.test(endDate) ? endDate : undefined,
+      organizationId: searchParams.get("organizationId") || undefined,
+      eventId: searchParams.get("eventId") || undefined,
+    },
+    search: (searchParams.get("search") ?? "").trim(),
+    sort: sort.length > 0 ? sort : definition.defaultSort,
+    page: toPositiveInt(searchParams.get("page"), 1),
+    pageSize: Math.min(toPositiveInt(searchParams.get("pageSize"), DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE),
+    all: searchParams.get("all") === "true",
+  }
+}
+
+/**
+ * Builds a PostgREST `or` filter that matches the term against every
+ * searchable column. The term is quoted so commas and parentheses in user
+ * input cannot break out of the filter expression.
+ */
+export function buildSearchFilter(columns: ReportColumn[], term: string): string | null {
+  const searchable = columns.filter((col) => col.searchable)
+  if (!term || searchable.length === 0) return null
+
+  const escaped = term.replace(/[\\"]/g, "\\$&")
+  return searchable.map((col) => `${col.key}.ilike."*${escaped}*"`).join(",")
+}
+
+/** The base query of a report, before its parameters are applied */
+export function selectReport(supabase: ReportClient, source: ReportSource, columns: string) {
+  return supabase.from(source).select(columns, { count: "exact" })
+}
+
+export async function runReport(
+  supabase: ReportClient,
+  definition: ReportDefinition,
+  options: ReportOptions
+): Promise<ReportResult> {
+  const selectColumns = definition.columns.map((col) => col.key).join(", ")
+  const searchFilter = buildSearchFilter(definition.columns, options.search)
+
+  // A builder runs once, so every range needs its own query
+  const fetchRange = async (from: number, to: number) => {
+    let query = definition.query(selectReport(supabase, definition.source, selectColumns), options.params)
+
+    if (searchFilter) {
+      query = query.or(searchFilter)
+    }
+
+    for (const sort of options.sort) {
+      query = query.order(sort.key, { ascending: sort.ascending, nullsFirst: false })
+    }
+
+    // The columns come from the definition, so the row type can't be inferred
+    const { data, count, error } = await query
+      .range(from, to)
+      .overrideTypes<Record<string, unknown>[], { merge: false }>()
+
+    if (error) throw error
+    return { rows: data ?? [], count: count ?? 0 }
+  }
+
+  if (!options.all) {
+    const from = (options.page - 1) * options.pageSize
+    const { rows, count } = await fetchRange(from, from + options.pageSize - 1)
+
+    return {
+      columns: definition.columns,
+      data: rows,
+      total: count,
+      page: options.page,
+      pageSize: options.pageSize,
+    }
+  }
+
+  // Exports page through the rows in chunks the server will return whole,
+  // up to EXPORT_ROW_LIMIT
+  const data: Record<string, unknown>[] = []
+  let total = 0
+
+  while (data.length < EXPORT_ROW_LIMIT) {
+    const to = Math.min(data.length + MAX_ROWS_PER_REQUEST, EXPORT_ROW_LIMIT) - 1
+    const { rows, count } = await fetchRange(data.length, to)
+
+    data.push(...rows)
+    total = count
+    if (rows.length === 0 || data.length >= total) break
+  }
+
+  return {
+    columns: definition.columns,
+    data,
+    total,
+    page: 1,
+    pageSize: EXPORT_ROW_LIMIT,
+  }
+}
@@ -0,0 +1,28 @@
+import { headerLines, type ExportContext, type ExportData } from "./shared"
+
+// Spreadsheets run text starting with these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+const escapeCsv = (value: unknown) => {
+  let text = value === null || value === undefined ? "" : String(value)
+  // Numbers stay as they are so negative amounts aren't turned into text
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) || /^[#\s]|\s$/.test(text)
+    ? `"${text.replace(/"/g, '""')}"`
+    : text
+}
+
+/**
+ * CSV with the report header written as `#` comment lines, which most CSV
+ * readers can skip (e.g. pandas `comment="#"`). Values are left unformatted
+ * so integrations receive ISO dates and plain numbers.
+ */
+export function renderCsv(result: ExportData, context: ExportContext): string {
+  const lines = [
+    ...headerLines(context).map((line) => `# ${line}`),
+    result.columns.map((col) => escapeCsv(col.label)).join(","),
+    ...result.data.map((row) => result.columns.map((col) => escapeCsv(row[col.key])).join(",")),
+  ]
+
+  return lines.join("\r\n") + "\r\n"
+}
@@ -0,0 +1,40 @@
+import { renderCsv } from "./csv"
+import { renderJson } from "./json"
+import { renderPdf } from "./pdf"
+import { renderXlsx } from "./xlsx"
+import { EXPORT_FORMATS, exportFilename, type ExportContext, type ExportData, type ExportedFile, type ExportFormat } from "./shared"
+
+export * from "./shared"
+
+/**
+ * Renders a report result in the requested format. Shared by the download
+ * buttons on the reports page and scheduled delivery on the server.
+ */
+export async function exportReport(
+  format: ExportFormat,
+  result: ExportData,
+  context: ExportContext
+): Promise<ExportedFile> {
+  let content: Uint8Array<ArrayBuffer> | string
+
+  switch (format) {
+    case "xlsx":
+      content = await renderXlsx(result, context)
+      break
+    case "csv":
+      content = renderCsv(result, context)
+      break
+    case "json":
+      content = renderJson(result, context)
+      break
+    case "pdf":
+      content = renderPdf(result, context)
+      break
+  }
+
+  return {
+    filename: exportFilename(context.reportName, format, context.generatedAt),
+    mimeType: EXPORT_FORMATS[format].mimeType,
+    content,
+  }
+}
@@ -0,0 +1,13 @@
+import type { ExportContext, ExportData } from "./shared"
+
+export function renderJson(result: ExportData, context: ExportContext): string {
+  return JSON.stringify({
+    report: context.reportName,
+    generatedAt: context.generatedAt.toISOString(),
+    filters: context.filters,
+    columns: result.columns.map(({ key, label, type }) => ({ key, label, type: type ?? "text" })),
+    rows: result.data.map((row) =>
+      Object.fromEntries(result.columns.map((col) => [col.key, row[col.key] ?? null]))
+    ),
+  }, null, 2)
+}
@@ -0,0 +1,36 @@
+import { jsPDF } from "jspdf"
+import autoTable from "jspdf-autotable"
+import { formatValue, headerLines, type ExportContext, type ExportData } from "./shared"
+
+/** Printable landscape roster with the report header above the table */
+export function renderPdf(result: ExportData, context: ExportContext): Uint8Array<ArrayBuffer> {
+  const doc = new jsPDF({ orientation: "landscape", unit: "pt", format: "letter" })
+  const [title, ...details] = headerLines(context)
+
+  doc.setFontSize(16)
+  doc.text(title, 40, 48)
+  doc.setFontSize(10)
+  details.forEach((line, index) => {
+    doc.text(line, 40, 68 + index * 14)
+  })
+
+  autoTable(doc, {
+    startY: 68 + details.length * 14 + 8,
+    head: [result.columns.map((col) => col.label)],
+    body: result.data.map((row) => result.columns.map((col) => formatValue(col, row[col.key]))),
+    styles: { fontSize: 9, cellPadding: 4 },
+    headStyles: { fillColor: [224, 224, 224], textColor: 20 },
+    margin: { left: 40, right: 40 },
+    didDrawPage: () => {
+      const pageCount = doc.getNumberOfPages()
+      doc.setFontSize(8)
+      doc.text(
+        `Page ${pageCount}`,
+        doc.internal.pageSize.getWidth() - 80,
+        doc.internal.pageSize.getHeight() - 20
+      )
+    },
+  })
+
+  return new Uint8Array(doc.output("arraybuffer"))
+}
@@ -0,0 +1,121 @@
+import type { ReportColumn, ReportParams } from "../types"
+
+export type ExportFormat = "xlsx" | "csv" | "pdf" | "json"
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  xlsx: {
+    label: "Excel",
+    extension: "xlsx",
+    mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  },
+  csv: { label: "CSV", extension: "csv", mimeType: "text/csv" },
+  pdf: { label: "PDF", extension: "pdf", mimeType: "application/pdf" },
+  json: { label: "JSON", extension: "json", mimeType: "application/json" },
+}
+
+/** A human readable filter, e.g. `{ label: "Organization", value: "Acme" }` */
+export interface ReportFilter {
+  label: string
+  value: string
+}
+
+export interface ExportData {
+  columns: ReportColumn[]
+  data: Record<string, unknown>[]
+}
+
+export interface ExportContext {
+  reportName: string
+  filters: ReportFilter[]
+  generatedAt: Date
+}
+
+export interface ExportedFile {
+  filename: string
+  mimeType: string
+  content: Uint8Array<ArrayBuffer> | string
+}
+
+export const formatGeneratedAt = (date: Date) => {
+  return date.toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  })
+}
+
+/** The lines every export starts with: report name, run timestamp and filters */
+export function headerLines(context: ExportContext): string[] {
+  const filters = context.filters.length > 0
+    ? context.filters.map((f) => `${f.label}: ${f.value}`).join("; ")
+    : "None"
+
+  return [
+    context.reportName,
+    `Generated: ${formatGeneratedAt(context.generatedAt)}`,
+    `Filters: ${filters}`,
+  ]
+}
+
+/** Formats a cell for human readable output (PDF) */
+export function formatValue(column: ReportColumn, value: unknown): string {
+  if (value === null || value === undefined || value === "") return ""
+  switch (column.type) {
+    case "date":
+      return new Date(String(value) + "T00:00:00").toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+      })
+    case "datetime":
+      return new Date(String(value)).toLocaleString("en-US", {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+        hour: "numeric",
+        minute: "2-digit",
+      })
+    default:
+      return String(value)
+  }
+}
+
+/** Filename such as `Visitors_by_Event_10192026.xlsx` */
+export function exportFilename(name: string, format: ExportFormat, date: Date = new Date()): string {
+  const dateStr = `${String(date.getMonth() + 1).padStart(2, "0")}${String(date.getDate()).padStart(2, "0")}${date.getFullYear()}`
+  return `${name.replace(/\s+/g, "_")}_${dateStr}.${EXPORT_FORMATS[format].extension}`
+}
+
+/**
+ * Turns report parameters into readable filters for export headers. IDs are
+ * shown as-is when no name is supplied for them.
+ */
+export function describeFilters(
+  params: ReportParams,
+  search: string,
+  names: { organizations?: Record<string, string>; events?: Record<string, string> } = {}
+): ReportFilter[] {
+  const filters: ReportFilter[] = []
+
+  if (params.startDate && params.endDate) {
+    filters.push({ label: "Dates", value: `${params.startDate} to ${params.endDate}` })
+  } else if (params.startDate) {
+    filters.push({ label: "Dates", value: `from ${params.startDate}` })
+  } else if (params.endDate) {
+    filters.push({ label: "Dates", value: `through ${params.endDate}` })
+  }
+  if (params.organizationId) {
+    filters.push({ label: "Organization", value: names.organizations?.[params.organizationId] ?? params.organizationId })
+  }
+  if (params.eventId) {
+    filters.push({ label: "Event", value: names.events?.[params.eventId] ?? params.eventId })
+  }
+  if (search) {
+    filters.push({ label: "Search", value: `"${search}"` })
+  }
+
+  return filters
+}
@@ -0,0 +1,57 @@
+import ExcelJS from "exceljs"
+import { headerLines, type ExportContext, type ExportData } from "./shared"
+
+/**
+ * Builds the .xlsx workbook for a report: the report header (name, run
+ * timestamp, filters), a blank row, then the table.
+ */
+export function buildReportWorkbook(result: ExportData, context: ExportContext): ExcelJS.Workbook {
+  const workbook = new ExcelJS.Workbook()
+  workbook.creator = "West Creek Ranch"
+  workbook.created = context.generatedAt
+
+  // Worksheet names are limited to 31 characters
+  const worksheet = workbook.addWorksheet(context.reportName.slice(0, 31))
+
+  // Add report header
+  headerLines(context).forEach((line, index) => {
+    const row = worksheet.addRow([line])
+    if (index === 0) {
+      row.font = { bold: true, size: 14 }
+    }
+  })
+  worksheet.addRow([])
+
+  // Add column headers
+  const headerRow = worksheet.addRow(result.columns.map(col => col.label))
+  headerRow.font = { bold: true }
+  headerRow.fill = {
+    type: "pattern",
+    pattern: "solid",
+    fgColor: { argb: "FFE0E0E0" },
+  }
+  const headerRowNumber = headerRow.number
+
+  // Add data
+  result.data.forEach(row => {
+    worksheet.addRow(result.columns.map(col => row[col.key] ?? ""))
+  })
+
+  // Auto-fit columns to the table (the report header may run wider)
+  worksheet.columns.forEach(column => {
+    let maxLength = 10
+    column.eachCell?.({ includeEmpty: true }, (cell, rowNumber) => {
+      if (rowNumber < headerRowNumber) return
+      const cellLength = cell.value ? String(cell.value).length : 0
+      maxLength = Math.max(maxLength, cellLength)
+    })
+    column.width = Math.min(maxLength + 2, 50)
+  })
+
+  return workbook
+}
+
+export async function renderXlsx(result: ExportData, context: ExportContext): Promise<Uint8Array<ArrayBuffer>> {
+  const buffer = await buildReportWorkbook(result, context).xlsx.writeBuffer()
+  return new Uint8Array(buffer)
+}
@@ -0,0 +1,28 @@
+import type { ReportDefinition, ReportSummary } from "./types"
+import { visitorsByEvent } from "./definitions/visitors-by-event"
+import { eventsByOrganization } from "./definitions/events-by-organization"
+import { documentConfirmations } from "./definitions/document-confirmations"
+import { mealCounts } from "./definitions/meal-counts"
+
+// To add a report, create a definition in ./definitions and register it here.
+const reportDefinitions: ReportDefinition[] = [
+  visitorsByEvent,
+  eventsByOrganization,
+  documentConfirmations,
+  mealCounts,
+]
+
+export function getReport(id: string): ReportDefinition | undefined {
+  return reportDefinitions.find((report) => report.id === id)
+}
+
+export function listReports(): ReportSummary[] {
+  return reportDefinitions.map(({ id, name, description, columns, parameters, defaultSort }) => ({
+    id,
+    name,
+    description,
+    columns,
+    parameters,
+    defaultSort,
+  }))
+}
@@ -0,0 +1,249 @@
+import type { Event, Json, ReportSubscription as ReportSubscriptionRow } from "@/lib/db"
+import type { MailTransport } from "@/lib/mail"
+import { getReport } from "./registry"
+import { runReport, EXPORT_ROW_LIMIT } from "./engine"
+import { describeFilters, exportReport } from "./export"
+import type { ReportClient, ReportParams } from "./types"
+
+export const REPORT_SCHEDULES = ["weekly", "before_event"] as const
+
+export type ReportSchedule = (typeof REPORT_SCHEDULES)[number]
+
+/** A subscription row with its schedule and stored parameters parsed */
+export type ReportSubscription = Omit<ReportSubscriptionRow, "created_at" | "schedule" | "params"> & {
+  schedule: ReportSchedule
+  params: ReportParams
+}
+
+export type ScheduledEvent = Pick<Event, "id" | "name" | "start_date">
+
+export interface PendingDelivery {
+  subscription: ReportSubscription
+  event: ScheduledEvent | null
+  /** Unique per subscription; recorded in report_deliveries once sent */
+  key: string
+}
+
+export function isReportSchedule(value: unknown): value is ReportSchedule {
+  return typeof value === "string" && (REPORT_SCHEDULES as readonly string[]).includes(value)
+}
+
+const PARAM_KEYS = ["startDate", "endDate", "organizationId", "eventId"] as const
+
+/** Stored report parameters, keeping only the known filters */
+export function parseReportParams(value: Json): ReportParams {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return {}
+
+  const params: ReportParams = {}
+  PARAM_KEYS.forEach((key) => {
+    const param = value[key]
+    if (typeof param === "string" && param) params[key] = param
+  })
+  return params
+}
+
+/**
+ * Parses a subscription row's schedule and parameters. Returns null for a
+ * schedule this code doesn't know, which the table's check constraint
+ * otherwise rules out.
+ */
+export function parseSubscription<T extends { schedule: string; params: Json }>(
+  row: T
+): (Omit<T, "schedule" | "params"> & { schedule: ReportSchedule; params: ReportParams }) | null {
+  if (!isReportSchedule(row.schedule)) return null
+  return { ...row, schedule: row.schedule, params: parseReportParams(row.params) }
+}
+
+export const addDays = (date: string, days: number) => {
+  const d = new Date(date + "T00:00:00Z")
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().split("T")[0]
+}
+
+/** The Monday of the week `date` falls in */
+export const startOfWeek = (date: string) => {
+  const day = new Date(date + "T00:00:00Z").getUTCDay()
+  return addDays(date, -((day + 6) % 7))
+}
+
+/**
+ * Works out which deliveries are due on `today` (YYYY-MM-DD).
+ *
+ * Weekly subscriptions go out once per week, starting Monday: a week whose
+ * report hasn't been sent yet is sent on the next run, so a missed Monday
+ * is caught up later in the week. Before-event subscriptions go out once
+ * per event as soon as the event is within `days_before` days, so a missed
+ * cron run is caught up the next day.
+ */
+export function getDueDeliveries(
+  subscriptions: ReportSubscription[],
+  events: ScheduledEvent[],
+  sentKeys: Set<string>,
+  today: string
+): PendingDelivery[] {
+  const due: PendingDelivery[] = []
+
+  subscriptions.forEach((subscription) => {
+    if (!subscription.is_active) return
+
+    if (subscription.schedule === "weekly") {
+      const key = `weekly:${startOfWeek(today)}`
+      if (!sentKeys.has(`${subscription.id}:${key}`)) {
+        due.push({ subscription, event: null, key })
+      }
+      return
+    }
+
+    const windowEnd = addDays(today, subscription.days_before)
+    events.forEach((event) => {
+      if (!event.start_date || event.start_date < today || event.start_date > windowEnd) return
+      if (subscription.params.eventId && subscription.params.eventId !== event.id) return
+
+      const key = `event:${event.id}`
+      if (!sentKeys.has(`${subscription.id}:${key}`)) {
+        due.push({ subscription, event, key })
+      }
+    })
+  })
+
+  return due
+}
+
+/**
+ * Sends every due report subscription. Runs with a service role client
+ * because it is triggered by cron, not by a signed-in admin.
+ */
+export async function runScheduledReports(
+  supabase: ReportClient,
+  transport: MailTransport,
+  now: Date = new Date()
+) {
+  const today = now.toISOString().split("T")[0]
+
+  const { data: rows, error } = await supabase
+    .from("report_subscriptions")
+    .select("id, profile_id, report_id, schedule, days_before, params, email, is_active")
+    .eq("is_active", true)
+
+  if (error) throw error
+
+  const subscriptions = (rows || []).map(parseSubscription).filter((s) => s !== null)
+  if (subscriptions.length === 0) {
+    return { sent: 0, failed: 0 }
+  }
+
+  // Upcoming events within the largest before-event window
+  const maxDaysBefore = Math.max(
+    0,
+    ...subscriptions
+      .filter((s) => s.schedule === "before_event")
+      .map((s) => s.days_before)
+  )
+  const { data: events, error: eventsError } = await supabase
+    .from("events")
+    .select("id, name, start_date")
+    .is("deleted_at", null)
+    .gte("start_date", today)
+    .lte("start_date", addDays(today, maxDaysBefore))
+
+  if (eventsError) throw eventsError
+
+  const { data: deliveries, error: deliveriesError } = await supabase
+    .from("report_deliveries")
+    .select("subscription_id, delivery_key")
+    .in("subscription_id", subscriptions.map((s) => s.id))
+    .eq("status", "sent")
+
+  if (deliveriesError) throw deliveriesError
+
+  const sentKeys = new Set((deliveries || []).map((d) => `${d.subscription_id}:${d.delivery_key}`))
+  const due = getDueDeliveries(subscriptions, events || [], sentKeys, today)
+
+  // Names for the filter summary in each attachment's header
+  const organizationIds = [...new Set(subscriptions.flatMap((s) => s.params.organizationId ?? []))]
+  const { data: companies } = organizationIds.length > 0
+    ? await supabase.from("companies").select("id, name").in("id", organizationIds)
+    : { data: [] }
+  const organizationNames = Object.fromEntries((companies || []).map((c) => [c.id, c.name]))
+  const eventNames = Object.fromEntries((events || []).map((e) => [e.id, e.name]))
+
+  let sent = 0
+  let failed = 0
+
+  for (const delivery of due) {
+    const { subscription, event, key } = delivery
+    let deliveryError: string | null = null
+
+    try {
+      const definition = getReport(subscription.report_id)
+      if (!definition) {
+        throw new Error(`Unknown report "${subscription.report_id}"`)
+      }
+
+      const params = event ? { ...subscription.params, eventId: event.id } : subscription.params
+      const result = await runReport(supabase, definition, {
+        params,
+        search: "",
+        sort: definition.defaultSort,
+        page: 1,
+        pageSize: EXPORT_ROW_LIMIT,
+        all: true,
+      })
+
+      const file = await exportReport("xlsx", result, {
+        reportName: definition.name,
+        filters: describeFilters(params, "", { organizations: organizationNames, events: eventNames }),
+        generatedAt: now,
+      })
+
+      const subject = event
+        ? `${definition.name}: ${event.name} (${event.start_date})`
+        : `${definition.name}: weekly report`
+
+      await transport.send({
+        to: subscription.email,
+        subject,
+        text: [
+          `Attached is the ${definition.name} report${event ? ` for ${event.name}, starting ${event.start_date}` : ""}.`,
+          `${result.total} ${result.total === 1 ? "record" : "records"}.`,
+          "",
+          "You can manage your scheduled reports from the Reports page.",
+        ].join("\n"),
+        attachments: [
+          {
+            filename: file.filename,
+            content: Buffer.from(file.content),
+            contentType: file.mimeType,
+          },
+        ],
+      })
+      sent++
+    } catch (err) {
+      console.error(`Error delivering report subscription ${subscription.id}:`, err)
+      deliveryError = err instanceof Error ? err.message : "Unknown error"
+      failed++
+    }
+
+    const { error: recordError } = await supabase
+      .from("report_deliveries")
+      .upsert({
+        subscription_id: subscription.id,
+        event_id: event?.id ?? null,
+        delivery_key: key,
+        status: deliveryError ? "failed" : "sent",
+        error: deliveryError,
+        sent_at: new Date().toISOString(),
+      }, {
+        onConflict: "subscription_id,delivery_key",
+      })
+
+    // Without a record the next run would send this delivery again, so stop
+    // rather than send more that can't be recorded
+    if (recordError) {
+      console.error(`Error recording delivery for report subscription ${subscription.id}:`, recordError)
+      throw recordError
+    }
+  }
+
+  return { sent, failed }
+}
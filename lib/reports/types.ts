@@ -0,0 +1,67 @@
+import type { DbClient, ListView } from "@/lib/db"
+import type { selectReport } from "./engine"
+
+export type ReportClient = DbClient
+
+/** The report views (see the report_views migration) */
+export type ReportSource = Extract<ListView, `report_${string}`>
+
+export type ReportQuery = ReturnType<typeof selectReport>
+
+export type ReportColumnType = "text" | "number" | "date" | "datetime"
+
+export interface ReportColumn {
+  key: string
+  label: string
+  type?: ReportColumnType
+  sortable?: boolean
+  searchable?: boolean
+}
+
+export type ReportParameter = "dateRange" | "organization" | "event"
+
+export interface ReportParams {
+  startDate?: string
+  endDate?: string
+  organizationId?: string
+  eventId?: string
+}
+
+export interface ReportSort {
+  key: string
+  ascending: boolean
+}
+
+export interface ReportDefinition {
+  id: string
+  name: string
+  description: string
+  /** View the report selects from */
+  source: ReportSource
+  columns: ReportColumn[]
+  parameters: ReportParameter[]
+  defaultSort: ReportSort[]
+  /** Applies the report parameters to the base query */
+  query: (query: ReportQuery, params: ReportParams) => ReportQuery
+}
+
+/** The parts of a definition that are safe to send to the browser */
+export type ReportSummary = Pick<ReportDefinition, "id" | "name" | "description" | "columns" | "parameters" | "defaultSort">
+
+export interface ReportOptions {
+  params: ReportParams
+  search: string
+  sort: ReportSort[]
+  page: number
+  pageSize: number
+  /** Return every row (up to EXPORT_ROW_LIMIT) instead of a single page */
+  all: boolean
+}
+
+export interface ReportResult {
+  columns: ReportColumn[]
+  data: Record<string, unknown>[]
+  total: number
+  page: number
+  pageSize: number
+}
@@ -0,0 +1,91 @@
+// Staff roles, stored in profiles.security_group. Each role opens a set of
+// admin areas for reading or writing. The database enforces the same rules
+// with row level security (see the staff_roles migration); this module
+// drives the admin layouts, the sidebar and the route handlers.
+
+export const STAFF_ROLES = ["admin", "coordinator", "document_manager", "viewer", "liaison"] as const
+
+export type StaffRole = (typeof STAFF_ROLES)[number]
+
+export const ROLE_LABELS: Record<StaffRole, string> = {
+  admin: "Administrator",
+  coordinator: "Event Coordinator",
+  document_manager: "Document Manager",
+  viewer: "Viewer",
+  liaison: "Organization Liaison",
+}
+
+export type AdminArea =
+  | "organizations"
+  | "events"
+  | "visitors"
+  | "dashboard"
+  | "reports"
+  | "documents"
+  | "document_types"
+  | "forms"
+  | "audit"
+
+export type AccessLevel = "read" | "write"
+
+/** In order of preference for a role's landing page */
+export const AREA_PATHS: Record<AdminArea, string> = {
+  dashboard: "/admin/dashboard",
+  reports: "/admin/dashboard/reports",
+  events: "/admin/events",
+  visitors: "/admin/visitors",
+  organizations: "/admin/organizations",
+  documents: "/admin/documents",
+  document_types: "/admin/document-types",
+  forms: "/admin/forms",
+  audit: "/admin/audit",
+}
+
+// Reports live under the dashboard, so any role with reports needs the
+// dashboard too. Liaisons only ever see their own organization's visitors.
+const ROLE_ACCESS: Record<StaffRole, Partial<Record<AdminArea, AccessLevel>>> = {
+  admin: {
+    organizations: "write",
+    events: "write",
+    visitors: "write",
+    dashboard: "write",
+    reports: "write",
+    documents: "write",
+    document_types: "write",
+    forms: "write",
+    audit: "read",
+  },
+  coordinator: { events: "write", visitors: "write" },
+  document_manager: { documents: "write", document_types: "write" },
+  viewer: { dashboard: "read", reports: "read" },
+  liaison: { visitors: "write" },
+}
+
+export function isStaffRole(value: unknown): value is StaffRole {
+  return typeof value === "string" && (STAFF_ROLES as readonly string[]).includes(value)
+}
+
+export function canAccess(role: StaffRole | null | undefined, area: AdminArea, level: AccessLevel = "read"): boolean {
+  if (!role) return false
+  const granted = ROLE_ACCESS[role][area]
+  if (!granted) return false
+  return level === "read" || granted === "write"
+}
+
+/** The area an admin path belongs to, matching the longest area path */
+export function getAreaForPath(pathname: string): AdminArea | null {
+  let match: AdminArea | null = null
+  for (const [area, path] of Object.entries(AREA_PATHS) as [AdminArea, string][]) {
+    const inArea = pathname === path || pathname.startsWith(`${path}/`)
+    if (inArea && (!match || path.length > AREA_PATHS[match].length)) {
+      match = area
+    }
+  }
+  return match
+}
+
+/** Where a staff member lands after signing in */
+export function getHomePath(role: StaffRole): string {
+  const area = (Object.keys(AREA_PATHS) as AdminArea[]).find((a) => canAccess(role, a))
+  return area ? AREA_PATHS[area] : "/"
+}
@@ -0,0 +1,421 @@
+import ExcelJS from "exceljs"
+import type { DbClient } from "@/lib/db"
+
+// The visitor roster spreadsheet: a template with dropdowns for the
+// organizations and events the uploader may use, and a staged import that
+// parses a filled-in copy, matches its rows against existing visitors and
+// commits the rows the uploader chose in one transaction.
+
+export const ROSTER_HEADERS = ["First Name", "Last Name", "Email", "Phone", "Organization", "Event"]
+
+export const ROSTER_MIME_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+
+/** Rows given dropdowns and validation in the template */
+const TEMPLATE_ROWS = 1000
+
+export interface RosterOrganization {
+  id: string
+  name: string
+}
+
+export interface RosterEvent {
+  id: string
+  name: string
+  start_date: string | null
+}
+
+export interface RosterRow {
+  row: number
+  firstName: string
+  lastName: string
+  email: string
+  phone: string
+  companyId: string
+  eventId: string
+}
+
+export interface RosterError {
+  row: number
+  firstName: string
+  lastName: string
+  reason: string
+}
+
+/** What to do with a roster row: add a visitor, update the matched one, or leave it out */
+export type RosterAction = "create" | "update" | "skip"
+
+export interface ExistingVisitor {
+  id: string
+  first_name: string
+  last_name: string
+  email: string | null
+  phone: string | null
+  company_id: string | null
+}
+
+export interface StagedRosterRow extends RosterRow {
+  match: ExistingVisitor | null
+  matchedBy: "email" | "name" | null
+  /** Earlier row in the file for the same email, which becomes the same visitor */
+  duplicateOfRow: number | null
+  action: RosterAction
+}
+
+export interface RosterImportSummary {
+  created: number
+  updated: number
+  assigned: number
+}
+
+/** The file is not a roster at all, as opposed to a roster with bad rows */
+export class RosterFormatError extends Error {}
+
+const formatDate = (dateStr: string | null) => {
+  if (!dateStr) return ""
+  return new Date(dateStr).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  })
+}
+
+/** How an event appears in the template's Event dropdown */
+export function formatRosterEventLabel(event: RosterEvent): string {
+  return `${event.name} (${formatDate(event.start_date)})`
+}
+
+export async function buildRosterTemplate(organizations: RosterOrganization[], events: RosterEvent[]) {
+  const workbook = new ExcelJS.Workbook()
+  workbook.creator = "West Creek Ranch"
+  workbook.created = new Date()
+
+  // Main data sheet
+  const worksheet = workbook.addWorksheet("Visitors")
+
+  // Define columns
+  worksheet.columns = [
+    { header: "First Name", key: "first_name", width: 20 },
+    { header: "Last Name", key: "last_name", width: 20 },
+    { header: "Email", key: "email", width: 30 },
+    { header: "Phone", key: "phone", width: 20 },
+    { header: "Organization", key: "organization", width: 30 },
+    { header: "Event", key: "event", width: 40 },
+  ]
+
+  // Style the header row
+  const headerRow = worksheet.getRow(1)
+  headerRow.font = { bold: true }
+  headerRow.fill = {
+    type: "pattern",
+    pattern: "solid",
+    fgColor: { argb: "FFE0E0E0" },
+  }
+
+  // Create a hidden sheet for dropdown values
+  const lookupSheet = workbook.addWorksheet("_Lookups")
+  lookupSheet.state = "veryHidden"
+
+  // Add organization names to lookup sheet
+  const orgNames = organizations.map((c) => c.name)
+  orgNames.forEach((name, index) => {
+    lookupSheet.getCell(`A${index + 1}`).value = name
+  })
+
+  // Add event names with dates to lookup sheet
+  const eventNames = events.map(formatRosterEventLabel)
+  eventNames.forEach((name, index) => {
+    lookupSheet.getCell(`B${index + 1}`).value = name
+  })
+
+  // Add data validation for Organization column (column E)
+  if (orgNames.length > 0) {
+    for (let row = 2; row <= TEMPLATE_ROWS; row++) {
+      worksheet.getCell(`E${row}`).dataValidation = {
+        type: "list",
+        allowBlank: true,
+        formulae: [`'_Lookups'!$A$1:$A$${orgNames.length}`],
+        showErrorMessage: true,
+        errorTitle: "Invalid Organization",
+        error: "Please select an organization from the dropdown list.",
+      }
+    }
+  }
+
+  // Add data validation for Event column (column F)
+  if (eventNames.length > 0) {
+    for (let row = 2; row <= TEMPLATE_ROWS; row++) {
+      worksheet.getCell(`F${row}`).dataValidation = {
+        type: "list",
+        allowBlank: true,
+        formulae: [`'_Lookups'!$B$1:$B$${eventNames.length}`],
+        showErrorMessage: true,
+        errorTitle: "Invalid Event",
+        error: "Please select an event from the dropdown list.",
+      }
+    }
+  }
+
+  // Add data validation for Phone column (column D) - format 000-000-0000
+  for (let row = 2; row <= TEMPLATE_ROWS; row++) {
+    worksheet.getCell(`D${row}`).dataValidation = {
+      type: "custom",
+      allowBlank: true,
+      formulae: [`AND(LEN(D${row})=12,MID(D${row},4,1)="-",MID(D${row},8,1)="-",ISNUMBER(VALUE(SUBSTITUTE(D${row},"-",""))))`],
+      showErrorMessage: true,
+      errorTitle: "Invalid Phone Format",
+      error: "Please enter phone number in format: 000-000-0000",
+    }
+  }
+
+  // Add a few empty rows to show the structure
+  for (let i = 0; i < 10; i++) {
+    worksheet.addRow({})
+  }
+
+  return workbook.xlsx.writeBuffer()
+}
+
+/**
+ * Template filename with the date and a per-day download counter, e.g.
+ * WCR_Visitor_Template_10192026_2.xlsx. Browser only.
+ */
+export function nextRosterTemplateFilename(now: Date = new Date()): string {
+  const mm = String(now.getMonth() + 1).padStart(2, "0")
+  const dd = String(now.getDate()).padStart(2, "0")
+  const yyyy = now.getFullYear()
+  const dateKey = `${mm}${dd}${yyyy}`
+
+  // Get or initialize download counter for today
+  const storageKey = "wcr_template_download"
+  const stored = localStorage.getItem(storageKey)
+  let counter = 1
+
+  if (stored) {
+    const { date, count } = JSON.parse(stored)
+    if (date === dateKey) {
+      counter = count + 1
+    }
+  }
+
+  // Save updated counter
+  localStorage.setItem(storageKey, JSON.stringify({ date: dateKey, count: counter }))
+
+  return `WCR_Visitor_Template_${dateKey}_${counter}.xlsx`
+}
+
+// Extract text from a cell (handles hyperlinks, rich text, etc.)
+const getCellText = (cell: ExcelJS.Cell): string => {
+  const value = cell.value
+  if (value === null || value === undefined) return ""
+  if (typeof value === "string") return value.trim()
+  if (typeof value === "number") return String(value)
+  // Handle hyperlink objects (e.g., email addresses)
+  if (typeof value === "object" && "text" in value) {
+    return String(value.text || "").trim()
+  }
+  // Handle rich text
+  if (typeof value === "object" && "richText" in value) {
+    const richText = value.richText as Array<{ text: string }>
+    return richText.map((r) => r.text).join("").trim()
+  }
+  return String(value).trim()
+}
+
+/**
+ * Reads and validates a filled-in roster. Organizations and events are
+ * matched by name against the lists given, so callers decide what the
+ * uploader may use. Throws RosterFormatError when the file isn't a roster.
+ */
+export async function parseRoster(
+  buffer: ArrayBuffer,
+  organizations: RosterOrganization[],
+  events: RosterEvent[]
+): Promise<{ total: number; rows: RosterRow[]; errors: RosterError[] }> {
+  const workbook = new ExcelJS.Workbook()
+  try {
+    await workbook.xlsx.load(buffer)
+  } catch {
+    throw new RosterFormatError("Failed to read the file. Please ensure it is a valid Excel (.xlsx) file.")
+  }
+
+  const worksheet = workbook.getWorksheet("Visitors")
+  if (!worksheet) {
+    throw new RosterFormatError("Invalid file format. The file must have a 'Visitors' worksheet. Please download the template and use the correct format.")
+  }
+
+  // Validate header row
+  const headers: string[] = []
+  worksheet.getRow(1).eachCell((cell, colNumber) => {
+    headers[colNumber - 1] = String(cell.value || "").trim()
+  })
+
+  if (!ROSTER_HEADERS.every((h, i) => headers[i] === h)) {
+    throw new RosterFormatError("Invalid file format. Column headers do not match the expected template. Please download the template and use the correct format.")
+  }
+
+  // Build lookup maps for organizations and events
+  const orgMap = new Map(organizations.map((c) => [c.name.toLowerCase(), c.id]))
+  const eventMap = new Map(events.map((e) => [formatRosterEventLabel(e).toLowerCase(), e.id]))
+
+  const rows: RosterRow[] = []
+  const errors: RosterError[] = []
+  let total = 0
+
+  // Process each data row (starting from row 2)
+  for (let rowNum = 2; rowNum <= worksheet.rowCount; rowNum++) {
+    const row = worksheet.getRow(rowNum)
+    const firstName = getCellText(row.getCell(1))
+    const lastName = getCellText(row.getCell(2))
+    const email = getCellText(row.getCell(3))
+    const phone = getCellText(row.getCell(4))
+    const orgName = getCellText(row.getCell(5))
+    const eventName = getCellText(row.getCell(6))
+
+    // Skip completely empty rows
+    if (!firstName && !lastName && !email && !phone && !orgName && !eventName) {
+      continue
+    }
+
+    total++
+
+    const fail = (reason: string) => errors.push({
+      row: rowNum,
+      firstName: firstName || "(empty)",
+      lastName: lastName || "(empty)",
+      reason,
+    })
+
+    // Validate required fields
+    const missingFields: string[] = []
+    if (!firstName) missingFields.push("First Name")
+    if (!lastName) missingFields.push("Last Name")
+    if (!email) missingFields.push("Email")
+    if (!orgName) missingFields.push("Organization")
+    if (!eventName) missingFields.push("Event")
+
+    if (missingFields.length > 0) {
+      fail(`Missing required fields: ${missingFields.join(", ")}`)
+      continue
+    }
+
+    const companyId = orgMap.get(orgName.toLowerCase())
+    if (!companyId) {
+      fail(`Organization "${orgName}" not found`)
+      continue
+    }
+
+    const eventId = eventMap.get(eventName.toLowerCase())
+    if (!eventId) {
+      fail(`Event "${eventName}" not found`)
+      continue
+    }
+
+    if (phone && !/^\d{3}-\d{3}-\d{4}$/.test(phone)) {
+      fail(`Invalid phone format "${phone}". Expected: 000-000-0000`)
+      continue
+    }
+
+    rows.push({ row: rowNum, firstName, lastName, email, phone, companyId, eventId })
+  }
+
+  return { total, rows, errors }
+}
+
+const nameKey = (firstName: string, lastName: string) =>
+  `${firstName.trim().toLowerCase()} ${lastName.trim().toLowerCase()}`
+
+/** Quotes a value for a PostgREST array literal such as ilike(any).{...} */
+const quoteArrayValue = (value: string) => `"${value.replace(/[\\"]/g, "\\$&")}"`
+
+/** Lookups per request, keeping the query string a sensible length */
+const LOOKUP_CHUNK_SIZE = 100
+
+/**
+ * Live visitors that might be the same person as a roster row: those with
+ * one of the rows' emails or last names. stageRosterRows does the exact
+ * matching.
+ */
+export async function findExistingVisitors(
+  supabase: DbClient,
+  rows: RosterRow[]
+): Promise<{ visitors: ExistingVisitor[]; error: Error | null }> {
+  const lookups: [string, string[]][] = [
+    ["email", Array.from(new Set(rows.map((r) => r.email.toLowerCase()).filter(Boolean)))],
+    ["last_name", Array.from(new Set(rows.map((r) => r.lastName.toLowerCase())))],
+  ]
+  const found = new Map<string, ExistingVisitor>()
+
+  for (const [column, values] of lookups) {
+    for (let i = 0; i < values.length; i += LOOKUP_CHUNK_SIZE) {
+      const { data, error } = await supabase
+        .from("visitors")
+        .select("id, first_name, last_name, email, phone, company_id")
+        .is("deleted_at", null)
+        .ilikeAnyOf(column, values.slice(i, i + LOOKUP_CHUNK_SIZE).map(quoteArrayValue))
+
+      if (error) return { visitors: [], error }
+      for (const v of data || []) found.set(v.id, v)
+    }
+  }
+
+  return { visitors: Array.from(found.values()), error: null }
+}
+
+/**
+ * Matches each row to an existing visitor, by email first and then by
+ * full name, and picks a starting action: update email matches, create
+ * unmatched rows, and skip name-only matches until someone has looked.
+ */
+export function stageRosterRows(rows: RosterRow[], existing: ExistingVisitor[]): StagedRosterRow[] {
+  const byEmail = new Map<string, ExistingVisitor>()
+  const byName = new Map<string, ExistingVisitor>()
+  existing.forEach((v) => {
+    if (v.email && !byEmail.has(v.email.toLowerCase())) byEmail.set(v.email.toLowerCase(), v)
+    const key = nameKey(v.first_name, v.last_name)
+    if (!byName.has(key)) byName.set(key, v)
+  })
+
+  const firstRowForEmail = new Map<string, number>()
+
+  return rows.map((row) => {
+    const email = row.email.toLowerCase()
+    const duplicateOfRow = email ? firstRowForEmail.get(email) ?? null : null
+    if (email && duplicateOfRow === null) firstRowForEmail.set(email, row.row)
+
+    const emailMatch = email ? byEmail.get(email) : undefined
+    const match = emailMatch ?? byName.get(nameKey(row.firstName, row.lastName)) ?? null
+    const matchedBy = emailMatch ? "email" : match ? "name" : null
+
+    return {
+      ...row,
+      match,
+      matchedBy,
+      duplicateOfRow,
+      action: matchedBy === "email" ? "update" : matchedBy === "name" ? "skip" : "create",
+    }
+  })
+}
+
+/**
+ * Writes the staged rows that aren't skipped in a single transaction: if
+ * any row fails, nothing is imported. Rows creating a visitor with the same
+ * email share one new visitor.
+ */
+export async function commitRosterImport(supabase: DbClient, rows: StagedRosterRow[]) {
+  const payload = rows
+    .filter((r) => r.action !== "skip")
+    .map((r) => ({
+      row: r.row,
+      action: r.action,
+      visitor_id: r.action === "update" ? r.match?.id ?? null : null,
+      first_name: r.firstName,
+      last_name: r.lastName,
+      email: r.email,
+      phone: r.phone,
+      company_id: r.companyId,
+      event_id: r.eventId,
+    }))
+
+  const { data, error } = await supabase.rpc("import_roster", { p_rows: payload })
+  return { summary: (data as RosterImportSummary | null) ?? null, error }
+}
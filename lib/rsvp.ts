@@ -0,0 +1,176 @@
+import type { DbClient } from "@/lib/db"
+
+// RSVP state machine for event_visitors.rsvp_status. The transition list is
+// mirrored by the enforce_rsvp_transition trigger; keep the two in sync.
+
+export const RSVP_STATUSES = ["invited", "accepted", "confirmed", "declined", "waitlisted", "cancelled"] as const
+
+export type RsvpStatus = typeof RSVP_STATUSES[number]
+
+/**
+ * Who may make a transition. "system" transitions happen as a side effect
+ * (all documents confirmed) in the visitor's session; the trigger checks
+ * the requirements are met. Admins may make any transition.
+ */
+export type RsvpActor = "visitor" | "system" | "admin"
+
+interface RsvpTransition {
+  from: RsvpStatus
+  to: RsvpStatus
+  actor: RsvpActor
+}
+
+export const RSVP_TRANSITIONS: RsvpTransition[] = [
+  { from: "invited", to: "accepted", actor: "visitor" },
+  { from: "invited", to: "declined", actor: "visitor" },
+  { from: "invited", to: "confirmed", actor: "system" },
+  { from: "invited", to: "waitlisted", actor: "admin" },
+  { from: "invited", to: "cancelled", actor: "admin" },
+  { from: "accepted", to: "confirmed", actor: "system" },
+  { from: "accepted", to: "declined", actor: "visitor" },
+  { from: "accepted", to: "waitlisted", actor: "admin" },
+  { from: "accepted", to: "cancelled", actor: "admin" },
+  { from: "confirmed", to: "declined", actor: "visitor" },
+  { from: "confirmed", to: "waitlisted", actor: "admin" },
+  { from: "confirmed", to: "cancelled", actor: "admin" },
+  { from: "declined", to: "accepted", actor: "visitor" },
+  { from: "declined", to: "invited", actor: "admin" },
+  { from: "waitlisted", to: "declined", actor: "visitor" },
+  { from: "waitlisted", to: "invited", actor: "admin" },
+  { from: "waitlisted", to: "cancelled", actor: "admin" },
+  { from: "cancelled", to: "invited", actor: "admin" },
+]
+
+export const RSVP_STATUS_LABELS: Record<RsvpStatus, string> = {
+  invited: "Invited",
+  accepted: "Accepted",
+  confirmed: "Confirmed",
+  declined: "Declined",
+  waitlisted: "Waitlisted",
+  cancelled: "Cancelled",
+}
+
+export const RSVP_STATUS_CLASS_NAMES: Record<RsvpStatus, string> = {
+  invited: "bg-gray-100 text-gray-600",
+  accepted: "bg-blue-100 text-blue-800",
+  confirmed: "bg-green-100 text-green-800",
+  declined: "bg-red-100 text-red-800",
+  waitlisted: "bg-yellow-100 text-yellow-800",
+  cancelled: "bg-gray-200 text-gray-500",
+}
+
+/** Verb for the action that moves a visitor into each status */
+export const RSVP_ACTION_LABELS: Record<RsvpStatus, string> = {
+  invited: "Re-invite",
+  accepted: "Accept",
+  confirmed: "Mark Confirmed",
+  declined: "Decline",
+  waitlisted: "Waitlist",
+  cancelled: "Cancel",
+}
+
+export interface RsvpReason {
+  code: string
+  label: string
+}
+
+/** Reason codes recorded with transitions into these statuses */
+export const RSVP_REASONS: Partial<Record<RsvpStatus, RsvpReason[]>> = {
+  declined: [
+    { code: "schedule_conflict", label: "Schedule conflict" },
+    { code: "travel", label: "Unable to travel" },
+    { code: "health", label: "Health reasons" },
+    { code: "personal", label: "Personal reasons" },
+    { code: "other", label: "Other" },
+  ],
+  waitlisted: [
+    { code: "capacity", label: "Event at capacity" },
+    { code: "pending_approval", label: "Pending approval" },
+    { code: "other", label: "Other" },
+  ],
+  cancelled: [
+    { code: "visitor_request", label: "Visitor request" },
+    { code: "event_change", label: "Event changed" },
+    { code: "duplicate", label: "Duplicate assignment" },
+    { code: "policy", label: "Policy" },
+    { code: "other", label: "Other" },
+  ],
+}
+
+/** Reason codes set by the database rather than chosen by a person */
+const SYSTEM_REASON_LABELS: Record<string, string> = {
+  capacity: "Event at capacity",
+  promoted: "Promoted from waitlist",
+}
+
+/** Statuses that take up one of the event's places */
+export const PLACE_HOLDING_STATUSES: RsvpStatus[] = ["invited", "accepted", "confirmed"]
+
+export function holdsPlace(status: string | null): boolean {
+  return PLACE_HOLDING_STATUSES.includes(status as RsvpStatus)
+}
+
+export function isRsvpStatus(value: unknown): value is RsvpStatus {
+  return typeof value === "string" && (RSVP_STATUSES as readonly string[]).includes(value)
+}
+
+export function canTransition(from: RsvpStatus, to: RsvpStatus, actor: RsvpActor): boolean {
+  return RSVP_TRANSITIONS.some((t) =>
+    t.from === from && t.to === to && (actor === "admin" || t.actor === actor)
+  )
+}
+
+export function allowedTransitions(from: RsvpStatus, actor: RsvpActor): RsvpStatus[] {
+  return RSVP_TRANSITIONS
+    .filter((t) => t.from === from && (actor === "admin" || t.actor === actor))
+    .map((t) => t.to)
+}
+
+export function getReasonLabel(status: RsvpStatus, code: string | null): string | null {
+  if (!code) return null
+  return RSVP_REASONS[status]?.find((r) => r.code === code)?.label ?? SYSTEM_REASON_LABELS[code] ?? code
+}
+
+export interface RsvpChange {
+  reason?: string | null
+  note?: string | null
+}
+
+/**
+ * Moves one assignment to a new status. The trigger on event_visitors
+ * re-validates the transition, stamps rsvp_changed_at and writes history.
+ */
+export async function transitionRsvp(
+  supabase: DbClient,
+  assignment: { eventId: string; visitorId: string },
+  to: RsvpStatus,
+  actor: RsvpActor,
+  change: RsvpChange = {}
+): Promise<{ error: string | null }> {
+  const { data: current, error: fetchError } = await supabase
+    .from("event_visitors")
+    .select("rsvp_status")
+    .eq("event_id", assignment.eventId)
+    .eq("visitor_id", assignment.visitorId)
+    .single()
+
+  if (fetchError || !current) {
+    return { error: fetchError?.message || "Assignment not found" }
+  }
+
+  if (!isRsvpStatus(current.rsvp_status) || !canTransition(current.rsvp_status, to, actor)) {
+    return { error: `Cannot change RSVP from ${current.rsvp_status} to ${to}` }
+  }
+
+  const { error } = await supabase
+    .from("event_visitors")
+    .update({
+      rsvp_status: to,
+      rsvp_reason: change.reason || null,
+      rsvp_note: change.note || null,
+    })
+    .eq("event_id", assignment.eventId)
+    .eq("visitor_id", assignment.visitorId)
+
+  return { error: error?.message ?? null }
+}
@@ -0,0 +1,72 @@
+// Electronic signatures on documents whose type requires one.
+//
+// The visitor types their full name or draws a signature; either way the
+// browser renders it to a PNG, which the confirmation route stores in the
+// private signatures bucket. The consent text is built on the server from
+// the document and version being signed so what's recorded is what was
+// shown.
+
+export const SIGNATURE_METHODS = ["typed", "drawn"] as const
+export type SignatureMethod = (typeof SIGNATURE_METHODS)[number]
+
+export const SIGNATURE_METHOD_LABELS: Record<SignatureMethod, string> = {
+  typed: "Type your name",
+  drawn: "Draw your signature",
+}
+
+export const SIGNATURE_BUCKET = "signatures"
+
+/** Large enough for a drawn signature at the pad's size */
+export const MAX_SIGNATURE_BYTES = 200_000
+
+const PNG_DATA_URL_PREFIX = "data:image/png;base64,"
+const PNG_MAGIC = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+
+export function isSignatureMethod(value: unknown): value is SignatureMethod {
+  return typeof value === "string" && (SIGNATURE_METHODS as readonly string[]).includes(value)
+}
+
+/** The statement a visitor agrees to by signing a document version */
+export function signatureConsentText(documentName: string, versionNumber: number) {
+  return (
+    `I have read and understood "${documentName}" (version ${versionNumber}) and agree to its terms. ` +
+    "I intend my electronic signature to have the same effect as my handwritten signature."
+  )
+}
+
+/** Decodes a PNG data URL from the signature pad, or null if it isn't one or is too large */
+export function decodeSignatureImage(dataUrl: unknown): Uint8Array | null {
+  if (typeof dataUrl !== "string" || !dataUrl.startsWith(PNG_DATA_URL_PREFIX)) return null
+
+  const base64 = dataUrl.slice(PNG_DATA_URL_PREFIX.length)
+  // Base64 grows data by a third; check before decoding
+  if (base64.length > Math.ceil(MAX_SIGNATURE_BYTES / 3) * 4) return null
+
+  let binary: string
+  try {
+    binary = atob(base64)
+  } catch {
+    return null
+  }
+
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0))
+  if (bytes.length > MAX_SIGNATURE_BYTES || PNG_MAGIC.some((byte, i) => bytes[i] !== byte)) {
+    return null
+  }
+  return bytes
+}
+
+/** Where a signature image is stored in the signatures bucket */
+export function signatureImagePath(visitorId: string, documentVersionId: string, signedAt: Date) {
+  return `${visitorId}/${documentVersionId}/${signedAt.getTime()}.png`
+}
+
+/**
+ * The client's address as reported by the proxy in front of the app, or
+ * null when there isn't one
+ */
+export function getClientIp(headers: Headers) {
+  const forwarded = headers.get("x-forwarded-for")?.split(",")[0]?.trim()
+  const address = forwarded || headers.get("x-real-ip")?.trim()
+  return address && /^[0-9a-fA-F.:]{2,45}$/.test(address) ? address : null
+}
@@ -1,7 +1,8 @@
 import { createBrowserClient } from "@supabase/ssr"
+import type { Database } from "@/lib/db/types"
 
 export function createClient() {
-  return createBrowserClient(
+  return createBrowserClient<Database>(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
     process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY!
   )
@@ -0,0 +1,17 @@
+import { createClient } from "@supabase/supabase-js"
+import type { Database } from "@/lib/db/types"
+
+// Service role client for background jobs that run without a user session
+// (e.g. cron routes). Never import this from client components.
+export function createServiceClient() {
+  return createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    }
+  )
+}
@@ -0,0 +1,34 @@
+import type { DbClient } from "@/lib/db"
+
+// Visitors, events and organizations are soft deleted: they sit in the
+// trash (deleted_at set) until restored or purged by the trash cron.
+
+export type TrashTable = "visitors" | "events" | "companies"
+
+/** Days a record stays in the trash before the purge cron removes it */
+export const TRASH_RETENTION_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Moves records to the trash, along with their assignments, confirmations and forms */
+export async function moveToTrash(supabase: DbClient, table: TrashTable, ids: string[]) {
+  const { data, error } = await supabase.rpc("trash_records", { p_table: table, p_ids: ids })
+  return { count: (data as number | null) ?? 0, error }
+}
+
+/** Restores records from the trash and puts back what was removed with them */
+export async function restoreFromTrash(supabase: DbClient, table: TrashTable, ids: string[]) {
+  const { data, error } = await supabase.rpc("restore_records", { p_table: table, p_ids: ids })
+  return { count: (data as number | null) ?? 0, error }
+}
+
+/** Records deleted before this moment are due to be purged */
+export function getPurgeCutoff(now: Date = new Date(), retentionDays = TRASH_RETENTION_DAYS): Date {
+  return new Date(now.getTime() - retentionDays * DAY_MS)
+}
+
+/** Whole days left before a trashed record is purged, never negative */
+export function daysUntilPurge(deletedAt: string, now: Date = new Date(), retentionDays = TRASH_RETENTION_DAYS): number {
+  const purgeAt = new Date(deletedAt).getTime() + retentionDays * DAY_MS
+  return Math.max(0, Math.ceil((purgeAt - now.getTime()) / DAY_MS))
+}
@@ -0,0 +1,42 @@
+import type { RsvpStatus } from "@/lib/rsvp"
+
+// The events a visitor is coming to, as listed on the home page. A visitor
+// can be assigned to several events in a season; the home page shows one at
+// a time and lets them switch between the rest.
+
+export interface UpcomingVisit {
+  eventId: string
+  name: string
+  startDate: string
+  endDate: string
+  rsvpStatus: RsvpStatus
+  /**
+   * Required documents not yet confirmed at their current version, and
+   * required forms not yet answered
+   */
+  outstanding: number
+}
+
+export interface DocumentProgress {
+  event_id: string
+  required_docs: number
+  confirmed_docs: number
+}
+
+/** Nothing is asked of visitors who declined or were cancelled */
+const NO_ACTION_STATUSES: RsvpStatus[] = ["declined", "cancelled"]
+
+/**
+ * Required documents the visitor still has to confirm for a visit, plus
+ * any required forms they haven't answered
+ */
+export function countOutstanding(status: RsvpStatus, progress: DocumentProgress | undefined, openForms = 0) {
+  if (NO_ACTION_STATUSES.includes(status)) return 0
+  const documents = progress ? Math.max(progress.required_docs - progress.confirmed_docs, 0) : 0
+  return documents + openForms
+}
+
+/** The visit asked for by id, falling back to the soonest */
+export function selectVisit(visits: UpcomingVisit[], eventId: string | null | undefined) {
+  return visits.find((visit) => visit.eventId === eventId) ?? visits[0] ?? null
+}
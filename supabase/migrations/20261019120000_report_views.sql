@@ -0,0 +1,60 @@
+-- Flattened views backing the admin reports.
+-- Each view exposes one row per report line so that filtering, sorting and
+-- pagination can be pushed down to PostgREST instead of done in the browser.
+-- security_invoker keeps the row level security of the underlying tables.
+
+create or replace view public.report_visitors_by_event
+with (security_invoker = true) as
+select
+  ev.event_id,
+  e.name as event_name,
+  e.start_date as event_date,
+  coalesce(v.company_id, e.sponsor_company_id) as organization_id,
+  coalesce(vc.name, ec.name) as organization,
+  ev.visitor_id,
+  v.first_name || ' ' || v.last_name as visitor_name,
+  v.email,
+  ev.rsvp_status as status
+from public.event_visitors ev
+join public.events e on e.id = ev.event_id
+join public.visitors v on v.id = ev.visitor_id
+left join public.companies vc on vc.id = v.company_id
+left join public.companies ec on ec.id = e.sponsor_company_id;
+
+create or replace view public.report_events_by_organization
+with (security_invoker = true) as
+select
+  e.id as event_id,
+  e.sponsor_company_id as organization_id,
+  c.name as organization,
+  e.name as event_name,
+  e.start_date,
+  e.end_date,
+  count(ev.visitor_id) as assigned_visitors,
+  count(ev.visitor_id) filter (where ev.rsvp_status = 'confirmed') as confirmed_visitors
+from public.events e
+left join public.companies c on c.id = e.sponsor_company_id
+left join public.event_visitors ev on ev.event_id = e.id
+group by e.id, c.name;
+
+create or replace view public.report_document_confirmations
+with (security_invoker = true) as
+select
+  vc.visitor_id,
+  v.first_name || ' ' || v.last_name as visitor_name,
+  v.company_id as organization_id,
+  vc.event_id,
+  e.name as event_name,
+  e.start_date as event_date,
+  d.name as document_name,
+  vc.signed_at as confirmed_at,
+  dv.version_number as version
+from public.visitor_confirmations vc
+join public.visitors v on v.id = vc.visitor_id
+join public.events e on e.id = vc.event_id
+join public.documents d on d.id = vc.document_id
+left join public.document_versions dv on dv.id = vc.document_version_id;
+
+grant select on public.report_visitors_by_event to authenticated;
+grant select on public.report_events_by_organization to authenticated;
+grant select on public.report_document_confirmations to authenticated;
@@ -0,0 +1,60 @@
+-- Scheduled report delivery.
+-- Admins subscribe to a report and receive it by email as an .xlsx, either
+-- every Monday ("weekly") or a number of days before each event
+-- ("before_event"). report_deliveries records what was sent so the
+-- scheduler never sends the same delivery twice.
+
+create table if not exists public.report_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  profile_id uuid not null references public.profiles(id) on delete cascade,
+  report_id text not null,
+  schedule text not null check (schedule in ('weekly', 'before_event')),
+  days_before integer not null default 3 check (days_before >= 0),
+  params jsonb not null default '{}'::jsonb,
+  email text not null,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists report_subscriptions_profile_id_idx
+  on public.report_subscriptions (profile_id);
+
+create table if not exists public.report_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  subscription_id uuid not null references public.report_subscriptions(id) on delete cascade,
+  event_id uuid references public.events(id) on delete cascade,
+  delivery_key text not null,
+  status text not null check (status in ('sent', 'failed')),
+  error text,
+  sent_at timestamptz not null default now(),
+  unique (subscription_id, delivery_key)
+);
+
+alter table public.report_subscriptions enable row level security;
+alter table public.report_deliveries enable row level security;
+
+-- Admins manage only their own subscriptions. The scheduler runs with the
+-- service role and bypasses these policies.
+create policy "Admins manage own report subscriptions"
+  on public.report_subscriptions
+  for all
+  to authenticated
+  using (
+    profile_id = auth.uid()
+    and exists (select 1 from public.profiles p where p.id = auth.uid() and p.security_group = 'admin')
+  )
+  with check (
+    profile_id = auth.uid()
+    and exists (select 1 from public.profiles p where p.id = auth.uid() and p.security_group = 'admin')
+  );
+
+create policy "Admins read own report deliveries"
+  on public.report_deliveries
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.report_subscriptions s
+      where s.id = subscription_id and s.profile_id = auth.uid()
+    )
+  );
@@ -0,0 +1,14 @@
+-- On-site check-in: record when each assigned visitor actually arrived at
+-- and departed from the ranch. rsvp_status keeps tracking the invitation.
+
+alter table public.event_visitors
+  add column if not exists arrived_at timestamptz,
+  add column if not exists departed_at timestamptz,
+  add column if not exists checked_in_by uuid references public.profiles(id) on delete set null;
+
+create index if not exists event_visitors_event_id_arrived_at_idx
+  on public.event_visitors (event_id, arrived_at);
+
+-- Stream changes to the check-in page so every device at the gate shows the
+-- same live headcount.
+alter publication supabase_realtime add table public.event_visitors;
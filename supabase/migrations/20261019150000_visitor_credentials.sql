@@ -0,0 +1,34 @@
+-- Signed QR credentials for confirmed visitors.
+-- One credential per visitor and event, replaced whenever it is re-issued.
+-- Tokens are signed by the app (CREDENTIAL_SIGNING_KEY) and written with the
+-- service role, so there are no insert or update policies.
+
+create table if not exists public.visitor_credentials (
+  id uuid primary key default gen_random_uuid(),
+  visitor_id uuid not null references public.visitors(id) on delete cascade,
+  event_id uuid not null references public.events(id) on delete cascade,
+  token text not null,
+  issued_at timestamptz not null default now(),
+  unique (visitor_id, event_id)
+);
+
+alter table public.visitor_credentials enable row level security;
+
+create policy "Visitors read own credentials"
+  on public.visitor_credentials
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.visitors v
+      where v.id = visitor_id and v.profile_id = auth.uid()
+    )
+  );
+
+create policy "Admins read credentials"
+  on public.visitor_credentials
+  for select
+  to authenticated
+  using (
+    exists (select 1 from public.profiles p where p.id = auth.uid() and p.security_group = 'admin')
+  );
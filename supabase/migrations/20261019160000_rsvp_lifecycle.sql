@@ -0,0 +1,158 @@
+-- RSVP lifecycle for event_visitors.
+-- rsvp_status moves through a fixed set of transitions (see lib/rsvp.ts):
+--   invited -> accepted -> confirmed (all documents confirmed)
+--   declined, waitlisted and cancelled from the states that allow them.
+-- A trigger rejects anything else, stamps rsvp_changed_at and records each
+-- change with its reason code in rsvp_history.
+
+alter table public.event_visitors
+  add column if not exists rsvp_changed_at timestamptz not null default now(),
+  add column if not exists rsvp_reason text,
+  add column if not exists rsvp_note text;
+
+alter table public.event_visitors
+  drop constraint if exists event_visitors_rsvp_status_check;
+
+alter table public.event_visitors
+  add constraint event_visitors_rsvp_status_check
+  check (rsvp_status in ('invited', 'accepted', 'confirmed', 'declined', 'waitlisted', 'cancelled'));
+
+create table if not exists public.rsvp_history (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references public.events(id) on delete cascade,
+  visitor_id uuid not null references public.visitors(id) on delete cascade,
+  from_status text not null,
+  to_status text not null,
+  reason text,
+  note text,
+  changed_by uuid references public.profiles(id) on delete set null,
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists rsvp_history_event_visitor_idx
+  on public.rsvp_history (event_id, visitor_id, changed_at desc);
+
+-- Who makes each RSVP change: the visitor, an administrator, or the system
+-- once every required document is confirmed. Null for a change that isn't
+-- allowed.
+create or replace function public.rsvp_transition_actor(p_from text, p_to text)
+returns text
+language sql
+immutable
+as $$
+  select t.actor
+  from (values
+    ('invited', 'accepted', 'visitor'),
+    ('invited', 'declined', 'visitor'),
+    ('invited', 'confirmed', 'system'),
+    ('invited', 'waitlisted', 'admin'),
+    ('invited', 'cancelled', 'admin'),
+    ('accepted', 'confirmed', 'system'),
+    ('accepted', 'declined', 'visitor'),
+    ('accepted', 'waitlisted', 'admin'),
+    ('accepted', 'cancelled', 'admin'),
+    ('confirmed', 'declined', 'visitor'),
+    ('confirmed', 'waitlisted', 'admin'),
+    ('confirmed', 'cancelled', 'admin'),
+    ('declined', 'accepted', 'visitor'),
+    ('declined', 'invited', 'admin'),
+    ('waitlisted', 'declined', 'visitor'),
+    ('waitlisted', 'invited', 'admin'),
+    ('waitlisted', 'cancelled', 'admin'),
+    ('cancelled', 'invited', 'admin')
+  ) as t(from_status, to_status, actor)
+  where t.from_status = p_from and t.to_status = p_to;
+$$;
+
+-- Whether the current user may make the administrator RSVP changes.
+-- auth.uid() is null for the service role, which may do anything.
+create or replace function public.can_manage_rsvps()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select auth.uid() is null or exists (
+    select 1 from public.profiles p where p.id = auth.uid() and p.security_group = 'admin'
+  );
+$$;
+
+create or replace function public.enforce_rsvp_transition()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  transition_actor text;
+begin
+  if new.rsvp_status is not distinct from old.rsvp_status then
+    return new;
+  end if;
+
+  transition_actor := public.rsvp_transition_actor(old.rsvp_status, new.rsvp_status);
+
+  if transition_actor is null then
+    raise exception 'Cannot change RSVP from % to %', old.rsvp_status, new.rsvp_status
+      using errcode = 'check_violation';
+  end if;
+
+  if transition_actor = 'admin' and not public.can_manage_rsvps() then
+    raise exception 'Only an administrator can change RSVP from % to %', old.rsvp_status, new.rsvp_status
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  new.rsvp_changed_at := now();
+
+  insert into public.rsvp_history (event_id, visitor_id, from_status, to_status, reason, note, changed_by)
+  values (new.event_id, new.visitor_id, old.rsvp_status, new.rsvp_status, new.rsvp_reason, new.rsvp_note, auth.uid());
+
+  return new;
+end;
+$$;
+
+drop trigger if exists enforce_rsvp_transition on public.event_visitors;
+create trigger enforce_rsvp_transition
+  before update of rsvp_status on public.event_visitors
+  for each row execute function public.enforce_rsvp_transition();
+
+alter table public.rsvp_history enable row level security;
+
+create policy "Admins read RSVP history"
+  on public.rsvp_history
+  for select
+  to authenticated
+  using (
+    exists (select 1 from public.profiles p where p.id = auth.uid() and p.security_group = 'admin')
+  );
+
+create policy "Visitors read own RSVP history"
+  on public.rsvp_history
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.visitors v
+      where v.id = visitor_id and v.profile_id = auth.uid()
+    )
+  );
+
+-- Surface the new statuses in the organization report
+create or replace view public.report_events_by_organization
+with (security_invoker = true) as
+select
+  e.id as event_id,
+  e.sponsor_company_id as organization_id,
+  c.name as organization,
+  e.name as event_name,
+  e.start_date,
+  e.end_date,
+  count(ev.visitor_id) as assigned_visitors,
+  count(ev.visitor_id) filter (where ev.rsvp_status = 'confirmed') as confirmed_visitors,
+  count(ev.visitor_id) filter (where ev.rsvp_status = 'declined') as declined_visitors,
+  count(ev.visitor_id) filter (where ev.rsvp_status = 'waitlisted') as waitlisted_visitors
+from public.events e
+left join public.companies c on c.id = e.sponsor_company_id
+left join public.event_visitors ev on ev.event_id = e.id
+group by e.id, c.name;
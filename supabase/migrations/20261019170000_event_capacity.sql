@@ -0,0 +1,257 @@
+-- Event capacity with an ordered waitlist.
+-- Invited, accepted and confirmed visitors hold a place. Once an event is
+-- full, new assignments go onto the waitlist instead. When a place opens
+-- (a decline, a cancellation, a removal or a capacity increase) the first
+-- visitor on the waitlist is re-invited and a notification is queued for
+-- the notifications cron to email.
+
+alter table public.events
+  add column if not exists capacity integer check (capacity is null or capacity >= 0);
+
+alter table public.event_visitors
+  add column if not exists waitlist_position integer;
+
+create index if not exists event_visitors_waitlist_idx
+  on public.event_visitors (event_id, waitlist_position)
+  where rsvp_status = 'waitlisted';
+
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  kind text not null check (kind in ('waitlist_promoted')),
+  event_id uuid not null references public.events(id) on delete cascade,
+  visitor_id uuid not null references public.visitors(id) on delete cascade,
+  status text not null default 'pending' check (status in ('pending', 'sent', 'failed')),
+  error text,
+  created_at timestamptz not null default now(),
+  sent_at timestamptz
+);
+
+create index if not exists notifications_pending_idx
+  on public.notifications (created_at)
+  where status = 'pending';
+
+alter table public.notifications enable row level security;
+
+create policy "Admins read notifications"
+  on public.notifications
+  for select
+  to authenticated
+  using (
+    exists (select 1 from public.profiles p where p.id = auth.uid() and p.security_group = 'admin')
+  );
+
+create or replace function public.event_places_taken(p_event_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select count(*)::integer
+  from public.event_visitors
+  where event_id = p_event_id
+    and rsvp_status in ('invited', 'accepted', 'confirmed');
+$$;
+
+create or replace function public.next_waitlist_position(p_event_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(max(waitlist_position), 0) + 1
+  from public.event_visitors
+  where event_id = p_event_id
+    and rsvp_status = 'waitlisted';
+$$;
+
+-- Re-invites waitlisted visitors, in order, while the event has room.
+-- Runs as the system: the RSVP trigger lets it make the admin-only
+-- waitlisted -> invited transition whoever caused the place to open.
+create or replace function public.promote_from_waitlist(p_event_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  event_capacity integer;
+  open_places integer;
+  promoted integer := 0;
+  next_visitor record;
+begin
+  select capacity into event_capacity
+  from public.events
+  where id = p_event_id
+  for update;
+
+  if event_capacity is null then
+    open_places := null;
+  else
+    open_places := event_capacity - public.event_places_taken(p_event_id);
+  end if;
+
+  perform set_config('app.rsvp_system', 'on', true);
+
+  for next_visitor in
+    select visitor_id
+    from public.event_visitors
+    where event_id = p_event_id and rsvp_status = 'waitlisted'
+    order by waitlist_position nulls last, rsvp_changed_at
+  loop
+    exit when open_places is not null and open_places <= 0;
+
+    update public.event_visitors
+    set rsvp_status = 'invited', rsvp_reason = 'promoted', rsvp_note = null
+    where event_id = p_event_id and visitor_id = next_visitor.visitor_id;
+
+    insert into public.notifications (kind, event_id, visitor_id)
+    values ('waitlist_promoted', p_event_id, next_visitor.visitor_id);
+
+    promoted := promoted + 1;
+    open_places := open_places - 1;
+  end loop;
+
+  perform set_config('app.rsvp_system', 'off', true);
+
+  return promoted;
+end;
+$$;
+
+-- Waitlist new assignments once the event is full
+create or replace function public.apply_event_capacity()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  event_capacity integer;
+begin
+  -- Serialize assignments per event so two inserts can't both take the last place
+  select capacity into event_capacity
+  from public.events
+  where id = new.event_id
+  for update;
+
+  if new.rsvp_status in ('invited', 'accepted', 'confirmed')
+    and event_capacity is not null
+    and public.event_places_taken(new.event_id) >= event_capacity then
+    new.rsvp_status := 'waitlisted';
+    new.rsvp_reason := 'capacity';
+  end if;
+
+  if new.rsvp_status = 'waitlisted' and new.waitlist_position is null then
+    new.waitlist_position := public.next_waitlist_position(new.event_id);
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists apply_event_capacity on public.event_visitors;
+create trigger apply_event_capacity
+  before insert on public.event_visitors
+  for each row execute function public.apply_event_capacity();
+
+-- Keep waitlist positions and capacity consistent on status changes
+create or replace function public.check_event_capacity()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  event_capacity integer;
+begin
+  if new.rsvp_status = 'waitlisted' and old.rsvp_status is distinct from 'waitlisted' then
+    new.waitlist_position := public.next_waitlist_position(new.event_id);
+  elsif new.rsvp_status <> 'waitlisted' then
+    new.waitlist_position := null;
+  end if;
+
+  if new.rsvp_status in ('invited', 'accepted', 'confirmed')
+    and old.rsvp_status not in ('invited', 'accepted', 'confirmed') then
+    select capacity into event_capacity
+    from public.events
+    where id = new.event_id
+    for update;
+
+    if event_capacity is not null and public.event_places_taken(new.event_id) >= event_capacity then
+      raise exception 'This event is full'
+        using errcode = 'check_violation';
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists check_event_capacity on public.event_visitors;
+create trigger check_event_capacity
+  before update of rsvp_status on public.event_visitors
+  for each row execute function public.check_event_capacity();
+
+-- Promote from the waitlist when a place opens
+create or replace function public.release_event_place()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'DELETE' then
+    if old.rsvp_status in ('invited', 'accepted', 'confirmed') then
+      perform public.promote_from_waitlist(old.event_id);
+    end if;
+    return old;
+  end if;
+
+  if old.rsvp_status in ('invited', 'accepted', 'confirmed')
+    and new.rsvp_status not in ('invited', 'accepted', 'confirmed') then
+    perform public.promote_from_waitlist(new.event_id);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists release_event_place on public.event_visitors;
+create trigger release_event_place
+  after update of rsvp_status or delete on public.event_visitors
+  for each row execute function public.release_event_place();
+
+create or replace function public.promote_on_capacity_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.capacity is distinct from old.capacity
+    and (new.capacity is null or new.capacity > coalesce(old.capacity, 0)) then
+    perform public.promote_from_waitlist(new.id);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists promote_on_capacity_change on public.events;
+create trigger promote_on_capacity_change
+  after update of capacity on public.events
+  for each row execute function public.promote_on_capacity_change();
+
+-- Let waitlist promotion make the admin-only waitlisted -> invited move
+create or replace function public.can_manage_rsvps()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select auth.uid() is null
+    or current_setting('app.rsvp_system', true) = 'on'
+    or exists (
+      select 1 from public.profiles p where p.id = auth.uid() and p.security_group = 'admin'
+    );
+$$;
@@ -0,0 +1,143 @@
+-- Audit log of every change to admin-managed tables.
+-- A generic trigger records the actor, table, row id and the row before and
+-- after each insert, update and delete. Writing happens inside the trigger,
+-- so every code path is covered, including direct supabase-js calls from
+-- the admin pages. The log is append-only: there are no write policies and
+-- only admins can read it.
+
+create table if not exists public.audit_log (
+  id bigint generated always as identity primary key,
+  occurred_at timestamptz not null default now(),
+  actor_id uuid,
+  actor_email text,
+  table_name text not null,
+  row_id text not null,
+  row_label text,
+  action text not null check (action in ('insert', 'update', 'delete')),
+  old_values jsonb,
+  new_values jsonb,
+  changed_fields text[]
+);
+
+create index if not exists audit_log_occurred_at_idx on public.audit_log (occurred_at desc);
+create index if not exists audit_log_table_row_idx on public.audit_log (table_name, row_id);
+create index if not exists audit_log_actor_idx on public.audit_log (actor_id);
+
+alter table public.audit_log enable row level security;
+
+create policy "Admins read audit log"
+  on public.audit_log
+  for select
+  to authenticated
+  using (
+    exists (select 1 from public.profiles p where p.id = auth.uid() and p.security_group = 'admin')
+  );
+
+revoke insert, update, delete, truncate on public.audit_log from anon, authenticated;
+
+-- Trigger arguments name the key columns for tables without an id column
+create or replace function public.record_audit()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  old_row jsonb;
+  new_row jsonb;
+  row_data jsonb;
+  key_value text;
+  changed text[];
+  i integer;
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    old_row := to_jsonb(old);
+  end if;
+  if tg_op in ('INSERT', 'UPDATE') then
+    new_row := to_jsonb(new);
+  end if;
+
+  if tg_op = 'UPDATE' then
+    select array_agg(n.key order by n.key) into changed
+    from jsonb_each(new_row) n
+    where n.value is distinct from old_row -> n.key;
+
+    -- Nothing actually changed
+    if changed is null then
+      return null;
+    end if;
+  end if;
+
+  row_data := coalesce(new_row, old_row);
+
+  if tg_nargs = 0 then
+    key_value := row_data ->> 'id';
+  else
+    key_value := row_data ->> tg_argv[0];
+    for i in 1 .. tg_nargs - 1 loop
+      key_value := key_value || ':' || (row_data ->> tg_argv[i]);
+    end loop;
+  end if;
+
+  insert into public.audit_log (
+    actor_id, actor_email, table_name, row_id, row_label, action, old_values, new_values, changed_fields
+  )
+  values (
+    auth.uid(),
+    auth.jwt() ->> 'email',
+    tg_table_name,
+    key_value,
+    coalesce(
+      row_data ->> 'name',
+      nullif(concat_ws(' ', row_data ->> 'first_name', row_data ->> 'last_name'), ''),
+      row_data ->> 'file_name'
+    ),
+    lower(tg_op),
+    old_row,
+    new_row,
+    changed
+  );
+
+  return null;
+end;
+$$;
+
+drop trigger if exists audit_visitors on public.visitors;
+create trigger audit_visitors
+  after insert or update or delete on public.visitors
+  for each row execute function public.record_audit();
+
+drop trigger if exists audit_events on public.events;
+create trigger audit_events
+  after insert or update or delete on public.events
+  for each row execute function public.record_audit();
+
+drop trigger if exists audit_companies on public.companies;
+create trigger audit_companies
+  after insert or update or delete on public.companies
+  for each row execute function public.record_audit();
+
+drop trigger if exists audit_documents on public.documents;
+create trigger audit_documents
+  after insert or update or delete on public.documents
+  for each row execute function public.record_audit();
+
+drop trigger if exists audit_document_versions on public.document_versions;
+create trigger audit_document_versions
+  after insert or update or delete on public.document_versions
+  for each row execute function public.record_audit();
+
+drop trigger if exists audit_document_events on public.document_events;
+create trigger audit_document_events
+  after insert or update or delete on public.document_events
+  for each row execute function public.record_audit('document_id', 'event_id');
+
+drop trigger if exists audit_document_types on public.document_types;
+create trigger audit_document_types
+  after insert or update or delete on public.document_types
+  for each row execute function public.record_audit();
+
+drop trigger if exists audit_event_visitors on public.event_visitors;
+create trigger audit_event_visitors
+  after insert or update or delete on public.event_visitors
+  for each row execute function public.record_audit();
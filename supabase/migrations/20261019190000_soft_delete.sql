@@ -0,0 +1,243 @@
+-- Soft delete for visitors, events and organizations.
+-- Deleting stamps deleted_at instead of removing the row. Event assignments,
+-- document confirmations and document links hang off visitors and events and
+-- are read all over the app, so rather than filtering them everywhere they are
+-- moved into trashed_rows and put back on restore. purge_trash removes
+-- anything that has been in the trash longer than the retention period.
+
+alter table public.visitors
+  add column if not exists deleted_at timestamptz,
+  add column if not exists deleted_by uuid;
+
+alter table public.events
+  add column if not exists deleted_at timestamptz,
+  add column if not exists deleted_by uuid;
+
+alter table public.companies
+  add column if not exists deleted_at timestamptz,
+  add column if not exists deleted_by uuid;
+
+create index if not exists visitors_deleted_at_idx on public.visitors (deleted_at) where deleted_at is not null;
+create index if not exists events_deleted_at_idx on public.events (deleted_at) where deleted_at is not null;
+create index if not exists companies_deleted_at_idx on public.companies (deleted_at) where deleted_at is not null;
+
+-- Rows removed along with a trashed visitor or event, kept whole as jsonb
+create table if not exists public.trashed_rows (
+  id bigint generated always as identity primary key,
+  owner_table text not null check (owner_table in ('visitors', 'events')),
+  owner_id uuid not null,
+  table_name text not null check (table_name in ('event_visitors', 'visitor_confirmations', 'document_events')),
+  row_data jsonb not null,
+  trashed_at timestamptz not null default now()
+);
+
+create index if not exists trashed_rows_owner_idx on public.trashed_rows (owner_table, owner_id);
+
+alter table public.trashed_rows enable row level security;
+
+create policy "Admins manage trashed rows"
+  on public.trashed_rows
+  for all
+  to authenticated
+  using (
+    exists (select 1 from public.profiles p where p.id = auth.uid() and p.security_group = 'admin')
+  )
+  with check (
+    exists (select 1 from public.profiles p where p.id = auth.uid() and p.security_group = 'admin')
+  );
+
+-- Moves the rows of p_table whose p_key is in p_ids into trashed_rows
+create or replace function public.stash_rows(p_owner_table text, p_table text, p_key text, p_ids uuid[])
+returns void
+language plpgsql
+set search_path = public
+as $$
+begin
+  execute format(
+    'with removed as (delete from public.%1$I t where t.%2$I = any($1) returning t.*)
+     insert into public.trashed_rows (owner_table, owner_id, table_name, row_data)
+     select $2, removed.%2$I, %1$L, to_jsonb(removed) from removed',
+    p_table, p_key
+  ) using p_ids, p_owner_table;
+end;
+$$;
+
+-- A stashed row can only come back once the visitor and event it belongs
+-- to are both live again
+create or replace function public.trashed_row_parents_live(p_row jsonb)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select (
+    p_row ->> 'visitor_id' is null
+    or exists (
+      select 1 from public.visitors v
+      where v.id = (p_row ->> 'visitor_id')::uuid and v.deleted_at is null
+    )
+  ) and (
+    p_row ->> 'event_id' is null
+    or exists (
+      select 1 from public.events e
+      where e.id = (p_row ->> 'event_id')::uuid and e.deleted_at is null
+    )
+  );
+$$;
+
+-- Runs with the caller's permissions, so only admins can trash records
+create or replace function public.trash_records(p_table text, p_ids uuid[])
+returns integer
+language plpgsql
+set search_path = public
+as $$
+declare
+  trashed_ids uuid[];
+  owner_key text;
+begin
+  if p_table not in ('visitors', 'events', 'companies') then
+    raise exception 'Cannot trash records from %', p_table
+      using errcode = 'invalid_parameter_value';
+  end if;
+
+  execute format(
+    'with trashed as (
+       update public.%I set deleted_at = now(), deleted_by = auth.uid()
+       where id = any($1) and deleted_at is null
+       returning id
+     )
+     select coalesce(array_agg(id), ''{}'') from trashed',
+    p_table
+  ) into trashed_ids using p_ids;
+
+  if p_table in ('visitors', 'events') and cardinality(trashed_ids) > 0 then
+    owner_key := case p_table when 'visitors' then 'visitor_id' else 'event_id' end;
+
+    -- Confirmations before assignments, the reverse of restore
+    perform public.stash_rows(p_table, 'visitor_confirmations', owner_key, trashed_ids);
+    perform public.stash_rows(p_table, 'event_visitors', owner_key, trashed_ids);
+    if p_table = 'events' then
+      perform public.stash_rows(p_table, 'document_events', owner_key, trashed_ids);
+    end if;
+
+    -- Gate passes are reissued on demand and queued emails would be stale
+    execute format('delete from public.visitor_credentials where %I = any($1)', owner_key) using trashed_ids;
+    execute format('delete from public.notifications where status = ''pending'' and %I = any($1)', owner_key) using trashed_ids;
+  end if;
+
+  return cardinality(trashed_ids);
+end;
+$$;
+
+create or replace function public.restore_records(p_table text, p_ids uuid[])
+returns integer
+language plpgsql
+set search_path = public
+as $$
+declare
+  restored_ids uuid[];
+  dependent text;
+begin
+  if p_table not in ('visitors', 'events', 'companies') then
+    raise exception 'Cannot restore records to %', p_table
+      using errcode = 'invalid_parameter_value';
+  end if;
+
+  execute format(
+    'with restored as (
+       update public.%I set deleted_at = null, deleted_by = null
+       where id = any($1) and deleted_at is not null
+       returning id
+     )
+     select coalesce(array_agg(id), ''{}'') from restored',
+    p_table
+  ) into restored_ids using p_ids;
+
+  if p_table in ('visitors', 'events') and cardinality(restored_ids) > 0 then
+    -- Assignments go back in their original order. A restored waitlist
+    -- entry joins the back of the queue, and the capacity trigger
+    -- waitlists anyone whose place was given away in the meantime.
+    foreach dependent in array array['event_visitors', 'visitor_confirmations', 'document_events'] loop
+      execute format(
+        'with restored as (
+           delete from public.trashed_rows r
+           where r.owner_table = $1 and r.owner_id = any($2) and r.table_name = %1$L
+             and public.trashed_row_parents_live(r.row_data)
+           returning r.id, r.row_data
+         )
+         insert into public.%1$I
+         select (jsonb_populate_record(null::public.%1$I, restored.row_data - ''waitlist_position'')).*
+         from restored
+         order by restored.id',
+        dependent
+      ) using p_table, restored_ids;
+    end loop;
+
+    -- Rows whose other parent is still in the trash now wait on that one
+    update public.trashed_rows r
+    set owner_table = case p_table when 'visitors' then 'events' else 'visitors' end,
+        owner_id = (r.row_data ->> case p_table when 'visitors' then 'event_id' else 'visitor_id' end)::uuid
+    where r.owner_table = p_table and r.owner_id = any(restored_ids);
+  end if;
+
+  return cardinality(restored_ids);
+end;
+$$;
+
+-- Permanently deletes records trashed before p_before. Called by the purge cron.
+create or replace function public.purge_trash(p_before timestamptz)
+returns integer
+language plpgsql
+set search_path = public
+as $$
+declare
+  visitor_ids uuid[];
+  event_ids uuid[];
+  company_ids uuid[];
+begin
+  select coalesce(array_agg(id), '{}') into visitor_ids
+  from public.visitors where deleted_at < p_before;
+
+  select coalesce(array_agg(id), '{}') into event_ids
+  from public.events where deleted_at < p_before;
+
+  select coalesce(array_agg(id), '{}') into company_ids
+  from public.companies where deleted_at < p_before;
+
+  delete from public.trashed_rows r
+  where (r.row_data ->> 'visitor_id')::uuid = any(visitor_ids)
+    or (r.row_data ->> 'event_id')::uuid = any(event_ids);
+
+  delete from public.visitors where id = any(visitor_ids);
+  delete from public.events where id = any(event_ids);
+
+  -- Live visitors and events may still point at a purged organization
+  update public.visitors set company_id = null where company_id = any(company_ids);
+  update public.events set sponsor_company_id = null where sponsor_company_id = any(company_ids);
+  delete from public.companies where id = any(company_ids);
+
+  return cardinality(visitor_ids) + cardinality(event_ids) + cardinality(company_ids);
+end;
+$$;
+
+revoke execute on function public.purge_trash(timestamptz) from public, anon, authenticated;
+
+-- Trashed events drop out of the organization report
+create or replace view public.report_events_by_organization
+with (security_invoker = true) as
+select
+  e.id as event_id,
+  e.sponsor_company_id as organization_id,
+  c.name as organization,
+  e.name as event_name,
+  e.start_date,
+  e.end_date,
+  count(ev.visitor_id) as assigned_visitors,
+  count(ev.visitor_id) filter (where ev.rsvp_status = 'confirmed') as confirmed_visitors,
+  count(ev.visitor_id) filter (where ev.rsvp_status = 'declined') as declined_visitors,
+  count(ev.visitor_id) filter (where ev.rsvp_status = 'waitlisted') as waitlisted_visitors
+from public.events e
+left join public.companies c on c.id = e.sponsor_company_id
+left join public.event_visitors ev on ev.event_id = e.id
+where e.deleted_at is null
+group by e.id, c.name;
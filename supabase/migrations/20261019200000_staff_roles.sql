@@ -0,0 +1,226 @@
+-- Staff roles beyond "admin", stored in profiles.security_group:
+--   coordinator       events and visitors
+--   document_manager  documents and document types
+--   viewer            read-only dashboard and reports
+--   liaison           the visitors of one organization (profiles.company_id)
+-- The admin policies already in place are untouched; the policies below
+-- only grant each role what its areas need, mirroring lib/roles.ts.
+
+alter table public.profiles
+  add column if not exists company_id uuid references public.companies(id) on delete set null;
+
+create or replace function public.is_staff(variadic p_roles text[])
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.profiles p
+    where p.id = auth.uid() and p.security_group = any(p_roles)
+  );
+$$;
+
+-- The organization a liaison works for, or null for everyone else
+create or replace function public.liaison_company_id()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.company_id from public.profiles p
+  where p.id = auth.uid() and p.security_group = 'liaison';
+$$;
+
+create or replace function public.is_liaison_visitor(p_visitor_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.visitors v
+    where v.id = p_visitor_id and v.company_id = public.liaison_company_id()
+  );
+$$;
+
+-- Organizations: looked up by most roles, managed only by admins
+create policy "Staff read organizations"
+  on public.companies
+  for select
+  to authenticated
+  using (public.is_staff('coordinator', 'document_manager', 'viewer') or id = public.liaison_company_id());
+
+-- Events
+create policy "Staff read events"
+  on public.events
+  for select
+  to authenticated
+  using (public.is_staff('coordinator', 'document_manager', 'viewer', 'liaison'));
+
+create policy "Coordinators manage events"
+  on public.events
+  for all
+  to authenticated
+  using (public.is_staff('coordinator'))
+  with check (public.is_staff('coordinator'));
+
+-- Visitors
+create policy "Staff read visitors"
+  on public.visitors
+  for select
+  to authenticated
+  using (public.is_staff('coordinator', 'viewer') or company_id = public.liaison_company_id());
+
+create policy "Coordinators and liaisons manage visitors"
+  on public.visitors
+  for all
+  to authenticated
+  using (public.is_staff('coordinator') or company_id = public.liaison_company_id())
+  with check (public.is_staff('coordinator') or company_id = public.liaison_company_id());
+
+-- Event assignments and document confirmations
+create policy "Staff read event assignments"
+  on public.event_visitors
+  for select
+  to authenticated
+  using (public.is_staff('coordinator', 'viewer') or public.is_liaison_visitor(visitor_id));
+
+create policy "Coordinators and liaisons manage event assignments"
+  on public.event_visitors
+  for all
+  to authenticated
+  using (public.is_staff('coordinator') or public.is_liaison_visitor(visitor_id))
+  with check (public.is_staff('coordinator') or public.is_liaison_visitor(visitor_id));
+
+create policy "Staff read document confirmations"
+  on public.visitor_confirmations
+  for select
+  to authenticated
+  using (public.is_staff('coordinator', 'viewer') or public.is_liaison_visitor(visitor_id));
+
+create policy "Coordinators and liaisons manage document confirmations"
+  on public.visitor_confirmations
+  for all
+  to authenticated
+  using (public.is_staff('coordinator') or public.is_liaison_visitor(visitor_id))
+  with check (public.is_staff('coordinator') or public.is_liaison_visitor(visitor_id));
+
+create policy "Coordinators read RSVP history"
+  on public.rsvp_history
+  for select
+  to authenticated
+  using (public.is_staff('coordinator'));
+
+-- Trashing a visitor or event clears its gate passes and queued emails
+create policy "Coordinators and liaisons manage gate passes"
+  on public.visitor_credentials
+  for all
+  to authenticated
+  using (public.is_staff('coordinator') or public.is_liaison_visitor(visitor_id))
+  with check (public.is_staff('coordinator') or public.is_liaison_visitor(visitor_id));
+
+create policy "Coordinators and liaisons manage notifications"
+  on public.notifications
+  for all
+  to authenticated
+  using (public.is_staff('coordinator') or public.is_liaison_visitor(visitor_id))
+  with check (public.is_staff('coordinator') or public.is_liaison_visitor(visitor_id));
+
+create policy "Coordinators and liaisons manage trashed rows"
+  on public.trashed_rows
+  for all
+  to authenticated
+  using (
+    public.is_staff('coordinator')
+    or (owner_table = 'visitors' and public.is_liaison_visitor(owner_id))
+  )
+  with check (
+    public.is_staff('coordinator')
+    or (owner_table = 'visitors' and public.is_liaison_visitor(owner_id))
+  );
+
+-- Documents
+create policy "Staff read documents"
+  on public.documents
+  for select
+  to authenticated
+  using (public.is_staff('coordinator', 'document_manager', 'viewer'));
+
+create policy "Document managers manage documents"
+  on public.documents
+  for all
+  to authenticated
+  using (public.is_staff('document_manager'))
+  with check (public.is_staff('document_manager'));
+
+create policy "Staff read document versions"
+  on public.document_versions
+  for select
+  to authenticated
+  using (public.is_staff('coordinator', 'document_manager', 'viewer'));
+
+create policy "Document managers manage document versions"
+  on public.document_versions
+  for all
+  to authenticated
+  using (public.is_staff('document_manager'))
+  with check (public.is_staff('document_manager'));
+
+create policy "Staff read document types"
+  on public.document_types
+  for select
+  to authenticated
+  using (public.is_staff('coordinator', 'document_manager', 'viewer'));
+
+create policy "Document managers manage document types"
+  on public.document_types
+  for all
+  to authenticated
+  using (public.is_staff('document_manager'))
+  with check (public.is_staff('document_manager'));
+
+-- Coordinators move document links to the trash along with an event
+create policy "Staff read document links"
+  on public.document_events
+  for select
+  to authenticated
+  using (public.is_staff('coordinator', 'document_manager', 'viewer'));
+
+create policy "Document managers and coordinators manage document links"
+  on public.document_events
+  for all
+  to authenticated
+  using (public.is_staff('document_manager', 'coordinator'))
+  with check (public.is_staff('document_manager', 'coordinator'));
+
+create policy "Document managers manage document files"
+  on storage.objects
+  for all
+  to authenticated
+  using (bucket_id = 'documents' and public.is_staff('document_manager'))
+  with check (bucket_id = 'documents' and public.is_staff('document_manager'));
+
+-- Viewers may schedule reports for themselves
+create policy "Viewers manage own report subscriptions"
+  on public.report_subscriptions
+  for all
+  to authenticated
+  using (profile_id = auth.uid() and public.is_staff('viewer'))
+  with check (profile_id = auth.uid() and public.is_staff('viewer'));
+
+-- Coordinators make the admin-only RSVP moves from the events page
+create or replace function public.can_manage_rsvps()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select auth.uid() is null
+    or current_setting('app.rsvp_system', true) = 'on'
+    or public.is_staff('admin', 'coordinator');
+$$;
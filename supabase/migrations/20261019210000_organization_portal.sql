@@ -0,0 +1,166 @@
+-- Organization portal for sponsor contacts.
+-- An organization's main contact signs in with companies.main_contact_email
+-- and manages that organization's visitors: adding and removing them,
+-- assigning them to the events it sponsors, and following their document
+-- confirmations. Access follows the email, so changing the main contact
+-- hands the portal over.
+
+create or replace function public.contact_company_id()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select c.id from public.companies c
+  where c.deleted_at is null
+    and c.main_contact_email is not null
+    and lower(c.main_contact_email) = lower(auth.jwt() ->> 'email')
+  order by c.name
+  limit 1;
+$$;
+
+-- Lets sponsor contacts sign up alongside visitors
+create or replace function public.check_organization_contact_email_exists(email_to_check text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.companies c
+    where c.deleted_at is null and lower(c.main_contact_email) = lower(email_to_check)
+  );
+$$;
+
+grant execute on function public.check_organization_contact_email_exists(text) to anon, authenticated;
+
+create or replace function public.is_contact_visitor(p_visitor_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.visitors v
+    where v.id = p_visitor_id and v.company_id = public.contact_company_id()
+  );
+$$;
+
+create or replace function public.is_contact_event(p_event_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.events e
+    where e.id = p_event_id and e.sponsor_company_id = public.contact_company_id()
+  );
+$$;
+
+create policy "Organization contacts read own organization"
+  on public.companies
+  for select
+  to authenticated
+  using (id = public.contact_company_id());
+
+create policy "Organization contacts read sponsored events"
+  on public.events
+  for select
+  to authenticated
+  using (sponsor_company_id = public.contact_company_id());
+
+create policy "Organization contacts manage own visitors"
+  on public.visitors
+  for all
+  to authenticated
+  using (company_id = public.contact_company_id())
+  with check (company_id = public.contact_company_id());
+
+-- Contacts can only add their visitors to events they sponsor, but can
+-- remove any of their visitors' assignments
+create policy "Organization contacts read own event assignments"
+  on public.event_visitors
+  for select
+  to authenticated
+  using (public.is_contact_visitor(visitor_id));
+
+create policy "Organization contacts assign visitors to sponsored events"
+  on public.event_visitors
+  for insert
+  to authenticated
+  with check (public.is_contact_visitor(visitor_id) and public.is_contact_event(event_id));
+
+create policy "Organization contacts remove own event assignments"
+  on public.event_visitors
+  for delete
+  to authenticated
+  using (public.is_contact_visitor(visitor_id));
+
+-- Removing a visitor moves it to the trash along with these
+create policy "Organization contacts manage own document confirmations"
+  on public.visitor_confirmations
+  for all
+  to authenticated
+  using (public.is_contact_visitor(visitor_id))
+  with check (public.is_contact_visitor(visitor_id));
+
+create policy "Organization contacts manage own gate passes"
+  on public.visitor_credentials
+  for all
+  to authenticated
+  using (public.is_contact_visitor(visitor_id))
+  with check (public.is_contact_visitor(visitor_id));
+
+create policy "Organization contacts manage own notifications"
+  on public.notifications
+  for all
+  to authenticated
+  using (public.is_contact_visitor(visitor_id))
+  with check (public.is_contact_visitor(visitor_id));
+
+create policy "Organization contacts manage own trashed rows"
+  on public.trashed_rows
+  for all
+  to authenticated
+  using (owner_table = 'visitors' and public.is_contact_visitor(owner_id))
+  with check (owner_table = 'visitors' and public.is_contact_visitor(owner_id));
+
+-- What's needed to work out which documents a visitor still has to confirm
+create policy "Organization contacts read sponsored event documents"
+  on public.document_events
+  for select
+  to authenticated
+  using (public.is_contact_event(event_id));
+
+create policy "Organization contacts read sponsored documents"
+  on public.documents
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.document_events de
+      where de.document_id = documents.id and public.is_contact_event(de.event_id)
+    )
+  );
+
+create policy "Organization contacts read sponsored document versions"
+  on public.document_versions
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.document_events de
+      where de.document_id = document_versions.document_id and public.is_contact_event(de.event_id)
+    )
+  );
+
+create policy "Organization contacts read document types"
+  on public.document_types
+  for select
+  to authenticated
+  using (public.contact_company_id() is not null);
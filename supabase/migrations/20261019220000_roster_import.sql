@@ -0,0 +1,92 @@
+-- Staged roster import. The app parses a roster, matches its rows against
+-- existing visitors and lets the uploader choose to create, update or skip
+-- each one; this commits the chosen rows in one transaction so a bad roster
+-- no longer leaves half its visitors behind.
+--
+-- p_rows is an array of
+--   { row, action: 'create' | 'update', visitor_id, first_name, last_name,
+--     email, phone, company_id, event_id }
+-- Create rows sharing an email become one visitor. Runs with the caller's
+-- permissions, so liaisons and organization contacts stay within their
+-- own organization.
+
+create or replace function public.import_roster(p_rows jsonb)
+returns jsonb
+language plpgsql
+set search_path = public
+as $$
+declare
+  r jsonb;
+  target_id uuid;
+  email_key text;
+  created_ids jsonb := '{}';
+  updated_ids uuid[] := '{}';
+  created integer := 0;
+  assigned integer := 0;
+begin
+  for r in select value from jsonb_array_elements(p_rows) loop
+    begin
+      email_key := lower(nullif(r ->> 'email', ''));
+      target_id := null;
+
+      if r ->> 'action' = 'create' then
+        target_id := (created_ids ->> email_key)::uuid;
+        if target_id is null then
+          insert into public.visitors (first_name, last_name, email, phone, company_id)
+          values (
+            r ->> 'first_name',
+            r ->> 'last_name',
+            nullif(r ->> 'email', ''),
+            nullif(r ->> 'phone', ''),
+            (r ->> 'company_id')::uuid
+          )
+          returning id into target_id;
+
+          created := created + 1;
+          if email_key is not null then
+            created_ids := created_ids || jsonb_build_object(email_key, target_id);
+          end if;
+        end if;
+      elsif r ->> 'action' = 'update' then
+        -- Blank cells keep what the visitor already has
+        update public.visitors v set
+          first_name = r ->> 'first_name',
+          last_name = r ->> 'last_name',
+          email = coalesce(nullif(r ->> 'email', ''), v.email),
+          phone = coalesce(nullif(r ->> 'phone', ''), v.phone),
+          company_id = (r ->> 'company_id')::uuid
+        where v.id = (r ->> 'visitor_id')::uuid and v.deleted_at is null
+        returning v.id into target_id;
+
+        if target_id is null then
+          raise exception 'the matched visitor no longer exists'
+            using errcode = 'no_data_found';
+        end if;
+        updated_ids := array_append(updated_ids, target_id);
+      else
+        raise exception 'unknown action %', r ->> 'action'
+          using errcode = 'invalid_parameter_value';
+      end if;
+
+      -- Already assigned visitors keep their RSVP; full events waitlist
+      -- the rest through the capacity trigger
+      insert into public.event_visitors (visitor_id, event_id, rsvp_status)
+      values (target_id, (r ->> 'event_id')::uuid, 'invited')
+      on conflict (visitor_id, event_id) do nothing;
+
+      if found then
+        assigned := assigned + 1;
+      end if;
+    exception when others then
+      raise exception 'Row %: %', r ->> 'row', sqlerrm
+        using errcode = sqlstate;
+    end;
+  end loop;
+
+  return jsonb_build_object(
+    'created', created,
+    'updated', (select count(distinct id) from unnest(updated_ids) as id),
+    'assigned', assigned
+  );
+end;
+$$;
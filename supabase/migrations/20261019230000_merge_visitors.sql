@@ -0,0 +1,86 @@
+-- Merging duplicate visitors. Everything pointing at the duplicate moves to
+-- the visitor kept, which wins wherever both have a row (an assignment to
+-- the same event, a confirmation of the same document), and blank contact
+-- details are filled in from the duplicate before it is deleted.
+-- Runs as the owner to rewrite RSVP history and notifications, so it checks
+-- the caller itself.
+
+create or replace function public.merge_visitors(p_keep_id uuid, p_merge_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  keep_row public.visitors;
+  merge_row public.visitors;
+begin
+  if not public.is_staff('admin', 'coordinator') then
+    raise exception 'Only an administrator or coordinator can merge visitors'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  if p_keep_id = p_merge_id then
+    raise exception 'Cannot merge a visitor into itself'
+      using errcode = 'invalid_parameter_value';
+  end if;
+
+  select * into keep_row from public.visitors
+  where id = p_keep_id and deleted_at is null
+  for update;
+  select * into merge_row from public.visitors
+  where id = p_merge_id and deleted_at is null
+  for update;
+
+  if keep_row.id is null or merge_row.id is null then
+    raise exception 'Both visitors must exist and not be in the trash'
+      using errcode = 'no_data_found';
+  end if;
+
+  if keep_row.profile_id is not null and merge_row.profile_id is not null
+    and keep_row.profile_id <> merge_row.profile_id then
+    raise exception 'Both visitors are linked to different accounts'
+      using errcode = 'unique_violation';
+  end if;
+
+  -- Confirmations before assignments, as when trashing
+  delete from public.visitor_confirmations mc
+  where mc.visitor_id = p_merge_id
+    and exists (
+      select 1 from public.visitor_confirmations kc
+      where kc.visitor_id = p_keep_id and kc.event_id = mc.event_id and kc.document_id = mc.document_id
+    );
+  update public.visitor_confirmations set visitor_id = p_keep_id where visitor_id = p_merge_id;
+
+  -- A duplicate assignment gives up its place, which may promote the waitlist
+  delete from public.event_visitors me
+  where me.visitor_id = p_merge_id
+    and exists (
+      select 1 from public.event_visitors ke
+      where ke.visitor_id = p_keep_id and ke.event_id = me.event_id
+    );
+  update public.event_visitors set visitor_id = p_keep_id where visitor_id = p_merge_id;
+
+  update public.rsvp_history set visitor_id = p_keep_id where visitor_id = p_merge_id;
+  update public.notifications set visitor_id = p_keep_id where visitor_id = p_merge_id;
+
+  -- Gate passes name the visitor, so they are reissued on demand
+  delete from public.visitor_credentials where visitor_id in (p_keep_id, p_merge_id);
+
+  -- Free the login link before handing it over
+  update public.visitors set profile_id = null where id = p_merge_id;
+  update public.visitors set
+    profile_id = coalesce(keep_row.profile_id, merge_row.profile_id),
+    email = coalesce(keep_row.email, merge_row.email),
+    phone = coalesce(keep_row.phone, merge_row.phone),
+    company_id = coalesce(keep_row.company_id, merge_row.company_id)
+  where id = p_keep_id;
+
+  delete from public.visitors where id = p_merge_id;
+
+  return p_keep_id;
+end;
+$$;
+
+revoke execute on function public.merge_visitors(uuid, uuid) from public, anon;
+grant execute on function public.merge_visitors(uuid, uuid) to authenticated;
@@ -0,0 +1,99 @@
+-- Views behind the paged admin tables. Each returns one row per live record
+-- with the names and counts its table shows, so the pages can sort, search
+-- and page on the server instead of loading everything. The search column
+-- is a full-text vector over the text the table shows; lib/data-table.ts
+-- builds matching prefix queries. Views run with the caller's permissions,
+-- so staff roles see the same rows as before.
+
+-- Punctuation splits words on both sides, so "ann@example.com" and
+-- "555-123-4567" are searchable by any of their parts
+create or replace function public.search_vector(variadic p_values text[])
+returns tsvector
+language sql
+immutable
+as $$
+  select to_tsvector('simple', regexp_replace(array_to_string(p_values, ' '), '[^[:alnum:]]+', ' ', 'g'));
+$$;
+
+create or replace view public.admin_visitor_list
+with (security_invoker = true) as
+select
+  v.id,
+  v.first_name,
+  v.last_name,
+  v.email,
+  v.phone,
+  v.company_id,
+  v.profile_id,
+  c.name as company_name,
+  (select count(*) from public.event_visitors ev where ev.visitor_id = v.id)::integer as event_count,
+  public.search_vector(v.first_name, v.last_name, v.email, v.phone, c.name) as search
+from public.visitors v
+left join public.companies c on c.id = v.company_id
+where v.deleted_at is null;
+
+create or replace view public.admin_event_list
+with (security_invoker = true) as
+select
+  e.id,
+  e.name,
+  e.description,
+  e.start_date,
+  e.end_date,
+  e.location,
+  e.sponsor_company_id,
+  e.capacity,
+  c.name as sponsor_name,
+  coalesce(s.places_taken, 0) as places_taken,
+  coalesce(s.waitlisted, 0) as waitlisted,
+  public.search_vector(e.name, e.location, e.description, c.name) as search
+from public.events e
+left join public.companies c on c.id = e.sponsor_company_id
+left join lateral (
+  select
+    count(*) filter (where ev.rsvp_status in ('invited', 'accepted', 'confirmed'))::integer as places_taken,
+    count(*) filter (where ev.rsvp_status = 'waitlisted')::integer as waitlisted
+  from public.event_visitors ev
+  where ev.event_id = e.id
+) s on true
+where e.deleted_at is null;
+
+create or replace view public.admin_organization_list
+with (security_invoker = true) as
+select
+  c.id,
+  c.name,
+  c.address_line_1,
+  c.address_line_2,
+  c.city,
+  c.state_province,
+  c.postal_code,
+  c.country,
+  c.main_contact_name,
+  c.main_contact_email,
+  c.main_contact_phone,
+  (select count(*) from public.visitors v where v.company_id = c.id and v.deleted_at is null)::integer as visitor_count,
+  (select count(*) from public.events e where e.sponsor_company_id = c.id and e.deleted_at is null)::integer as event_count,
+  public.search_vector(c.name, c.city, c.state_province, c.main_contact_name, c.main_contact_email) as search
+from public.companies c
+where c.deleted_at is null;
+
+create or replace view public.admin_document_list
+with (security_invoker = true) as
+select
+  d.id,
+  d.name,
+  d.description,
+  d.document_type_id,
+  d.is_active,
+  d.created_at,
+  t.name as document_type_name,
+  (select count(*) from public.document_events de where de.document_id = d.id)::integer as event_count,
+  public.search_vector(d.name, d.description, t.name) as search
+from public.documents d
+left join public.document_types t on t.id = d.document_type_id;
+
+grant select on public.admin_visitor_list to authenticated;
+grant select on public.admin_event_list to authenticated;
+grant select on public.admin_organization_list to authenticated;
+grant select on public.admin_document_list to authenticated;
@@ -0,0 +1,100 @@
+-- Current document versions and visitors' confirmation status, joined in the
+-- database so the documents page, dashboard and landing page each load them
+-- in one call instead of a query per document or a chain of lookups.
+-- Views run with the caller's permissions, so row level security still
+-- decides which rows each user sees.
+
+-- The documents table shows the current version of each document
+create or replace view public.admin_document_list
+with (security_invoker = true) as
+select
+  d.id,
+  d.name,
+  d.description,
+  d.document_type_id,
+  d.is_active,
+  d.created_at,
+  t.name as document_type_name,
+  (select count(*) from public.document_events de where de.document_id = d.id)::integer as event_count,
+  public.search_vector(d.name, d.description, t.name) as search,
+  cv.id as current_version_id,
+  cv.version_number as current_version_number,
+  cv.file_name as current_file_name,
+  cv.file_size as current_file_size
+from public.documents d
+left join public.document_types t on t.id = d.document_type_id
+left join public.document_versions cv on cv.document_id = d.id and cv.is_current;
+
+-- One row per document assigned to an event that has a current version
+create or replace view public.event_document_versions
+with (security_invoker = true) as
+select
+  de.event_id,
+  d.id as document_id,
+  d.document_type_id,
+  t.name as document_type_name,
+  coalesce(t.requires_confirmation, false) as requires_confirmation,
+  cv.id as current_version_id
+from public.document_events de
+join public.documents d on d.id = de.document_id
+left join public.document_types t on t.id = d.document_type_id
+join public.document_versions cv on cv.document_id = d.id and cv.is_current;
+
+-- One row per assigned visitor and event document, with the version the
+-- visitor confirmed, if any
+create or replace view public.visitor_document_versions
+with (security_invoker = true) as
+select
+  ev.visitor_id,
+  edv.event_id,
+  edv.document_id,
+  edv.document_type_name,
+  edv.requires_confirmation,
+  edv.current_version_id,
+  vc.document_version_id as confirmed_version_id
+from public.event_visitors ev
+join public.event_document_versions edv on edv.event_id = ev.event_id
+left join public.visitor_confirmations vc
+  on vc.visitor_id = ev.visitor_id
+  and vc.event_id = ev.event_id
+  and vc.document_id = edv.document_id;
+
+-- One row per assignment with how far the visitor is through the event's
+-- required documents. Outdated confirmations are at a replaced version and
+-- leave the documents incomplete.
+create or replace view public.event_visitor_document_status
+with (security_invoker = true) as
+select
+  ev.event_id,
+  e.name as event_name,
+  e.start_date as event_start_date,
+  coalesce(ec.name, vc.name) as organization_name,
+  ev.visitor_id,
+  v.first_name,
+  v.last_name,
+  ev.rsvp_status,
+  coalesce(s.required_docs, 0) as required_docs,
+  coalesce(s.confirmed_docs, 0) as confirmed_docs,
+  coalesce(s.outdated_docs, 0) as outdated_docs,
+  coalesce(s.confirmed_docs = s.required_docs, true) as documents_complete
+from public.event_visitors ev
+join public.events e on e.id = ev.event_id
+join public.visitors v on v.id = ev.visitor_id
+left join public.companies ec on ec.id = e.sponsor_company_id
+left join public.companies vc on vc.id = v.company_id
+left join lateral (
+  select
+    count(*)::integer as required_docs,
+    count(*) filter (where vdv.confirmed_version_id = vdv.current_version_id)::integer as confirmed_docs,
+    count(*) filter (where vdv.confirmed_version_id <> vdv.current_version_id)::integer as outdated_docs
+  from public.visitor_document_versions vdv
+  where vdv.visitor_id = ev.visitor_id
+    and vdv.event_id = ev.event_id
+    and vdv.requires_confirmation
+) s on true
+where e.deleted_at is null
+  and v.deleted_at is null;
+
+grant select on public.event_document_versions to authenticated;
+grant select on public.visitor_document_versions to authenticated;
+grant select on public.event_visitor_document_status to authenticated;
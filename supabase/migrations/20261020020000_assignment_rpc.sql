@@ -0,0 +1,67 @@
+-- Saving the assignment dialogs. The pages used to remove and then insert
+-- assignments in two requests, so a failed insert left the removals done.
+-- These take the full selection, work out what changed and apply it in one
+-- transaction: assignments that stay keep their RSVP status, confirmations
+-- and waitlist place. Removals go first so the places they free reach the
+-- waitlist before anyone new is added, and new assignments join in the
+-- order given, onto the waitlist once the event is full.
+-- Both run with the caller's permissions and return the assignments added.
+
+create or replace function public.set_event_visitors(p_event_id uuid, p_visitor_ids uuid[])
+returns table (event_id uuid, visitor_id uuid, rsvp_status text)
+language plpgsql
+set search_path = public
+as $$
+begin
+  delete from public.event_visitors ev
+  where ev.event_id = p_event_id
+    and ev.visitor_id <> all (coalesce(p_visitor_ids, '{}'));
+
+  return query
+  insert into public.event_visitors as ev (event_id, visitor_id, rsvp_status)
+  select p_event_id, v.id, 'invited'
+  from (
+    select id, min(position) as position
+    from unnest(coalesce(p_visitor_ids, '{}')) with ordinality as u(id, position)
+    group by id
+  ) v
+  where not exists (
+    select 1 from public.event_visitors existing
+    where existing.event_id = p_event_id and existing.visitor_id = v.id
+  )
+  order by v.position
+  returning ev.event_id, ev.visitor_id, ev.rsvp_status;
+end;
+$$;
+
+create or replace function public.set_visitor_events(p_visitor_id uuid, p_event_ids uuid[])
+returns table (event_id uuid, visitor_id uuid, rsvp_status text)
+language plpgsql
+set search_path = public
+as $$
+begin
+  delete from public.event_visitors ev
+  where ev.visitor_id = p_visitor_id
+    and ev.event_id <> all (coalesce(p_event_ids, '{}'));
+
+  return query
+  insert into public.event_visitors as ev (event_id, visitor_id, rsvp_status)
+  select e.id, p_visitor_id, 'invited'
+  from (
+    select id, min(position) as position
+    from unnest(coalesce(p_event_ids, '{}')) with ordinality as u(id, position)
+    group by id
+  ) e
+  where not exists (
+    select 1 from public.event_visitors existing
+    where existing.visitor_id = p_visitor_id and existing.event_id = e.id
+  )
+  order by e.position
+  returning ev.event_id, ev.visitor_id, ev.rsvp_status;
+end;
+$$;
+
+revoke execute on function public.set_event_visitors(uuid, uuid[]) from public, anon;
+grant execute on function public.set_event_visitors(uuid, uuid[]) to authenticated;
+revoke execute on function public.set_visitor_events(uuid, uuid[]) from public, anon;
+grant execute on function public.set_visitor_events(uuid, uuid[]) to authenticated;
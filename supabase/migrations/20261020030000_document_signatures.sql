@@ -0,0 +1,73 @@
+-- Electronic signatures on confirmed documents. Document types such as the
+-- Safety and Medical waivers can require one: the visitor types their full
+-- name or draws a signature, and the confirmation keeps the signature image,
+-- the consent text they agreed to and the IP address and browser it came
+-- from, all against the exact document version signed.
+
+alter table public.document_types
+  add column requires_signature boolean not null default false;
+
+update public.document_types
+set requires_signature = true
+where name in ('Safety', 'Medical');
+
+alter table public.visitor_confirmations
+  add column signature_method text check (signature_method in ('typed', 'drawn')),
+  add column signer_name text,
+  add column signature_path text,
+  add column consent_text text,
+  add column ip_address text,
+  add column user_agent text;
+
+-- A visitor confirming a document for themselves has to sign it when its
+-- type requires a signature. Staff and organization contacts recording a
+-- confirmation on a visitor's behalf, and restores from the trash, aren't
+-- held to this.
+create or replace function public.require_document_signature()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.visitors v
+    where v.id = new.visitor_id and v.profile_id = auth.uid()
+  ) then
+    return new;
+  end if;
+
+  if exists (
+    select 1
+    from public.documents d
+    join public.document_types dt on dt.id = d.document_type_id
+    where d.id = new.document_id and dt.requires_signature
+  ) and (
+    new.signature_method is null
+    or nullif(trim(new.signer_name), '') is null
+    or new.signature_path is null
+    or new.consent_text is null
+  ) then
+    raise exception 'This document must be signed'
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger visitor_confirmations_require_signature
+  before insert on public.visitor_confirmations
+  for each row execute function public.require_document_signature();
+
+-- Signature images are private. The confirmation route uploads them with
+-- the service role; staff who can see confirmations can read them.
+insert into storage.buckets (id, name, public)
+values ('signatures', 'signatures', false)
+on conflict (id) do nothing;
+
+create policy "Staff read signature images"
+  on storage.objects
+  for select
+  to authenticated
+  using (bucket_id = 'signatures' and public.is_staff('admin', 'coordinator', 'viewer'));
@@ -0,0 +1,6 @@
+-- Certificates of document acknowledgement print the SHA-256 of the file a
+-- visitor confirmed. Versions are immutable once uploaded, so the hash is
+-- worked out from storage the first time a certificate needs it and kept.
+
+alter table public.document_versions
+  add column file_sha256 text;
@@ -0,0 +1,61 @@
+-- Event agendas. Each event has sessions with times, a place on the ranch,
+-- a host and a description, replacing the "Schedule of Events" document.
+-- Times are local to the ranch, so sessions store a date and wall-clock
+-- times rather than timestamps.
+
+create table if not exists public.event_sessions (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references public.events(id) on delete cascade,
+  title text not null,
+  description text,
+  session_date date not null,
+  start_time time not null,
+  end_time time,
+  location text,
+  host text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (end_time is null or end_time > start_time)
+);
+
+create index if not exists event_sessions_event_id_idx
+  on public.event_sessions (event_id, session_date, start_time);
+
+alter table public.event_sessions enable row level security;
+
+create policy "Staff read event sessions"
+  on public.event_sessions
+  for select
+  to authenticated
+  using (public.is_staff('admin', 'coordinator', 'document_manager', 'viewer', 'liaison'));
+
+create policy "Coordinators manage event sessions"
+  on public.event_sessions
+  for all
+  to authenticated
+  using (public.is_staff('admin', 'coordinator'))
+  with check (public.is_staff('admin', 'coordinator'));
+
+create policy "Visitors read own event sessions"
+  on public.event_sessions
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.event_visitors ev
+      join public.visitors v on v.id = ev.visitor_id
+      where ev.event_id = event_sessions.event_id and v.profile_id = auth.uid()
+    )
+  );
+
+create policy "Organization contacts read own event sessions"
+  on public.event_sessions
+  for select
+  to authenticated
+  using (public.is_contact_event(event_id));
+
+drop trigger if exists audit_event_sessions on public.event_sessions;
+create trigger audit_event_sessions
+  after insert or update or delete on public.event_sessions
+  for each row execute function public.record_audit();
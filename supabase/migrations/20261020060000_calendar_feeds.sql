@@ -0,0 +1,25 @@
+-- Personal calendar subscription feeds. Each visitor can have one secret
+-- feed URL listing the events they are assigned to and their agenda
+-- sessions. Calendar apps fetch the feed without signing in, so the token
+-- in the URL is the only protection; resetting it replaces the row.
+-- Tokens are generated by the app and written with the service role, so
+-- there are no insert or update policies.
+
+create table if not exists public.calendar_feeds (
+  visitor_id uuid primary key references public.visitors(id) on delete cascade,
+  token text not null unique,
+  created_at timestamptz not null default now()
+);
+
+alter table public.calendar_feeds enable row level security;
+
+create policy "Visitors read own calendar feed"
+  on public.calendar_feeds
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.visitors v
+      where v.id = visitor_id and v.profile_id = auth.uid()
+    )
+  );
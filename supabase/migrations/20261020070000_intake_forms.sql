@@ -0,0 +1,149 @@
+-- Dietary and medical questionnaires, answered by each visitor for each
+-- event they're assigned to. Dietary answers feed the kitchen's meal counts
+-- and can be read by staff who run reports; medical answers are restricted
+-- to administrators and event coordinators. Both belong to the event
+-- assignment and go with it when the visitor is removed from the event.
+
+create table if not exists public.dietary_forms (
+  event_id uuid not null,
+  visitor_id uuid not null,
+  restrictions text[] not null default '{}' check (
+    restrictions <@ array['vegetarian', 'vegan', 'pescatarian', 'gluten_free', 'dairy_free', 'kosher', 'halal']
+  ),
+  allergens text[] not null default '{}' check (
+    allergens <@ array['peanuts', 'tree_nuts', 'shellfish', 'fish', 'eggs', 'milk', 'soy', 'wheat', 'sesame']
+  ),
+  allergy_notes text,
+  notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (event_id, visitor_id),
+  foreign key (visitor_id, event_id) references public.event_visitors(visitor_id, event_id)
+    on update cascade on delete cascade
+);
+
+create table if not exists public.medical_forms (
+  event_id uuid not null,
+  visitor_id uuid not null,
+  allergies text,
+  carries_epinephrine boolean not null default false,
+  medications text,
+  conditions text,
+  mobility_needs text,
+  emergency_contact_name text not null check (trim(emergency_contact_name) <> ''),
+  emergency_contact_phone text not null check (trim(emergency_contact_phone) <> ''),
+  emergency_contact_relationship text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (event_id, visitor_id),
+  foreign key (visitor_id, event_id) references public.event_visitors(visitor_id, event_id)
+    on update cascade on delete cascade
+);
+
+alter table public.dietary_forms enable row level security;
+alter table public.medical_forms enable row level security;
+
+create policy "Visitors manage own dietary forms"
+  on public.dietary_forms
+  for all
+  to authenticated
+  using (
+    exists (
+      select 1 from public.visitors v
+      where v.id = visitor_id and v.profile_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.visitors v
+      where v.id = visitor_id and v.profile_id = auth.uid()
+    )
+  );
+
+create policy "Staff read dietary forms"
+  on public.dietary_forms
+  for select
+  to authenticated
+  using (public.is_staff('admin', 'coordinator', 'viewer'));
+
+create policy "Visitors manage own medical forms"
+  on public.medical_forms
+  for all
+  to authenticated
+  using (
+    exists (
+      select 1 from public.visitors v
+      where v.id = visitor_id and v.profile_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.visitors v
+      where v.id = visitor_id and v.profile_id = auth.uid()
+    )
+  );
+
+create policy "Coordinators read medical forms"
+  on public.medical_forms
+  for select
+  to authenticated
+  using (public.is_staff('admin', 'coordinator'));
+
+-- Medical forms are deliberately not audited: the audit log would keep
+-- copies of medical details after a visitor corrects or removes them.
+drop trigger if exists audit_dietary_forms on public.dietary_forms;
+create trigger audit_dietary_forms
+  after insert or update or delete on public.dietary_forms
+  for each row execute function public.record_audit('visitor_id', 'event_id');
+
+-- Meals the kitchen needs for each event: everyone holding a place, the
+-- visitors who haven't answered yet, then a line per diet and allergen with
+-- who it's for. Categories are named so they sort in that order, descending.
+create or replace view public.report_meal_counts
+with (security_invoker = true) as
+with attending as (
+  select
+    ev.event_id,
+    v.first_name || ' ' || v.last_name as visitor_name,
+    f.visitor_id is not null as answered,
+    coalesce(f.restrictions, '{}') as restrictions,
+    coalesce(f.allergens, '{}') as allergens
+  from public.event_visitors ev
+  join public.visitors v on v.id = ev.visitor_id
+  left join public.dietary_forms f on f.event_id = ev.event_id and f.visitor_id = ev.visitor_id
+  where ev.rsvp_status in ('invited', 'accepted', 'confirmed')
+    and v.deleted_at is null
+),
+requirements as (
+  select event_id, visitor_name, 'Total' as category, 'All meals' as requirement
+  from attending
+  union all
+  select event_id, visitor_name, 'Diet', initcap(replace(r, '_', ' '))
+  from attending, unnest(restrictions) r
+  union all
+  select event_id, visitor_name, 'Diet', 'No restrictions'
+  from attending
+  where answered and cardinality(restrictions) = 0
+  union all
+  select event_id, visitor_name, 'Allergy', initcap(replace(a, '_', ' '))
+  from attending, unnest(allergens) a
+  union all
+  select event_id, visitor_name, 'Not answered', 'Form not completed'
+  from attending
+  where not answered
+)
+select
+  r.event_id,
+  e.name as event_name,
+  e.start_date as event_date,
+  e.sponsor_company_id as organization_id,
+  r.category,
+  r.requirement,
+  count(*) as visitors,
+  string_agg(r.visitor_name, ', ' order by r.visitor_name) as visitor_names
+from requirements r
+join public.events e on e.id = r.event_id
+where e.deleted_at is null
+group by r.event_id, e.id, r.category, r.requirement;
+
+grant select on public.report_meal_counts to authenticated;
@@ -0,0 +1,152 @@
+-- Custom questionnaires built by administrators, such as arrival airport,
+-- t-shirt size or activity interests. A form's fields are kept as a JSON
+-- array in the order they're asked (see lib/forms.ts for their shape);
+-- forms are assigned to events like documents, optionally as required
+-- items, and each visitor answers once per event. Uploaded files go to the
+-- private form-uploads bucket under the visitor's id.
+
+create table if not exists public.forms (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (trim(name) <> ''),
+  description text,
+  fields jsonb not null default '[]' check (jsonb_typeof(fields) = 'array'),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.form_events (
+  form_id uuid not null references public.forms(id) on delete cascade,
+  event_id uuid not null references public.events(id) on delete cascade,
+  required boolean not null default true,
+  created_at timestamptz not null default now(),
+  primary key (form_id, event_id)
+);
+
+create table if not exists public.form_responses (
+  id uuid primary key default gen_random_uuid(),
+  form_id uuid not null references public.forms(id) on delete cascade,
+  event_id uuid not null,
+  visitor_id uuid not null,
+  answers jsonb not null default '{}' check (jsonb_typeof(answers) = 'object'),
+  submitted_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (form_id, event_id, visitor_id),
+  foreign key (visitor_id, event_id) references public.event_visitors(visitor_id, event_id)
+    on update cascade on delete cascade
+);
+
+create index if not exists form_events_event_id_idx on public.form_events (event_id);
+create index if not exists form_responses_event_visitor_idx on public.form_responses (event_id, visitor_id);
+
+alter table public.forms enable row level security;
+alter table public.form_events enable row level security;
+alter table public.form_responses enable row level security;
+
+create policy "Admins manage forms"
+  on public.forms
+  for all
+  to authenticated
+  using (public.is_staff('admin'))
+  with check (public.is_staff('admin'));
+
+create policy "Visitors read forms for own events"
+  on public.forms
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.form_events fe
+      join public.event_visitors ev on ev.event_id = fe.event_id
+      join public.visitors v on v.id = ev.visitor_id
+      where fe.form_id = forms.id and v.profile_id = auth.uid()
+    )
+  );
+
+create policy "Admins manage form assignments"
+  on public.form_events
+  for all
+  to authenticated
+  using (public.is_staff('admin'))
+  with check (public.is_staff('admin'));
+
+create policy "Visitors read own event form assignments"
+  on public.form_events
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.event_visitors ev
+      join public.visitors v on v.id = ev.visitor_id
+      where ev.event_id = form_events.event_id and v.profile_id = auth.uid()
+    )
+  );
+
+create policy "Admins read form responses"
+  on public.form_responses
+  for select
+  to authenticated
+  using (public.is_staff('admin'));
+
+-- Visitors answer only forms assigned to the event they're answering for
+create policy "Visitors manage own form responses"
+  on public.form_responses
+  for all
+  to authenticated
+  using (
+    exists (
+      select 1 from public.visitors v
+      where v.id = visitor_id and v.profile_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.visitors v
+      where v.id = visitor_id and v.profile_id = auth.uid()
+    )
+    and exists (
+      select 1 from public.form_events fe
+      where fe.form_id = form_responses.form_id and fe.event_id = form_responses.event_id
+    )
+  );
+
+insert into storage.buckets (id, name, public)
+values ('form-uploads', 'form-uploads', false)
+on conflict (id) do nothing;
+
+-- Files are stored as <visitor id>/<form id>/<file>
+create policy "Visitors manage own form uploads"
+  on storage.objects
+  for all
+  to authenticated
+  using (
+    bucket_id = 'form-uploads'
+    and exists (
+      select 1 from public.visitors v
+      where v.id::text = (storage.foldername(name))[1] and v.profile_id = auth.uid()
+    )
+  )
+  with check (
+    bucket_id = 'form-uploads'
+    and exists (
+      select 1 from public.visitors v
+      where v.id::text = (storage.foldername(name))[1] and v.profile_id = auth.uid()
+    )
+  );
+
+create policy "Admins read form uploads"
+  on storage.objects
+  for select
+  to authenticated
+  using (bucket_id = 'form-uploads' and public.is_staff('admin'));
+
+drop trigger if exists audit_forms on public.forms;
+create trigger audit_forms
+  after insert or update or delete on public.forms
+  for each row execute function public.record_audit();
+
+drop trigger if exists audit_form_events on public.form_events;
+create trigger audit_form_events
+  after insert or update or delete on public.form_events
+  for each row execute function public.record_audit('form_id', 'event_id');
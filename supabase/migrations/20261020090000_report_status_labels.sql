@@ -0,0 +1,30 @@
+-- The Visitors by Event report shows each visitor's RSVP status as its
+-- label ("Confirmed") rather than the stored value, so searching and
+-- sorting work on what the report displays. The labels match
+-- RSVP_STATUS_LABELS in lib/rsvp.ts.
+
+create or replace view public.report_visitors_by_event
+with (security_invoker = true) as
+select
+  ev.event_id,
+  e.name as event_name,
+  e.start_date as event_date,
+  coalesce(v.company_id, e.sponsor_company_id) as organization_id,
+  coalesce(vc.name, ec.name) as organization,
+  ev.visitor_id,
+  v.first_name || ' ' || v.last_name as visitor_name,
+  v.email,
+  case ev.rsvp_status
+    when 'invited' then 'Invited'
+    when 'accepted' then 'Accepted'
+    when 'confirmed' then 'Confirmed'
+    when 'declined' then 'Declined'
+    when 'waitlisted' then 'Waitlisted'
+    when 'cancelled' then 'Cancelled'
+    else ev.rsvp_status
+  end as status
+from public.event_visitors ev
+join public.events e on e.id = ev.event_id
+join public.visitors v on v.id = ev.visitor_id
+left join public.companies vc on vc.id = v.company_id
+left join public.companies ec on ec.id = e.sponsor_company_id;
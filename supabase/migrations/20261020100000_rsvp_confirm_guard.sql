@@ -0,0 +1,73 @@
+-- The move to confirmed is a "system" transition made in the visitor's own
+-- session once every required document is confirmed and every required
+-- form answered. Until now the trigger let a visitor make it at any time,
+-- so check the requirements in the database too. Administrators and the
+-- service role may still confirm anyone.
+
+-- Whether the visitor has confirmed every document the event requires
+create or replace function public.event_documents_complete(p_event_id uuid, p_visitor_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((
+    select s.documents_complete
+    from public.event_visitor_document_status s
+    where s.event_id = p_event_id and s.visitor_id = p_visitor_id
+  ), false);
+$$;
+
+-- Whether the visitor has answered every form the event requires
+create or replace function public.event_forms_complete(p_event_id uuid, p_visitor_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select not exists (
+    select 1
+    from public.form_events fe
+    where fe.event_id = p_event_id
+      and fe.required
+      and not exists (
+        select 1 from public.form_responses fr
+        where fr.form_id = fe.form_id
+          and fr.event_id = p_event_id
+          and fr.visitor_id = p_visitor_id
+      )
+  );
+$$;
+
+create or replace function public.require_rsvp_requirements()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if public.rsvp_transition_actor(old.rsvp_status, new.rsvp_status) is distinct from 'system'
+    or public.can_manage_rsvps() then
+    return new;
+  end if;
+
+  if not public.event_documents_complete(new.event_id, new.visitor_id) then
+    raise exception 'Every required document must be confirmed before the RSVP is confirmed'
+      using errcode = 'check_violation';
+  end if;
+
+  if not public.event_forms_complete(new.event_id, new.visitor_id) then
+    raise exception 'Every required form must be answered before the RSVP is confirmed'
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists require_rsvp_requirements on public.event_visitors;
+create trigger require_rsvp_requirements
+  before update of rsvp_status on public.event_visitors
+  for each row execute function public.require_rsvp_requirements();
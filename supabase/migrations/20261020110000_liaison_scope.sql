@@ -0,0 +1,234 @@
+-- Tightens what staff roles can change (see the staff_roles migration).
+--
+-- Confirmations are the visitor's own record of reading a document, so
+-- coordinators and liaisons may read and revoke them but no longer create
+-- or edit them on a visitor's behalf. The one exception is the trash:
+-- trashing a visitor moves their confirmations into trashed_rows and
+-- restoring puts them back, both with the caller's permissions. Those
+-- moves now set app.moving_trash, and the policies below only allow
+-- confirmations and trashed rows to be written while it's on. Clients
+-- can't set it: PostgREST doesn't expose set_config.
+
+-- Whether trash_records or restore_records is moving rows
+create or replace function public.moving_trash()
+returns boolean
+language sql
+stable
+as $$
+  select coalesce(current_setting('app.moving_trash', true) = 'on', false);
+$$;
+
+-- Tables whose rows go into trashed_rows with a trashed visitor or event,
+-- in the order they're put back: assignments first, as rows after them may
+-- belong to one. Migrations adding a table redefine this.
+create or replace function public.trash_dependents(p_owner_table text)
+returns text[]
+language sql
+immutable
+as $$
+  select case p_owner_table
+    when 'visitors' then array['event_visitors', 'visitor_confirmations']
+    when 'events' then array['event_visitors', 'visitor_confirmations', 'document_events']
+  end;
+$$;
+
+-- As before, with app.moving_trash on while rows move, and the tables
+-- moved coming from trash_dependents
+create or replace function public.trash_records(p_table text, p_ids uuid[])
+returns integer
+language plpgsql
+set search_path = public
+as $$
+declare
+  trashed_ids uuid[];
+  owner_key text;
+  dependents text[];
+begin
+  if p_table not in ('visitors', 'events', 'companies') then
+    raise exception 'Cannot trash records from %', p_table
+      using errcode = 'invalid_parameter_value';
+  end if;
+
+  execute format(
+    'with trashed as (
+       update public.%I set deleted_at = now(), deleted_by = auth.uid()
+       where id = any($1) and deleted_at is null
+       returning id
+     )
+     select coalesce(array_agg(id), ''{}'') from trashed',
+    p_table
+  ) into trashed_ids using p_ids;
+
+  if p_table in ('visitors', 'events') and cardinality(trashed_ids) > 0 then
+    owner_key := case p_table when 'visitors' then 'visitor_id' else 'event_id' end;
+    dependents := public.trash_dependents(p_table);
+
+    perform set_config('app.moving_trash', 'on', true);
+
+    -- The reverse of restore, so assignments go last
+    for i in reverse cardinality(dependents)..1 loop
+      perform public.stash_rows(p_table, dependents[i], owner_key, trashed_ids);
+    end loop;
+
+    perform set_config('app.moving_trash', 'off', true);
+
+    -- Gate passes are reissued on demand and queued emails would be stale
+    execute format('delete from public.visitor_credentials where %I = any($1)', owner_key) using trashed_ids;
+    execute format('delete from public.notifications where status = ''pending'' and %I = any($1)', owner_key) using trashed_ids;
+  end if;
+
+  return cardinality(trashed_ids);
+end;
+$$;
+
+-- As before, with app.moving_trash on while rows move, and the tables
+-- moved coming from trash_dependents
+create or replace function public.restore_records(p_table text, p_ids uuid[])
+returns integer
+language plpgsql
+set search_path = public
+as $$
+declare
+  restored_ids uuid[];
+  dependent text;
+begin
+  if p_table not in ('visitors', 'events', 'companies') then
+    raise exception 'Cannot restore records to %', p_table
+      using errcode = 'invalid_parameter_value';
+  end if;
+
+  execute format(
+    'with restored as (
+       update public.%I set deleted_at = null, deleted_by = null
+       where id = any($1) and deleted_at is not null
+       returning id
+     )
+     select coalesce(array_agg(id), ''{}'') from restored',
+    p_table
+  ) into restored_ids using p_ids;
+
+  if p_table in ('visitors', 'events') and cardinality(restored_ids) > 0 then
+    -- Assignments go back in their original order. A restored waitlist
+    -- entry joins the back of the queue, and the capacity trigger
+    -- waitlists anyone whose place was given away in the meantime.
+    perform set_config('app.moving_trash', 'on', true);
+
+    foreach dependent in array public.trash_dependents(p_table) loop
+      execute format(
+        'with restored as (
+           delete from public.trashed_rows r
+           where r.owner_table = $1 and r.owner_id = any($2) and r.table_name = %1$L
+             and public.trashed_row_parents_live(r.row_data)
+           returning r.id, r.row_data
+         )
+         insert into public.%1$I
+         select (jsonb_populate_record(null::public.%1$I, restored.row_data - ''waitlist_position'')).*
+         from restored
+         order by restored.id',
+        dependent
+      ) using p_table, restored_ids;
+    end loop;
+
+    -- Rows whose other parent is still in the trash now wait on that one
+    update public.trashed_rows r
+    set owner_table = case p_table when 'visitors' then 'events' else 'visitors' end,
+        owner_id = (r.row_data ->> case p_table when 'visitors' then 'event_id' else 'visitor_id' end)::uuid
+    where r.owner_table = p_table and r.owner_id = any(restored_ids);
+
+    perform set_config('app.moving_trash', 'off', true);
+  end if;
+
+  return cardinality(restored_ids);
+end;
+$$;
+
+drop policy if exists "Coordinators and liaisons manage document confirmations" on public.visitor_confirmations;
+
+create policy "Coordinators and liaisons revoke document confirmations"
+  on public.visitor_confirmations
+  for delete
+  to authenticated
+  using (public.is_staff('coordinator') or public.is_liaison_visitor(visitor_id));
+
+create policy "Coordinators and liaisons restore document confirmations"
+  on public.visitor_confirmations
+  for insert
+  to authenticated
+  with check (
+    public.moving_trash()
+    and (public.is_staff('coordinator') or public.is_liaison_visitor(visitor_id))
+  );
+
+-- Otherwise a made-up confirmation could be written to the trash and
+-- then restored
+drop policy if exists "Coordinators and liaisons manage trashed rows" on public.trashed_rows;
+
+create policy "Coordinators and liaisons read trashed rows"
+  on public.trashed_rows
+  for select
+  to authenticated
+  using (
+    public.is_staff('coordinator')
+    or (owner_table = 'visitors' and public.is_liaison_visitor(owner_id))
+  );
+
+create policy "Coordinators and liaisons remove trashed rows"
+  on public.trashed_rows
+  for delete
+  to authenticated
+  using (
+    public.is_staff('coordinator')
+    or (owner_table = 'visitors' and public.is_liaison_visitor(owner_id))
+  );
+
+create policy "Coordinators and liaisons move trashed rows"
+  on public.trashed_rows
+  for all
+  to authenticated
+  using (
+    public.moving_trash()
+    and (
+      public.is_staff('coordinator')
+      or (owner_table = 'visitors' and public.is_liaison_visitor(owner_id))
+    )
+  )
+  with check (
+    public.moving_trash()
+    and (
+      public.is_staff('coordinator')
+      or (owner_table = 'visitors' and public.is_liaison_visitor(owner_id))
+    )
+  );
+
+-- profiles.company_id decides which organization's visitors a liaison
+-- manages, so only administrators and the service role may set it. Users
+-- can still update the rest of their own profile.
+create or replace function public.protect_profile_company()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    if new.company_id is null then
+      return new;
+    end if;
+  elsif new.company_id is not distinct from old.company_id then
+    return new;
+  end if;
+
+  -- auth.uid() is null for the service role
+  if auth.uid() is not null and not public.is_staff('admin') then
+    raise exception 'Only an administrator can change a profile''s organization'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists protect_profile_company on public.profiles;
+create trigger protect_profile_company
+  before insert or update of company_id on public.profiles
+  for each row execute function public.protect_profile_company();
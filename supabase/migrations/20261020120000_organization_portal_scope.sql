@@ -0,0 +1,60 @@
+-- Tightens the organization portal (see the organization_portal migration).
+--
+-- Portal access followed the email claim in the session, so anyone who
+-- signed up with a contact's address got the portal before proving they
+-- own it. Only a confirmed email now counts.
+create or replace function public.contact_company_id()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select c.id
+  from public.companies c
+  join auth.users u on u.id = auth.uid()
+  where c.deleted_at is null
+    and c.main_contact_email is not null
+    and u.email_confirmed_at is not null
+    and lower(c.main_contact_email) = lower(u.email)
+  order by c.name
+  limit 1;
+$$;
+
+-- Contacts follow their visitors' confirmations but can't make them. As
+-- for staff, confirmations and trashed rows are only written while the
+-- trash functions move them (see the liaison_scope migration).
+drop policy if exists "Organization contacts manage own document confirmations" on public.visitor_confirmations;
+
+create policy "Organization contacts read own document confirmations"
+  on public.visitor_confirmations
+  for select
+  to authenticated
+  using (public.is_contact_visitor(visitor_id));
+
+create policy "Organization contacts trash own document confirmations"
+  on public.visitor_confirmations
+  for delete
+  to authenticated
+  using (public.moving_trash() and public.is_contact_visitor(visitor_id));
+
+create policy "Organization contacts restore own document confirmations"
+  on public.visitor_confirmations
+  for insert
+  to authenticated
+  with check (public.moving_trash() and public.is_contact_visitor(visitor_id));
+
+drop policy if exists "Organization contacts manage own trashed rows" on public.trashed_rows;
+
+create policy "Organization contacts read own trashed rows"
+  on public.trashed_rows
+  for select
+  to authenticated
+  using (owner_table = 'visitors' and public.is_contact_visitor(owner_id));
+
+create policy "Organization contacts move own trashed rows"
+  on public.trashed_rows
+  for all
+  to authenticated
+  using (public.moving_trash() and owner_table = 'visitors' and public.is_contact_visitor(owner_id))
+  with check (public.moving_trash() and owner_table = 'visitors' and public.is_contact_visitor(owner_id));
@@ -0,0 +1,104 @@
+-- Merging visitors now moves the duplicate to the trash instead of
+-- deleting it, along with the assignments and confirmations the visitor
+-- kept already had. Restoring it brings back a separate visitor with those
+-- rows; what moved to the visitor kept stays there.
+
+-- The columns that tell a visitor's rows apart in each table that moves
+-- with them, so a merge doesn't give the visitor kept two of the same.
+-- Migrations adding a table to trash_dependents redefine this.
+create or replace function public.visitor_row_key(p_table text)
+returns text[]
+language sql
+immutable
+as $$
+  select case p_table
+    when 'visitor_confirmations' then array['event_id', 'document_id']
+    else array['event_id']
+  end;
+$$;
+
+create or replace function public.merge_visitors(p_keep_id uuid, p_merge_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  keep_row public.visitors;
+  merge_row public.visitors;
+  dependents text[] := public.trash_dependents('visitors');
+  dependent text;
+  key_match text;
+begin
+  if not public.is_staff('admin', 'coordinator') then
+    raise exception 'Only an administrator or coordinator can merge visitors'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  if p_keep_id = p_merge_id then
+    raise exception 'Cannot merge a visitor into itself'
+      using errcode = 'invalid_parameter_value';
+  end if;
+
+  select * into keep_row from public.visitors
+  where id = p_keep_id and deleted_at is null
+  for update;
+  select * into merge_row from public.visitors
+  where id = p_merge_id and deleted_at is null
+  for update;
+
+  if keep_row.id is null or merge_row.id is null then
+    raise exception 'Both visitors must exist and not be in the trash'
+      using errcode = 'no_data_found';
+  end if;
+
+  if keep_row.profile_id is not null and merge_row.profile_id is not null
+    and keep_row.profile_id <> merge_row.profile_id then
+    raise exception 'Both visitors are linked to different accounts'
+      using errcode = 'unique_violation';
+  end if;
+
+  -- Rows the visitor kept doesn't have move over. The rest stay with the
+  -- duplicate and go to the trash with it below.
+  foreach dependent in array dependents loop
+    select string_agg(format('k.%1$I = m.%1$I', key_column), ' and ')
+    into key_match
+    from unnest(public.visitor_row_key(dependent)) as key_column;
+
+    execute format(
+      'update public.%1$I m set visitor_id = $1
+       where m.visitor_id = $2
+         and not exists (select 1 from public.%1$I k where k.visitor_id = $1 and %2$s)',
+      dependent, key_match
+    ) using p_keep_id, p_merge_id;
+  end loop;
+
+  update public.rsvp_history set visitor_id = p_keep_id where visitor_id = p_merge_id;
+  update public.notifications set visitor_id = p_keep_id where visitor_id = p_merge_id;
+
+  -- Gate passes name the visitor, so they are reissued on demand
+  delete from public.visitor_credentials where visitor_id in (p_keep_id, p_merge_id);
+
+  -- Free the login link before handing it over
+  update public.visitors set profile_id = null where id = p_merge_id;
+  update public.visitors set
+    profile_id = coalesce(keep_row.profile_id, merge_row.profile_id),
+    email = coalesce(keep_row.email, merge_row.email),
+    phone = coalesce(keep_row.phone, merge_row.phone),
+    company_id = coalesce(keep_row.company_id, merge_row.company_id)
+  where id = p_keep_id;
+
+  -- Into the trash as if trashed, so a wrong merge can be undone by
+  -- restoring the duplicate. A duplicate assignment gives up its place,
+  -- which may promote the waitlist.
+  update public.visitors set deleted_at = now(), deleted_by = auth.uid() where id = p_merge_id;
+  for i in reverse cardinality(dependents)..1 loop
+    perform public.stash_rows('visitors', dependents[i], 'visitor_id', array[p_merge_id]);
+  end loop;
+
+  return p_keep_id;
+end;
+$$;
+
+revoke execute on function public.merge_visitors(uuid, uuid) from public, anon;
+grant execute on function public.merge_visitors(uuid, uuid) to authenticated;
@@ -0,0 +1,28 @@
+-- The visitors table searched a vector built for every row on each query.
+-- Store it on visitors instead, kept up to date by Postgres, with a GIN
+-- index so searches use it. A generated column can only see the visitor's
+-- own row, so the organization name is no longer part of the visitor
+-- search; the organization column still sorts.
+
+alter table public.visitors
+  add column if not exists search_vector tsvector
+  generated always as (public.search_vector(first_name, last_name, email, phone)) stored;
+
+create index if not exists visitors_search_vector_idx on public.visitors using gin (search_vector);
+
+create or replace view public.admin_visitor_list
+with (security_invoker = true) as
+select
+  v.id,
+  v.first_name,
+  v.last_name,
+  v.email,
+  v.phone,
+  v.company_id,
+  v.profile_id,
+  c.name as company_name,
+  (select count(*) from public.event_visitors ev where ev.visitor_id = v.id)::integer as event_count,
+  v.search_vector as search
+from public.visitors v
+left join public.companies c on c.id = v.company_id
+where v.deleted_at is null;
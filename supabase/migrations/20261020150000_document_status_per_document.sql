@@ -0,0 +1,43 @@
+-- visitor_document_versions has a row per confirmation, so a visitor who
+-- confirmed two versions of a document counted it twice: as required twice
+-- and as both confirmed and outdated, which left their documents
+-- incomplete. Reduce to one row per document before counting.
+
+create or replace view public.event_visitor_document_status
+with (security_invoker = true) as
+select
+  ev.event_id,
+  e.name as event_name,
+  e.start_date as event_start_date,
+  coalesce(ec.name, vc.name) as organization_name,
+  ev.visitor_id,
+  v.first_name,
+  v.last_name,
+  ev.rsvp_status,
+  coalesce(s.required_docs, 0) as required_docs,
+  coalesce(s.confirmed_docs, 0) as confirmed_docs,
+  coalesce(s.outdated_docs, 0) as outdated_docs,
+  coalesce(s.confirmed_docs = s.required_docs, true) as documents_complete
+from public.event_visitors ev
+join public.events e on e.id = ev.event_id
+join public.visitors v on v.id = ev.visitor_id
+left join public.companies ec on ec.id = e.sponsor_company_id
+left join public.companies vc on vc.id = v.company_id
+left join lateral (
+  select
+    count(*)::integer as required_docs,
+    count(*) filter (where d.confirmed)::integer as confirmed_docs,
+    count(*) filter (where not d.confirmed and d.any_confirmed)::integer as outdated_docs
+  from (
+    select
+      coalesce(bool_or(vdv.confirmed_version_id = vdv.current_version_id), false) as confirmed,
+      bool_or(vdv.confirmed_version_id is not null) as any_confirmed
+    from public.visitor_document_versions vdv
+    where vdv.visitor_id = ev.visitor_id
+      and vdv.event_id = ev.event_id
+      and vdv.requires_confirmation
+    group by vdv.document_id
+  ) d
+) s on true
+where e.deleted_at is null
+  and v.deleted_at is null;
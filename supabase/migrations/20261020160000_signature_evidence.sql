@@ -0,0 +1,80 @@
+-- Signature evidence on document confirmations can only come from the
+-- server. The confirmation route writes confirmations with the service
+-- role, taking the IP address and user agent from the request, so a visitor
+-- can't post a confirmation with a made-up signature, consent text or
+-- address of their own.
+
+-- Only the service role may set the evidence columns, and restores from
+-- the trash may put back what was there
+create or replace function public.protect_signature_evidence()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- auth.uid() is null for the service role
+  if auth.uid() is null or public.moving_trash() then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if new.signature_method is null
+      and new.signer_name is null
+      and new.signature_path is null
+      and new.consent_text is null
+      and new.ip_address is null
+      and new.user_agent is null then
+      return new;
+    end if;
+  elsif new.signature_method is not distinct from old.signature_method
+    and new.signer_name is not distinct from old.signer_name
+    and new.signature_path is not distinct from old.signature_path
+    and new.consent_text is not distinct from old.consent_text
+    and new.ip_address is not distinct from old.ip_address
+    and new.user_agent is not distinct from old.user_agent then
+    return new;
+  end if;
+
+  raise exception 'Signatures can only be recorded through the confirmation route'
+    using errcode = 'insufficient_privilege';
+end;
+$$;
+
+drop trigger if exists visitor_confirmations_protect_signature on public.visitor_confirmations;
+create trigger visitor_confirmations_protect_signature
+  before insert or update on public.visitor_confirmations
+  for each row execute function public.protect_signature_evidence();
+
+-- Every new confirmation of a document whose type requires a signature
+-- has to be signed, whoever records it. Restores from the trash put back
+-- confirmations as they were.
+create or replace function public.require_document_signature()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if public.moving_trash() then
+    return new;
+  end if;
+
+  if exists (
+    select 1
+    from public.documents d
+    join public.document_types dt on dt.id = d.document_type_id
+    where d.id = new.document_id and dt.requires_signature
+  ) and (
+    new.signature_method is null
+    or nullif(trim(new.signer_name), '') is null
+    or new.signature_path is null
+    or new.consent_text is null
+  ) then
+    raise exception 'This document must be signed'
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$;
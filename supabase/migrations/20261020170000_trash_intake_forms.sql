@@ -0,0 +1,158 @@
+-- Dietary and medical forms belonged to the event assignment and cascaded
+-- from event_visitors, so trashing or merging a visitor, or removing them
+-- from an event, deleted their answers for good. They now belong to the
+-- visitor and event, like confirmations: removing an assignment leaves the
+-- answers for if the visitor is added back, trashing a visitor or event
+-- moves them into trashed_rows and restoring puts them back, and merging
+-- moves them to the visitor kept.
+--
+-- Liaisons and organization contacts can trash their visitors but can't
+-- read medical forms, so they don't see those rows in the trash either.
+
+alter table public.dietary_forms
+  drop constraint if exists dietary_forms_visitor_id_event_id_fkey,
+  add constraint dietary_forms_visitor_id_fkey
+    foreign key (visitor_id) references public.visitors(id) on delete cascade,
+  add constraint dietary_forms_event_id_fkey
+    foreign key (event_id) references public.events(id) on delete cascade;
+
+alter table public.medical_forms
+  drop constraint if exists medical_forms_visitor_id_event_id_fkey,
+  add constraint medical_forms_visitor_id_fkey
+    foreign key (visitor_id) references public.visitors(id) on delete cascade,
+  add constraint medical_forms_event_id_fkey
+    foreign key (event_id) references public.events(id) on delete cascade;
+
+-- The foreign key used to hold visitors to the events they're assigned to
+drop policy if exists "Visitors manage own dietary forms" on public.dietary_forms;
+
+create policy "Visitors manage own dietary forms"
+  on public.dietary_forms
+  for all
+  to authenticated
+  using (
+    exists (
+      select 1 from public.visitors v
+      where v.id = visitor_id and v.profile_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.visitors v
+      join public.event_visitors ev on ev.visitor_id = v.id
+      where v.id = dietary_forms.visitor_id
+        and ev.event_id = dietary_forms.event_id
+        and v.profile_id = auth.uid()
+    )
+  );
+
+drop policy if exists "Visitors manage own medical forms" on public.medical_forms;
+
+create policy "Visitors manage own medical forms"
+  on public.medical_forms
+  for all
+  to authenticated
+  using (
+    exists (
+      select 1 from public.visitors v
+      where v.id = visitor_id and v.profile_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.visitors v
+      join public.event_visitors ev on ev.visitor_id = v.id
+      where v.id = medical_forms.visitor_id
+        and ev.event_id = medical_forms.event_id
+        and v.profile_id = auth.uid()
+    )
+  );
+
+-- Whoever can trash a visitor or event moves its forms with it
+create policy "Staff move dietary forms through the trash"
+  on public.dietary_forms
+  for all
+  to authenticated
+  using (
+    public.moving_trash()
+    and (
+      public.is_staff('admin', 'coordinator')
+      or public.is_liaison_visitor(visitor_id)
+      or public.is_contact_visitor(visitor_id)
+    )
+  )
+  with check (
+    public.moving_trash()
+    and (
+      public.is_staff('admin', 'coordinator')
+      or public.is_liaison_visitor(visitor_id)
+      or public.is_contact_visitor(visitor_id)
+    )
+  );
+
+create policy "Staff move medical forms through the trash"
+  on public.medical_forms
+  for all
+  to authenticated
+  using (
+    public.moving_trash()
+    and (
+      public.is_staff('admin', 'coordinator')
+      or public.is_liaison_visitor(visitor_id)
+      or public.is_contact_visitor(visitor_id)
+    )
+  )
+  with check (
+    public.moving_trash()
+    and (
+      public.is_staff('admin', 'coordinator')
+      or public.is_liaison_visitor(visitor_id)
+      or public.is_contact_visitor(visitor_id)
+    )
+  );
+
+alter table public.trashed_rows
+  drop constraint if exists trashed_rows_table_name_check,
+  add constraint trashed_rows_table_name_check check (
+    table_name in ('event_visitors', 'visitor_confirmations', 'document_events', 'dietary_forms', 'medical_forms')
+  );
+
+drop policy if exists "Coordinators and liaisons read trashed rows" on public.trashed_rows;
+
+create policy "Coordinators and liaisons read trashed rows"
+  on public.trashed_rows
+  for select
+  to authenticated
+  using (
+    public.is_staff('coordinator')
+    or (
+      owner_table = 'visitors'
+      and table_name <> 'medical_forms'
+      and public.is_liaison_visitor(owner_id)
+    )
+  );
+
+drop policy if exists "Organization contacts read own trashed rows" on public.trashed_rows;
+
+create policy "Organization contacts read own trashed rows"
+  on public.trashed_rows
+  for select
+  to authenticated
+  using (
+    owner_table = 'visitors'
+    and table_name <> 'medical_forms'
+    and public.is_contact_visitor(owner_id)
+  );
+
+-- As before, with dietary and medical forms, which trash_records,
+-- restore_records and merge_visitors now move along with the rest
+create or replace function public.trash_dependents(p_owner_table text)
+returns text[]
+language sql
+immutable
+as $$
+  select case p_owner_table
+    when 'visitors' then array['event_visitors', 'dietary_forms', 'medical_forms', 'visitor_confirmations']
+    when 'events' then array['event_visitors', 'dietary_forms', 'medical_forms', 'visitor_confirmations', 'document_events']
+  end;
+$$;
@@ -0,0 +1,123 @@
+-- Custom form responses cascaded from event_visitors too, so trashing or
+-- merging a visitor, or removing them from an event, deleted their answers.
+-- As with dietary and medical forms (see the trash_intake_forms
+-- migration), they now belong to the visitor and event and move through
+-- the trash and merges. Only administrators read responses, so nobody else
+-- sees them in the trash.
+
+alter table public.form_responses
+  drop constraint if exists form_responses_visitor_id_event_id_fkey,
+  add constraint form_responses_visitor_id_fkey
+    foreign key (visitor_id) references public.visitors(id) on delete cascade,
+  add constraint form_responses_event_id_fkey
+    foreign key (event_id) references public.events(id) on delete cascade;
+
+-- The foreign key used to hold visitors to the events they're assigned to
+drop policy if exists "Visitors manage own form responses" on public.form_responses;
+
+create policy "Visitors manage own form responses"
+  on public.form_responses
+  for all
+  to authenticated
+  using (
+    exists (
+      select 1 from public.visitors v
+      where v.id = visitor_id and v.profile_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.visitors v
+      join public.event_visitors ev on ev.visitor_id = v.id
+      where v.id = form_responses.visitor_id
+        and ev.event_id = form_responses.event_id
+        and v.profile_id = auth.uid()
+    )
+    and exists (
+      select 1 from public.form_events fe
+      where fe.form_id = form_responses.form_id and fe.event_id = form_responses.event_id
+    )
+  );
+
+-- Whoever can trash a visitor or event moves its responses with it
+create policy "Staff move form responses through the trash"
+  on public.form_responses
+  for all
+  to authenticated
+  using (
+    public.moving_trash()
+    and (
+      public.is_staff('admin', 'coordinator')
+      or public.is_liaison_visitor(visitor_id)
+      or public.is_contact_visitor(visitor_id)
+    )
+  )
+  with check (
+    public.moving_trash()
+    and (
+      public.is_staff('admin', 'coordinator')
+      or public.is_liaison_visitor(visitor_id)
+      or public.is_contact_visitor(visitor_id)
+    )
+  );
+
+alter table public.trashed_rows
+  drop constraint if exists trashed_rows_table_name_check,
+  add constraint trashed_rows_table_name_check check (
+    table_name in (
+      'event_visitors', 'visitor_confirmations', 'document_events', 'dietary_forms', 'medical_forms',
+      'form_responses'
+    )
+  );
+
+drop policy if exists "Coordinators and liaisons read trashed rows" on public.trashed_rows;
+
+create policy "Coordinators and liaisons read trashed rows"
+  on public.trashed_rows
+  for select
+  to authenticated
+  using (
+    (public.is_staff('coordinator') and table_name <> 'form_responses')
+    or (
+      owner_table = 'visitors'
+      and table_name not in ('medical_forms', 'form_responses')
+      and public.is_liaison_visitor(owner_id)
+    )
+  );
+
+drop policy if exists "Organization contacts read own trashed rows" on public.trashed_rows;
+
+create policy "Organization contacts read own trashed rows"
+  on public.trashed_rows
+  for select
+  to authenticated
+  using (
+    owner_table = 'visitors'
+    and table_name not in ('medical_forms', 'form_responses')
+    and public.is_contact_visitor(owner_id)
+  );
+
+-- As before, with form responses
+create or replace function public.trash_dependents(p_owner_table text)
+returns text[]
+language sql
+immutable
+as $$
+  select case p_owner_table
+    when 'visitors' then array['event_visitors', 'dietary_forms', 'medical_forms', 'form_responses', 'visitor_confirmations']
+    when 'events' then array['event_visitors', 'dietary_forms', 'medical_forms', 'form_responses', 'visitor_confirmations', 'document_events']
+  end;
+$$;
+
+-- As before, with a visitor answering each form once per event
+create or replace function public.visitor_row_key(p_table text)
+returns text[]
+language sql
+immutable
+as $$
+  select case p_table
+    when 'visitor_confirmations' then array['event_id', 'document_id']
+    when 'form_responses' then array['form_id', 'event_id']
+    else array['event_id']
+  end;
+$$;
@@ -0,0 +1,10 @@
+-- The capacity functions are security definer so the triggers can count
+-- places and promote the waitlist whoever changes an assignment. Called
+-- directly they'd let anyone count any event or promote its waitlist, so
+-- only the triggers and the service role run them.
+
+revoke execute on function public.event_places_taken(uuid) from public, anon, authenticated;
+
+revoke execute on function public.next_waitlist_position(uuid) from public, anon, authenticated;
+
+revoke execute on function public.promote_from_waitlist(uuid) from public, anon, authenticated;
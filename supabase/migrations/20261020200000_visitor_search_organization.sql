@@ -0,0 +1,74 @@
+-- The visitor search lost the organization name when the vector moved onto
+-- visitors as a generated column, which can only see the visitor's own row.
+-- Triggers keep it up to date instead: on the visitor when their details or
+-- organization change, and on an organization's visitors when it's renamed.
+-- The GIN index on the column stays as it is.
+
+alter table public.visitors alter column search_vector drop expression;
+
+create or replace function public.set_visitor_search_vector()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.search_vector := public.search_vector(
+    new.first_name,
+    new.last_name,
+    new.email,
+    new.phone,
+    (select c.name from public.companies c where c.id = new.company_id)
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists visitors_search_vector on public.visitors;
+create trigger visitors_search_vector
+  before insert or update of first_name, last_name, email, phone, company_id on public.visitors
+  for each row execute function public.set_visitor_search_vector();
+
+create or replace function public.refresh_company_visitor_search()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.visitors v
+  set search_vector = public.search_vector(v.first_name, v.last_name, v.email, v.phone, new.name)
+  where v.company_id = new.id;
+  return null;
+end;
+$$;
+
+drop trigger if exists companies_refresh_visitor_search on public.companies;
+create trigger companies_refresh_visitor_search
+  after update of name on public.companies
+  for each row
+  when (old.name is distinct from new.name)
+  execute function public.refresh_company_visitor_search();
+
+-- A renamed organization shouldn't fill the audit log with its visitors,
+-- so updates that only touch the search vector aren't recorded
+drop trigger if exists audit_visitors on public.visitors;
+create trigger audit_visitors
+  after insert or delete on public.visitors
+  for each row execute function public.record_audit();
+
+drop trigger if exists audit_visitors_update on public.visitors;
+create trigger audit_visitors_update
+  after update on public.visitors
+  for each row
+  when ((to_jsonb(old) - 'search_vector') is distinct from (to_jsonb(new) - 'search_vector'))
+  execute function public.record_audit();
+
+update public.visitors v
+set search_vector = public.search_vector(
+  v.first_name,
+  v.last_name,
+  v.email,
+  v.phone,
+  (select c.name from public.companies c where c.id = v.company_id)
+);
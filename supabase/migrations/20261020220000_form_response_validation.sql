@@ -0,0 +1,96 @@
+-- Answers to custom forms were only checked in the browser, and visitors
+-- could write any JSON as their response, so an empty response counted as
+-- answering a required form. Responses are now saved through the form
+-- response route, which checks them against the form's fields and writes
+-- with the service role; visitors only read their own. The confirm guard
+-- checks that every required question is answered rather than that a
+-- response exists, so a response saved before the form gained a required
+-- question no longer counts either.
+
+drop policy if exists "Visitors manage own form responses" on public.form_responses;
+
+create policy "Visitors read own form responses"
+  on public.form_responses
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.visitors v
+      where v.id = visitor_id and v.profile_id = auth.uid()
+    )
+  );
+
+-- Whether answers cover every required question the visitor is asked, as
+-- validateAnswers in lib/forms.ts sees it: a question shown only for an
+-- earlier answer is asked when that earlier question is asked and answered
+-- that way. Conditions only look back, so one pass in order will do.
+create or replace function public.form_answers_complete(p_fields jsonb, p_answers jsonb)
+returns boolean
+language plpgsql
+immutable
+as $$
+declare
+  field jsonb;
+  answer jsonb;
+  source_answer jsonb;
+  condition_value text;
+  asked jsonb := '{}';
+  is_asked boolean;
+begin
+  for field in select value from jsonb_array_elements(p_fields) loop
+    is_asked := true;
+
+    if jsonb_typeof(field -> 'showIf') = 'object' then
+      source_answer := p_answers -> (field -> 'showIf' ->> 'fieldId');
+      condition_value := field -> 'showIf' ->> 'value';
+      is_asked := coalesce((asked ->> (field -> 'showIf' ->> 'fieldId'))::boolean, false)
+        and case jsonb_typeof(source_answer)
+          when 'boolean' then source_answer = to_jsonb(condition_value = 'yes')
+          when 'array' then source_answer ? condition_value
+          when 'string' then lower(trim(source_answer #>> '{}')) = lower(trim(condition_value))
+          else false
+        end;
+    end if;
+
+    asked := asked || jsonb_build_object(field ->> 'id', is_asked);
+
+    if is_asked and coalesce((field ->> 'required')::boolean, false) then
+      answer := p_answers -> (field ->> 'id');
+      if not coalesce(case jsonb_typeof(answer)
+        when 'string' then trim(answer #>> '{}') <> ''
+        when 'array' then jsonb_array_length(answer) > 0
+        when 'boolean' then true
+        else false
+      end, false) then
+        return false;
+      end if;
+    end if;
+  end loop;
+
+  return true;
+end;
+$$;
+
+-- As before, counting only responses that answer every required question
+create or replace function public.event_forms_complete(p_event_id uuid, p_visitor_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select not exists (
+    select 1
+    from public.form_events fe
+    join public.forms f on f.id = fe.form_id
+    where fe.event_id = p_event_id
+      and fe.required
+      and not exists (
+        select 1 from public.form_responses fr
+        where fr.form_id = fe.form_id
+          and fr.event_id = p_event_id
+          and fr.visitor_id = p_visitor_id
+          and public.form_answers_complete(f.fields, fr.answers)
+      )
+  );
+$$;